@@ -0,0 +1,254 @@
+/**
+ * 작성자 페이지 컴포넌트
+ * 게시물이나 댓글의 작성자 이름을 클릭했을 때 열리며, 작성자의 프로필과 작성한 게시물·댓글 목록을 보여주는 Windows XP 스타일 창입니다.
+ */
+import React, { useState } from 'react';
+import Window from './Window';
+import WindowMenuBar from './WindowMenuBar';
+import Toast from './Toast';
+import { User, Menu } from '../types';
+import { useUserProfile } from '../src/hooks/useUserProfile';
+import { useAuthorActivity } from '../src/hooks/useAuthorActivity';
+import { useFollows } from '../src/hooks/useFollows';
+import { useWindowManager } from '../src/hooks/useWindowManager';
+import { useShortcut } from '../src/hooks/useShortcuts';
+
+// 기본 프로필 이미지
+const DEFAULT_AVATAR = `data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIzMiIgaGVpZ2h0PSIzMiIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9IiNjY2MiIHN0cm9rZS13aWR0aD0iMiIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIiBzdHJva2UtbGluZWpvaW49InJvdW5kIj48cGF0aCBkPSJNMjAgMjF2LTJhNCA0IDAgMCAwLTQtNEg4YTQgNCAwIDAgMC00IDR2MiI+PC9wYXRoPjxjaXJjbGUgY3g9IjEyIiBjeT0iNyIgcj0iNCI+PC9jaXJjbGU+PC9zdmc+`;
+
+// 댓글 목록에 표시할 내용 최대 길이
+const COMMENT_PREVIEW_LENGTH = 100;
+
+/**
+ * 작성자 페이지 컴포넌트 속성
+ */
+interface AuthorPageProps {
+  /** 창 관리자에 등록된 창 ID */
+  windowId: string;
+  /** 창 닫기 핸들러 */
+  onClose: () => void;
+  /** 현재 로그인된 사용자 정보 */
+  user: User;
+  /** 작성자 ID */
+  authorId: string;
+  /** 게시물/댓글에 표시된 작성자 이름 (프로필 문서가 없을 때 사용) */
+  authorName: string;
+  /** 게시물 열기 핸들러 */
+  onOpenPost: (postId: string) => void;
+}
+
+/**
+ * 작성자 페이지 컴포넌트
+ */
+const AuthorPage: React.FC<AuthorPageProps> = ({ windowId, onClose, user, authorId, authorName, onOpenPost }) => {
+  const { profile } = useUserProfile(authorId);
+  const { posts, comments, loading, error, refresh } = useAuthorActivity(authorId);
+  const { isFollowing, toggleFollow } = useFollows(user.isAnonymous ? undefined : user.uid);
+  const { openWindow } = useWindowManager();
+  const [activeTab, setActiveTab] = useState<'posts' | 'comments'>('posts');
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const isMe = user.uid === authorId;
+  const name = profile?.displayName || authorName;
+  const following = isFollowing('author', authorId);
+
+  // 작성자 팔로우 토글 핸들러
+  const handleToggleFollow = async () => {
+    try {
+      const followed = await toggleFollow('author', authorId);
+      setToast({
+        message: followed ? `${name}님을 팔로우합니다.` : `${name}님 팔로우를 취소했습니다.`,
+        type: 'success',
+      });
+    } catch (err) {
+      console.error('작성자 팔로우 오류:', err);
+      setToast({ message: err instanceof Error ? err.message : '팔로우 설정을 변경하지 못했습니다.', type: 'error' });
+    }
+  };
+
+  // 프로필 창 열기 핸들러
+  const handleOpenProfile = () => {
+    openWindow({ type: 'profile', key: 'profile' });
+  };
+
+  useShortcut('F5', () => { refresh(); }, { description: '작성자 활동 새로 고침', scope: windowId });
+
+  const menus: Menu[] = [
+    {
+      name: '파일',
+      items: [
+        isMe
+          ? { label: '프로필 편집...', action: handleOpenProfile }
+          : { label: following ? '팔로우 취소' : '팔로우', action: handleToggleFollow, disabled: user.isAnonymous },
+        { isSeparator: true },
+        { label: '닫기', action: onClose, shortcut: 'Esc' },
+      ],
+    },
+    {
+      name: '보기',
+      items: [
+        { label: '게시물', action: () => setActiveTab('posts') },
+        { label: '댓글', action: () => setActiveTab('comments') },
+        { isSeparator: true },
+        { label: '새로 고침', action: () => { refresh(); }, shortcut: 'F5' },
+      ],
+    },
+  ];
+
+  // 목록 영역 렌더링
+  const renderList = () => {
+    if (loading && posts.length === 0 && comments.length === 0) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+          작성한 글을 불러오는 중...
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-sm text-red-600 space-y-2 px-4 text-center">
+          <p>{error.message}</p>
+          <button onClick={() => { refresh(); }} className="px-3 py-1 border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover text-black">
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+
+    if (activeTab === 'posts') {
+      if (posts.length === 0) {
+        return (
+          <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+            작성한 게시물이 없습니다.
+          </div>
+        );
+      }
+
+      return (
+        <ul className="flex-1 overflow-auto bg-white text-sm text-black">
+          {posts.map(post => (
+            <li
+              key={post.id}
+              onClick={() => onOpenPost(post.id)}
+              className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 cursor-pointer hover:bg-blue-50"
+              title="게시판에서 열기"
+            >
+              <span className="truncate mr-2">
+                <span className="mr-1">📄</span>
+                {post.title}
+              </span>
+              <span className="flex-shrink-0 text-xs text-gray-500">
+                💬 {post.comments} · {new Date(post.date).toLocaleDateString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      );
+    }
+
+    if (comments.length === 0) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+          작성한 댓글이 없습니다.
+        </div>
+      );
+    }
+
+    return (
+      <ul className="flex-1 overflow-auto bg-white text-sm text-black">
+        {comments.map(({ comment, postTitle }) => {
+          const content = comment.content.replace(/\s+/g, ' ').trim();
+          return (
+            <li
+              key={comment.id}
+              onClick={() => onOpenPost(comment.postId)}
+              className="px-3 py-1.5 border-b border-gray-200 cursor-pointer hover:bg-blue-50"
+              title="게시판에서 열기"
+            >
+              <p className="truncate">
+                <span className="mr-1">💬</span>
+                {content.length > COMMENT_PREVIEW_LENGTH ? `${content.slice(0, COMMENT_PREVIEW_LENGTH)}…` : content}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {postTitle} · {new Date(comment.date).toLocaleString()}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <Window windowId={windowId} title={`${name} - 작성자 정보`} icon="🧑" onClose={onClose}>
+      <WindowMenuBar menus={menus} />
+      {/* 작성자 프로필 */}
+      <div className="flex items-start space-x-3 px-4 py-3 border-b border-gray-300 bg-white text-sm text-black">
+        <img
+          src={profile?.photoURL || DEFAULT_AVATAR}
+          alt={name}
+          className="w-14 h-14 rounded-full border border-gray-300 bg-gray-50 flex-shrink-0"
+          onError={(e) => {
+            (e.target as HTMLImageElement).src = DEFAULT_AVATAR;
+          }}
+        />
+        <div className="flex-grow min-w-0">
+          <p className="font-semibold text-base truncate">{name}</p>
+          {profile?.bio ? (
+            <p className="text-gray-700 whitespace-pre-wrap break-words">{profile.bio}</p>
+          ) : (
+            <p className="text-gray-400">자기소개가 없습니다.</p>
+          )}
+          {profile && (
+            <p className="text-xs text-gray-500 mt-1">가입일: {new Date(profile.createdAt).toLocaleDateString()}</p>
+          )}
+        </div>
+        {isMe ? (
+          <button
+            onClick={handleOpenProfile}
+            className="flex-shrink-0 px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover"
+          >
+            프로필 편집
+          </button>
+        ) : !user.isAnonymous && (
+          <button
+            onClick={handleToggleFollow}
+            className="flex-shrink-0 px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover"
+          >
+            {following ? '✓ 팔로잉' : '+ 팔로우'}
+          </button>
+        )}
+      </div>
+      {/* 탭 */}
+      <div className="flex space-x-1 px-2 pt-2 border-b border-gray-300 bg-winxp-window text-sm">
+        {([
+          { id: 'posts', label: `게시물 (${posts.length})` },
+          { id: 'comments', label: `댓글 (${comments.length})` },
+        ] as const).map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-3 py-1 -mb-px border border-gray-300 rounded-t-winxp ${
+              activeTab === tab.id ? 'bg-white border-b-white text-black' : 'bg-gray-100 text-gray-600 hover:bg-white'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-col flex-grow overflow-hidden">
+        {renderList()}
+      </div>
+      {/* 상태 표시줄 */}
+      <div className="px-3 py-1 text-xs text-gray-600 border-t border-gray-300 bg-winxp-window">
+        게시물 {posts.length}개 · 댓글 {comments.length}개 · 항목을 클릭하면 게시판에서 열립니다.
+      </div>
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
+      )}
+    </Window>
+  );
+};
+
+export default AuthorPage;
@@ -1,9 +1,10 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import type { Post, UIPost, Category, Menu, MenuItem, User } from '../src/types';
+import type { Post, UIPost, Category, Menu, MenuItem, User, BoardSession, BoardNavigation, PostListPreferences, FollowTargetType } from '../src/types';
 import Sidebar from './Sidebar';
 import PostList from './PostList';
+import PostFilterBar from './PostFilterBar';
 import PostDetail from './PostDetail';
-import WindowControls from './WindowControls';
+import Window from './Window';
 import NewPostModal from './NewPostModal';
 import WindowMenuBar from './WindowMenuBar';
 import ConfirmationModal from './ConfirmationModal';
@@ -11,35 +12,73 @@ import Toast from './Toast';
 import { FolderIcon, MessagesSquareIcon, TagIcon, BookmarkIcon } from './icons';
 import { usePosts } from '../src/hooks/usePosts.tsx';
 import { useBookmarks } from '../src/hooks/useBookmarks';
-import { deletePost, updatePost, createPost, movePost } from '../src/services/firebase/firestore';
+import { useReadStatus } from '../src/hooks/useReadStatus';
+import { useFollows } from '../src/hooks/useFollows';
+import { useWindowManager } from '../src/hooks/useWindowManager';
+import { useContextMenu } from '../src/hooks/useContextMenu';
+import { useShortcut } from '../src/hooks/useShortcuts';
+import type { PostBookmarkControl } from './PostItem';
+import { deletePost, updatePost, createPost, movePost, fetchPostById, filterAndSortPosts } from '../src/services/firebase/firestore';
 import { Timestamp } from 'firebase/firestore';
+import { getPostUrl, copyTextToClipboard } from '../src/utils/links';
+import { loadPostListPreferences, savePostListPreferences } from '../src/utils/postListPreferences';
+import { FOLLOWING_CATEGORY_ID, hasFollows, isInFollowingFeed } from '../src/utils/follows';
 
 // 기본 카테고리 데이터 (Firestore 로드 전에 임시로 사용)
 const defaultCategories: Category[] = [
   { id: 'all', name: '모든 게시물', icon: <MessagesSquareIcon /> }
 ];
 
+// 게시판 창 단축키 (메뉴 표시와 키 등록에 함께 사용)
+const BOARD_SHORTCUTS = {
+  newPost: 'Ctrl+N',
+  search: 'Ctrl+F',
+  nextPost: ['J', 'Down'],
+  previousPost: ['K', 'Up'],
+  openPost: 'Enter',
+  closeWindow: 'Esc',
+};
+
 /**
  * 게시판 컴포넌트 속성
  */
 interface BulletinBoardProps {
+    /** 창 관리자에 등록된 창 ID */
+    windowId: string;
     /** 창 닫기 핸들러 */
     onClose: () => void;
     /** 사용자 정보 */
     user: User;
     /** 초기 북마크 표시 여부 */
     initialShowBookmarks?: boolean;
+    /** 복원할 선택 상태 (카테고리, 태그, 게시물, 북마크 모드) */
+    session?: BoardSession;
+    /** 바탕화면 새로 고침 신호 (값이 바뀌면 데이터를 다시 불러옴) */
+    refreshSignal?: number;
+    /** 공유 링크·검색으로 이동할 항목 (요청 ID가 바뀔 때마다 한 번 적용) */
+    navigation?: BoardNavigation | null;
 }
 
 /**
  * 게시판 컴포넌트
  * Windows 11 스타일의 게시판 창을 제공합니다.
  */
-const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialShowBookmarks = false }) => {
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [selectedTag, setSelectedTag] = useState<string | null>(null);
-  const [showBookmarks, setShowBookmarks] = useState<boolean>(initialShowBookmarks);
+const BulletinBoard: React.FC<BulletinBoardProps> = ({ windowId, onClose, user, initialShowBookmarks = false, session, refreshSignal, navigation }) => {
+  const { openWindow, updateWindow } = useWindowManager();
+  const { showContextMenu } = useContextMenu();
+  // 창이 처음 열릴 때의 상태 (복원된 세션 포함) - 이후 속성 변경에 영향받지 않도록 고정
+  const [initialState] = useState(() => ({
+    category: session?.selectedCategory ?? 'all',
+    tag: session?.selectedTag ?? null,
+    postId: session?.selectedPostId ?? null,
+    showBookmarks: session?.showBookmarks ?? initialShowBookmarks,
+  }));
+  const [selectedCategory, setSelectedCategory] = useState<string>(initialState.category);
+  const [selectedTag, setSelectedTag] = useState<string | null>(initialState.tag);
+  const [showBookmarks, setShowBookmarks] = useState<boolean>(initialState.showBookmarks);
   const [searchTerm, setSearchTerm] = useState<string>('');
+  // 정렬 기준 및 기간 필터 (사용자별로 기억)
+  const [listPreferences, setListPreferences] = useState<PostListPreferences>(() => loadPostListPreferences(user.uid));
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [postToEdit, setPostToEdit] = useState<UIPost | null>(null);
@@ -59,6 +98,9 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     visible: false
   });
 
+  // 카테고리, 태그, 작성자 팔로우 (게스트는 팔로우할 수 없음)
+  const { follows, isFollowing, toggleFollow } = useFollows(user?.isAnonymous ? undefined : user?.uid);
+
   // 데이터 로딩을 usePosts 훅에 위임
   const {
     posts: fetchedPosts,
@@ -67,12 +109,29 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     categories,
     categoriesLoading,
     allTags, // This is the correct 'allTags' from the hook
+    hasMore: hasMorePosts,
+    loadingMore: loadingMorePosts,
+    loadMoreError,
+    newPostCount,
+    loadMore: loadMorePosts,
+    showNewPosts,
     refresh: refreshPosts,
   } = usePosts({
     category: selectedCategory, // 'all'을 그대로 전달
     tag: selectedTag || undefined,
+    sort: listPreferences.sort,
+    period: listPreferences.period,
+    realtime: true, // 새 게시물과 댓글 수 변경을 실시간으로 반영
+    follows, // 팔로잉 피드를 선택했을 때 사용
   });
 
+  // 정렬 기준 또는 기간 필터 변경 (변경한 설정은 다음에 창을 열 때도 유지)
+  const handleChangeListPreferences = useCallback((changes: Partial<PostListPreferences>) => {
+    const nextPreferences = { ...listPreferences, ...changes };
+    setListPreferences(nextPreferences);
+    savePostListPreferences(user.uid, nextPreferences);
+  }, [listPreferences, user.uid]);
+
   // 토스트 메시지 표시 함수
   const showToast = useCallback((message: string, type: 'success' | 'error' | 'info' = 'success') => {
     setToast({
@@ -159,13 +218,27 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     loading: bookmarkLoading, 
     error: bookmarkError,
     refresh: refreshBookmarks
-  } = useBookmarks(user?.uid);
+  } = useBookmarks(user?.uid, { realtime: true });
+  
+  // 게시물 읽음 상태 (게스트는 기록하지 않음)
+  const {
+    loaded: readStatusLoaded,
+    getReadEntry,
+    isUnread,
+    getNewCommentCount,
+    markAsRead,
+    getUnreadCounts,
+    refresh: refreshReadStatus,
+  } = useReadStatus(user?.isAnonymous ? undefined : user?.uid);
   
   // 게시물 선택 및 상세 표시 관련 상태 및 함수
   const [selectedPost, setSelectedPost] = useState<UIPost | null>(null);
+  // 키보드 탐색 위치의 게시물 ID (j/k로 이동, Enter로 열기)
+  const [focusedPostId, setFocusedPostId] = useState<string | null>(null);
   const handleSelectPost = useCallback((post: UIPost) => {
     console.log('게시물 선택됨:', post.id, post.title);
     setSelectedPost(post);
+    setFocusedPostId(post.id);
     // 모바일에서는 상세 페이지로 전환
     if (window.innerWidth < 768) {
       setIsMobileDetailView(true);
@@ -195,8 +268,10 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     if (showBookmarks) {
       result = bookmarkedPosts;
       
-      // 북마크 모드에서 카테고리 필터링
-      if (selectedCategory !== 'all') {
+      // 북마크 모드에서 카테고리 필터링 (팔로잉 피드는 팔로우한 항목 기준)
+      if (selectedCategory === FOLLOWING_CATEGORY_ID) {
+        result = result.filter(post => isInFollowingFeed(post, follows));
+      } else if (selectedCategory !== 'all') {
         result = result.filter(post => post.category === selectedCategory);
       }
       
@@ -204,12 +279,15 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
       if (selectedTag) {
         result = result.filter(post => post.tags && post.tags.includes(selectedTag));
       }
+      
+      // 북마크 목록은 쿼리로 정렬할 수 없으므로 불러온 목록에 정렬/기간 필터 적용
+      result = filterAndSortPosts(result, listPreferences);
     } else {
       result = fetchedPosts;
     }
     
     return result;
-  }, [showBookmarks, bookmarkedPosts, fetchedPosts, selectedCategory, selectedTag]);
+  }, [showBookmarks, bookmarkedPosts, fetchedPosts, selectedCategory, selectedTag, listPreferences, follows]);
 
   // 검색 필터링 처리
   const filteredPosts = useMemo(() => {
@@ -222,12 +300,79 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     return posts.filter(post => 
       post.title.toLowerCase().includes(lowerSearchTerm) || 
       post.content.toLowerCase().includes(lowerSearchTerm) ||
+      post.author.name.toLowerCase().includes(lowerSearchTerm) ||
       (post.tags && post.tags.some(tag => tag.toLowerCase().includes(lowerSearchTerm)))
     );
   }, [posts, searchTerm]);
 
+  // 댓글 멘션 자동 완성 후보 (불러온 게시물의 작성자)
+  const mentionCandidates = useMemo(() => {
+    const namesById = new Map<string, string>();
+    fetchedPosts.forEach(post => {
+      if (post.authorId && !namesById.has(post.authorId)) {
+        namesById.set(post.authorId, post.author.name);
+      }
+    });
+    return Array.from(namesById, ([userId, name]) => ({ userId, name }));
+  }, [fetchedPosts]);
+
+  // 카테고리별 읽지 않은 게시물 수 (불러온 게시물 기준)
+  const unreadCounts = useMemo(() => ({
+    ...getUnreadCounts(fetchedPosts),
+    [FOLLOWING_CATEGORY_ID]: fetchedPosts.filter(post => isInFollowingFeed(post, follows) && isUnread(post)).length,
+  }), [fetchedPosts, getUnreadCounts, follows, isUnread]);
+
+  // 선택한 게시물을 이전에 마지막으로 읽은 시간 (이후 작성된 댓글을 새 댓글로 표시)
+  const [selectedPostLastReadAt, setSelectedPostLastReadAt] = useState<string | null>(null);
+  const lastReadCapturedPostIdRef = useRef<string | null>(null);
+
+  // 게시물을 열면 읽음으로 표시 (열어 둔 동안 목록이 새로 고쳐져 댓글 수가 바뀌면 다시 표시)
+  useEffect(() => {
+    if (!selectedPost || !readStatusLoaded) return;
+
+    if (lastReadCapturedPostIdRef.current !== selectedPost.id) {
+      lastReadCapturedPostIdRef.current = selectedPost.id;
+      setSelectedPostLastReadAt(getReadEntry(selectedPost.id)?.readAt ?? null);
+    }
+
+    const latestPost = fetchedPosts.find(post => post.id === selectedPost.id) ?? selectedPost;
+    markAsRead([latestPost]).catch(error => {
+      console.error("게시물 읽음 표시 중 오류:", error);
+    });
+  }, [selectedPost, fetchedPosts, readStatusLoaded, getReadEntry, markAsRead]);
+
+  // 복원할 게시물 ID (목록이 로드되면 한 번만 적용)
+  const restorePostIdRef = useRef<string | null>(initialState.postId);
+
+  // 공유 링크로 연 게시물 ID (현재 목록에 없더라도 선택 상태 유지)
+  const deepLinkPostIdRef = useRef<string | null>(null);
+
   // 게시물 데이터가 로드되면 첫 번째 게시물을 자동으로 선택
   useEffect(() => {
+    if (deepLinkPostIdRef.current && selectedPost?.id === deepLinkPostIdRef.current) {
+      return;
+    }
+    if (!loading && restorePostIdRef.current && filteredPosts.length > 0) {
+      const restorePostId = restorePostIdRef.current;
+      const restoredPost = filteredPosts.find(p => p.id === restorePostId);
+      restorePostIdRef.current = null;
+      if (restoredPost) {
+        setSelectedPost(restoredPost);
+        return;
+      }
+      // 첫 페이지에 없는 게시물은 직접 조회하여 선택 (목록에 없더라도 선택 상태 유지)
+      if (!showBookmarks) {
+        fetchPostById(restorePostId)
+          .then(post => {
+            if (!post) return;
+            deepLinkPostIdRef.current = post.id;
+            setSelectedPost(post);
+          })
+          .catch(error => {
+            console.error("복원할 게시물 조회 중 오류:", error);
+          });
+      }
+    }
     if (!loading && filteredPosts.length > 0 && !selectedPost) {
       setSelectedPost(filteredPosts[0]);
     } else if (!loading && filteredPosts.length === 0) {
@@ -236,19 +381,19 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
       // 선택된 게시물이 필터링된 목록에 없으면 첫 번째 게시물 선택
       setSelectedPost(filteredPosts[0]);
     }
-  }, [loading, filteredPosts, selectedPost]);
+  }, [loading, filteredPosts, selectedPost, showBookmarks]);
 
   // 초기 북마크 설정
   useEffect(() => {
-    if (initialShowBookmarks) {
+    if (initialState.showBookmarks) {
       // 선택 초기화
       clearSelection();
       
       // 안전한 상태 전환을 위해 단계적으로 처리
       setTimeout(() => {
-        // 먼저 카테고리와 태그 초기화
-        setSelectedCategory('all');
-        setSelectedTag(null);
+        // 먼저 카테고리와 태그 초기화 (복원된 세션이 있으면 그 값 사용)
+        setSelectedCategory(initialState.category);
+        setSelectedTag(initialState.tag);
         
         // 약간의 지연 후 북마크 모드 활성화
         setTimeout(() => {
@@ -258,18 +403,86 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
         }, 50);
       }, 10);
     }
-  }, [initialShowBookmarks, refreshBookmarks, clearSelection]);
+  }, [initialState, refreshBookmarks, clearSelection]);
   
   // 컴포넌트 재랜더링 시에도 북마크 설정이 유지되도록 추가
   useEffect(() => {
     // 컴포넌트 마운트 시 북마크 모드 상태 동기화
-    setShowBookmarks(initialShowBookmarks);
+    setShowBookmarks(initialState.showBookmarks);
     
-    if (initialShowBookmarks) {
+    if (initialState.showBookmarks) {
       // 북마크 데이터 로드
       refreshBookmarks();
     }
-  }, [initialShowBookmarks, refreshBookmarks]);
+  }, [initialState, refreshBookmarks]);
+
+  // 마지막으로 처리한 공유 링크 이동 요청 ID
+  const handledNavigationIdRef = useRef<number | null>(null);
+
+  // 공유 링크·검색 이동 요청 처리 (카테고리/태그/검색어는 필터 적용, 게시물은 해당 게시물 열기)
+  useEffect(() => {
+    if (!navigation || handledNavigationIdRef.current === navigation.requestId) return;
+    const { target, requestId } = navigation;
+    handledNavigationIdRef.current = requestId;
+
+    setShowBookmarks(false);
+    setSearchTerm(target.type === 'search' ? target.query : '');
+
+    if (target.type === 'search') {
+      setSelectedCategory('all');
+      setSelectedTag(null);
+      setSelectedPost(null);
+      return;
+    }
+
+    if (target.type === 'category') {
+      setSelectedCategory(target.categoryId);
+      setSelectedTag(null);
+      setSelectedPost(null);
+      return;
+    }
+
+    if (target.type === 'tag') {
+      setSelectedCategory('all');
+      setSelectedTag(target.tag);
+      setSelectedPost(null);
+      return;
+    }
+
+    fetchPostById(target.postId)
+      .then(post => {
+        // 조회하는 동안 다른 링크로 이동한 경우 무시
+        if (handledNavigationIdRef.current !== requestId) return;
+        if (!post) {
+          showToast('게시물을 찾을 수 없습니다. 삭제되었거나 잘못된 링크입니다.', 'error');
+          return;
+        }
+
+        deepLinkPostIdRef.current = post.id;
+        setSelectedCategory(post.category || 'all');
+        setSelectedTag(null);
+        setSelectedPost(post);
+        setFocusedPostId(post.id);
+        if (window.innerWidth < 768) {
+          setIsMobileDetailView(true);
+        }
+      })
+      .catch(error => {
+        showToast('게시물을 불러오지 못했습니다.', 'error');
+        console.error("공유 링크 게시물 조회 중 오류:", error);
+      });
+  }, [navigation, showToast]);
+
+  // 선택 상태가 바뀌면 창 속성에 기록하여 세션 복원에 사용
+  useEffect(() => {
+    const boardSession: BoardSession = {
+      selectedCategory,
+      selectedTag,
+      selectedPostId: selectedPost?.id ?? null,
+      showBookmarks,
+    };
+    updateWindow(windowId, { props: { ...boardSession } });
+  }, [windowId, selectedCategory, selectedTag, selectedPost?.id, showBookmarks, updateWindow]);
 
   // Selection API 에러 방지를 위한 전역 이벤트 리스너 설정
   useEffect(() => {
@@ -342,7 +555,9 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     }
     
     const tagsInCategory = new Set<string>();
-    const postsInCategory = posts.filter(post => post.category === selectedCategory);
+    const postsInCategory = selectedCategory === FOLLOWING_CATEGORY_ID
+      ? posts
+      : posts.filter(post => post.category === selectedCategory);
     
     postsInCategory.forEach(post => {
       if (post.tags && Array.isArray(post.tags)) {
@@ -358,116 +573,21 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     return Array.from(tagsInCategory).sort((a, b) => a.localeCompare(b, 'ko'));
   }, [posts, selectedCategory, allTags]);
   
-  // 사이드바에 표시할 카테고리 (북마크 모드에 따라 다름)
+  // 사이드바에 표시할 카테고리 (북마크 모드에 따라 다름, 로그인 사용자는 '모든 게시물' 다음에 팔로잉 피드 표시)
   const sidebarCategories = useMemo(() => {
-    return showBookmarks ? bookmarkedCategories : categories;
-  }, [showBookmarks, bookmarkedCategories, categories]);
-
-  // Window management state
-  const windowRef = useRef<HTMLDivElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState(false);
-  const minSize = { width: 720, height: 500 };
-  const [size, setSize] = useState({ width: 1178, height: 845 });
-  const [position, setPosition] = useState({ x: 0, y: 0 });
-  const [startPosition, setStartPosition] = useState({ x: 0, y: 0, mouseX: 0, mouseY: 0 });
-  const [startResize, setStartResize] = useState({ width: 0, height: 0, mouseX: 0, mouseY: 0 });
-  const [isMaximized, setIsMaximized] = useState(false);
-  const [preMaximizeState, setPreMaximizeState] = useState<{ size: { width: number; height: number }; position: { x: number; y: number } } | null>(null);
-
-  // 창 위치 초기화
-  useEffect(() => {
-    const TASKBAR_HEIGHT = 48; // Windows 11 작업 표시줄 높이
-    
-    const initialX = Math.max(0, (window.innerWidth - size.width) / 2);
-    // 작업 표시줄 위에 창을 배치
-    const initialY = Math.max(0, (window.innerHeight - TASKBAR_HEIGHT - size.height) / 2);
-    
-    setPosition({ x: initialX, y: initialY });
-  }, []);
-
-  // 창 최대화 처리
-  const handleToggleMaximize = useCallback(() => {
-    const TASKBAR_HEIGHT = 48; // Windows 11 작업 표시줄 높이
-    if (isMaximized) {
-      if (preMaximizeState) {
-        setSize(preMaximizeState.size);
-        setPosition(preMaximizeState.position);
-        setPreMaximizeState(null);
-      }
-      setIsMaximized(false);
-    } else {
-      setPreMaximizeState({ size, position });
-      // 전체화면 모드에서는 작업 표시줄 높이를 고려하여 높이를 설정
-      // 너비는 화면 전체, 높이는 작업 표시줄을 제외한 영역
-      setSize({ width: window.innerWidth, height: window.innerHeight });
-      // 최대화 시에는 창을 화면 맨 위에 위치시킴 (y:0)
-      setPosition({ x: 0, y: 0 });
-      setIsMaximized(true);
-    }
-  }, [isMaximized, preMaximizeState, size, position]);
-
-  // 창 최소화 처리
-  const handleMinimize = useCallback(() => {
-    if (isMaximized) {
-      if (preMaximizeState) {
-        setSize(preMaximizeState.size);
-        setPosition(preMaximizeState.position);
-        setPreMaximizeState(null);
-      }
-      setIsMaximized(false);
-    }
-  }, [isMaximized, preMaximizeState]);
-  
-  // 창 드래그 시작 처리
-  const handleDragStart = useCallback((e: React.MouseEvent<HTMLElement>) => {
-    if (isMaximized || (e.target as HTMLElement).closest('button') || (e.target as HTMLElement).closest('[data-menu-bar]')) {
-      return;
-    }
-    e.preventDefault();
-    setIsDragging(true);
-    setStartPosition({ x: position.x, y: position.y, mouseX: e.clientX, mouseY: e.clientY });
-  }, [isMaximized, position]);
-
-  // 창 크기 조절 시작 처리
-  const handleResizeStart = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    if (isMaximized) {
-      return;
+    const baseCategories = showBookmarks ? bookmarkedCategories : categories;
+    if (user?.isAnonymous || baseCategories.length === 0) {
+      return baseCategories;
     }
-    e.preventDefault();
-    e.stopPropagation();
-    setIsResizing(true);
-    setStartResize({ width: size.width, height: size.height, mouseX: e.clientX, mouseY: e.clientY });
-  }, [isMaximized, size]);
 
-  // 마우스 이동 및 마우스 업 이벤트 처리
-  useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (isDragging) {
-        const dx = e.clientX - startPosition.mouseX;
-        const dy = e.clientY - startPosition.mouseY;
-        setPosition({ x: startPosition.x + dx, y: startPosition.y + dy });
-      }
-      if (isResizing) {
-        const newWidth = startResize.width + (e.clientX - startResize.mouseX);
-        const newHeight = startResize.height + (e.clientY - startResize.mouseY);
-        setSize({ width: Math.max(minSize.width, newWidth), height: Math.max(minSize.height, newHeight) });
-      }
-    };
-    const handleMouseUp = () => {
-      setIsDragging(false);
-      setIsResizing(false);
-    };
-    if (isDragging || isResizing) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp, { once: true });
-    }
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+    const followingCategory: Category = {
+      id: FOLLOWING_CATEGORY_ID,
+      name: '팔로잉',
+      icon: '⭐'
     };
-  }, [isDragging, isResizing, startPosition, startResize, minSize]);
-  
+    return [baseCategories[0], followingCategory, ...baseCategories.slice(1)];
+  }, [showBookmarks, bookmarkedCategories, categories, user?.isAnonymous]);
+
   // 카테고리 선택 처리
   const handleSelectCategory = useCallback((categoryId: string) => {
     console.log('카테고리 선택:', categoryId);
@@ -648,21 +768,25 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
   }, [postToEdit, refreshPosts, refreshBookmarks, showToast, user]);
 
   // 게시물 삭제 관련 함수
-  const requestDeletePost = useCallback(() => {
+  const requestDeletePost = useCallback((postParam?: UIPost) => {
     // 게스트 사용자 확인 및 접근 제한
     if (user?.isAnonymous) {
       showToast('게스트는 게시물을 삭제할 수 없습니다. 로그인 후 이용해주세요.', 'error');
       return;
     }
     
+    // 다른 게시물을 삭제하려는 경우 먼저 해당 게시물을 선택
+    if (postParam) {
+      setSelectedPost(postParam);
+    }
     setIsDeleteModalOpen(true);
   }, [user?.isAnonymous, showToast]);
 
   const confirmDeletePost = useCallback(async () => {
     if (!selectedPost) return;
     try {
-      await deletePost(selectedPost.id);
-      showToast('게시물이 삭제되었습니다.', 'success');
+      await deletePost(selectedPost.id, user?.uid);
+      showToast('게시물을 휴지통으로 이동했습니다.', 'success');
       setIsDeleteModalOpen(false);
       refreshPosts();
       refreshBookmarks();
@@ -670,13 +794,14 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
       showToast('게시물 삭제 중 오류가 발생했습니다.', 'error');
       console.error("게시물 삭제 중 오류:", error);
     }
-  }, [selectedPost, refreshPosts, refreshBookmarks, showToast]);
+  }, [selectedPost, user?.uid, refreshPosts, refreshBookmarks, showToast]);
 
   // 게시물 이동 관련 함수
-  const handleMovePost = useCallback(async (newCategoryId: string) => {
-    if (!selectedPost) return;
+  const handleMovePost = useCallback(async (newCategoryId: string, postParam?: UIPost) => {
+    const post = postParam || selectedPost;
+    if (!post) return;
     try {
-      await movePost(selectedPost.id, newCategoryId);
+      await movePost(post.id, newCategoryId);
       showToast('게시물이 이동되었습니다.', 'success');
       setIsDeleteModalOpen(false); // 이동 후 삭제 모달 닫기
       refreshPosts();
@@ -691,7 +816,8 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
   const refreshPostData = useCallback(() => {
     refreshPosts();
     refreshBookmarks();
-  }, [refreshPosts, refreshBookmarks]);
+    refreshReadStatus();
+  }, [refreshPosts, refreshBookmarks, refreshReadStatus]);
 
   // 게시물 소유자 확인 함수
   const isPostOwner = useCallback((post: UIPost | null) => {
@@ -726,6 +852,145 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
     }, 10);
   }, [user?.isAnonymous, showBookmarks, clearSelection, refreshBookmarks, refreshPosts, showToast]);
   
+  // 게시물 링크 복사
+  const handleCopyPostLink = useCallback(async (post: UIPost) => {
+    try {
+      await copyTextToClipboard(getPostUrl(post.id));
+      showToast('게시물 링크가 복사되었습니다.', 'success');
+    } catch (error) {
+      showToast('링크를 복사하지 못했습니다.', 'error');
+      console.error("링크 복사 중 오류:", error);
+    }
+  }, [showToast]);
+
+  // 게시물들을 모두 읽음으로 표시
+  const handleMarkAllAsRead = useCallback(async (targetPosts: UIPost[], successMessage: string) => {
+    try {
+      await markAsRead(targetPosts);
+      showToast(successMessage, 'success');
+    } catch (error) {
+      showToast('읽음으로 표시하지 못했습니다.', 'error');
+      console.error("모두 읽음 표시 중 오류:", error);
+    }
+  }, [markAsRead, showToast]);
+
+  // 카테고리, 태그, 작성자 팔로우 켜기/끄기
+  const handleToggleFollow = useCallback(async (targetType: FollowTargetType, targetId: string, label: string) => {
+    try {
+      const followed = await toggleFollow(targetType, targetId);
+      showToast(followed ? `${label}을(를) 팔로우했습니다. 팔로잉 피드에서 볼 수 있습니다.` : `${label} 팔로우를 취소했습니다.`, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : '팔로우 설정을 변경하지 못했습니다.', 'error');
+      console.error("팔로우 변경 중 오류:", error);
+    }
+  }, [toggleFollow, showToast]);
+
+  // 게시물 우클릭 메뉴 표시
+  const handlePostContextMenu = useCallback((e: React.MouseEvent, post: UIPost, bookmark: PostBookmarkControl | null) => {
+    const canModify = isPostOwner(post);
+    const moveSubMenu: MenuItem[] = categories
+      .filter(c => c.id !== 'all' && c.id !== post.category)
+      .map(c => ({
+        label: c.name,
+        action: () => handleMovePost(c.id, post),
+      }));
+
+    showContextMenu(e, [
+      { label: '열기', action: () => handleSelectPost(post) },
+      { label: '수정...', action: () => handleOpenEditModal(post), disabled: !canModify },
+      { label: '카테고리 이동', items: moveSubMenu, disabled: !canModify || moveSubMenu.length === 0 },
+      { isSeparator: true },
+      {
+        label: bookmark?.isBookmarked ? '북마크 해제' : '북마크 추가',
+        action: bookmark?.toggle,
+        disabled: !bookmark,
+      },
+      { label: '링크 복사', action: () => handleCopyPostLink(post) },
+      {
+        label: isFollowing('author', post.authorId) ? '작성자 팔로우 취소' : '작성자 팔로우',
+        action: () => handleToggleFollow('author', post.authorId, `${post.author.name}님`),
+        disabled: user?.isAnonymous || !post.authorId || post.authorId === user?.uid,
+      },
+      {
+        label: '읽음으로 표시',
+        action: () => handleMarkAllAsRead([post], '게시물을 읽음으로 표시했습니다.'),
+        disabled: user?.isAnonymous || (!isUnread(post) && getNewCommentCount(post) === 0),
+      },
+      { isSeparator: true },
+      { label: '삭제', action: () => requestDeletePost(post), disabled: !canModify },
+    ]);
+  }, [categories, isPostOwner, showContextMenu, handleSelectPost, handleOpenEditModal, handleMovePost, handleCopyPostLink, isFollowing, handleToggleFollow, handleMarkAllAsRead, isUnread, getNewCommentCount, user?.isAnonymous, user?.uid, requestDeletePost]);
+
+  // 카테고리 우클릭 메뉴 표시 ('모든 게시물'과 팔로잉 피드는 팔로우할 수 없음)
+  const handleCategoryContextMenu = useCallback((e: React.MouseEvent, categoryId: string) => {
+    const categoryName = categories.find(category => category.id === categoryId)?.name || categoryId;
+    showContextMenu(e, [
+      { label: '열기', action: () => handleSelectCategory(categoryId) },
+      { isSeparator: true },
+      {
+        label: isFollowing('category', categoryId) ? '팔로우 취소' : '팔로우',
+        action: () => handleToggleFollow('category', categoryId, `'${categoryName}' 카테고리`),
+        disabled: user?.isAnonymous || categoryId === 'all' || categoryId === FOLLOWING_CATEGORY_ID,
+      },
+    ]);
+  }, [categories, showContextMenu, handleSelectCategory, isFollowing, handleToggleFollow, user?.isAnonymous]);
+
+  // 태그 우클릭 메뉴 표시
+  const handleTagContextMenu = useCallback((e: React.MouseEvent, tag: string) => {
+    showContextMenu(e, [
+      { label: '열기', action: () => handleSelectTag(tag) },
+      { isSeparator: true },
+      {
+        label: isFollowing('tag', tag) ? '팔로우 취소' : '팔로우',
+        action: () => handleToggleFollow('tag', tag, `#${tag} 태그`),
+        disabled: user?.isAnonymous,
+      },
+    ]);
+  }, [showContextMenu, handleSelectTag, isFollowing, handleToggleFollow, user?.isAnonymous]);
+
+  // 바탕화면에서 새로 고침하면 게시물과 북마크를 다시 불러옴
+  const lastRefreshSignalRef = useRef(refreshSignal);
+  useEffect(() => {
+    if (refreshSignal === lastRefreshSignalRef.current) return;
+    lastRefreshSignalRef.current = refreshSignal;
+    refreshPostData();
+  }, [refreshSignal, refreshPostData]);
+
+  // 키보드 탐색 위치 (지정되지 않은 경우 선택된 게시물)
+  const keyboardPostId = focusedPostId ?? selectedPost?.id ?? null;
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // 키보드 탐색 위치를 이전/다음 게시물로 이동
+  const moveKeyboardFocus = useCallback((offset: number) => {
+    if (filteredPosts.length === 0) return;
+    const currentIndex = filteredPosts.findIndex(post => post.id === keyboardPostId);
+    const nextIndex = currentIndex === -1
+      ? (offset > 0 ? 0 : filteredPosts.length - 1)
+      : Math.min(Math.max(currentIndex + offset, 0), filteredPosts.length - 1);
+    setFocusedPostId(filteredPosts[nextIndex].id);
+  }, [filteredPosts, keyboardPostId]);
+
+  // 키보드 탐색 위치의 게시물 열기
+  const openKeyboardFocusedPost = useCallback(() => {
+    const post = filteredPosts.find(p => p.id === keyboardPostId);
+    if (post) {
+      handleSelectPost(post);
+    }
+  }, [filteredPosts, keyboardPostId, handleSelectPost]);
+
+  // 검색창으로 포커스 이동
+  const focusSearchInput = useCallback(() => {
+    searchInputRef.current?.focus();
+    searchInputRef.current?.select();
+  }, []);
+
+  // 게시판 창 단축키 등록 (이 창이 활성화된 경우에만 동작)
+  useShortcut(BOARD_SHORTCUTS.newPost, handleOpenNewPost, { description: '새 게시물 작성', scope: windowId });
+  useShortcut(BOARD_SHORTCUTS.search, focusSearchInput, { description: '게시물 검색', scope: windowId });
+  useShortcut(BOARD_SHORTCUTS.nextPost, () => moveKeyboardFocus(1), { description: '다음 게시물로 이동', scope: windowId });
+  useShortcut(BOARD_SHORTCUTS.previousPost, () => moveKeyboardFocus(-1), { description: '이전 게시물로 이동', scope: windowId });
+  useShortcut(BOARD_SHORTCUTS.openPost, openKeyboardFocusedPost, { description: '게시물 열기', scope: windowId });
+
   // 메뉴 생성 및 업데이트
   useEffect(() => {
     const isPostSelected = selectedPost !== null;
@@ -751,9 +1016,10 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
       {
         name: '파일',
         items: [
-          { label: '새 게시물...', action: handleOpenNewPost },
+          { label: '새 게시물...', action: handleOpenNewPost, shortcut: BOARD_SHORTCUTS.newPost },
+          { label: '새 창', action: () => openWindow({ type: 'board' }) },
           { isSeparator: true },
-          { label: '창 닫기', action: onClose }
+          { label: '창 닫기', action: onClose, shortcut: BOARD_SHORTCUTS.closeWindow }
         ],
       },
       {
@@ -766,7 +1032,7 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
           },
           { 
             label: '게시물 삭제', 
-            action: requestDeletePost, 
+            action: () => requestDeletePost(), 
             disabled: !isPostSelected || !canEditOrDelete 
           },
           { isSeparator: true },
@@ -777,6 +1043,19 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
             disabled: !isPostSelected || !canEditOrDelete || moveSubMenu.length === 0,
             items: moveSubMenu 
           },
+          { isSeparator: true },
+          { label: '게시물 검색', action: focusSearchInput, shortcut: BOARD_SHORTCUTS.search },
+          { isSeparator: true },
+          {
+            label: '모두 읽음으로 표시',
+            action: () => handleMarkAllAsRead(fetchedPosts, '불러온 게시물을 모두 읽음으로 표시했습니다.'),
+            disabled: user?.isAnonymous // 게스트 사용자는 읽음 상태를 기록하지 않음
+          },
+          {
+            label: '현재 목록 읽음으로 표시',
+            action: () => handleMarkAllAsRead(filteredPosts, '현재 목록의 게시물을 읽음으로 표시했습니다.'),
+            disabled: user?.isAnonymous || filteredPosts.length === 0
+          },
         ]
       },
       {
@@ -790,52 +1069,24 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
         ]
       }
     ]);
-  }, [selectedPost, categories, onClose, handleOpenEditModal, requestDeletePost, handleMovePost, handleOpenNewPost, isPostOwner, showBookmarks, handleToggleBookmarks, user?.isAnonymous]);
+  }, [selectedPost, categories, onClose, handleOpenEditModal, requestDeletePost, handleMovePost, handleOpenNewPost, openWindow, isPostOwner, showBookmarks, handleToggleBookmarks, user?.isAnonymous, focusSearchInput, handleMarkAllAsRead, fetchedPosts, filteredPosts]);
   
   return (
-    <div
-      ref={windowRef}
-      style={{
-        position: isMaximized ? 'fixed' : 'absolute',
-        top: isMaximized ? '0' : `${position.y}px`,
-        left: isMaximized ? '0' : `${position.x}px`,
-        width: isMaximized ? '100%' : `${size.width}px`,
-        height: isMaximized ? 'calc(100vh - 48px)' : `${size.height}px`,
-        minWidth: `${minSize.width}px`,
-        minHeight: `${minSize.height}px`,
-        transition: isDragging || isResizing ? 'none' : 'width 0.2s ease, height 0.2s ease, top 0.2s ease, left 0.2s ease'
-      }}
-      className={`bg-white/80 backdrop-blur-xl flex flex-col overflow-hidden z-40 ${
-        isMaximized ? 'rounded-none shadow-none border-none right-0' : 'rounded-xl shadow-win11-window border border-slate-200/80'
-      }`}
+    <Window
+      windowId={windowId}
+      title={showBookmarks ? "북마크" : "게시판"}
+      icon={showBookmarks ? '🔖' : '📝'}
+      onClose={onClose}
+      headerRight={!user?.isAnonymous && (
+        <button 
+          onClick={handleToggleBookmarks}
+          className={`p-2 rounded-full transition-colors ${showBookmarks ? 'bg-win11-blue/10 text-win11-blue' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
+          title={showBookmarks ? "모든 게시물 보기" : "북마크만 보기"}
+        >
+          <BookmarkIcon className="w-5 h-5" fill={showBookmarks ? "currentColor" : "none"} />
+        </button>
+      )}
     >
-      <header
-        onMouseDown={handleDragStart}
-        onDoubleClick={handleToggleMaximize}
-        className={`flex-shrink-0 h-14 flex items-center px-4 border-b border-slate-200/80 ${!isMaximized ? 'cursor-grab active:cursor-grabbing' : ''}`}
-      >
-        <WindowControls 
-          onClose={onClose} 
-          onMaximize={handleToggleMaximize} 
-          isMaximized={isMaximized} 
-        />
-        <div className="flex-grow text-center">
-           <h1 className="font-semibold text-slate-700 select-none">
-              {showBookmarks ? "북마크" : "게시판"}
-           </h1>
-        </div>
-        <div className="w-16 flex justify-end">
-          {!user?.isAnonymous && (
-            <button 
-              onClick={handleToggleBookmarks}
-              className={`p-2 rounded-full transition-colors ${showBookmarks ? 'bg-win11-blue/10 text-win11-blue' : 'text-slate-500 hover:text-slate-700 hover:bg-slate-100'}`}
-              title={showBookmarks ? "모든 게시물 보기" : "북마크만 보기"}
-            >
-              <BookmarkIcon className="w-5 h-5" fill={showBookmarks ? "currentColor" : "none"} />
-            </button>
-          )}
-        </div>
-      </header>
       <WindowMenuBar menus={menus} />
       <main className="flex flex-grow overflow-hidden" style={{ height: 'calc(100% - 56px - 32px)'}}>
         <Sidebar 
@@ -847,17 +1098,42 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
           selectedTag={selectedTag}
           onSelectTag={handleSelectTag}
           showBookmarks={showBookmarks} 
+          unreadCounts={unreadCounts}
+          followedCategories={follows.categories}
+          followedTags={follows.tags}
+          onCategoryContextMenu={handleCategoryContextMenu}
+          onTagContextMenu={handleTagContextMenu}
         />
         <div className="flex-1 flex flex-row overflow-hidden">
           <div className="w-1/3 flex flex-col overflow-hidden">
+            <PostFilterBar
+              currentSort={listPreferences.sort}
+              currentFilter={listPreferences.period}
+              onSort={(sort) => handleChangeListPreferences({ sort })}
+              onFilter={(period) => handleChangeListPreferences({ period })}
+            />
             <PostList 
               posts={filteredPosts} 
               selectedPost={selectedPost} 
+              focusedPostId={keyboardPostId}
+              searchInputRef={searchInputRef}
               onSelectPost={handleSelectPost} 
               loading={loading}
               error={errorMessage}
               searchTerm={searchTerm}
               onSearch={(term) => setSearchTerm(term)}
+              onPostContextMenu={handlePostContextMenu}
+              isUnread={isUnread}
+              getNewCommentCount={getNewCommentCount}
+              hasMore={!showBookmarks && hasMorePosts}
+              loadingMore={!showBookmarks && loadingMorePosts}
+              loadMoreError={showBookmarks ? null : loadMoreError?.message}
+              onLoadMore={showBookmarks ? undefined : loadMorePosts}
+              newPostCount={showBookmarks ? 0 : newPostCount}
+              onShowNewPosts={showNewPosts}
+              emptyMessage={selectedCategory === FOLLOWING_CATEGORY_ID && !hasFollows(follows)
+                ? '팔로우한 카테고리, 태그, 작성자가 없습니다. 카테고리나 태그, 게시물을 우클릭하여 팔로우해 보세요.'
+                : undefined}
             />
           </div>
           <div className="flex-1 overflow-auto bg-slate-50/80">
@@ -865,12 +1141,15 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
               <PostDetail 
                 post={selectedPost} 
                 onEditPost={handleOpenEditModal} 
-                onDeletePost={requestDeletePost}
+                onDeletePost={() => requestDeletePost()}
                 onSelectTag={handleSelectTag}
                 categories={categories.filter(cat => cat.id !== 'all')} // 'all' 카테고리는 제외
                 isPostOwner={isPostOwner(selectedPost)}
                 onRefresh={refreshPostData}
                 userId={user?.uid}
+                onCopyLink={handleCopyPostLink}
+                lastReadAt={selectedPostLastReadAt}
+                mentionCandidates={mentionCandidates}
               />
             ) : (
               <div className="flex items-center justify-center h-full text-slate-500">
@@ -887,7 +1166,7 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
           onSave={handleSavePost}
           postToEdit={postToEdit}
           allTags={allTags}
-          selectedCategory={selectedCategory === 'all' ? null : selectedCategory}
+          selectedCategory={selectedCategory === 'all' || selectedCategory === FOLLOWING_CATEGORY_ID ? null : selectedCategory}
         />
       )}
       {isDeleteModalOpen && selectedPost && (
@@ -900,25 +1179,13 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
                 <>
                     <strong className="font-bold text-slate-900">"{selectedPost.title}"</strong> 게시물을 정말로 삭제하시겠습니까? 
                     <br />
-                    이 작업은 되돌릴 수 없습니다.
+                    삭제한 게시물은 휴지통에서 복원할 수 있습니다.
                 </>
             }
             confirmButtonText="삭제"
             cancelButtonText="취소"
         />
       )}
-       <div
-          onMouseDown={handleResizeStart}
-          className={`absolute bottom-0 right-0 w-4 h-4 cursor-se-resize z-20 ${isMaximized ? 'hidden' : ''}`}
-          aria-label="Resize window"
-        >
-          <svg className="w-full h-full text-slate-400 opacity-60" fill="none" viewBox="0 0 16 16" stroke="currentColor">
-              <path d="M 12 4 L 4 12" strokeWidth="1.5" strokeLinecap="round" />
-              <path d="M 12 7 L 7 12" strokeWidth="1.5" strokeLinecap="round" />
-              <path d="M 12 10 L 10 12" strokeWidth="1.5" strokeLinecap="round" />
-          </svg>
-      </div>
-      
       {/* 토스트 메시지 추가 */}
       {toast.visible && (
         <Toast
@@ -927,7 +1194,7 @@ const BulletinBoard: React.FC<BulletinBoardProps> = ({ onClose, user, initialSho
           onClose={closeToast}
         />
       )}
-    </div>
+    </Window>
   );
 };
 
@@ -0,0 +1,184 @@
+import React, { useState, useRef, useMemo } from 'react';
+import type { MentionCandidate } from '../src/types';
+import { getActiveMention, toMentionHandle } from '../src/utils/mentions';
+import CommentMarkdown from './CommentMarkdown';
+
+// 자동 완성 목록에 표시할 최대 후보 수
+const MAX_SUGGESTIONS = 6;
+
+interface CommentEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  mentionCandidates?: MentionCandidate[];
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+/**
+ * 댓글 입력 컴포넌트
+ * 마크다운 미리보기 전환과 `@사용자이름` 멘션 자동 완성을 제공합니다.
+ * @param value 입력 내용
+ * @param onChange 입력 내용 변경 시 호출되는 콜백 함수
+ * @param mentionCandidates 멘션 자동 완성 후보 (게시물과 댓글 작성자 등)
+ * @param placeholder 입력창 안내 문구
+ * @param rows 입력창 줄 수
+ * @param disabled 비활성화 여부
+ * @param autoFocus 표시할 때 입력창에 포커스할지 여부
+ */
+const CommentEditor: React.FC<CommentEditorProps> = ({
+  value,
+  onChange,
+  mentionCandidates = [],
+  placeholder,
+  rows = 2,
+  disabled = false,
+  autoFocus = false
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isPreview, setIsPreview] = useState(false);
+  // 입력 중인 멘션 (@ 위치와 검색어)
+  const [activeMention, setActiveMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  // 검색어로 시작하는 후보를 먼저, 검색어를 포함하는 후보를 나중에 표시
+  const suggestions = useMemo(() => {
+    if (!activeMention) return [];
+    const query = activeMention.query.toLowerCase();
+    const matches = mentionCandidates.filter(candidate =>
+      toMentionHandle(candidate.name).toLowerCase().includes(query)
+    );
+    return matches
+      .sort((a, b) => {
+        const aStarts = toMentionHandle(a.name).toLowerCase().startsWith(query) ? 0 : 1;
+        const bStarts = toMentionHandle(b.name).toLowerCase().startsWith(query) ? 0 : 1;
+        return aStarts - bStarts || a.name.localeCompare(b.name, 'ko');
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  }, [activeMention, mentionCandidates]);
+
+  // 커서 위치를 기준으로 입력 중인 멘션 갱신
+  const updateActiveMention = (text: string, caret: number) => {
+    setActiveMention(getActiveMention(text, caret));
+    setHighlightedIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateActiveMention(e.target.value, e.target.selectionStart);
+  };
+
+  // 선택한 후보로 입력 중인 멘션을 바꾸고 커서를 멘션 뒤로 이동
+  const selectSuggestion = (candidate: MentionCandidate) => {
+    const textarea = textareaRef.current;
+    if (!activeMention || !textarea) return;
+
+    const mention = `@${toMentionHandle(candidate.name)} `;
+    const caret = textarea.selectionStart;
+    const nextValue = value.slice(0, activeMention.start) + mention + value.slice(caret);
+    onChange(nextValue);
+    setActiveMention(null);
+
+    const nextCaret = activeMention.start + mention.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      selectSuggestion(suggestions[highlightedIndex] ?? suggestions[0]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setActiveMention(null);
+    }
+  };
+
+  return (
+    <div>
+      {/* 작성/미리보기 전환 */}
+      <div className="flex space-x-1 mb-1 text-xs">
+        <button
+          type="button"
+          onClick={() => setIsPreview(false)}
+          className={`px-2 py-0.5 rounded ${!isPreview ? 'bg-slate-200 text-slate-800 font-semibold' : 'text-slate-500 hover:bg-slate-100'}`}
+        >
+          작성
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsPreview(true);
+            setActiveMention(null);
+          }}
+          className={`px-2 py-0.5 rounded ${isPreview ? 'bg-slate-200 text-slate-800 font-semibold' : 'text-slate-500 hover:bg-slate-100'}`}
+        >
+          미리보기
+        </button>
+        <span className="ml-auto self-center text-slate-400">마크다운, @멘션 지원</span>
+      </div>
+
+      {isPreview ? (
+        <div className="min-h-[4rem] p-3 border border-slate-300 rounded-md bg-white">
+          {value.trim() ? (
+            <CommentMarkdown content={value} />
+          ) : (
+            <p className="text-sm text-slate-400">미리 볼 내용이 없습니다.</p>
+          )}
+        </div>
+      ) : (
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => updateActiveMention(value, e.currentTarget.selectionStart)}
+            onBlur={() => setActiveMention(null)}
+            placeholder={placeholder}
+            className="w-full p-3 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            rows={rows}
+            disabled={disabled}
+            autoFocus={autoFocus}
+          />
+
+          {/* 멘션 자동 완성 목록 */}
+          {suggestions.length > 0 && (
+            <ul
+              className="absolute left-2 top-full -mt-1 z-10 w-56 bg-white border border-slate-300 rounded-md shadow-lg py-1 text-sm"
+              role="listbox"
+            >
+              {suggestions.map((candidate, index) => (
+                <li
+                  key={candidate.userId}
+                  role="option"
+                  aria-selected={index === highlightedIndex}
+                  // 입력창의 blur보다 먼저 선택되도록 mousedown에서 처리
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    selectSuggestion(candidate);
+                  }}
+                  onMouseEnter={() => setHighlightedIndex(index)}
+                  className={`px-3 py-1 cursor-pointer ${index === highlightedIndex ? 'bg-win11-blue text-white' : 'text-slate-700'}`}
+                >
+                  @{toMentionHandle(candidate.name)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentEditor;
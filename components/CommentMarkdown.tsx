@@ -0,0 +1,100 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import type { Root, RootContent, PhrasingContent } from 'mdast';
+import { splitMentions } from '../src/utils/mentions';
+
+// 댓글에서 허용하는 마크다운 요소 (제목, 이미지 등 게시물용 요소는 일반 텍스트로 표시)
+const ALLOWED_ELEMENTS = [
+  'p', 'br', 'strong', 'em', 'del', 'a', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'input', 'hr', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'span'
+];
+
+// 멘션 강조용 className만 추가로 허용하는 sanitize 스키마
+const COMMENT_SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    span: [...(defaultSchema.attributes?.span || []), ['className', 'mention']],
+  },
+};
+
+/**
+ * 텍스트 속 `@사용자이름`을 멘션 요소로 바꾸는 remark 플러그인
+ * 코드와 링크 안의 텍스트는 그대로 둡니다.
+ */
+const remarkMentions = () => (tree: Root) => {
+  const transform = (node: Root | RootContent) => {
+    if (!('children' in node) || node.type === 'link' || node.type === 'linkReference') return;
+
+    node.children = (node.children as RootContent[]).flatMap((child): RootContent[] => {
+      if (child.type !== 'text') {
+        transform(child);
+        return [child];
+      }
+
+      const parts = splitMentions(child.value);
+      if (!parts.some(part => part.mention)) return [child];
+
+      return parts.map((part): PhrasingContent => part.mention
+        ? { type: 'text', value: part.text, data: { hName: 'span', hProperties: { className: ['mention'] } } }
+        : { type: 'text', value: part.text });
+    }) as typeof node.children;
+  };
+
+  transform(tree);
+};
+
+interface CommentMarkdownProps {
+  content: string;
+}
+
+/**
+ * 댓글 내용을 마크다운으로 표시하는 컴포넌트
+ * 게시물과 같은 sanitize 파이프라인을 사용하되 댓글에 맞는 요소만 허용하고, 멘션을 강조합니다.
+ * @param content 댓글 내용 (마크다운)
+ */
+const CommentMarkdown: React.FC<CommentMarkdownProps> = ({ content }) => {
+  return (
+    <div className="prose prose-sm prose-slate max-w-none break-words prose-p:my-1 prose-p:text-slate-700 prose-a:text-win11-blue prose-a:no-underline hover:prose-a:underline prose-pre:my-2 prose-pre:bg-slate-800 prose-pre:text-slate-100 prose-pre:rounded-win11 prose-ul:my-1 prose-ol:my-1 prose-blockquote:my-1">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMentions]}
+        rehypePlugins={[[rehypeSanitize, COMMENT_SANITIZE_SCHEMA]]}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        components={{
+          // 링크를 새 탭에서 열도록 설정
+          a: ({ node, ...props }) => (
+            <a {...props} target="_blank" rel="noopener noreferrer" />
+          ),
+          // 멘션 강조
+          span: ({ node, className, ...props }) => (
+            <span
+              {...props}
+              className={className === 'mention' ? 'font-semibold text-win11-blue bg-blue-50 rounded px-0.5' : className}
+            />
+          ),
+          // 코드 블록 스타일 적용
+          code: ({ node, className, children, ...props }: any) => {
+            const match = /language-(\w+)/.exec(className || '');
+            const isInline = !match && !className;
+            return isInline ? (
+              <code className="text-sm bg-slate-100/80 text-slate-800 px-1 py-0.5 rounded-win11" {...props}>
+                {children}
+              </code>
+            ) : (
+              <code className={`${className} text-sm`} {...props}>
+                {children}
+              </code>
+            );
+          }
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default CommentMarkdown;
@@ -1,23 +1,66 @@
-import React, { useState } from 'react';
-import { UIComment } from '../src/types';
+import React, { useState, useMemo } from 'react';
+import { UIComment, UICommentThread, MentionCandidate, ReactionType } from '../src/types';
 import { useComments } from '../src/hooks/useComments';
+import { useReactions } from '../src/hooks/useReactions';
 import { useAuth } from '../src/hooks/useAuth';
+import { useContextMenu } from '../src/hooks/useContextMenu';
+import { useAuthorPage } from '../src/hooks/useAuthorPage';
+import { copyTextToClipboard } from '../src/utils/links';
+import { buildCommentThreads } from '../src/utils/commentThreads';
+import { findMentionedUserIds } from '../src/utils/mentions';
 import { PencilIcon, TrashIcon } from './icons';
+import CommentEditor from './CommentEditor';
+import CommentMarkdown from './CommentMarkdown';
+import ReactionBar from './ReactionBar';
 
 interface CommentSectionProps {
   postId: string | null;
+  lastReadAt?: string | null;
+  mentionCandidates?: MentionCandidate[];
 }
 
 /**
  * 댓글 목록 및 작성 기능을 제공하는 컴포넌트
+ * 답글은 부모 댓글 아래에 스레드로 표시되며, 스레드별로 접고 펼칠 수 있습니다.
+ * 댓글은 마크다운으로 작성하며 `@사용자이름`으로 다른 사용자를 멘션할 수 있습니다.
  * @param postId 게시물 ID
+ * @param lastReadAt 게시물을 이전에 마지막으로 읽은 시간 (이후 작성된 다른 사용자의 댓글을 새 댓글로 표시)
+ * @param mentionCandidates 멘션 자동 완성 후보 (게시판의 게시물 작성자 등, 댓글 작성자는 자동으로 추가)
  */
-const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
-  const { comments, loading, error, addComment, editComment, removeComment } = useComments({ postId });
+const CommentSection: React.FC<CommentSectionProps> = ({ postId, lastReadAt = null, mentionCandidates = [] }) => {
+  const { comments, loading, error, addComment, editComment, removeComment } = useComments({ postId, realtime: true });
   const { user } = useAuth();
+  const { canReact, getSummaries, toggle: toggleReaction } = useReactions(postId);
+  const { showContextMenu } = useContextMenu();
+  const openAuthorPage = useAuthorPage();
   const [newComment, setNewComment] = useState('');
   const [editingComment, setEditingComment] = useState<{ id: string, content: string } | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  // 답글 작성 중인 댓글 ID와 답글 내용
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+  // 답글을 접은 스레드의 댓글 ID
+  const [collapsedThreadIds, setCollapsedThreadIds] = useState<Set<string>>(new Set());
+
+  // 답글 스레드 및 삭제되지 않은 댓글 수 (답글 포함)
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const visibleCommentCount = useMemo(() => comments.filter(comment => !comment.isDeleted).length, [comments]);
+
+  // 멘션 자동 완성 후보 (전달받은 후보와 댓글 작성자, 본인 제외)
+  const allMentionCandidates = useMemo(() => {
+    const candidatesById = new Map<string, MentionCandidate>();
+    [
+      ...mentionCandidates,
+      ...comments
+        .filter(comment => !comment.isDeleted && comment.authorId)
+        .map(comment => ({ userId: comment.authorId, name: comment.author.name }))
+    ].forEach(candidate => {
+      if (candidate.userId !== user?.uid && candidate.name.trim() && !candidatesById.has(candidate.userId)) {
+        candidatesById.set(candidate.userId, candidate);
+      }
+    });
+    return Array.from(candidatesById.values());
+  }, [mentionCandidates, comments, user?.uid]);
   
   // 기본 프로필 이미지
   const defaultAvatar = `data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0MCIgaGVpZ2h0PSI0MCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9IiNjY2MiIHN0cm9rZS13aWR0aD0iMiIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIiBzdHJva2UtbGluZWpvaW49InJvdW5kIj48cGF0aCBkPSJNMjAgMjF2LTJhNCA0IDAgMCAwLTQtNEg4YTQgNCAwIDAgMC00IDR2MiI+PC9wYXRoPjxjaXJjbGUgY3g9IjEyIiBjeT0iNyIgcj0iNCI+PC9jaXJjbGU+PC9zdmc+`;
@@ -36,7 +79,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
     
     try {
       setSubmitting(true);
-      await addComment(newComment);
+      await addComment(newComment, null, findMentionedUserIds(newComment, allMentionCandidates));
       setNewComment(''); // 입력 필드 초기화
     } catch (err) {
       console.error('댓글 작성 오류:', err);
@@ -46,6 +89,69 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
     }
   };
   
+  // 답글 작성 처리
+  const handleSubmitReply = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    
+    if (!replyContent.trim() || !user) return;
+    
+    // 게스트 사용자 확인 및 접근 제한
+    if (user.isAnonymous) {
+      alert('게스트는 답글을 작성할 수 없습니다. 로그인 후 이용해주세요.');
+      return;
+    }
+    
+    try {
+      setSubmitting(true);
+      await addComment(replyContent, parentId, findMentionedUserIds(replyContent, allMentionCandidates));
+      setReplyContent('');
+      setReplyingTo(null);
+      // 답글을 단 스레드는 펼쳐서 새 답글이 보이도록 함
+      setCollapsedThreadIds(prev => {
+        if (!prev.has(parentId)) return prev;
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
+    } catch (err) {
+      console.error('답글 작성 오류:', err);
+      alert(err instanceof Error ? err.message : '답글을 작성하지 못했습니다.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+  
+  // 답글 작성 시작
+  const startReplying = (comment: UIComment) => {
+    if (!user || user.isAnonymous) {
+      alert('게스트는 답글을 작성할 수 없습니다. 로그인 후 이용해주세요.');
+      return;
+    }
+    
+    setEditingComment(null);
+    setReplyingTo(comment.id);
+    setReplyContent('');
+  };
+  
+  // 답글 작성 취소
+  const cancelReplying = () => {
+    setReplyingTo(null);
+    setReplyContent('');
+  };
+  
+  // 스레드 접기/펼치기
+  const toggleThread = (commentId: string) => {
+    setCollapsedThreadIds(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+  
   // 댓글 수정 처리
   const handleUpdateComment = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,7 +166,11 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
     
     try {
       setSubmitting(true);
-      await editComment(editingComment.id, editingComment.content);
+      await editComment(
+        editingComment.id,
+        editingComment.content,
+        findMentionedUserIds(editingComment.content, allMentionCandidates)
+      );
       setEditingComment(null); // 수정 모드 종료
     } catch (err) {
       console.error('댓글 수정 오류:', err);
@@ -88,6 +198,14 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
     }
   };
   
+  // 댓글 반응 남기기/취소
+  const handleToggleCommentReaction = (commentId: string, type: ReactionType) => {
+    toggleReaction('comment', commentId, type).catch(err => {
+      console.error('댓글 반응 처리 오류:', err);
+      alert(err instanceof Error ? err.message : '반응을 남기지 못했습니다.');
+    });
+  };
+  
   // 댓글 수정 모드 시작
   const startEditing = (comment: UIComment) => {
     if (user?.isAnonymous) {
@@ -106,11 +224,210 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
     setEditingComment(null);
   };
   
+  // 댓글 우클릭 메뉴 표시
+  const handleCommentContextMenu = (e: React.MouseEvent, comment: UIComment) => {
+    // 수정 중인 댓글은 브라우저 기본 메뉴(붙여넣기 등)를 사용
+    if (editingComment?.id === comment.id) return;
+    
+    const isOwner = !!user && user.uid === comment.authorId;
+    showContextMenu(e, [
+      { label: '답글', action: () => startReplying(comment), disabled: !user || user.isAnonymous },
+      {
+        label: '내용 복사',
+        action: () => {
+          copyTextToClipboard(comment.content).catch(err => {
+            console.error('댓글 복사 오류:', err);
+            alert('댓글 내용을 복사하지 못했습니다.');
+          });
+        },
+      },
+      { isSeparator: true },
+      { label: '수정', action: () => startEditing(comment), disabled: !isOwner },
+      { label: '삭제', action: () => handleDeleteComment(comment.id), disabled: !isOwner },
+    ]);
+  };
+  
   // 현재 사용자의 프로필 이미지
   const userAvatar = user && !user.isAnonymous && user.photoURL 
     ? user.photoURL 
     : defaultAvatar;
   
+  // 댓글 스레드 렌더링 (답글은 들여쓰기하여 재귀적으로 표시)
+  const renderThread = (thread: UICommentThread): React.ReactNode => {
+    const { comment, replies, replyCount } = thread;
+    const isCollapsed = collapsedThreadIds.has(comment.id);
+    
+    return (
+      <div key={comment.id}>
+        {comment.isDeleted ? (
+          /* 답글이 남아 있는 삭제된 댓글 자리 표시 */
+          <div className="bg-slate-100 rounded-lg p-4 text-sm italic text-slate-500">
+            삭제된 댓글입니다.
+          </div>
+        ) : (
+          <div
+            className="bg-white rounded-lg shadow-sm p-4"
+            onContextMenu={(e) => handleCommentContextMenu(e, comment)}
+          >
+            {/* 댓글 수정 모드 */}
+            {editingComment && editingComment.id === comment.id ? (
+              <form onSubmit={handleUpdateComment} className="space-y-3">
+                <CommentEditor
+                  value={editingComment.content}
+                  onChange={(content) => setEditingComment({ ...editingComment, content })}
+                  mentionCandidates={allMentionCandidates}
+                  rows={3}
+                  disabled={submitting}
+                />
+                <div className="flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    onClick={cancelEditing}
+                    className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
+                    disabled={submitting}
+                  >
+                    취소
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    disabled={submitting}
+                  >
+                    {submitting ? '저장 중...' : '저장'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <>
+                <div className="flex items-start space-x-3">
+                  <img 
+                    src={comment.author.photoURL || defaultAvatar} 
+                    alt={comment.author.name} 
+                    className="w-8 h-8 rounded-full"
+                    onError={(e) => {
+                      // 이미지 로드 실패 시 기본 이미지로 대체
+                      (e.target as HTMLImageElement).src = defaultAvatar;
+                    }}
+                  />
+                  <div className="flex-grow">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <button
+                          type="button"
+                          onClick={() => openAuthorPage(comment.authorId, comment.author.name)}
+                          className="font-semibold text-slate-800 hover:text-win11-blue hover:underline"
+                          title="작성자 페이지 열기"
+                        >
+                          {comment.author.name}
+                        </button>
+                        <span className="text-xs text-slate-500 ml-2">
+                          {new Date(comment.date).toLocaleString()}
+                        </span>
+                        {lastReadAt && comment.authorId !== user?.uid && comment.date > lastReadAt && (
+                          <span className="ml-2 text-xs font-semibold text-white bg-win11-blue px-1.5 rounded-full">
+                            새 댓글
+                          </span>
+                        )}
+                      </div>
+                      
+                      {/* 작성자에게만 보이는 수정/삭제 버튼 */}
+                      {user && user.uid === comment.authorId && (
+                        <div className="flex space-x-1">
+                          <button 
+                            onClick={() => startEditing(comment)}
+                            className="p-1 text-slate-500 hover:text-slate-700"
+                            title="댓글 수정"
+                          >
+                            <PencilIcon className="w-4 h-4" />
+                          </button>
+                          <button 
+                            onClick={() => handleDeleteComment(comment.id)}
+                            className="p-1 text-slate-500 hover:text-red-600"
+                            title="댓글 삭제"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="mt-1">
+                      <CommentMarkdown content={comment.content} />
+                    </div>
+                    <div className="mt-1 flex flex-wrap items-center gap-2">
+                      {user && !user.isAnonymous && (
+                        <button
+                          onClick={() => startReplying(comment)}
+                          className="text-xs text-slate-500 hover:text-blue-600"
+                        >
+                          답글
+                        </button>
+                      )}
+                      <ReactionBar
+                        summaries={getSummaries(comment.id)}
+                        onToggle={(type) => handleToggleCommentReaction(comment.id, type)}
+                        canReact={canReact}
+                        size="sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+        
+        {/* 답글 작성 폼 */}
+        {replyingTo === comment.id && (
+          <form onSubmit={(e) => handleSubmitReply(e, comment.id)} className="mt-2 ml-4 pl-4 border-l-2 border-blue-200 space-y-2">
+            <CommentEditor
+              value={replyContent}
+              onChange={setReplyContent}
+              mentionCandidates={allMentionCandidates}
+              placeholder={`${comment.author.name}님에게 답글 작성...`}
+              disabled={submitting}
+              autoFocus
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={cancelReplying}
+                className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
+                disabled={submitting}
+              >
+                취소
+              </button>
+              <button
+                type="submit"
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                disabled={!replyContent.trim() || submitting}
+              >
+                {submitting ? '작성 중...' : '답글 작성'}
+              </button>
+            </div>
+          </form>
+        )}
+        
+        {/* 답글 목록 (접기/펼치기) */}
+        {replies.length > 0 && (
+          <div className="mt-2 ml-4 pl-4 border-l-2 border-slate-200">
+            <button
+              onClick={() => toggleThread(comment.id)}
+              className="text-xs font-medium text-blue-600 hover:underline"
+              aria-expanded={!isCollapsed}
+            >
+              {isCollapsed ? `▶ 답글 ${replyCount}개 보기` : `▼ 답글 ${replyCount}개 숨기기`}
+            </button>
+            {!isCollapsed && (
+              <div className="mt-2 space-y-3">
+                {replies.map(renderThread)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+  
   if (loading && comments.length === 0) {
     return (
       <div className="p-4 border-t border-slate-200">
@@ -136,7 +453,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
     <div className="border-t border-slate-200">
       {/* 댓글 목록 */}
       <div className="p-4">
-        <h3 className="font-semibold text-slate-800 mb-4">댓글 {comments.length}개</h3>
+        <h3 className="font-semibold text-slate-800 mb-4">댓글 {visibleCommentCount}개</h3>
         
         {comments.length === 0 ? (
           <div className="text-center py-6 text-slate-500">
@@ -144,84 +461,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
           </div>
         ) : (
           <div className="space-y-4">
-            {comments.map(comment => (
-              <div key={comment.id} className="bg-white rounded-lg shadow-sm p-4">
-                {/* 댓글 수정 모드 */}
-                {editingComment && editingComment.id === comment.id ? (
-                  <form onSubmit={handleUpdateComment} className="space-y-3">
-                    <textarea
-                      value={editingComment.content}
-                      onChange={(e) => setEditingComment({ ...editingComment, content: e.target.value })}
-                      className="w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      rows={3}
-                      disabled={submitting}
-                    />
-                    <div className="flex justify-end space-x-2">
-                      <button
-                        type="button"
-                        onClick={cancelEditing}
-                        className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
-                        disabled={submitting}
-                      >
-                        취소
-                      </button>
-                      <button
-                        type="submit"
-                        className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
-                        disabled={submitting}
-                      >
-                        {submitting ? '저장 중...' : '저장'}
-                      </button>
-                    </div>
-                  </form>
-                ) : (
-                  <>
-                    <div className="flex items-start space-x-3">
-                      <img 
-                        src={comment.author.photoURL || defaultAvatar} 
-                        alt={comment.author.name} 
-                        className="w-8 h-8 rounded-full"
-                        onError={(e) => {
-                          // 이미지 로드 실패 시 기본 이미지로 대체
-                          (e.target as HTMLImageElement).src = defaultAvatar;
-                        }}
-                      />
-                      <div className="flex-grow">
-                        <div className="flex justify-between items-center">
-                          <div>
-                            <span className="font-semibold text-slate-800">{comment.author.name}</span>
-                            <span className="text-xs text-slate-500 ml-2">
-                              {new Date(comment.date).toLocaleString()}
-                            </span>
-                          </div>
-                          
-                          {/* 작성자에게만 보이는 수정/삭제 버튼 */}
-                          {user && user.uid === comment.authorId && (
-                            <div className="flex space-x-1">
-                              <button 
-                                onClick={() => startEditing(comment)}
-                                className="p-1 text-slate-500 hover:text-slate-700"
-                                title="댓글 수정"
-                              >
-                                <PencilIcon className="w-4 h-4" />
-                              </button>
-                              <button 
-                                onClick={() => handleDeleteComment(comment.id)}
-                                className="p-1 text-slate-500 hover:text-red-600"
-                                title="댓글 삭제"
-                              >
-                                <TrashIcon className="w-4 h-4" />
-                              </button>
-                            </div>
-                          )}
-                        </div>
-                        <p className="mt-1 text-slate-700 whitespace-pre-wrap">{comment.content}</p>
-                      </div>
-                    </div>
-                  </>
-                )}
-              </div>
-            ))}
+            {threads.map(renderThread)}
           </div>
         )}
       </div>
@@ -240,12 +480,11 @@ const CommentSection: React.FC<CommentSectionProps> = ({ postId }) => {
               }}
             />
             <div className="flex-grow">
-              <textarea
+              <CommentEditor
                 value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                placeholder="댓글을 작성하세요..."
-                className="w-full p-3 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                rows={2}
+                onChange={setNewComment}
+                mentionCandidates={allMentionCandidates}
+                placeholder="댓글을 작성하세요... (마크다운 사용 가능)"
                 disabled={submitting}
               />
               <div className="mt-2 flex justify-end">
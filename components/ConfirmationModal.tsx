@@ -5,6 +5,7 @@
  */
 import React, { useState } from 'react';
 import WindowControls from './WindowControls';
+import { useShortcut } from '../src/hooks/useShortcuts';
 
 interface ConfirmationModalProps {
   isOpen: boolean;
@@ -30,6 +31,9 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
 }) => {
   const [isMaximized, setIsMaximized] = useState(false);
   
+  // 대화상자가 열려 있는 동안 Esc 키로 취소 (창 닫기 단축키보다 우선)
+  useShortcut('Esc', onClose, { description: '대화상자 닫기', enabled: isOpen });
+  
   if (!isOpen) return null;
   
   // 창 최대화/복원 핸들러
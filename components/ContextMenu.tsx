@@ -0,0 +1,88 @@
+/**
+ * 컨텍스트 메뉴 컴포넌트
+ * 마우스 우클릭 위치에 Windows XP 스타일의 팝업 메뉴를 표시합니다.
+ */
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import type { MenuItem } from '../src/types';
+import MenuItemList from './MenuItemList';
+import type { SubMenuSide } from './MenuItemList';
+
+// 서브메뉴 너비 (MenuItemList의 w-48)
+const SUBMENU_WIDTH = 192;
+
+/**
+ * 컨텍스트 메뉴 컴포넌트 속성
+ */
+interface ContextMenuProps {
+  /** 메뉴를 표시할 x 좌표 (화면 기준) */
+  x: number;
+  /** 메뉴를 표시할 y 좌표 (화면 기준) */
+  y: number;
+  /** 메뉴 항목 */
+  items: MenuItem[];
+  /** 메뉴 닫기 핸들러 */
+  onClose: () => void;
+}
+
+/**
+ * 컨텍스트 메뉴 컴포넌트
+ */
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, items, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ x, y });
+  const [submenuSide, setSubmenuSide] = useState<SubMenuSide>('right');
+
+  // 메뉴가 화면 밖으로 나가지 않도록 위치 보정
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+
+    const { width, height } = menu.getBoundingClientRect();
+    const nextX = x + width > window.innerWidth ? Math.max(0, x - width) : x;
+    const nextY = y + height > window.innerHeight ? Math.max(0, y - height) : y;
+
+    setPosition({ x: nextX, y: nextY });
+    setSubmenuSide(nextX + width + SUBMENU_WIDTH > window.innerWidth ? 'left' : 'right');
+  }, [x, y, items]);
+
+  // 메뉴 외부 클릭, Esc 키, 창 크기 변경 시 메뉴 닫기
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // 창 닫기 단축키가 함께 실행되지 않도록 기본 동작 취소
+        event.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('resize', onClose);
+    window.addEventListener('blur', onClose);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('resize', onClose);
+      window.removeEventListener('blur', onClose);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      onContextMenu={(e) => e.preventDefault()}
+      className="fixed z-[60] w-56 bg-winxp-window border border-gray-400 rounded-winxp shadow-winxp-window py-1"
+      style={{ left: `${position.x}px`, top: `${position.y}px` }}
+    >
+      <MenuItemList items={items} closeAllMenus={onClose} submenuSide={submenuSide} />
+    </div>
+  );
+};
+
+export default ContextMenu;
@@ -2,14 +2,26 @@
  * 데스크톱 화면을 표현하는 컴포넌트
  * Windows XP 스타일의 데스크톱 환경을 제공합니다.
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import Taskbar from './Taskbar';
 import StartMenu from './StartMenu';
-import { FolderIcon, SettingsIcon } from './icons';
+import { FolderIcon, SettingsIcon, TrashIconXP, UserIconXP } from './icons';
 import HelpModal from './HelpModal';
 import BulletinBoard from './BulletinBoard';
 import { User } from '../types';
+import type { BoardSession, BoardNavigation, BoardNavigationTarget } from '../src/types';
 import SettingsModal from './SettingsModal';
+import RecycleBin from './RecycleBin';
+import ProfileWindow from './ProfileWindow';
+import AuthorPage from './AuthorPage';
+import WindowSwitcher from './WindowSwitcher';
+import Toast from './Toast';
+import { WindowManagerProvider, useWindowManager } from '../src/hooks/useWindowManager';
+import { ContextMenuProvider, useContextMenu } from '../src/hooks/useContextMenu';
+import { ShortcutProvider } from '../src/hooks/useShortcuts';
+import { useAuth } from '../src/hooks/useAuth';
+import { parseDeepLink } from '../src/utils/links';
 
 // 더 이상 사용하지 않는 로컬 스토리지 키 제거
 // const LOGOUT_FLAG_KEY = 'win11_board_force_logout';
@@ -21,8 +33,6 @@ const DEFAULT_WALLPAPER = '/assets/wallpapers/default.jpg';
 // 대체 배경색
 const FALLBACK_BG_COLOR = '#3A6EA5'; // Windows XP 기본 파란색
 
-type BoardState = 'closed' | 'board' | 'bookmarks';
-
 /**
  * Desktop 컴포넌트 속성
  */
@@ -36,14 +46,31 @@ interface DesktopProps {
 }
 
 /**
- * Desktop 컴포넌트
+ * Desktop 내부 컴포넌트 속성
+ */
+interface DesktopContentProps extends DesktopProps {
+  /** 게스트 계정 업그레이드 핸들러 */
+  onUpgradeAccount: () => void;
+}
+
+/**
+ * Desktop 내부 컴포넌트
+ * 창 관리자 컨텍스트 안에서 데스크톱 화면과 열린 창들을 렌더링합니다.
  */
-const Desktop: React.FC<DesktopProps> = ({ user, onOpenBoard, onLogout }) => {
+const DesktopContent: React.FC<DesktopContentProps> = ({ user, onOpenBoard, onLogout, onUpgradeAccount }) => {
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isHelpModalOpen, setHelpModalOpen] = useState(false);
-  const [isSettingsModalOpen, setSettingsModalOpen] = useState(false);
   const [isStartMenuOpen, setStartMenuOpen] = useState(false);
-  const [boardState, setBoardState] = useState<BoardState>('closed');
+  // 바탕화면 아이콘 정렬 기준
+  const [iconSortOrder, setIconSortOrder] = useState<'default' | 'name'>('default');
+  // 바탕화면 새로 고침 시 증가하는 값 (열린 게시판 창이 데이터를 다시 불러옴)
+  const [refreshSignal, setRefreshSignal] = useState(0);
+  // 공유 링크로 들어왔을 때 게시판 창에 전달할 이동 요청
+  const [boardNavigation, setBoardNavigation] = useState<BoardNavigation | null>(null);
+  const { windows, openWindow, closeWindow } = useWindowManager();
+  const { showContextMenu } = useContextMenu();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [wallpaper, setWallpaper] = useState<string>(() => {
     const type = localStorage.getItem(WALLPAPER_TYPE_KEY);
     if (type === 'default' || !type) {
@@ -63,21 +90,27 @@ const Desktop: React.FC<DesktopProps> = ({ user, onOpenBoard, onLogout }) => {
     }
   }, [wallpaper]);
 
+  // 게시판 창을 열고 지정한 항목(게시물, 카테고리, 태그, 검색어)으로 이동
+  const handleNavigateBoard = useCallback((target: BoardNavigationTarget) => {
+    setBoardNavigation({ target, requestId: Date.now() });
+    openWindow({ type: 'board', key: 'board' });
+  }, [openWindow]);
+
+  // 공유 링크(/post/:id, /category/:id, /tag/:name)로 들어오면 게시판 창을 열고 해당 항목으로 이동
+  useEffect(() => {
+    const target = parseDeepLink(location.pathname);
+    if (!target) return;
+
+    handleNavigateBoard(target);
+    // 처리한 링크는 주소에서 제거 (이후 선택 변경과 주소가 어긋나지 않도록)
+    navigate('/', { replace: true });
+  }, [location.pathname, handleNavigateBoard, navigate]);
+
   // 외부 웹사이트 열기 핸들러
   const handleOpenExternalSite = (url: string) => {
     window.open(url, '_blank');
   };
 
-  const desktopItems = [
-    { id: 'bulletin-board', name: '게시판', Icon: FolderIcon, onOpen: () => setBoardState('board'), color: 'text-winxp-blue' },
-    { id: 'bookmark', name: '북마크', Icon: FolderIcon, onOpen: () => setBoardState('bookmarks'), color: 'text-winxp-blue' },
-    { id: 'settings', name: '설정', Icon: SettingsIcon, onOpen: () => setSettingsModalOpen(true), color: 'text-gray-600' },
-  ];
-
-  const handleCloseBoard = () => {
-    setBoardState('closed');
-  };
-
   const handleWallpaperChange = (wallpaperUrl: string) => {
     if (wallpaperUrl) {
       setWallpaper(wallpaperUrl);
@@ -107,19 +140,63 @@ const Desktop: React.FC<DesktopProps> = ({ user, onOpenBoard, onLogout }) => {
     setStartMenuOpen(!isStartMenuOpen);
   };
 
-  // 게시판 열기 핸들러
+  // 게시판 열기 핸들러 (이미 열려 있으면 해당 창을 앞으로 가져옴)
   const handleOpenBoard = () => {
-    setBoardState('board');
+    openWindow({ type: 'board', key: 'board' });
   };
 
   // 북마크 열기 핸들러
   const handleOpenBookmarks = () => {
-    setBoardState('bookmarks');
+    openWindow({ type: 'board', key: 'bookmarks', title: '북마크', icon: '🔖', props: { initialShowBookmarks: true } });
   };
 
   // 설정 열기 핸들러
   const handleOpenSettings = () => {
-    setSettingsModalOpen(true);
+    openWindow({ type: 'settings', key: 'settings' });
+  };
+
+  // 휴지통 열기 핸들러
+  const handleOpenRecycleBin = () => {
+    openWindow({ type: 'recycleBin', key: 'recycleBin' });
+  };
+
+  // 프로필 열기 핸들러
+  const handleOpenProfile = () => {
+    openWindow({ type: 'profile', key: 'profile' });
+  };
+
+  const baseDesktopItems = [
+    { id: 'bulletin-board', name: '게시판', Icon: FolderIcon, onOpen: handleOpenBoard, color: 'text-winxp-blue' },
+    { id: 'bookmark', name: '북마크', Icon: FolderIcon, onOpen: handleOpenBookmarks, color: 'text-winxp-blue' },
+    { id: 'profile', name: '프로필', Icon: UserIconXP, onOpen: handleOpenProfile, color: 'text-gray-600' },
+    { id: 'settings', name: '설정', Icon: SettingsIcon, onOpen: handleOpenSettings, color: 'text-gray-600' },
+    { id: 'recycle-bin', name: '휴지통', Icon: TrashIconXP, onOpen: handleOpenRecycleBin, color: 'text-gray-600' },
+  ];
+  const desktopItems = iconSortOrder === 'name'
+    ? [...baseDesktopItems].sort((a, b) => a.name.localeCompare(b.name, 'ko'))
+    : baseDesktopItems;
+
+  // 바탕화면 우클릭 메뉴 표시
+  const handleDesktopContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    setStartMenuOpen(false);
+    showContextMenu(e, [
+      {
+        label: '아이콘 정렬',
+        items: [
+          { label: `${iconSortOrder === 'name' ? '✓ ' : ''}이름`, action: () => setIconSortOrder('name') },
+          { label: `${iconSortOrder === 'default' ? '✓ ' : ''}기본 순서`, action: () => setIconSortOrder('default') },
+        ],
+      },
+      {
+        label: '새로 고침',
+        action: () => {
+          setSelectedId(null);
+          setRefreshSignal(prev => prev + 1);
+        },
+      },
+      { isSeparator: true },
+      { label: '속성', action: handleOpenSettings },
+    ]);
   };
 
   // 자동 로그아웃을 유발하는 불필요한 useEffect 제거
@@ -151,6 +228,7 @@ const Desktop: React.FC<DesktopProps> = ({ user, onOpenBoard, onLogout }) => {
         setSelectedId(null);
         if (isStartMenuOpen) setStartMenuOpen(false);
       }}
+      onContextMenu={handleDesktopContextMenu}
       style={bgStyle}
     >
       {/* 데스크탑 아이콘 영역 */}
@@ -185,6 +263,7 @@ const Desktop: React.FC<DesktopProps> = ({ user, onOpenBoard, onLogout }) => {
         onOpenBoard={handleOpenBoard}
         onOpenBookmarks={handleOpenBookmarks}
         onOpenSettings={handleOpenSettings}
+        onOpenPost={(postId) => handleNavigateBoard({ type: 'post', postId })}
       />
 
       {/* 시작 메뉴 */}
@@ -197,26 +276,127 @@ const Desktop: React.FC<DesktopProps> = ({ user, onOpenBoard, onLogout }) => {
         onOpenSettings={handleOpenSettings}
         onOpenHelp={() => setHelpModalOpen(true)}
         onOpenBookmarks={handleOpenBookmarks}
+        onNavigateBoard={handleNavigateBoard}
+        onUpgradeAccount={onUpgradeAccount}
       />
 
       {/* 모달 컴포넌트들 */}
       {isHelpModalOpen && <HelpModal isOpen={isHelpModalOpen} onClose={() => setHelpModalOpen(false)} />}
-      {isSettingsModalOpen && (
-        <SettingsModal
-          isOpen={isSettingsModalOpen}
-          onClose={() => setSettingsModalOpen(false)}
-          onWallpaperChange={handleWallpaperChange}
-        />
-      )}
-      {boardState !== 'closed' && (
-        <BulletinBoard
-          onClose={handleCloseBoard}
-          user={user}
-          initialShowBookmarks={boardState === 'bookmarks'}
-        />
-      )}
+      {/* 창 관리자에 등록된 앱 창들 (새 게시물 창은 게시판이 직접 렌더링) */}
+      {windows.map(win => {
+        switch (win.type) {
+          case 'board':
+            return (
+              <BulletinBoard
+                key={win.id}
+                windowId={win.id}
+                onClose={() => closeWindow(win.id)}
+                user={user}
+                initialShowBookmarks={win.props?.initialShowBookmarks === true}
+                session={win.props as BoardSession | undefined}
+                refreshSignal={refreshSignal}
+                navigation={win.key === 'board' ? boardNavigation : null}
+              />
+            );
+          case 'settings':
+            return (
+              <SettingsModal
+                key={win.id}
+                windowId={win.id}
+                onClose={() => closeWindow(win.id)}
+                onWallpaperChange={handleWallpaperChange}
+              />
+            );
+          case 'recycleBin':
+            return (
+              <RecycleBin
+                key={win.id}
+                windowId={win.id}
+                onClose={() => closeWindow(win.id)}
+                user={user}
+              />
+            );
+          case 'profile':
+            return (
+              <ProfileWindow
+                key={win.id}
+                windowId={win.id}
+                onClose={() => closeWindow(win.id)}
+                user={user}
+                onUpgradeAccount={onUpgradeAccount}
+              />
+            );
+          case 'author':
+            return (
+              <AuthorPage
+                key={win.id}
+                windowId={win.id}
+                onClose={() => closeWindow(win.id)}
+                user={user}
+                authorId={String(win.props?.authorId ?? '')}
+                authorName={String(win.props?.authorName ?? '')}
+                onOpenPost={(postId) => handleNavigateBoard({ type: 'post', postId })}
+              />
+            );
+          default:
+            return null;
+        }
+      })}
+
+      {/* Alt+Tab / Ctrl+` 창 전환 화면 */}
+      <WindowSwitcher />
     </div>
   );
 };
 
+/**
+ * Desktop 컴포넌트
+ * 게스트 계정 업그레이드 결과는 이미 가입된 Google 계정으로 바뀌어 창 관리자가 다시 만들어져도
+ * 보이도록 창 관리자 바깥에서 표시합니다.
+ */
+const Desktop: React.FC<DesktopProps> = (props) => {
+  const { upgradeAccount } = useAuth();
+  const [upgradeToast, setUpgradeToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const isUpgradingRef = useRef(false);
+
+  // 게스트 계정 업그레이드 핸들러
+  const handleUpgradeAccount = useCallback(async () => {
+    if (isUpgradingRef.current) return;
+
+    try {
+      isUpgradingRef.current = true;
+      const result = await upgradeAccount();
+      setUpgradeToast({
+        message: result.merged
+          ? `기존 Google 계정(${result.user.displayName})으로 로그인하고 게스트 데이터 ${result.movedCount}개를 옮겼습니다.`
+          : `Google 계정이 연결되었습니다. ${result.user.displayName}님, 환영합니다!`,
+        type: 'success',
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '계정 업그레이드 중 오류가 발생했습니다.';
+      // 사용자가 로그인 창을 닫은 경우는 알리지 않음
+      if (message !== '로그인 창이 닫혔습니다. 다시 시도해주세요.') {
+        setUpgradeToast({ message, type: 'error' });
+      }
+    } finally {
+      isUpgradingRef.current = false;
+    }
+  }, [upgradeAccount]);
+
+  return (
+    <>
+      <WindowManagerProvider key={props.user.uid} userId={props.user.uid}>
+        <ShortcutProvider>
+          <ContextMenuProvider>
+            <DesktopContent {...props} onUpgradeAccount={handleUpgradeAccount} />
+          </ContextMenuProvider>
+        </ShortcutProvider>
+      </WindowManagerProvider>
+      {upgradeToast && (
+        <Toast message={upgradeToast.message} type={upgradeToast.type} duration={5000} onClose={() => setUpgradeToast(null)} />
+      )}
+    </>
+  );
+};
+
 export default Desktop;
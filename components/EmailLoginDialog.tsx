@@ -0,0 +1,330 @@
+/**
+ * 이메일 로그인 대화상자 컴포넌트
+ * 로그인 화면에서 이메일/비밀번호 로그인, 회원가입, 비밀번호 재설정, 이메일 링크 로그인을 제공하는 Windows XP 스타일 대화상자입니다.
+ */
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../src/hooks/useAuth';
+import { getStoredSignInEmail, MIN_PASSWORD_LENGTH } from '../src/services/firebase/auth';
+import { MAX_DISPLAY_NAME_LENGTH } from '../src/services/firebase/users';
+
+/**
+ * 대화상자 모드
+ * - signIn: 이메일/비밀번호 로그인
+ * - signUp: 회원가입
+ * - reset: 비밀번호 재설정 메일 요청
+ * - link: 로그인 링크 요청
+ * - completeLink: 받은 로그인 링크로 로그인 (다른 브라우저에서 연 경우 이메일 확인)
+ */
+export type EmailLoginMode = 'signIn' | 'signUp' | 'reset' | 'link' | 'completeLink';
+
+// 탭으로 전환할 수 있는 모드
+const TABS: { id: EmailLoginMode; label: string }[] = [
+  { id: 'signIn', label: '로그인' },
+  { id: 'signUp', label: '회원가입' },
+  { id: 'link', label: '이메일 링크' },
+];
+
+// 모드별 확인 버튼 문구
+const SUBMIT_LABELS: Record<EmailLoginMode, string> = {
+  signIn: '로그인',
+  signUp: '가입하기',
+  reset: '재설정 메일 보내기',
+  link: '로그인 링크 보내기',
+  completeLink: '로그인',
+};
+
+/**
+ * 이메일 로그인 대화상자 컴포넌트 속성
+ */
+interface EmailLoginDialogProps {
+  /** 처음 표시할 모드 */
+  initialMode?: EmailLoginMode;
+  /** 로그인 링크로 접속한 경우 링크 주소 */
+  signInLink?: string;
+  /** 대화상자 닫기 핸들러 */
+  onClose: () => void;
+}
+
+/**
+ * 이메일 로그인 대화상자 컴포넌트
+ */
+const EmailLoginDialog: React.FC<EmailLoginDialogProps> = ({ initialMode = 'signIn', signInLink, onClose }) => {
+  const {
+    signInWithEmail,
+    signUpWithEmail,
+    sendPasswordReset,
+    sendSignInLink,
+    completeEmailLinkSignIn,
+    isLoading,
+    error,
+    clearError
+  } = useAuth();
+  const [mode, setMode] = useState<EmailLoginMode>(initialMode);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordConfirm, setPasswordConfirm] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // 저장된 이메일로 링크 로그인을 한 번만 자동 실행
+  const autoCompletedRef = useRef(false);
+
+  // 같은 브라우저에서 로그인 링크를 열었으면 저장된 이메일로 바로 로그인
+  useEffect(() => {
+    if (mode !== 'completeLink' || !signInLink || autoCompletedRef.current) return;
+
+    const storedEmail = getStoredSignInEmail();
+    if (!storedEmail) return;
+
+    autoCompletedRef.current = true;
+    setEmail(storedEmail);
+    setIsSubmitting(true);
+    completeEmailLinkSignIn(storedEmail, signInLink).finally(() => setIsSubmitting(false));
+  }, [mode, signInLink, completeEmailLinkSignIn]);
+
+  // 모드 전환 핸들러 (입력한 이메일은 유지)
+  const changeMode = (nextMode: EmailLoginMode) => {
+    setMode(nextMode);
+    setPassword('');
+    setPasswordConfirm('');
+    setFormError(null);
+    setNotice(null);
+    clearError();
+  };
+
+  /**
+   * 입력값을 검증하는 함수
+   * @returns 오류 메시지 (올바르면 null)
+   */
+  const validate = (): string | null => {
+    if (!email.trim()) {
+      return '이메일 주소를 입력해 주세요.';
+    }
+    if (mode === 'signIn' && !password) {
+      return '비밀번호를 입력해 주세요.';
+    }
+    if (mode === 'signUp') {
+      if (!displayName.trim()) {
+        return '표시 이름을 입력해 주세요.';
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상으로 입력해 주세요.`;
+      }
+      if (password !== passwordConfirm) {
+        return '비밀번호가 일치하지 않습니다.';
+      }
+    }
+    return null;
+  };
+
+  /**
+   * 폼 제출 핸들러
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    const validationError = validate();
+    setFormError(validationError);
+    setNotice(null);
+    if (validationError) return;
+
+    setIsSubmitting(true);
+    try {
+      switch (mode) {
+        case 'signIn':
+          // 성공하면 App이 인증 상태 변경을 감지해 바탕화면으로 전환
+          await signInWithEmail(email, password);
+          break;
+        case 'completeLink':
+          if (signInLink) {
+            await completeEmailLinkSignIn(email, signInLink);
+          }
+          break;
+        case 'signUp':
+          if (await signUpWithEmail(email, password, displayName)) {
+            changeMode('signIn');
+            setNotice(`${email.trim()}(으)로 인증 메일을 보냈습니다. 메일의 링크를 눌러 인증한 뒤 로그인해 주세요.`);
+          }
+          break;
+        case 'reset':
+          if (await sendPasswordReset(email)) {
+            changeMode('signIn');
+            setNotice(`${email.trim()}(으)로 비밀번호 재설정 메일을 보냈습니다. 메일의 안내에 따라 새 비밀번호를 설정해 주세요.`);
+          }
+          break;
+        case 'link':
+          if (await sendSignInLink(email)) {
+            setNotice(`${email.trim()}(으)로 로그인 링크를 보냈습니다. 이 브라우저에서 메일의 링크를 열면 바로 로그인됩니다.`);
+          }
+          break;
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Esc 키로 닫기
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const isBusy = isSubmitting || isLoading;
+  const message = formError || error;
+  const inputClassName = 'w-full px-2 py-1 border border-gray-400 rounded-sm focus:outline-none focus:border-winxp-blue disabled:bg-gray-100';
+  const buttonClassName = 'px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 flex items-center justify-center z-50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="email-login-title"
+    >
+      <div
+        className="w-full max-w-sm m-4 flex flex-col overflow-hidden bg-winxp-window border-2 border-winxp-border rounded-winxp-lg shadow-winxp-window font-winxp text-sm text-black"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {/* 제목 표시줄 */}
+        <div className="flex items-center justify-between h-8 px-2 bg-winxp-gradient text-white select-none">
+          <h2 id="email-login-title" className="font-bold truncate" style={{ textShadow: '1px 1px 1px rgba(0,0,0,0.5)' }}>
+            {mode === 'reset' ? '비밀번호 재설정' : mode === 'completeLink' ? '이메일 링크 로그인' : '이메일로 로그인'}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-5 h-5 flex items-center justify-center rounded-sm bg-red-500 hover:bg-red-400 border border-white/70 text-xs font-bold"
+            aria-label="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* 탭 */}
+        {mode !== 'completeLink' && (
+          <div className="flex space-x-1 px-2 pt-2 border-b border-gray-300">
+            {TABS.map(tab => (
+              <button
+                key={tab.id}
+                type="button"
+                onClick={() => changeMode(tab.id)}
+                className={`px-3 py-1 -mb-px border border-gray-300 rounded-t-winxp ${
+                  mode === tab.id ? 'bg-white border-b-white text-black' : 'bg-gray-100 text-gray-600 hover:bg-white'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-3 bg-white">
+          {mode === 'link' && (
+            <p className="text-xs text-gray-600">비밀번호 없이 메일로 받은 링크를 눌러 로그인합니다. 처음 사용하는 이메일이면 계정이 새로 만들어집니다.</p>
+          )}
+          {mode === 'reset' && (
+            <p className="text-xs text-gray-600">가입한 이메일 주소를 입력하면 비밀번호를 다시 설정할 수 있는 링크를 보내드립니다.</p>
+          )}
+          {mode === 'completeLink' && (
+            <p className="text-xs text-gray-600">로그인 링크를 요청한 이메일 주소를 입력해 주세요.</p>
+          )}
+
+          {mode === 'signUp' && (
+            <label className="block">
+              <span className="block mb-1">표시 이름</span>
+              <input
+                type="text"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                maxLength={MAX_DISPLAY_NAME_LENGTH}
+                className={inputClassName}
+                disabled={isBusy}
+                autoComplete="nickname"
+              />
+            </label>
+          )}
+
+          <label className="block">
+            <span className="block mb-1">이메일</span>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              className={inputClassName}
+              disabled={isBusy}
+              autoComplete="email"
+              autoFocus
+            />
+          </label>
+
+          {(mode === 'signIn' || mode === 'signUp') && (
+            <label className="block">
+              <span className="block mb-1">비밀번호</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={mode === 'signUp' ? `${MIN_PASSWORD_LENGTH}자 이상` : undefined}
+                className={inputClassName}
+                disabled={isBusy}
+                autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+              />
+            </label>
+          )}
+
+          {mode === 'signUp' && (
+            <label className="block">
+              <span className="block mb-1">비밀번호 확인</span>
+              <input
+                type="password"
+                value={passwordConfirm}
+                onChange={(e) => setPasswordConfirm(e.target.value)}
+                className={inputClassName}
+                disabled={isBusy}
+                autoComplete="new-password"
+              />
+            </label>
+          )}
+
+          {/* 안내 및 오류 메시지 */}
+          {notice && !message && (
+            <p className="px-2 py-1.5 border border-green-400 bg-green-50 text-green-700 rounded-sm">{notice}</p>
+          )}
+          {message && (
+            <p className="px-2 py-1.5 border border-red-400 bg-red-50 text-red-700 rounded-sm">{message}</p>
+          )}
+
+          <div className="flex items-center justify-between pt-1">
+            {mode === 'signIn' ? (
+              <button type="button" onClick={() => changeMode('reset')} className="text-xs text-blue-700 hover:underline">
+                비밀번호를 잊으셨나요?
+              </button>
+            ) : mode === 'reset' ? (
+              <button type="button" onClick={() => changeMode('signIn')} className="text-xs text-blue-700 hover:underline">
+                로그인으로 돌아가기
+              </button>
+            ) : (
+              <span />
+            )}
+            <div className="flex space-x-2">
+              <button type="button" onClick={onClose} className={buttonClassName}>
+                취소
+              </button>
+              <button type="submit" disabled={isBusy} className={`${buttonClassName} font-semibold`}>
+                {isBusy ? '처리 중...' : SUBMIT_LABELS[mode]}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EmailLoginDialog;
@@ -2,8 +2,11 @@
  * 도움말 모달 컴포넌트
  * Windows 11 스타일의 도움말 창을 제공합니다.
  */
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import WindowControls from './WindowControls';
+import { useWindowManager } from '../src/hooks/useWindowManager';
+import { useShortcut, useShortcutList } from '../src/hooks/useShortcuts';
+import { formatShortcut } from '../src/utils/shortcuts';
 
 interface HelpModalProps {
   isOpen: boolean;
@@ -22,12 +25,50 @@ const HelpSection: React.FC<{ title: string; children: React.ReactNode }> = ({ t
   </div>
 );
 
+/**
+ * 단축키 그룹 (전역 또는 창 단위)
+ */
+interface ShortcutGroup {
+  title: string;
+  items: { keys: string; description: string }[];
+}
+
 /**
  * 도움말 모달 컴포넌트
  */
 const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
   // 창 상태 관리
   const [isMaximized, setIsMaximized] = useState(false);
+  const { windows } = useWindowManager();
+  const shortcuts = useShortcutList();
+  
+  // 도움말이 열려 있는 동안 Esc 키로 닫기
+  useShortcut('Esc', onClose, { description: '도움말 닫기', scope: null, enabled: isOpen });
+  
+  // 등록된 단축키를 전역/창 제목별로 묶음 (같은 제목의 창은 하나로 표시)
+  const shortcutGroups = useMemo(() => {
+    const groups: ShortcutGroup[] = [];
+    const scopes: (string | null)[] = [null, ...windows.map(w => w.id)];
+
+    scopes.forEach(scope => {
+      const title = scope === null ? '공통' : windows.find(w => w.id === scope)?.title ?? '';
+      let group = groups.find(g => g.title === title);
+      shortcuts.filter(s => s.scope === scope).forEach(shortcut => {
+        if (!group) {
+          group = { title, items: [] };
+          groups.push(group);
+        }
+        if (!group.items.some(item => item.description === shortcut.description)) {
+          group.items.push({
+            keys: shortcut.keys.map(formatShortcut).join(' / '),
+            description: shortcut.description,
+          });
+        }
+      });
+    });
+
+    return groups;
+  }, [shortcuts, windows]);
   
   if (!isOpen) return null;
   
@@ -72,6 +113,7 @@ const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
             <li><strong className="font-semibold text-slate-700">글 선택:</strong> 중앙 목록에서 게시물을 클릭하여 내용을 확인합니다.</li>
             <li><strong className="font-semibold text-slate-700">글 수정/삭제:</strong> 게시물을 선택한 후, 상단 메뉴에서 '편집 &gt; 수정...' 또는 '편집 &gt; 삭제'를 선택하세요.</li>
             <li><strong className="font-semibold text-slate-700">글 이동:</strong> 게시물을 선택한 후, '편집 &gt; 게시물 이동' 메뉴를 통해 다른 카테고리로 옮길 수 있습니다.</li>
+            <li><strong className="font-semibold text-slate-700">작성자 페이지:</strong> 게시물이나 댓글의 작성자 이름을 클릭하면 작성자의 프로필과 작성한 게시물·댓글 목록이 열립니다.</li>
             <li><strong className="font-semibold text-slate-700">글 필터링:</strong> 상단의 필터 바를 사용하여 게시물을 검색하거나 정렬할 수 있습니다.</li>
           </HelpSection>
           
@@ -80,15 +122,26 @@ const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
             <li><strong className="font-semibold text-slate-700">아이콘 선택:</strong> 바탕화면의 아이콘을 클릭하여 선택합니다.</li>
             <li><strong className="font-semibold text-slate-700">게시판 열기:</strong> '게시판' 아이콘을 클릭하면 게시판 앱이 열립니다.</li>
             <li><strong className="font-semibold text-slate-700">북마크 열기:</strong> '북마크' 아이콘을 클릭하면 북마크된 게시물 목록이 열립니다.</li>
-            <li><strong className="font-semibold text-slate-700">프로필 관리:</strong> '프로필' 아이콘을 클릭하여 사용자 프로필을 확인하고 관리할 수 있습니다.</li>
+            <li><strong className="font-semibold text-slate-700">프로필 관리:</strong> '프로필' 아이콘을 클릭하여 표시 이름, 자기소개, 프로필 이미지를 확인하고 수정할 수 있습니다.</li>
+            <li><strong className="font-semibold text-slate-700">계정 업그레이드:</strong> 게스트로 로그인한 경우 시작 메뉴의 '계정 업그레이드'로 Google 계정을 연결하면 지금까지의 데이터를 유지할 수 있습니다.</li>
             <li><strong className="font-semibold text-slate-700">설정:</strong> '설정' 아이콘을 클릭하여 앱 설정을 변경할 수 있습니다.</li>
           </HelpSection>
           
           <HelpSection title="단축키">
-            <li><strong className="font-semibold text-slate-700">Esc:</strong> 현재 창 닫기</li>
-            <li><strong className="font-semibold text-slate-700">Ctrl+N:</strong> 새 게시물 작성</li>
-            <li><strong className="font-semibold text-slate-700">Ctrl+F:</strong> 게시물 검색</li>
-            <li><strong className="font-semibold text-slate-700">Ctrl+S:</strong> 게시물 저장 (작성/편집 시)</li>
+            <li>단축키는 현재 활성화된 창에서 동작합니다. 열려 있는 창의 단축키가 아래에 표시됩니다.</li>
+            {shortcutGroups.map(group => (
+              <li key={group.title}>
+                <strong className="font-semibold text-slate-700">{group.title}</strong>
+                <ul className="mt-1 ml-5 space-y-1 list-[circle] list-inside">
+                  {group.items.map(item => (
+                    <li key={item.description}>
+                      <kbd className="px-1.5 py-0.5 text-xs font-mono bg-slate-100 border border-slate-300 rounded">{item.keys}</kbd>
+                      {' '}{item.description}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
           </HelpSection>
         </div>
         
@@ -1,17 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { GoogleIcon, UserIcon } from './icons';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { GoogleIcon, UserIcon, EnvelopeIcon } from './icons';
+import EmailLoginDialog from './EmailLoginDialog';
 import { useAuth } from '../src/hooks/useAuth';
+import { isEmailSignInLink } from '../src/services/firebase/auth';
+import { parseDeepLink } from '../src/utils/links';
 import type { User } from '../types';
 
 /**
  * 로그인 화면 컴포넌트
- * Google 로그인 및 게스트 로그인 기능을 제공
+ * Google 로그인, 이메일 로그인 및 게스트 로그인 기능을 제공
  */
 const LoginScreen: React.FC = () => {
   const [time, setTime] = useState(new Date());
   // onLogin 콜백이 제거되었으므로, user 객체는 더 이상 여기서 직접 사용하지 않습니다.
   const { signInWithGoogle, signInAnonymously, isLoading, error } = useAuth();
   const [loginError, setLoginError] = useState<string | null>(null);
+  // 공유 링크로 접속한 경우 로그인 후 이동할 항목 (주소가 유지되므로 로그인 후 Desktop이 처리)
+  const location = useLocation();
+  const navigate = useNavigate();
+  // 메일로 받은 로그인 링크로 접속했으면 링크 주소를 보관 (대화상자에서 로그인 처리)
+  const [signInLink, setSignInLink] = useState(() => (isEmailSignInLink(window.location.href) ? window.location.href : null));
+  const [isEmailDialogOpen, setIsEmailDialogOpen] = useState(!!signInLink);
+  const deepLinkTarget = parseDeepLink(location.pathname);
+  const deepLinkLabel = deepLinkTarget
+    ? { post: '게시물', category: '카테고리', tag: '태그' }[deepLinkTarget.type]
+    : null;
 
   // 시계 업데이트를 위한 타이머 설정
   useEffect(() => {
@@ -42,6 +56,22 @@ const LoginScreen: React.FC = () => {
     }
   };
   
+  // 로그인 링크의 인증 정보가 주소에 남지 않도록 지움 (로그아웃 후 만료된 링크를 다시 사용하지 않도록)
+  useEffect(() => {
+    if (signInLink) {
+      navigate(location.pathname, { replace: true });
+    }
+    // 처음 접속했을 때만 실행
+  }, []);
+
+  /**
+   * 이메일 로그인 대화상자 닫기 함수
+   */
+  const handleCloseEmailDialog = () => {
+    setIsEmailDialogOpen(false);
+    setSignInLink(null);
+  };
+
   /**
    * 게스트 로그인 처리 함수
    * 익명 인증을 통한 게스트 로그인을 수행
@@ -90,6 +120,20 @@ const LoginScreen: React.FC = () => {
             <span className="text-white font-semibold text-lg" style={{ textShadow: '1px 1px 3px rgba(0,0,0,0.7)' }}>Google</span>
           </div>
           
+          {/* 이메일 로그인 버튼 */}
+          <div className="flex flex-col items-center">
+            <button 
+              onClick={() => setIsEmailDialogOpen(true)} 
+              className="w-24 h-24 rounded-full bg-winxp-blue-light shadow-lg flex items-center justify-center mb-3 focus:outline-none focus:ring-4 focus:ring-blue-300/50 transition-transform transform hover:scale-105"
+              aria-label="Login with Email"
+              disabled={isLoading}
+              title="이메일과 비밀번호 또는 메일로 받은 링크로 로그인합니다."
+            >
+              <EnvelopeIcon className="w-12 h-12 text-white" />
+            </button>
+            <span className="text-white font-semibold text-lg" style={{ textShadow: '1px 1px 3px rgba(0,0,0,0.7)' }}>이메일</span>
+          </div>
+
           {/* 게스트 로그인 버튼 */}
           <div className="flex flex-col items-center">
              <button 
@@ -120,7 +164,17 @@ const LoginScreen: React.FC = () => {
       {/* 안내 메시지 */}
       <div className="absolute bottom-10 text-center text-white font-medium text-sm" style={{ textShadow: '1px 1px 2px rgba(0,0,0,0.5)' }}>
         <p>프로필을 선택하여 로그인하세요.</p>
+        {deepLinkLabel && <p className="mt-1">로그인하면 공유된 {deepLinkLabel}(으)로 이동합니다.</p>}
       </div>
+
+      {/* 이메일 로그인 대화상자 */}
+      {isEmailDialogOpen && (
+        <EmailLoginDialog
+          initialMode={signInLink ? 'completeLink' : 'signIn'}
+          signInLink={signInLink ?? undefined}
+          onClose={handleCloseEmailDialog}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,113 @@
+/**
+ * 메뉴 항목 목록 컴포넌트
+ * 창 메뉴바 드롭다운과 우클릭 컨텍스트 메뉴에서 공통으로 사용하는 MenuItem 트리 렌더러입니다.
+ */
+import React, { useState } from 'react';
+import type { MenuItem as MenuItemType } from '../src/types';
+import { formatShortcut } from '../src/utils/shortcuts';
+
+/**
+ * 서브메뉴가 펼쳐지는 방향
+ */
+export type SubMenuSide = 'left' | 'right';
+
+/**
+ * 서브메뉴 컴포넌트
+ * 메뉴 항목에 하위 메뉴가 있을 때 표시되는 컴포넌트
+ * @param items 서브메뉴 항목 배열
+ * @param closeAllMenus 모든 메뉴를 닫는 함수
+ * @param side 서브메뉴가 펼쳐지는 방향
+ */
+const SubMenu: React.FC<{ items: MenuItemType[]; closeAllMenus: () => void; side: SubMenuSide }> = ({ items, closeAllMenus, side }) => {
+  return (
+    <div className={`absolute ${side === 'left' ? 'right-full' : 'left-full'} -top-1 mt-0 w-48 bg-winxp-window border border-gray-400 rounded-winxp shadow-winxp-window py-1 z-20`}>
+      {items.map((item, index) => (
+        <MenuItem key={index} item={item} closeAllMenus={closeAllMenus} submenuSide={side} />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * 메뉴 항목 컴포넌트
+ * 개별 메뉴 항목을 렌더링하며, 서브메뉴가 있는 경우 마우스 호버 시 표시
+ * @param item 메뉴 항목 객체
+ * @param closeAllMenus 모든 메뉴를 닫는 함수
+ * @param submenuSide 서브메뉴가 펼쳐지는 방향
+ */
+const MenuItem: React.FC<{ item: MenuItemType; closeAllMenus: () => void; submenuSide?: SubMenuSide }> = ({
+  item,
+  closeAllMenus,
+  submenuSide = 'right'
+}) => {
+  const [isSubMenuOpen, setIsSubMenuOpen] = useState(false);
+
+  // 구분선인지 일반 메뉴 항목인지 확인
+  if ('label' in item) {
+    const hasSubMenu = !!(item.items && item.items.length > 0);
+
+    /**
+     * 메뉴 항목 클릭 처리 함수
+     * 비활성화된 항목이 아닌 경우 액션 실행 및 메뉴 닫기
+     */
+    const handleItemClick = () => {
+      if (item.disabled) return;
+      if (item.action) {
+        item.action();
+      }
+      if (!hasSubMenu) {
+        closeAllMenus();
+      }
+    };
+
+    return (
+      <div
+        className="relative"
+        onMouseEnter={() => hasSubMenu && !item.disabled && setIsSubMenuOpen(true)}
+        onMouseLeave={() => hasSubMenu && !item.disabled && setIsSubMenuOpen(false)}
+      >
+        <button
+          onClick={handleItemClick}
+          disabled={item.disabled}
+          className={`w-full text-left px-3 py-1 text-black text-sm flex justify-between items-center transition-colors duration-100 font-winxp
+          ${item.disabled
+            ? 'text-gray-400'
+            : 'hover:bg-winxp-blue hover:text-white focus:bg-winxp-blue focus:text-white active:bg-winxp-blue-light active:text-white'
+          }`}
+        >
+          <span>{item.label}</span>
+          {item.shortcut && !hasSubMenu && <span className="ml-4 text-xs opacity-70">{formatShortcut(item.shortcut)}</span>}
+          {hasSubMenu && <span className="text-xs">▶</span>}
+        </button>
+        {isSubMenuOpen && hasSubMenu && !item.disabled && item.items && (
+          <SubMenu items={item.items} closeAllMenus={closeAllMenus} side={submenuSide} />
+        )}
+      </div>
+    );
+  }
+
+  // 구분선 렌더링
+  return <div className="h-px bg-gray-400 my-1 mx-2" />;
+};
+
+/**
+ * 메뉴 항목 목록 컴포넌트
+ * @param items 메뉴 항목 배열
+ * @param closeAllMenus 모든 메뉴를 닫는 함수
+ * @param submenuSide 서브메뉴가 펼쳐지는 방향
+ */
+const MenuItemList: React.FC<{ items: MenuItemType[]; closeAllMenus: () => void; submenuSide?: SubMenuSide }> = ({
+  items,
+  closeAllMenus,
+  submenuSide
+}) => {
+  return (
+    <>
+      {items.map((item, index) => (
+        <MenuItem key={index} item={item} closeAllMenus={closeAllMenus} submenuSide={submenuSide} />
+      ))}
+    </>
+  );
+};
+
+export default MenuItemList;
@@ -2,12 +2,13 @@
  * 새 게시물 작성 모달 컴포넌트
  * Windows 11 스타일의 게시물 작성/편집 창을 제공합니다.
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import type { Category, Post, UIPost } from '../src/types';
 import MDEditor from '@uiw/react-md-editor';
 import '@uiw/react-md-editor/markdown-editor.css';
 import '@uiw/react-markdown-preview/markdown.css';
-import WindowControls from './WindowControls';
+import Window from './Window';
+import { ShortcutBinding } from '../src/hooks/useShortcuts';
 
 interface NewPostModalProps {
   categories: Category[];
@@ -27,7 +28,7 @@ const NewPostModal: React.FC<NewPostModalProps> = ({ categories, onClose, onSave
   const [content, setContent] = useState('');
   const [colorMode, setColorMode] = useState<'light' | 'dark'>('light');
   const [tags, setTags] = useState(''); // 태그 상태를 문자열로 변경
-  const [isMaximized, setIsMaximized] = useState(false);
+  const formRef = useRef<HTMLFormElement>(null);
 
   const isEditing = postToEdit != null;
 
@@ -107,11 +108,6 @@ const NewPostModal: React.FC<NewPostModalProps> = ({ categories, onClose, onSave
     };
   }, []);
 
-  // 창 최대화/복원 핸들러
-  const handleToggleMaximize = () => {
-    setIsMaximized(!isMaximized);
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -147,112 +143,99 @@ const NewPostModal: React.FC<NewPostModalProps> = ({ categories, onClose, onSave
   };
 
   return (
-    <div 
-      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50 transition-opacity" 
-      onClick={onClose}
+    <Window
+      type="newPost"
+      title={isEditing ? '게시물 수정' : '새 게시물 작성'}
+      icon={isEditing ? '✏️' : '📄'}
+      onClose={onClose}
     >
-      <div 
-        className={`bg-white/80 backdrop-blur-xl flex flex-col overflow-hidden
-          ${isMaximized ? 'w-full h-full rounded-none' : 'w-full max-w-2xl m-4 rounded-xl shadow-win11-window border border-slate-200/80'}`}
-        onClick={(e) => e.stopPropagation()}
-      >
-        {/* 헤더 */}
-        <div className="flex-shrink-0 h-14 flex items-center px-4 border-b border-slate-200/80">
-          <WindowControls 
-            onClose={onClose} 
-            onMaximize={handleToggleMaximize} 
-            isMaximized={isMaximized} 
+      {/* 내용 */}
+      <div className="flex-grow overflow-y-auto">
+        <form ref={formRef} onSubmit={handleSubmit} className="h-full flex flex-col">
+          {/* Ctrl+S 키로 저장 (편집기 입력 중에도 동작) */}
+          <ShortcutBinding
+            keys="Ctrl+S"
+            description={isEditing ? '게시물 저장' : '게시물 게시'}
+            onTrigger={() => formRef.current?.requestSubmit()}
           />
-          <div className="flex-grow text-center">
-            <h2 className="font-semibold text-slate-700 select-none">
-              {isEditing ? '게시물 수정' : '새 게시물 작성'}
-            </h2>
-          </div>
-          <div className="w-16"></div>
-        </div>
-        
-        {/* 내용 */}
-        <div className="flex-grow overflow-y-auto">
-          <form onSubmit={handleSubmit} className="h-full flex flex-col">
-            <div className="flex-grow p-6 space-y-4">
-              <div>
-                <label htmlFor="title" className="block text-sm font-medium text-slate-700 mb-1">제목</label>
-                <input
-                  id="title"
-                  type="text"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  className="w-full border border-slate-300 rounded-win11 shadow-sm focus:ring-win11-blue focus:border-win11-blue sm:text-sm px-3 py-2"
-                  placeholder="게시물 제목"
-                  required
-                />
-              </div>
-              <div>
-                <label htmlFor="category" className="block text-sm font-medium text-slate-700 mb-1">카테고리</label>
-                <select
-                  id="category"
-                  value={category}
-                  onChange={(e) => setCategory(e.target.value)}
-                  className="w-full border border-slate-300 rounded-win11 shadow-sm focus:ring-win11-blue focus:border-win11-blue sm:text-sm px-3 py-2"
-                  required
-                >
-                  {categories.map(cat => (
-                    <option key={cat.id} value={cat.id}>{cat.name}</option>
-                  ))}
-                </select>
-              </div>
-              
-              {/* TAGS SECTION */}
-              <div>
-                <label htmlFor="tags-input" className="block text-sm font-medium text-slate-700 mb-1">태그</label>
-                <input
-                  id="tags-input"
-                  type="text"
-                  value={tags}
-                  onChange={(e) => setTags(e.target.value)}
-                  className="w-full border border-slate-300 rounded-win11 shadow-sm focus:ring-win11-blue focus:border-win11-blue sm:text-sm px-3 py-2"
-                  placeholder="쉼표(,)로 구분하여 태그를 입력하세요."
-                />
-              </div>
+          <div className="flex-grow p-6 space-y-4">
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium text-slate-700 mb-1">제목</label>
+              <input
+                id="title"
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full border border-slate-300 rounded-win11 shadow-sm focus:ring-win11-blue focus:border-win11-blue sm:text-sm px-3 py-2"
+                placeholder="게시물 제목"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium text-slate-700 mb-1">카테고리</label>
+              <select
+                id="category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full border border-slate-300 rounded-win11 shadow-sm focus:ring-win11-blue focus:border-win11-blue sm:text-sm px-3 py-2"
+                required
+              >
+                {categories.map(cat => (
+                  <option key={cat.id} value={cat.id}>{cat.name}</option>
+                ))}
+              </select>
+            </div>
+            
+            {/* TAGS SECTION */}
+            <div>
+              <label htmlFor="tags-input" className="block text-sm font-medium text-slate-700 mb-1">태그</label>
+              <input
+                id="tags-input"
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                className="w-full border border-slate-300 rounded-win11 shadow-sm focus:ring-win11-blue focus:border-win11-blue sm:text-sm px-3 py-2"
+                placeholder="쉼표(,)로 구분하여 태그를 입력하세요."
+              />
+            </div>
 
-              <div>
-                <label htmlFor="content" className="block text-sm font-medium text-slate-700 mb-1">내용</label>
-                <div data-color-mode={colorMode} className="w-full rounded-win11 overflow-hidden">
-                  <MDEditor
-                    id="content"
-                    value={content}
-                    onChange={(value) => setContent(value || '')}
-                    height={300}
-                    preview="edit"
-                    className="w-full rounded-win11 border-slate-300"
-                  />
-                  <div className="mt-1 text-xs text-slate-500">
-                    마크다운 문법을 사용하여 글을 작성할 수 있습니다.
-                  </div>
+            <div>
+              <label htmlFor="content" className="block text-sm font-medium text-slate-700 mb-1">내용</label>
+              <div data-color-mode={colorMode} className="w-full rounded-win11 overflow-hidden">
+                <MDEditor
+                  id="content"
+                  value={content}
+                  onChange={(value) => setContent(value || '')}
+                  height={300}
+                  preview="edit"
+                  className="w-full rounded-win11 border-slate-300"
+                />
+                <div className="mt-1 text-xs text-slate-500">
+                  마크다운 문법을 사용하여 글을 작성할 수 있습니다.
                 </div>
               </div>
             </div>
-            
-            {/* 하단 버튼 영역 */}
-            <div className="flex-shrink-0 p-4 border-t border-slate-200/80 flex justify-end space-x-3 bg-slate-50/50">
-              <button
-                type="button"
-                onClick={onClose}
-                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-win11 hover:bg-slate-50 transition-colors focus:outline-none"
-              >
-                취소
-              </button>
-              <button
-                type="submit"
-                className="px-4 py-2 text-sm font-medium text-white bg-win11-blue border border-transparent rounded-win11 hover:bg-blue-600 transition-colors focus:outline-none"
-              >
-                {isEditing ? '저장' : '게시'}
-              </button>
-            </div>
-          </form>
-        </div>
+          </div>
+          
+          {/* 하단 버튼 영역 */}
+          <div className="flex-shrink-0 p-4 border-t border-slate-200/80 flex justify-end space-x-3 bg-slate-50/50">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-win11 hover:bg-slate-50 transition-colors focus:outline-none"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-win11-blue border border-transparent rounded-win11 hover:bg-blue-600 transition-colors focus:outline-none"
+            >
+              {isEditing ? '저장' : '게시'}
+            </button>
+          </div>
+        </form>
       </div>
-    </div>
+    </Window>
   );
 };
 
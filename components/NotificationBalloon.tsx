@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import type { UINotification } from '../src/types';
+import { getNotificationIcon, getNotificationMessage } from '../src/utils/notifications';
+
+// 풍선 도움말을 자동으로 닫기까지의 시간 (밀리초)
+const BALLOON_DURATION_MS = 6000;
+
+interface NotificationBalloonProps {
+  notification: UINotification;
+  onOpen: (notification: UINotification) => void;
+  onClose: () => void;
+}
+
+/**
+ * 알림 풍선 도움말 컴포넌트
+ * Windows XP 알림 영역의 풍선 도움말처럼 새 알림을 작업 표시줄 위에 잠시 표시합니다.
+ * @param notification 표시할 알림
+ * @param onOpen 풍선을 클릭했을 때 호출되는 콜백 함수 (알림 대상 게시물 열기)
+ * @param onClose 풍선을 닫을 때 호출되는 콜백 함수
+ */
+const NotificationBalloon: React.FC<NotificationBalloonProps> = ({ notification, onOpen, onClose }) => {
+  // 일정 시간이 지나면 자동으로 닫기 (새 알림이 오면 다시 계산)
+  useEffect(() => {
+    const timer = setTimeout(onClose, BALLOON_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notification.id, onClose]);
+
+  return (
+    <div
+      role="status"
+      className="absolute bottom-12 right-24 w-72 bg-[#FFFFE1] border border-black rounded-lg shadow-winxp-window font-winxp text-black cursor-pointer"
+      onClick={() => onOpen(notification)}
+    >
+      <div className="p-3">
+        <div className="flex items-start justify-between mb-1">
+          <div className="flex items-center space-x-1 font-bold text-sm">
+            <span>{getNotificationIcon(notification)}</span>
+            <span className="truncate">{notification.postTitle || '새 알림'}</span>
+          </div>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onClose();
+            }}
+            className="ml-2 w-4 h-4 leading-none text-xs border border-gray-500 rounded-sm hover:bg-red-500 hover:text-white flex-shrink-0"
+            aria-label="알림 닫기"
+          >
+            ×
+          </button>
+        </div>
+        <p className="text-xs">{getNotificationMessage(notification)}</p>
+        {notification.preview && (
+          <p className="text-xs text-gray-600 mt-1 truncate">"{notification.preview}"</p>
+        )}
+      </div>
+      {/* 알림 아이콘을 가리키는 꼬리 */}
+      <div className="absolute -bottom-2 right-6 w-3 h-3 bg-[#FFFFE1] border-r border-b border-black rotate-45" />
+    </div>
+  );
+};
+
+export default NotificationBalloon;
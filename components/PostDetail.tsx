@@ -2,14 +2,19 @@
  * 게시물 상세 컴포넌트
  * Windows 11 스타일의 게시물 상세 정보를 표시합니다.
  */
-import React from 'react';
-import type { UIPost } from '../src/types';
-import { MessagesSquareIcon, HashtagIcon, PencilIcon, TrashIcon } from './icons';
+import React, { useEffect, useState } from 'react';
+import type { UIPost, MentionCandidate, ReactionType } from '../src/types';
+import { MessagesSquareIcon, HashtagIcon, PencilIcon, TrashIcon, LinkIcon, EyeIcon } from './icons';
 import { useAuth } from '../src/hooks/useAuth';
 import ReactMarkdown from 'react-markdown';
 import rehypeSanitize from 'rehype-sanitize';
 import remarkGfm from 'remark-gfm';
 import CommentSection from './CommentSection';
+import ReactionBar from './ReactionBar';
+import { recordRecentDocument } from '../src/services/firebase/recentDocuments';
+import { recordPostView } from '../src/services/firebase/firestore';
+import { useReactions } from '../src/hooks/useReactions';
+import { useAuthorPage } from '../src/hooks/useAuthorPage';
 
 /**
  * 게시물 상세 컴포넌트 속성
@@ -31,6 +36,12 @@ interface PostDetailProps {
   userId?: string;
   /** 카테고리 목록 */
   categories?: any[];
+  /** 게시물 링크 복사 핸들러 */
+  onCopyLink?: (post: UIPost) => void;
+  /** 이 게시물을 이전에 마지막으로 읽은 시간 (이후 작성된 댓글을 새 댓글로 표시) */
+  lastReadAt?: string | null;
+  /** 댓글 멘션 자동 완성 후보 (게시판의 작성자 목록) */
+  mentionCandidates?: MentionCandidate[];
 }
 
 /**
@@ -44,11 +55,64 @@ const PostDetail: React.FC<PostDetailProps> = ({
   isPostOwner = false, 
   onRefresh,
   userId,
-  categories = []
+  categories = [],
+  onCopyLink,
+  lastReadAt = null,
+  mentionCandidates
 }) => {
   // 인증 정보 가져오기
   const { user } = useAuth();
   
+  // 게시물 반응 (게시물과 댓글 반응을 함께 구독)
+  const { canReact, getSummaries, toggle: toggleReaction } = useReactions(post?.id ?? null);
+  const openAuthorPage = useAuthorPage();
+  
+  // 게시물 반응 남기기/취소
+  const handleTogglePostReaction = (type: ReactionType) => {
+    if (!post) return;
+    toggleReaction('post', post.id, type).catch(error => {
+      console.error('게시물 반응 처리 중 오류:', error);
+      alert(error instanceof Error ? error.message : '반응을 남기지 못했습니다.');
+    });
+  };
+  
+  // 게시물을 열면 최근 문서에 기록 (게스트는 기록하지 않음)
+  const recentDocumentUserId = user && !user.isAnonymous ? user.uid : null;
+  useEffect(() => {
+    if (!post || !recentDocumentUserId) return;
+
+    recordRecentDocument(recentDocumentUserId, { id: post.id, title: post.title }).catch(error => {
+      console.error('최근 문서 기록 중 오류:', error);
+    });
+  }, [post?.id, post?.title, recentDocumentUserId]);
+  
+  // 조회수 (조회가 기록되면 목록을 새로 고치지 않아도 바로 반영)
+  const [viewCount, setViewCount] = useState(post?.views ?? 0);
+  useEffect(() => {
+    setViewCount(post?.views ?? 0);
+  }, [post?.id, post?.views]);
+  
+  // 게시물을 열면 조회 기록 (같은 사용자는 일정 시간 안에 한 번만 집계)
+  const viewerId = user?.uid ?? null;
+  useEffect(() => {
+    if (!post || !viewerId) return;
+
+    let cancelled = false;
+    recordPostView(post.id, viewerId)
+      .then(counted => {
+        if (counted && !cancelled) {
+          setViewCount(prev => prev + 1);
+        }
+      })
+      .catch(error => {
+        console.error('게시물 조회 기록 중 오류:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [post?.id, viewerId]);
+  
   // 기본 프로필 이미지
   const defaultAvatar = `data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0MCIgaGVpZ2h0PSI0MCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9IiNjY2MiIHN0cm9rZS13aWR0aD0iMiIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIiBzdHJva2UtbGluZWpvaW49InJvdW5kIj48cGF0aCBkPSJNMjAgMjF2LTJhNCA0IDAgMCAwLTQtNEg4YTQgNCAwIDAgMC00IDR2MiI+PC9wYXRoPjxjaXJjbGUgY3g9IjEyIiBjeT0iNyIgcj0iNCI+PC9jaXJjbGU+PC9zdmc+`;
 
@@ -81,6 +145,10 @@ const PostDetail: React.FC<PostDetailProps> = ({
           </div>
           
           <div className="flex items-center">
+            <div className="flex items-center mr-4 text-slate-600" title="조회수">
+              <EyeIcon className="w-4 h-4 mr-1" />
+              <span className="text-sm">조회 {viewCount.toLocaleString()}</span>
+            </div>
             {post.comments > 0 && (
               <div className="flex items-center mr-4 text-slate-600">
                 <MessagesSquareIcon className="w-4 h-4 mr-1" />
@@ -88,25 +156,38 @@ const PostDetail: React.FC<PostDetailProps> = ({
               </div>
             )}
             
-            {/* 작성자에게만 보이는 수정/삭제 버튼 */}
-            {canEditDelete && onEditPost && onDeletePost && (
-              <div className="flex space-x-2">
+            <div className="flex space-x-2">
+              {/* 링크 복사 버튼 */}
+              {onCopyLink && (
                 <button 
-                  onClick={() => post && onEditPost(post)}
+                  onClick={() => onCopyLink(post)}
                   className="p-1.5 rounded-full text-slate-600 hover:bg-slate-200/80 transition-colors"
-                  title="게시물 수정"
+                  title="링크 복사"
                 >
-                  <PencilIcon className="w-5 h-5" />
+                  <LinkIcon className="w-5 h-5" />
                 </button>
-                <button 
-                  onClick={onDeletePost}
-                  className="p-1.5 rounded-full text-slate-600 hover:bg-slate-200/80 transition-colors"
-                  title="게시물 삭제"
-                >
-                  <TrashIcon className="w-5 h-5" />
-                </button>
-              </div>
-            )}
+              )}
+              
+              {/* 작성자에게만 보이는 수정/삭제 버튼 */}
+              {canEditDelete && onEditPost && onDeletePost && (
+                <>
+                  <button 
+                    onClick={() => onEditPost(post)}
+                    className="p-1.5 rounded-full text-slate-600 hover:bg-slate-200/80 transition-colors"
+                    title="게시물 수정"
+                  >
+                    <PencilIcon className="w-5 h-5" />
+                  </button>
+                  <button 
+                    onClick={onDeletePost}
+                    className="p-1.5 rounded-full text-slate-600 hover:bg-slate-200/80 transition-colors"
+                    title="게시물 삭제"
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </>
+              )}
+            </div>
           </div>
         </div>
         
@@ -121,7 +202,14 @@ const PostDetail: React.FC<PostDetailProps> = ({
             }}
           />
           <div>
-            <p className="font-semibold text-slate-800">{post.author.name}</p>
+            <button
+              type="button"
+              onClick={() => openAuthorPage(post.authorId, post.author.name)}
+              className="font-semibold text-slate-800 hover:text-win11-blue hover:underline"
+              title="작성자 페이지 열기"
+            >
+              {post.author.name}
+            </button>
             <p className="text-slate-500">{new Date(post.date).toLocaleString()}</p>
           </div>
         </div>
@@ -174,10 +262,23 @@ const PostDetail: React.FC<PostDetailProps> = ({
               ))}
             </div>
           )}
+          
+          {/* 게시물 반응 */}
+          <div className="mt-4">
+            <ReactionBar
+              summaries={getSummaries(post.id)}
+              onToggle={handleTogglePostReaction}
+              canReact={canReact}
+            />
+          </div>
         </div>
         
         {/* 댓글 섹션 추가 */}
-        <CommentSection postId={post.id} />
+        <CommentSection
+          postId={post.id}
+          lastReadAt={lastReadAt}
+          mentionCandidates={[{ userId: post.authorId, name: post.author.name }, ...(mentionCandidates || [])]}
+        />
       </div>
     </div>
   );
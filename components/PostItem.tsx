@@ -2,11 +2,24 @@
  * 게시물 항목 컴포넌트
  * Windows 11 스타일의 게시물 항목을 표시합니다.
  */
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import type { UIPost } from '../src/types';
 import { useAuth } from '../src/hooks/useAuth';
 import { useBookmarks } from '../src/hooks/useBookmarks';
-import { MessagesSquareIcon, BookmarkIcon } from './icons';
+import { useShortcut } from '../src/hooks/useShortcuts';
+import { useAuthorPage } from '../src/hooks/useAuthorPage';
+import { MessagesSquareIcon, BookmarkIcon, EyeIcon } from './icons';
+
+/**
+ * 게시물 항목의 북마크 상태 및 토글 함수
+ * 컨텍스트 메뉴에서 항목과 같은 북마크 상태를 사용하기 위해 전달됩니다.
+ */
+export interface PostBookmarkControl {
+  /** 북마크 여부 */
+  isBookmarked: boolean;
+  /** 북마크 추가/해제 */
+  toggle: () => void;
+}
 
 /**
  * 게시물 항목 컴포넌트 속성
@@ -16,18 +29,28 @@ interface PostItemProps {
   post: UIPost;
   /** 선택 여부 */
   isSelected: boolean;
+  /** 키보드 탐색 위치 여부 */
+  isFocused?: boolean;
   /** 클릭 핸들러 */
   onClick: () => void;
+  /** 우클릭 핸들러 (게스트는 북마크 제어가 null) */
+  onContextMenu?: (e: React.MouseEvent, post: UIPost, bookmark: PostBookmarkControl | null) => void;
+  /** 읽지 않은 게시물 여부 */
+  isUnread?: boolean;
+  /** 마지막으로 읽은 뒤 추가된 댓글 수 */
+  newCommentCount?: number;
 }
 
 /**
  * 게시물 항목 컴포넌트
  */
-const PostItem: React.FC<PostItemProps> = ({ post, isSelected, onClick }) => {
+const PostItem: React.FC<PostItemProps> = ({ post, isSelected, isFocused = false, onClick, onContextMenu, isUnread = false, newCommentCount = 0 }) => {
+  const itemRef = useRef<HTMLLIElement>(null);
   // 인증 정보 가져오기
   const { user } = useAuth();
   // 북마크 기능 사용
   const { isBookmarked, toggleBookmark, checkBookmarkStatus } = useBookmarks(user?.uid);
+  const openAuthorPage = useAuthorPage();
   
   // 컴포넌트 마운트 시 북마크 상태 확인
   useEffect(() => {
@@ -57,6 +80,29 @@ const PostItem: React.FC<PostItemProps> = ({ post, isSelected, onClick }) => {
     }
   };
 
+  // 키보드 탐색 위치가 된 항목은 목록에서 보이도록 스크롤
+  useEffect(() => {
+    if (isFocused) {
+      itemRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isFocused]);
+
+  // 키보드 탐색 위치의 항목에서 b 키로 북마크 추가/해제
+  useShortcut('B', () => {
+    if (user) {
+      toggleBookmark(post.id, user.isAnonymous);
+    }
+  }, { description: '북마크 추가/해제', enabled: isFocused && !!user && !user.isAnonymous });
+
+  // 우클릭 처리 - 항목의 북마크 상태와 함께 상위 컴포넌트에 전달
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (!onContextMenu) return;
+    const bookmark = user && !user.isAnonymous
+      ? { isBookmarked: isBookmarked(post.id), toggle: () => toggleBookmark(post.id, user.isAnonymous) }
+      : null;
+    onContextMenu(e, post, bookmark);
+  };
+
   // 북마크 상태에 따른 아이콘 설정
   const bookmarkFill = isBookmarked(post.id) ? 'currentColor' : 'none';
   
@@ -68,10 +114,12 @@ const PostItem: React.FC<PostItemProps> = ({ post, isSelected, onClick }) => {
 
   return (
     <li
+      ref={itemRef}
       onClick={onClick}
+      onContextMenu={handleContextMenu}
       className={`py-2.5 px-3.5 border-b border-slate-200/80 cursor-pointer transition-colors duration-150 ${
         isSelected ? 'bg-win11-blue/10' : 'hover:bg-slate-50/80'
-      }`}
+      } ${isFocused && !isSelected ? 'ring-2 ring-inset ring-win11-blue/50' : ''}`}
     >
       <div className="grid grid-cols-10 gap-2 w-full items-center">
         {/* 프로필 이미지 (1/10) */}
@@ -89,19 +137,39 @@ const PostItem: React.FC<PostItemProps> = ({ post, isSelected, onClick }) => {
         {/* 제목 및 작성자 (6/10) */}
         <div className="col-span-6 min-w-0 overflow-hidden pr-1">
           <div className="flex items-center">
-            <p className={`font-medium text-xs ${isSelected ? 'text-win11-blue' : 'text-slate-600'} truncate mr-2`}>{post.author.name}</p>
-            {post.isNew && <span className="w-2 h-2 bg-win11-blue rounded-full flex-shrink-0"></span>}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation(); // 게시물 선택 방지
+                openAuthorPage(post.authorId, post.author.name);
+              }}
+              className={`font-medium text-xs ${isSelected ? 'text-win11-blue' : 'text-slate-600'} truncate mr-2 hover:underline`}
+              title="작성자 페이지 열기"
+            >
+              {post.author.name}
+            </button>
+            {isUnread && <span className="w-2 h-2 bg-win11-blue rounded-full flex-shrink-0" title="읽지 않음"></span>}
           </div>
-          <h3 className={`font-bold text-sm truncate ${isSelected ? 'text-slate-900' : 'text-slate-900'}`}>{post.title}</h3>
+          <h3 className={`text-sm truncate ${isUnread ? 'font-bold text-slate-900' : 'font-medium text-slate-700'}`}>{post.title}</h3>
         </div>
         
         {/* 댓글수, 날짜, 북마크 (3/10) */}
         <div className="col-span-3 flex flex-col items-end justify-center h-full">
           <div className="flex items-center text-xs text-slate-500 w-full justify-end">
+            {post.views > 0 && (
+              <div className="flex items-center text-slate-500 mr-2" title={`조회 ${post.views}`}>
+                <EyeIcon className="w-3.5 h-3.5 mr-0.5 flex-shrink-0" />
+                <span>{post.views}</span>
+              </div>
+            )}
             {post.comments > 0 && (
-              <div className="flex items-center text-slate-600 mr-2">
+              <div
+                className={`flex items-center mr-2 ${newCommentCount > 0 ? 'text-win11-blue font-semibold' : 'text-slate-600'}`}
+                title={newCommentCount > 0 ? `새 댓글 ${newCommentCount}개` : undefined}
+              >
                 <MessagesSquareIcon className="w-3.5 h-3.5 mr-0.5 flex-shrink-0" />
                 <span>{post.comments}</span>
+                {newCommentCount > 0 && <span className="ml-0.5">(+{newCommentCount})</span>}
               </div>
             )}
             <span className="whitespace-nowrap text-win11-blue font-medium">{formatDate(post.date)}</span>
@@ -1,16 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import type { UIPost } from '../src/types';
 import PostItem from './PostItem';
+import type { PostBookmarkControl } from './PostItem';
 import { SearchIcon } from './icons';
 
 interface PostListProps {
   posts: UIPost[];
   selectedPost: UIPost | null;
+  focusedPostId?: string | null;
+  searchInputRef?: React.Ref<HTMLInputElement>;
   onSelectPost: (post: UIPost) => void;
   loading?: boolean;
   error?: React.ReactNode;
   searchTerm?: string;
   onSearch?: (term: string) => void;
+  onPostContextMenu?: (e: React.MouseEvent, post: UIPost, bookmark: PostBookmarkControl | null) => void;
+  isUnread?: (post: UIPost) => boolean;
+  getNewCommentCount?: (post: UIPost) => number;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  loadMoreError?: string | null;
+  onLoadMore?: () => void;
+  newPostCount?: number;
+  onShowNewPosts?: () => void;
+  emptyMessage?: string;
 }
 
 /**
@@ -18,22 +31,70 @@ interface PostListProps {
  * 게시물 목록을 표시하고 검색 기능을 제공
  * @param posts 표시할 게시물 배열
  * @param selectedPost 현재 선택된 게시물
+ * @param focusedPostId 키보드 탐색 위치의 게시물 ID
+ * @param searchInputRef 검색창 참조 (Ctrl+F 단축키용)
  * @param onSelectPost 게시물 선택 시 호출되는 콜백 함수
  * @param loading 로딩 상태 표시 여부
  * @param error 에러 메시지
  * @param searchTerm 검색어
  * @param onSearch 검색 이벤트 핸들러
+ * @param onPostContextMenu 게시물 우클릭 시 호출되는 콜백 함수
+ * @param isUnread 게시물을 읽지 않았는지 확인하는 함수
+ * @param getNewCommentCount 마지막으로 읽은 뒤 추가된 댓글 수를 계산하는 함수
+ * @param hasMore 더 불러올 게시물이 있는지 여부
+ * @param loadingMore 다음 페이지를 불러오는 중인지 여부
+ * @param loadMoreError 다음 페이지를 불러오지 못한 경우 에러 메시지
+ * @param onLoadMore 목록 끝에 도달했을 때 호출되는 콜백 함수
+ * @param newPostCount 목록을 불러온 뒤 새로 작성된 게시물 수
+ * @param onShowNewPosts 새 게시물 알림을 클릭했을 때 호출되는 콜백 함수
+ * @param emptyMessage 게시물이 없을 때 표시할 문구
  */
 const PostList: React.FC<PostListProps> = ({ 
   posts, 
   selectedPost, 
+  focusedPostId = null,
+  searchInputRef,
   onSelectPost, 
   loading, 
   error,
   searchTerm = '',
-  onSearch 
+  onSearch,
+  onPostContextMenu,
+  isUnread,
+  getNewCommentCount,
+  hasMore = false,
+  loadingMore = false,
+  loadMoreError = null,
+  onLoadMore,
+  newPostCount = 0,
+  onShowNewPosts,
+  emptyMessage = '게시물이 없습니다.'
 }) => {
   const [inputValue, setInputValue] = useState(searchTerm);
+  // 무한 스크롤 감지용 목록 및 목록 끝 요소 참조
+  const listRef = useRef<HTMLUListElement>(null);
+  const sentinelRef = useRef<HTMLLIElement>(null);
+
+  // 외부에서 검색어가 바뀐 경우(시작 메뉴 검색 등) 입력창에 반영
+  useEffect(() => {
+    setInputValue(searchTerm);
+  }, [searchTerm]);
+
+  // 목록 끝이 보이면 다음 페이지 요청 (IntersectionObserver를 지원하지 않으면 '더 보기' 버튼 사용)
+  // 불러오기에 실패하면 반복해서 요청하지 않도록 '다시 시도' 버튼을 누를 때까지 멈춤
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore || loadMoreError || !onLoadMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { root: listRef.current, rootMargin: '0px 0px 200px 0px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, loadMoreError, onLoadMore, loading, error]);
 
   /**
    * 검색어 입력 핸들러
@@ -55,6 +116,7 @@ const PostList: React.FC<PostListProps> = ({
         <div className="relative flex items-center">
           <SearchIcon className="w-5 h-5 text-slate-400 absolute left-3" />
           <input
+            ref={searchInputRef}
             type="text"
             value={inputValue}
             onChange={handleSearchInputChange}
@@ -65,6 +127,17 @@ const PostList: React.FC<PostListProps> = ({
         </div>
       </div>
       
+      {/* 새 게시물 알림 (목록 순서를 바꾸지 않고 클릭 시 불러옴) */}
+      {!loading && newPostCount > 0 && onShowNewPosts && (
+        <button
+          type="button"
+          onClick={onShowNewPosts}
+          className="w-full py-2 text-sm font-medium text-blue-700 bg-blue-50 border-b border-blue-200 hover:bg-blue-100"
+        >
+          새 게시물 {newPostCount}개 — 클릭하여 불러오기
+        </button>
+      )}
+
       {/* 로딩 상태 표시 */}
       {loading ? (
         <div className="flex items-center justify-center h-full">
@@ -77,22 +150,61 @@ const PostList: React.FC<PostListProps> = ({
         </div>
       ) : (
         /* 게시물 목록 */
-        <ul className="overflow-y-auto flex-grow">
+        <ul ref={listRef} className="overflow-y-auto flex-grow">
           {posts.length > 0 ? (
             posts.map((post) => (
               <PostItem
                 key={post.id}
                 post={post}
                 isSelected={selectedPost && post.id === selectedPost.id}
+                isFocused={post.id === focusedPostId}
                 onClick={() => onSelectPost(post)}
+                onContextMenu={onPostContextMenu}
+                isUnread={isUnread ? isUnread(post) : false}
+                newCommentCount={getNewCommentCount ? getNewCommentCount(post) : 0}
               />
             ))
           ) : (
             /* 게시물이 없을 때 표시할 메시지 */
             <div className="text-center text-slate-500 p-8">
-              {inputValue ? `'${inputValue}'에 대한 검색 결과가 없습니다.` : '게시물이 없습니다.'}
+              {inputValue ? `'${inputValue}'에 대한 검색 결과가 없습니다.` : emptyMessage}
             </div>
           )}
+
+          {/* 다음 페이지 로딩 표시 */}
+          {hasMore ? (
+            <li ref={sentinelRef} className="flex items-center justify-center gap-2 p-4 text-sm text-slate-500">
+              {loadingMore ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-500"></div>
+                  게시물을 더 불러오는 중...
+                </>
+              ) : loadMoreError ? (
+                <>
+                  <span className="text-red-500">{loadMoreError}</span>
+                  <button
+                    type="button"
+                    onClick={onLoadMore}
+                    className="px-3 py-1 border border-slate-300 rounded bg-slate-50 hover:bg-slate-100"
+                  >
+                    다시 시도
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={onLoadMore}
+                  className="px-3 py-1 border border-slate-300 rounded bg-slate-50 hover:bg-slate-100"
+                >
+                  더 보기
+                </button>
+              )}
+            </li>
+          ) : onLoadMore && posts.length > 0 ? (
+            <li className="p-4 text-center text-xs text-slate-400">
+              모든 게시물을 불러왔습니다.
+            </li>
+          ) : null}
         </ul>
       )}
     </div>
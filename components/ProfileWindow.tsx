@@ -0,0 +1,247 @@
+/**
+ * 프로필 창 컴포넌트
+ * 로그인한 사용자가 표시 이름, 자기소개, 프로필 이미지를 확인하고 수정할 수 있는 Windows XP 스타일 창을 제공합니다.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import Window from './Window';
+import WindowMenuBar from './WindowMenuBar';
+import Toast from './Toast';
+import { User, Menu } from '../types';
+import { GoogleIcon } from './icons';
+import { useUserProfile } from '../src/hooks/useUserProfile';
+import { useAuthorPage } from '../src/hooks/useAuthorPage';
+import { validateProfileInput, MAX_DISPLAY_NAME_LENGTH, MAX_BIO_LENGTH } from '../src/services/firebase/users';
+
+// 기본 프로필 이미지
+const DEFAULT_AVATAR = `data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIzMiIgaGVpZ2h0PSIzMiIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9IiNjY2MiIHN0cm9rZS13aWR0aD0iMiIgc3Ryb2tlLWxpbmVjYXA9InJvdW5kIiBzdHJva2UtbGluZWpvaW49InJvdW5kIj48cGF0aCBkPSJNMjAgMjF2LTJhNCA0IDAgMCAwLTQtNEg4YTQgNCAwIDAgMC00IDR2MiI+PC9wYXRoPjxjaXJjbGUgY3g9IjEyIiBjeT0iNyIgcj0iNCI+PC9jaXJjbGU+PC9zdmc+`;
+
+/**
+ * 프로필 창 컴포넌트 속성
+ */
+interface ProfileWindowProps {
+  /** 창 관리자에 등록된 창 ID */
+  windowId: string;
+  /** 창 닫기 핸들러 */
+  onClose: () => void;
+  /** 현재 로그인된 사용자 정보 */
+  user: User;
+  /** 게스트 계정 업그레이드 핸들러 */
+  onUpgradeAccount: () => void;
+}
+
+/**
+ * 프로필 창 컴포넌트
+ */
+const ProfileWindow: React.FC<ProfileWindowProps> = ({ windowId, onClose, user, onUpgradeAccount }) => {
+  const { profile, loading, error, saveProfile } = useUserProfile(user.isAnonymous ? undefined : user.uid);
+  const openAuthorPage = useAuthorPage();
+  const [displayName, setDisplayName] = useState(user.displayName);
+  const [bio, setBio] = useState('');
+  const [photoURL, setPhotoURL] = useState(user.photoURL || '');
+  // 사용자가 입력을 시작하면 구독으로 받은 값으로 덮어쓰지 않음
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewError, setPreviewError] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  // 저장된 프로필을 불러오면 입력란에 반영
+  useEffect(() => {
+    if (!profile || isDirty) return;
+
+    setDisplayName(profile.displayName);
+    setBio(profile.bio);
+    setPhotoURL(profile.photoURL);
+  }, [profile, isDirty]);
+
+  // 프로필 이미지 주소가 바뀌면 미리보기 오류 초기화
+  useEffect(() => {
+    setPreviewError(false);
+  }, [photoURL]);
+
+  const validationError = validateProfileInput({ displayName, bio, photoURL });
+
+  // 입력값 변경 핸들러 생성
+  const handleChange = (setter: (value: string) => void) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    setter(e.target.value);
+    setIsDirty(true);
+  };
+
+  // 프로필 저장 핸들러
+  const handleSave = useCallback(async () => {
+    if (isSaving) return;
+    if (validationError) {
+      setToast({ message: validationError, type: 'error' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveProfile({ displayName, bio, photoURL });
+      setIsDirty(false);
+      setToast({ message: '프로필을 저장했습니다.', type: 'success' });
+    } catch (err) {
+      console.error('프로필 저장 오류:', err);
+      setToast({ message: err instanceof Error ? err.message : '프로필을 저장하지 못했습니다.', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [isSaving, validationError, saveProfile, displayName, bio, photoURL]);
+
+  // 입력 취소 핸들러 (저장된 프로필로 되돌림)
+  const handleReset = () => {
+    setIsDirty(false);
+    if (profile) {
+      setDisplayName(profile.displayName);
+      setBio(profile.bio);
+      setPhotoURL(profile.photoURL);
+    }
+  };
+
+  const menus: Menu[] = [
+    {
+      name: '파일',
+      items: [
+        { label: '저장', action: handleSave, disabled: user.isAnonymous || !isDirty || isSaving },
+        { label: '내 작성자 페이지', action: () => openAuthorPage(user.uid, user.displayName), disabled: user.isAnonymous },
+        { isSeparator: true },
+        { label: '닫기', action: onClose, shortcut: 'Esc' },
+      ],
+    },
+  ];
+
+  // 창 내용 렌더링
+  const renderContent = () => {
+    if (user.isAnonymous) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-sm text-gray-600 px-6 text-center space-y-3">
+          <p>게스트는 프로필을 사용할 수 없습니다.</p>
+          <p>Google 계정을 연결하면 지금까지의 데이터를 유지한 채 프로필을 만들 수 있습니다.</p>
+          <button
+            onClick={onUpgradeAccount}
+            className="flex items-center px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover"
+          >
+            <GoogleIcon className="w-4 h-4 mr-1" />
+            계정 업그레이드
+          </button>
+        </div>
+      );
+    }
+
+    if (loading && !profile) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+          프로필을 불러오는 중...
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm text-black">
+        {error && <p className="text-red-600">{error.message}</p>}
+
+        {/* 프로필 미리보기 */}
+        <div className="flex items-center space-x-3 p-3 border border-gray-300 rounded-winxp bg-white">
+          <img
+            src={photoURL && !previewError ? photoURL : DEFAULT_AVATAR}
+            alt={displayName}
+            className="w-16 h-16 rounded-full border border-gray-300 bg-gray-50"
+            onError={() => setPreviewError(true)}
+          />
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{displayName.trim() || '표시 이름 없음'}</p>
+            {user.email && <p className="text-xs text-gray-500 truncate">{user.email}</p>}
+            {profile && (
+              <p className="text-xs text-gray-500">가입일: {new Date(profile.createdAt).toLocaleDateString()}</p>
+            )}
+          </div>
+        </div>
+
+        <fieldset className="border border-gray-300 rounded-winxp p-3 space-y-3">
+          <legend className="px-1 text-gray-700">프로필 정보</legend>
+          <label className="block">
+            <span className="block mb-1">표시 이름</span>
+            <input
+              type="text"
+              value={displayName}
+              onChange={handleChange(setDisplayName)}
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              className="w-full px-2 py-1 border border-gray-400 rounded-sm focus:outline-none focus:border-winxp-blue"
+            />
+          </label>
+          <label className="block">
+            <span className="flex justify-between mb-1">
+              <span>자기소개</span>
+              <span className="text-xs text-gray-500">{bio.trim().length}/{MAX_BIO_LENGTH}</span>
+            </span>
+            <textarea
+              value={bio}
+              onChange={handleChange(setBio)}
+              maxLength={MAX_BIO_LENGTH}
+              rows={4}
+              placeholder="다른 사용자에게 보여줄 소개를 입력하세요."
+              className="w-full px-2 py-1 border border-gray-400 rounded-sm resize-none focus:outline-none focus:border-winxp-blue"
+            />
+          </label>
+          <label className="block">
+            <span className="block mb-1">프로필 이미지 주소</span>
+            <input
+              type="url"
+              value={photoURL}
+              onChange={handleChange(setPhotoURL)}
+              placeholder="https://"
+              className="w-full px-2 py-1 border border-gray-400 rounded-sm focus:outline-none focus:border-winxp-blue"
+            />
+            {photoURL && previewError && (
+              <span className="block mt-1 text-xs text-orange-600">이미지를 불러올 수 없어 기본 이미지로 표시됩니다.</span>
+            )}
+          </label>
+          {isDirty && validationError && <p className="text-xs text-red-600">{validationError}</p>}
+        </fieldset>
+
+        <p className="text-xs text-gray-500">
+          바꾼 이름은 이후 작성하는 게시물과 댓글에 표시됩니다.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Window windowId={windowId} title="프로필" icon="👤" onClose={onClose}>
+      <WindowMenuBar menus={menus} />
+      {renderContent()}
+      {!user.isAnonymous && (
+        <div className="flex items-center justify-between px-3 py-2 border-t border-gray-300 bg-winxp-window">
+          <button
+            onClick={() => openAuthorPage(user.uid, user.displayName)}
+            className="px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover"
+          >
+            내 작성자 페이지
+          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleReset}
+              disabled={!isDirty || isSaving}
+              className="px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              취소
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving || !!validationError}
+              className="px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? '저장 중...' : '저장'}
+            </button>
+          </div>
+        </div>
+      )}
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
+      )}
+    </Window>
+  );
+};
+
+export default ProfileWindow;
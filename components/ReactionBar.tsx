@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { ReactionSummary, ReactionType } from '../src/types';
+import { REACTION_OPTIONS } from '../src/utils/reactions';
+
+interface ReactionBarProps {
+  summaries: ReactionSummary[];
+  onToggle: (type: ReactionType) => void;
+  canReact?: boolean;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * 반응 집계 및 반응 선택 컴포넌트
+ * 반응 종류별 개수를 표시하고, 마우스를 올리면 반응한 사용자 목록을 보여줍니다.
+ * @param summaries 반응 종류별 집계
+ * @param onToggle 반응을 남기거나 취소할 때 호출되는 콜백 함수
+ * @param canReact 반응을 남길 수 있는지 여부 (게스트는 집계만 표시)
+ * @param size 표시 크기 (댓글은 'sm')
+ */
+const ReactionBar: React.FC<ReactionBarProps> = ({ summaries, onToggle, canReact = false, size = 'md' }) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const chipSize = size === 'sm' ? 'text-xs px-1.5 py-0.5' : 'text-sm px-2 py-0.5';
+
+  // 반응을 남긴 사용자 목록 (툴팁)
+  const getTooltip = (summary: ReactionSummary) => {
+    const label = REACTION_OPTIONS.find(option => option.type === summary.type)?.label;
+    return `${label}: ${summary.userNames.join(', ')}`;
+  };
+
+  const handleSelect = (type: ReactionType) => {
+    setIsPickerOpen(false);
+    onToggle(type);
+  };
+
+  if (summaries.length === 0 && !canReact) {
+    return null;
+  }
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1">
+      {summaries.map(summary => (
+        <button
+          key={summary.type}
+          type="button"
+          onClick={() => canReact && onToggle(summary.type)}
+          disabled={!canReact}
+          title={getTooltip(summary)}
+          aria-pressed={summary.reactedByMe}
+          className={`${chipSize} rounded-full border ${
+            summary.reactedByMe
+              ? 'bg-blue-50 border-win11-blue text-win11-blue'
+              : 'bg-white border-slate-200 text-slate-600'
+          } ${canReact ? 'hover:bg-blue-50' : 'cursor-default'}`}
+        >
+          {REACTION_OPTIONS.find(option => option.type === summary.type)?.emoji} {summary.count}
+        </button>
+      ))}
+
+      {/* 반응 선택 */}
+      {canReact && (
+        <>
+          <button
+            type="button"
+            onClick={() => setIsPickerOpen(prev => !prev)}
+            className={`${chipSize} rounded-full border border-dashed border-slate-300 text-slate-500 hover:bg-slate-100`}
+            title="반응 남기기"
+            aria-expanded={isPickerOpen}
+          >
+            ☺+
+          </button>
+          {isPickerOpen && (
+            <div
+              className="absolute left-0 top-full mt-1 z-10 flex gap-1 p-1 bg-white border border-slate-300 rounded-md shadow-lg"
+              onMouseLeave={() => setIsPickerOpen(false)}
+            >
+              {REACTION_OPTIONS.map(option => (
+                <button
+                  key={option.type}
+                  type="button"
+                  onClick={() => handleSelect(option.type)}
+                  className="w-8 h-8 text-lg rounded hover:bg-slate-100"
+                  title={option.label}
+                >
+                  {option.emoji}
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReactionBar;
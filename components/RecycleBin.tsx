@@ -0,0 +1,203 @@
+/**
+ * 휴지통 창 컴포넌트
+ * 사용자가 작성한 게시물/댓글 중 삭제된 항목을 보여주고 복원할 수 있는 Windows XP 스타일 창을 제공합니다.
+ * 휴지통 비우기와 영구 삭제는 관리자 페이지에서만 가능합니다.
+ */
+import React, { useState, useCallback } from 'react';
+import Window from './Window';
+import WindowMenuBar from './WindowMenuBar';
+import Toast from './Toast';
+import { User, Menu } from '../types';
+import type { UIRecycleBinItem } from '../src/types';
+import { useRecycleBin } from '../src/hooks/useRecycleBin';
+import { useContextMenu } from '../src/hooks/useContextMenu';
+import { useShortcut } from '../src/hooks/useShortcuts';
+
+/**
+ * 휴지통 창 컴포넌트 속성
+ */
+interface RecycleBinProps {
+  /** 창 관리자에 등록된 창 ID */
+  windowId: string;
+  /** 창 닫기 핸들러 */
+  onClose: () => void;
+  /** 현재 로그인된 사용자 정보 */
+  user: User;
+}
+
+/**
+ * 복원할 수 있는 항목인지 확인하는 함수 (관리자가 삭제한 항목은 관리자 페이지에서만 복원 가능)
+ * @param item 휴지통 항목
+ * @returns 복원 가능 여부
+ */
+const canRestore = (item: UIRecycleBinItem | null): item is UIRecycleBinItem => !!item && !item.deletedByAdmin;
+
+/**
+ * 휴지통 창 컴포넌트
+ */
+const RecycleBin: React.FC<RecycleBinProps> = ({ windowId, onClose, user }) => {
+  const { items, loading, error, restoreItem, refresh } = useRecycleBin(user.isAnonymous ? undefined : user.uid);
+  const { showContextMenu } = useContextMenu();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const selectedItem = items.find(item => item.id === selectedId) ?? null;
+
+  // 항목 복원 핸들러
+  const handleRestore = useCallback(async (item: UIRecycleBinItem | null) => {
+    if (!canRestore(item) || isRestoring) return;
+
+    try {
+      setIsRestoring(true);
+      await restoreItem(item.id);
+      setSelectedId(null);
+      setToast({ message: `'${item.title}' 항목을 복원했습니다.`, type: 'success' });
+    } catch (err) {
+      console.error('휴지통 항목 복원 오류:', err);
+      setToast({ message: err instanceof Error ? err.message : '항목을 복원하지 못했습니다.', type: 'error' });
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [restoreItem, isRestoring]);
+
+  useShortcut('F5', () => { refresh(); }, { description: '휴지통 새로 고침', scope: windowId });
+  useShortcut('Ctrl+R', () => handleRestore(selectedItem), {
+    description: '선택한 항목 복원',
+    scope: windowId,
+    enabled: canRestore(selectedItem),
+  });
+
+  const menus: Menu[] = [
+    {
+      name: '파일',
+      items: [
+        { label: '복원', action: () => handleRestore(selectedItem), disabled: !canRestore(selectedItem) || isRestoring, shortcut: 'Ctrl+R' },
+        { isSeparator: true },
+        { label: '닫기', action: onClose, shortcut: 'Esc' },
+      ],
+    },
+    {
+      name: '보기',
+      items: [
+        { label: '새로 고침', action: () => { refresh(); }, shortcut: 'F5' },
+      ],
+    },
+  ];
+
+  // 항목 우클릭 메뉴 표시
+  const handleItemContextMenu = (e: React.MouseEvent, item: UIRecycleBinItem) => {
+    setSelectedId(item.id);
+    showContextMenu(e, [
+      { label: '복원', action: () => handleRestore(item), disabled: !canRestore(item) || isRestoring },
+    ]);
+  };
+
+  // 창 내용 렌더링
+  const renderContent = () => {
+    if (user.isAnonymous) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+          게스트는 휴지통을 사용할 수 없습니다. 로그인 후 이용해주세요.
+        </div>
+      );
+    }
+
+    if (loading && items.length === 0) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+          휴지통을 불러오는 중...
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-sm text-red-600 space-y-2">
+          <p>{error.message}</p>
+          <button onClick={() => { refresh(); }} className="px-3 py-1 border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover text-black">
+            다시 시도
+          </button>
+        </div>
+      );
+    }
+
+    if (items.length === 0) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-600">
+          휴지통이 비어 있습니다.
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 overflow-auto bg-white">
+        <table className="min-w-full text-sm">
+          <thead className="sticky top-0 bg-winxp-window border-b border-gray-300">
+            <tr className="text-left text-gray-700">
+              <th className="px-3 py-1.5 font-normal">이름</th>
+              <th className="px-3 py-1.5 font-normal w-20">종류</th>
+              <th className="px-3 py-1.5 font-normal w-44">삭제한 날짜</th>
+              <th className="px-3 py-1.5 font-normal w-24">삭제한 사람</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr
+                key={item.id}
+                onClick={() => setSelectedId(item.id)}
+                onDoubleClick={() => handleRestore(item)}
+                onContextMenu={(e) => handleItemContextMenu(e, item)}
+                title={item.deletedByAdmin ? '관리자가 삭제한 항목은 복원할 수 없습니다.' : undefined}
+                className={`cursor-default ${selectedId === item.id ? 'bg-winxp-blue text-white' : 'hover:bg-blue-50 text-black'}`}
+              >
+                <td className="px-3 py-1 truncate max-w-xs">
+                  <span className="mr-1">{item.type === 'post' ? '📄' : '💬'}</span>
+                  {item.title}
+                </td>
+                <td className="px-3 py-1">{item.type === 'post' ? '게시물' : '댓글'}</td>
+                <td className="px-3 py-1">{new Date(item.deletedAt).toLocaleString()}</td>
+                <td className="px-3 py-1">{item.deletedByAdmin ? '관리자' : '본인'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <Window windowId={windowId} title="휴지통" icon="🗑️" onClose={onClose}>
+      <WindowMenuBar menus={menus} />
+      {/* 도구 모음 */}
+      <div className="flex items-center space-x-2 px-2 py-1 border-b border-gray-300 bg-winxp-window">
+        <button
+          onClick={() => handleRestore(selectedItem)}
+          disabled={!canRestore(selectedItem) || isRestoring}
+          className="px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ♻️ 복원
+        </button>
+        <button
+          onClick={() => { refresh(); }}
+          disabled={loading}
+          className="px-3 py-1 text-sm text-black border border-gray-400 rounded-winxp bg-white hover:bg-winxp-button-hover disabled:opacity-50"
+        >
+          새로 고침
+        </button>
+      </div>
+      <div className="flex flex-col flex-grow overflow-hidden" onClick={(e) => { if (e.target === e.currentTarget) setSelectedId(null); }}>
+        {renderContent()}
+      </div>
+      {/* 상태 표시줄 */}
+      <div className="px-3 py-1 text-xs text-gray-600 border-t border-gray-300 bg-winxp-window">
+        {!user.isAnonymous && `항목 ${items.length}개 · `}휴지통 비우기는 관리자만 할 수 있습니다.
+      </div>
+      {toast && (
+        <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
+      )}
+    </Window>
+  );
+};
+
+export default RecycleBin;
@@ -3,7 +3,7 @@
  * Windows 11 스타일의 설정 창을 제공합니다.
  */
 import React, { useState, useEffect, useRef } from 'react';
-import WindowControls from './WindowControls';
+import Window from './Window';
 import Dashboard from './Dashboard';
 
 // 기본 배경화면 경로
@@ -19,8 +19,8 @@ const WALLPAPER_TYPE_KEY = 'win11_board_wallpaper_type';
  * 설정 모달 컴포넌트 속성
  */
 interface SettingsModalProps {
-  /** 모달이 열려 있는지 여부 */
-  isOpen: boolean;
+  /** 창 관리자에 등록된 창 ID */
+  windowId: string;
   /** 모달 닫기 핸들러 */
   onClose: () => void;
   /** 배경화면 변경 핸들러 */
@@ -31,7 +31,7 @@ interface SettingsModalProps {
  * 설정 모달 컴포넌트
  */
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
-  isOpen, 
+  windowId, 
   onClose, 
   onWallpaperChange 
 }) => {
@@ -52,7 +52,6 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   });
   const [defaultImageError, setDefaultImageError] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isMaximized, setIsMaximized] = useState(false);
 
   // 기본 이미지 로딩 오류 감지
   useEffect(() => {
@@ -130,11 +129,6 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     fileInputRef.current?.click();
   };
 
-  // 창 최대화/복원 핸들러
-  const handleToggleMaximize = () => {
-    setIsMaximized(!isMaximized);
-  };
-
   // 배경화면 미리보기 스타일 결정
   const previewBgStyle = defaultImageError || (wallpaperUrl === DEFAULT_WALLPAPER && defaultImageError) ? 
     { backgroundColor: FALLBACK_BG_COLOR } : 
@@ -208,62 +202,41 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     );
   };
 
-  return isOpen ? (
-    <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/40 backdrop-blur-sm">
-      <div 
-        className={`bg-white/80 backdrop-blur-xl flex flex-col overflow-hidden
-          ${isMaximized ? 'w-full h-full rounded-none' : 'w-full max-w-lg m-4 rounded-xl shadow-win11-window border border-slate-200/80'}`}
-        onClick={(e) => e.stopPropagation()}
-      >
-        {/* 헤더 */}
-        <div className="flex-shrink-0 h-14 flex items-center px-4 border-b border-slate-200/80">
-          <WindowControls 
-            onClose={onClose} 
-            onMaximize={handleToggleMaximize} 
-            isMaximized={isMaximized} 
-          />
-          <div className="flex-grow text-center">
-            <h2 className="font-semibold text-slate-700 select-none">
-              설정
-            </h2>
-          </div>
-          <div className="w-16"></div>
+  return (
+    <Window windowId={windowId} title="설정" onClose={onClose}>
+      {/* 설정 내용 */}
+      <div className="flex flex-grow overflow-hidden">
+        {/* 사이드바 */}
+        <div className="w-36 border-r border-slate-200/80 p-2 space-y-1 bg-white/50">
+          <button
+            onClick={() => setActiveTab('wallpaper')}
+            className={`w-full text-left px-3 py-2 rounded-win11 text-sm transition-colors ${
+              activeTab === 'wallpaper' 
+                ? 'bg-win11-blue text-white' 
+                : 'hover:bg-slate-100 text-slate-800'
+            }`}
+          >
+            바탕화면
+          </button>
+          <button
+            onClick={() => setActiveTab('dashboard')}
+            className={`w-full text-left px-3 py-2 rounded-win11 text-sm transition-colors ${
+              activeTab === 'dashboard' 
+                ? 'bg-win11-blue text-white' 
+                : 'hover:bg-slate-100 text-slate-800'
+            }`}
+          >
+            대시보드
+          </button>
         </div>
         
-        {/* 설정 내용 */}
-        <div className="flex flex-grow overflow-hidden">
-          {/* 사이드바 */}
-          <div className="w-36 border-r border-slate-200/80 p-2 space-y-1 bg-white/50">
-            <button
-              onClick={() => setActiveTab('wallpaper')}
-              className={`w-full text-left px-3 py-2 rounded-win11 text-sm transition-colors ${
-                activeTab === 'wallpaper' 
-                  ? 'bg-win11-blue text-white' 
-                  : 'hover:bg-slate-100 text-slate-800'
-              }`}
-            >
-              바탕화면
-            </button>
-            <button
-              onClick={() => setActiveTab('dashboard')}
-              className={`w-full text-left px-3 py-2 rounded-win11 text-sm transition-colors ${
-                activeTab === 'dashboard' 
-                  ? 'bg-win11-blue text-white' 
-                  : 'hover:bg-slate-100 text-slate-800'
-              }`}
-            >
-              대시보드
-            </button>
-          </div>
-          
-          {/* 내용 영역 */}
-          <div className="flex-1 p-4 overflow-y-auto">
-            {activeTab === 'wallpaper' ? renderWallpaperTab() : renderDashboardTab()}
-          </div>
+        {/* 내용 영역 */}
+        <div className="flex-1 p-4 overflow-y-auto">
+          {activeTab === 'wallpaper' ? renderWallpaperTab() : renderDashboardTab()}
         </div>
       </div>
-    </div>
-  ) : null;
+    </Window>
+  );
 };
 
 export default SettingsModal; 
\ No newline at end of file
@@ -15,6 +15,11 @@ interface SidebarProps {
   onSelectTag: (tag: string | null) => void;
   showBookmarks?: boolean; // 북마크 필터링 활성화 상태
   onToggleBookmarks?: () => void; // 북마크 필터링 토글 함수
+  unreadCounts?: Record<string, number>; // 카테고리별 읽지 않은 게시물 수 ('all'은 전체)
+  followedCategories?: string[]; // 팔로우한 카테고리 ID 목록
+  followedTags?: string[]; // 팔로우한 태그 목록
+  onCategoryContextMenu?: (e: React.MouseEvent, categoryId: string) => void; // 카테고리 우클릭 핸들러
+  onTagContextMenu?: (e: React.MouseEvent, tag: string) => void; // 태그 우클릭 핸들러
 }
 
 /**
@@ -28,6 +33,11 @@ interface SidebarProps {
  * @param onSelectTag 태그 선택 핸들러
  * @param showBookmarks 북마크 필터링 활성화 상태
  * @param onToggleBookmarks 북마크 필터링 토글 핸들러
+ * @param unreadCounts 카테고리별 읽지 않은 게시물 수
+ * @param followedCategories 팔로우한 카테고리 ID 목록
+ * @param followedTags 팔로우한 태그 목록
+ * @param onCategoryContextMenu 카테고리 우클릭 메뉴 표시 핸들러
+ * @param onTagContextMenu 태그 우클릭 메뉴 표시 핸들러
  */
 const Sidebar: React.FC<SidebarProps> = ({ 
   categories = [], // 기본값으로 빈 배열 설정 
@@ -38,7 +48,12 @@ const Sidebar: React.FC<SidebarProps> = ({
   selectedTag, 
   onSelectTag,
   showBookmarks = false,
-  onToggleBookmarks
+  onToggleBookmarks,
+  unreadCounts = {},
+  followedCategories = [],
+  followedTags = [],
+  onCategoryContextMenu,
+  onTagContextMenu
 }) => {
   // 인증 정보 가져오기
   const { user } = useAuth();
@@ -164,6 +179,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             <li key={category.id}>
               <button
                 onClick={(e) => handleSelectCategory(e, category.id)}
+                onContextMenu={onCategoryContextMenu ? (e) => onCategoryContextMenu(e, category.id) : undefined}
                 className={`w-full flex items-center space-x-3 text-sm font-medium p-2 rounded-md transition-colors duration-150 ${
                   selectedCategory === category.id && !selectedTag
                     ? 'bg-blue-500 text-white shadow'
@@ -173,7 +189,20 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <span className={selectedCategory === category.id && !selectedTag ? 'text-white' : 'text-slate-500'}>
                   {category.icon}
                 </span>
-                <span>{category.name}</span>
+                <span className="truncate">{category.name}</span>
+                {followedCategories.includes(category.id) && (
+                  <span className="text-xs flex-shrink-0" title="팔로우 중">🔔</span>
+                )}
+                {!showBookmarks && (unreadCounts[category.id] || 0) > 0 && (
+                  <span
+                    className={`ml-auto text-xs font-semibold px-1.5 rounded-full ${
+                      selectedCategory === category.id && !selectedTag ? 'bg-white/25 text-white' : 'bg-blue-100 text-blue-700'
+                    }`}
+                    title={`읽지 않은 게시물 ${unreadCounts[category.id]}개`}
+                  >
+                    {unreadCounts[category.id]}
+                  </span>
+                )}
               </button>
             </li>
           ))}
@@ -187,6 +216,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             <li key={tag}>
               <button
                 onClick={(e) => handleSelectTag(e, tag)}
+                onContextMenu={onTagContextMenu ? (e) => onTagContextMenu(e, tag) : undefined}
                 className={`w-full flex items-center space-x-3 text-sm p-2 rounded-md transition-colors duration-150 ${
                   selectedTag === tag
                     ? 'bg-blue-500 text-white shadow'
@@ -195,6 +225,9 @@ const Sidebar: React.FC<SidebarProps> = ({
               >
                 <HashtagIcon className={`w-4 h-4 flex-shrink-0 ${selectedTag === tag ? 'text-white/80' : 'text-slate-500'}`} />
                 <span className="font-medium truncate">{tag}</span>
+                {followedTags.includes(tag) && (
+                  <span className="ml-auto text-xs flex-shrink-0" title="팔로우 중">🔔</span>
+                )}
               </button>
             </li>
           ))}
@@ -1,5 +1,22 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import type { User } from '../types';
+import type { BoardNavigationTarget } from '../src/types';
+import { useBoardSearch } from '../src/hooks/useBoardSearch';
+import { useRecentDocuments } from '../src/hooks/useRecentDocuments';
+import { formatDate } from '../src/utils/formatDate';
+import { GoogleIcon } from './icons';
+
+/**
+ * 시작 메뉴 검색 결과 항목
+ */
+interface SearchEntry {
+  key: string;
+  group: string;
+  icon: string;
+  label: string;
+  detail?: string;
+  onSelect: () => void;
+}
 
 interface StartMenuProps {
   isOpen: boolean;
@@ -10,6 +27,10 @@ interface StartMenuProps {
   onOpenSettings: () => void;
   onOpenHelp: () => void;
   onOpenBookmarks: () => void;
+  /** 검색 결과를 선택했을 때 게시판 창에서 해당 항목으로 이동 */
+  onNavigateBoard: (target: BoardNavigationTarget) => void;
+  /** 게스트 계정을 Google 계정으로 업그레이드 */
+  onUpgradeAccount: () => void;
 }
 
 const StartMenu: React.FC<StartMenuProps> = ({ 
@@ -20,9 +41,38 @@ const StartMenu: React.FC<StartMenuProps> = ({
   onOpenBoard,
   onOpenSettings,
   onOpenHelp,
-  onOpenBookmarks
+  onOpenBookmarks,
+  onNavigateBoard,
+  onUpgradeAccount
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // 검색어 및 키보드로 선택한 검색 결과 위치
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { results, loading: searchLoading, error: searchError } = useBoardSearch(searchQuery, isOpen);
+  // 최근 문서 (게스트는 기록하지 않음) 및 하위 메뉴 표시 여부
+  const {
+    documents: recentDocuments,
+    loading: recentLoading,
+    clearHistory
+  } = useRecentDocuments(user.isAnonymous ? undefined : user.uid, isOpen);
+  const [isRecentMenuOpen, setRecentMenuOpen] = useState(false);
+
+  // 시작 메뉴가 열리면 검색 상자에 포커스, 닫히면 검색어 초기화
+  useEffect(() => {
+    if (isOpen) {
+      searchInputRef.current?.focus();
+    } else {
+      setSearchQuery('');
+      setRecentMenuOpen(false);
+    }
+  }, [isOpen]);
+
+  // 검색어가 바뀌면 첫 번째 결과 선택
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [searchQuery]);
 
   // 외부 클릭 감지
   useEffect(() => {
@@ -62,13 +112,122 @@ const StartMenu: React.FC<StartMenuProps> = ({
     { name: '도움말', icon: '❓', color: 'bg-red-100', onClick: onOpenHelp },
   ];
 
+  // 검색 결과 항목 (게시물 > 카테고리 > 태그 > 작성자 > 프로그램 순으로 그룹화)
+  const trimmedQuery = searchQuery.trim();
+  const isSearching = trimmedQuery.length > 0;
+  const navigateTo = (target: BoardNavigationTarget) => handleMenuItemClick(() => onNavigateBoard(target));
+  const searchEntries: SearchEntry[] = isSearching ? [
+    ...results.posts.map(post => ({
+      key: `post-${post.id}`,
+      group: '게시물',
+      icon: '📄',
+      label: post.title,
+      detail: `${post.author.name} · ${formatDate(post.date)}`,
+      onSelect: () => navigateTo({ type: 'post', postId: post.id }),
+    })),
+    ...results.categories.map(category => ({
+      key: `category-${category.id}`,
+      group: '카테고리',
+      icon: category.icon,
+      label: category.name,
+      detail: `최근 게시물 ${category.postCount}개`,
+      onSelect: () => navigateTo({ type: 'category', categoryId: category.id }),
+    })),
+    ...results.tags.map(tag => ({
+      key: `tag-${tag}`,
+      group: '태그',
+      icon: '#️⃣',
+      label: tag,
+      onSelect: () => navigateTo({ type: 'tag', tag }),
+    })),
+    ...results.authors.map(author => ({
+      key: `author-${author.id || author.name}`,
+      group: '작성자',
+      icon: '👤',
+      label: author.name,
+      detail: `최근 게시물 ${author.postCount}개`,
+      onSelect: () => navigateTo({ type: 'search', query: author.name }),
+    })),
+    ...pinnedApps
+      .filter(app => app.name.toLowerCase().includes(trimmedQuery.toLowerCase()))
+      .map(app => ({
+        key: `app-${app.name}`,
+        group: '프로그램',
+        icon: app.icon,
+        label: app.name,
+        onSelect: () => handleMenuItemClick(app.onClick),
+      })),
+  ] : [];
+  const selectedIndex = Math.min(activeIndex, Math.max(searchEntries.length - 1, 0));
+
+  // 검색 상자 키 입력 처리 (방향키로 결과 이동, Enter로 열기, Esc로 검색어 지우기/메뉴 닫기)
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && searchEntries.length > 0) {
+      e.preventDefault();
+      setActiveIndex((selectedIndex + 1) % searchEntries.length);
+    } else if (e.key === 'ArrowUp' && searchEntries.length > 0) {
+      e.preventDefault();
+      setActiveIndex((selectedIndex - 1 + searchEntries.length) % searchEntries.length);
+    } else if (e.key === 'Enter' && searchEntries[selectedIndex]) {
+      e.preventDefault();
+      searchEntries[selectedIndex].onSelect();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (searchQuery) {
+        setSearchQuery('');
+      } else {
+        onClose();
+      }
+    }
+  };
+
+  // 검색 결과 패널 렌더링
+  const renderSearchResults = () => {
+    if (searchEntries.length === 0) {
+      return (
+        <div className="p-4 text-sm text-gray-600 font-winxp">
+          {searchLoading
+            ? '검색 중...'
+            : searchError
+              ? searchError.message
+              : `'${trimmedQuery}'에 대한 검색 결과가 없습니다.`}
+        </div>
+      );
+    }
+
+    return searchEntries.map((entry, index) => (
+      <React.Fragment key={entry.key}>
+        {(index === 0 || searchEntries[index - 1].group !== entry.group) && (
+          <div className="px-2 pt-2 pb-1 font-winxp font-bold text-xs text-winxp-blue border-b border-gray-200">
+            {entry.group}
+          </div>
+        )}
+        <button
+          onClick={entry.onSelect}
+          onMouseEnter={() => setActiveIndex(index)}
+          className={`flex items-center w-full p-1 rounded-winxp font-winxp text-sm text-left ${
+            index === selectedIndex ? 'bg-winxp-blue text-white' : ''
+          }`}
+        >
+          <span className="w-6 h-6 flex items-center justify-center text-base mr-2 flex-shrink-0">{entry.icon}</span>
+          <span className="truncate">{entry.label}</span>
+          {entry.detail && (
+            <span className={`ml-auto pl-2 text-xs flex-shrink-0 ${index === selectedIndex ? 'text-white/80' : 'text-gray-500'}`}>
+              {entry.detail}
+            </span>
+          )}
+        </button>
+      </React.Fragment>
+    ));
+  };
+
   return (
     <div 
       ref={menuRef}
-      className="absolute bottom-10 left-0 w-[400px] bg-winxp-window border-2 border-winxp-border rounded-winxp shadow-winxp-window z-50 overflow-hidden"
+      className="absolute bottom-10 left-0 w-[400px] bg-winxp-window border-2 border-winxp-border rounded-winxp shadow-winxp-window z-50"
     >
       {/* 상단 영역: Windows XP 그라데이션 바 */}
-      <div className="h-8 bg-winxp-gradient text-white font-winxp flex items-center px-4 font-bold">
+      <div className="h-8 bg-winxp-gradient text-white font-winxp flex items-center px-4 font-bold rounded-t-winxp">
         <div className="flex items-center">
           <div 
             className="w-6 h-6 rounded-full bg-white flex items-center justify-center text-winxp-blue mr-2 font-bold"
@@ -79,6 +238,29 @@ const StartMenu: React.FC<StartMenuProps> = ({
         </div>
       </div>
       
+      {/* 검색 상자 */}
+      <div className="p-2 border-b border-gray-300 bg-white">
+        <div className="flex items-center border border-gray-400 rounded-winxp px-2 py-1 shadow-winxp-inset">
+          <span className="mr-1">🔍</span>
+          <input
+            ref={searchInputRef}
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="게시물, 카테고리, 태그, 작성자, 프로그램 검색"
+            className="flex-1 text-sm font-winxp bg-transparent outline-none"
+            aria-label="시작 메뉴 검색"
+          />
+        </div>
+      </div>
+      
+      {isSearching ? (
+        /* 검색 결과 패널 */
+        <div className="h-72 overflow-y-auto p-2" role="listbox" aria-label="검색 결과">
+          {renderSearchResults()}
+        </div>
+      ) : (
       <div className="flex">
         {/* 좌측 패널: 고정된 항목 목록 */}
         <div className="w-48 bg-winxp-window border-r border-gray-300 p-2">
@@ -156,8 +338,73 @@ const StartMenu: React.FC<StartMenuProps> = ({
               <span>데브캔버스</span>
             </div>
           </div>
+          
+          {/* 최근 문서 하위 메뉴 */}
+          <div className="h-px bg-gray-300 my-2" />
+          <div
+            className="relative"
+            onMouseEnter={() => setRecentMenuOpen(true)}
+            onMouseLeave={() => setRecentMenuOpen(false)}
+          >
+            <button
+              onClick={() => setRecentMenuOpen(prev => !prev)}
+              className={`flex items-center w-full p-1 rounded-winxp transition-colors font-winxp text-sm ${
+                isRecentMenuOpen ? 'bg-winxp-blue text-white' : 'hover:bg-winxp-blue hover:text-white'
+              }`}
+              aria-haspopup="menu"
+              aria-expanded={isRecentMenuOpen}
+            >
+              <div className="w-6 h-6 bg-orange-100 rounded-sm flex items-center justify-center text-lg mr-2">
+                📂
+              </div>
+              <span>최근 문서</span>
+              <span className="ml-auto text-xs">▶</span>
+            </button>
+            
+            {isRecentMenuOpen && (
+              <div
+                role="menu"
+                className="absolute left-full bottom-0 w-64 max-h-80 overflow-y-auto bg-winxp-window border border-gray-400 rounded-winxp shadow-winxp-window py-1 z-10"
+              >
+                {user.isAnonymous ? (
+                  <div className="px-3 py-1 text-sm text-gray-500 font-winxp">게스트는 최근 문서가 기록되지 않습니다.</div>
+                ) : recentDocuments.length === 0 ? (
+                  <div className="px-3 py-1 text-sm text-gray-500 font-winxp">
+                    {recentLoading ? '불러오는 중...' : '최근에 연 게시물이 없습니다.'}
+                  </div>
+                ) : (
+                  recentDocuments.map(document => (
+                    <button
+                      key={document.postId}
+                      role="menuitem"
+                      onClick={() => navigateTo({ type: 'post', postId: document.postId })}
+                      className="flex items-center w-full px-3 py-1 text-left text-sm text-black font-winxp hover:bg-winxp-blue hover:text-white"
+                      title={`${document.title} (${new Date(document.viewedAt).toLocaleString()})`}
+                    >
+                      <span className="mr-2">📄</span>
+                      <span className="truncate">{document.title}</span>
+                    </button>
+                  ))
+                )}
+                {!user.isAnonymous && (
+                  <>
+                    <div className="h-px bg-gray-400 my-1 mx-2" />
+                    <button
+                      role="menuitem"
+                      onClick={() => clearHistory()}
+                      disabled={recentDocuments.length === 0}
+                      className="w-full px-3 py-1 text-left text-sm text-black font-winxp hover:bg-winxp-blue hover:text-white disabled:text-gray-400 disabled:hover:bg-transparent"
+                    >
+                      기록 지우기
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
+      )}
       
       {/* 하단 영역: 로그아웃 및 종료 버튼 */}
       <div className="bg-winxp-window border-t border-gray-300 p-2 flex justify-between">
@@ -169,6 +416,17 @@ const StartMenu: React.FC<StartMenuProps> = ({
           도움말
         </button>
         
+        {user.isAnonymous && (
+          <button 
+            onClick={() => handleMenuItemClick(onUpgradeAccount)}
+            className="flex items-center text-sm bg-winxp-button-gradient border border-gray-400 rounded-winxp px-3 py-1 shadow-winxp-button hover:bg-winxp-button-hover font-winxp"
+            title="Google 계정을 연결해 게스트로 만든 데이터를 유지합니다."
+          >
+            <GoogleIcon className="w-4 h-4 mr-1" />
+            계정 업그레이드
+          </button>
+        )}
+        
         <button 
           onClick={onLogout}
           className="flex items-center text-sm bg-winxp-button-gradient border border-gray-400 rounded-winxp px-3 py-1 shadow-winxp-button hover:bg-winxp-button-hover font-winxp"
@@ -1,6 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import type { User } from '../types';
+import type { MenuItem, WindowState, UINotification } from '../src/types';
 import { FolderIcon, SettingsIcon } from './icons';
+import NotificationBalloon from './NotificationBalloon';
+import { useWindowManager } from '../src/hooks/useWindowManager';
+import { useContextMenu } from '../src/hooks/useContextMenu';
+import { useNotifications } from '../src/hooks/useNotifications';
+import { getNotificationIcon, getNotificationMessage } from '../src/utils/notifications';
+import { formatRelativeTime } from '../src/utils/formatDate';
 
 interface TaskbarProps {
   onOpenHelp: () => void;
@@ -11,6 +18,7 @@ interface TaskbarProps {
   onOpenBoard: () => void;
   onOpenBookmarks: () => void;
   onOpenSettings: () => void;
+  onOpenPost: (postId: string) => void;
 }
 
 const Taskbar: React.FC<TaskbarProps> = ({ 
@@ -21,12 +29,38 @@ const Taskbar: React.FC<TaskbarProps> = ({
   isStartMenuOpen,
   onOpenBoard,
   onOpenBookmarks,
-  onOpenSettings
+  onOpenSettings,
+  onOpenPost
 }) => {
   const [time, setTime] = useState(new Date());
   const [date, setDate] = useState('');
   const [showNotificationPanel, setShowNotificationPanel] = useState(false);
   const taskbarRef = useRef<HTMLDivElement>(null);
+  const {
+    windows,
+    activeWindowId,
+    focusWindow,
+    minimizeWindow,
+    restoreWindow,
+    toggleMaximize,
+    closeWindow,
+    tileWindows,
+    cascadeWindows,
+  } = useWindowManager();
+  const { showContextMenu, hideContextMenu } = useContextMenu();
+  // 사용자 알림 (게스트는 알림을 받지 않음)
+  const {
+    notifications,
+    unreadCount,
+    loaded: notificationsLoaded,
+    error: notificationError,
+    markAsRead,
+    markAllAsRead
+  } = useNotifications(user.isAnonymous ? undefined : user.uid);
+  // 풍선 도움말로 안내 중인 알림
+  const [balloonNotification, setBalloonNotification] = useState<UINotification | null>(null);
+  // 이미 받은 알림 ID (첫 구독 결과는 풍선 도움말 없이 기록)
+  const knownNotificationIdsRef = useRef<Set<string> | null>(null);
 
   // 시간 업데이트
   useEffect(() => {
@@ -51,14 +85,92 @@ const Taskbar: React.FC<TaskbarProps> = ({
     };
   }, []);
 
+  // 새로 도착한 읽지 않은 알림을 풍선 도움말로 안내 (알림 패널이 열려 있으면 생략)
+  useEffect(() => {
+    if (!notificationsLoaded) {
+      knownNotificationIdsRef.current = null;
+      return;
+    }
+
+    const knownIds = knownNotificationIdsRef.current;
+    knownNotificationIdsRef.current = new Set(notifications.map(notification => notification.id));
+    if (!knownIds) return;
+
+    const newNotification = notifications.find(notification => !notification.isRead && !knownIds.has(notification.id));
+    if (newNotification && !showNotificationPanel) {
+      setBalloonNotification(newNotification);
+    }
+  }, [notifications, notificationsLoaded, showNotificationPanel]);
+
+  const closeBalloon = useCallback(() => setBalloonNotification(null), []);
+
+  // 알림 클릭 처리 - 읽음으로 표시하고 대상 게시물 열기
+  const handleOpenNotification = (notification: UINotification) => {
+    setBalloonNotification(null);
+    setShowNotificationPanel(false);
+    if (!notification.isRead) {
+      markAsRead(notification.id).catch(error => console.error('알림 읽음 표시 오류:', error));
+    }
+    onOpenPost(notification.postId);
+  };
+
+  // 모든 알림 읽음으로 표시
+  const handleMarkAllNotificationsAsRead = () => {
+    markAllAsRead().catch(error => console.error('알림 모두 읽음 표시 오류:', error));
+  };
+
   // 외부 웹사이트 열기 핸들러
   const handleOpenExternalSite = (url: string) => {
     window.open(url, '_blank');
   };
 
+  // 작업 단추 클릭 처리 - 최소화된 창은 복원, 활성 창은 최소화, 그 외에는 포커스
+  const handleTaskButtonClick = (win: WindowState) => {
+    hideContextMenu();
+    if (win.isMinimized) {
+      restoreWindow(win.id);
+    } else if (win.id === activeWindowId) {
+      minimizeWindow(win.id);
+    } else {
+      focusWindow(win.id);
+    }
+  };
+
+  // 작업 단추 메뉴 항목 구성
+  const getTaskMenuItems = (win: WindowState): MenuItem[] => [
+    {
+      label: '복원',
+      action: () => (win.isMinimized ? restoreWindow(win.id) : toggleMaximize(win.id)),
+      disabled: !win.isMinimized && !win.isMaximized,
+    },
+    { label: '최소화', action: () => minimizeWindow(win.id), disabled: win.isMinimized },
+    {
+      label: '최대화',
+      action: () => (win.isMaximized ? restoreWindow(win.id) : toggleMaximize(win.id)),
+      disabled: win.isMaximized && !win.isMinimized,
+    },
+    { isSeparator: true },
+    { label: '닫기', action: () => closeWindow(win.id) },
+  ];
+
+  // 작업 단추 우클릭 처리 - 창 제어 메뉴 표시
+  const handleTaskButtonContextMenu = (e: React.MouseEvent<HTMLButtonElement>, win: WindowState) => {
+    showContextMenu(e, getTaskMenuItems(win));
+  };
+
+  // 작업 표시줄 빈 영역 우클릭 처리 - 창 배열 메뉴 표시
+  const handleTaskbarContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    const hasVisibleWindow = windows.some(w => !w.isMinimized);
+    showContextMenu(e, [
+      { label: '계단식 창 배열', action: cascadeWindows, disabled: !hasVisibleWindow },
+      { label: '바둑판식 창 배열', action: tileWindows, disabled: !hasVisibleWindow },
+    ]);
+  };
+
   return (
     <div 
       ref={taskbarRef}
+      onContextMenu={handleTaskbarContextMenu}
       className="fixed bottom-0 left-0 right-0 h-10 bg-winxp-gradient shadow-winxp-window z-50 flex items-center justify-between px-2"
     >
       {/* 시작 버튼 영역 - 좌측 정렬 */}
@@ -139,14 +251,44 @@ const Taskbar: React.FC<TaskbarProps> = ({
         </button>
       </div>
 
+      {/* 작업 단추 영역 - 열린 창 목록 */}
+      <div className="flex-1 min-w-0 flex items-center space-x-1 mx-2 overflow-hidden">
+        {windows.map(win => {
+          const isActive = win.id === activeWindowId;
+          return (
+            <button
+              key={win.id}
+              onClick={() => handleTaskButtonClick(win)}
+              onContextMenu={(e) => handleTaskButtonContextMenu(e, win)}
+              className={`flex-1 min-w-0 max-w-[160px] h-7 px-2 flex items-center border border-gray-400 rounded-winxp font-winxp text-sm text-black transition-colors ${
+                isActive ? 'bg-winxp-button-hover shadow-winxp-inset font-bold' : 'bg-winxp-button-gradient shadow-winxp-button hover:bg-winxp-button-hover'
+              }`}
+              title={win.title}
+            >
+              <span className="mr-1 flex-shrink-0">{win.icon}</span>
+              <span className="truncate">{win.title}</span>
+            </button>
+          );
+        })}
+      </div>
+
       {/* 시스템 트레이 영역 - 우측 정렬 */}
       <div className="flex items-center space-x-2 text-black text-sm">
         {/* 알림 패널 버튼 */}
         <button 
-          onClick={() => setShowNotificationPanel(!showNotificationPanel)}
-          className={`p-1 bg-winxp-button-gradient border border-gray-400 rounded-winxp shadow-winxp-button hover:bg-winxp-button-hover transition-colors ${showNotificationPanel ? 'shadow-winxp-inset' : ''}`}
-          aria-label="알림"
+          onClick={() => {
+            setBalloonNotification(null);
+            setShowNotificationPanel(!showNotificationPanel);
+          }}
+          className={`relative p-1 bg-winxp-button-gradient border border-gray-400 rounded-winxp shadow-winxp-button hover:bg-winxp-button-hover transition-colors ${showNotificationPanel ? 'shadow-winxp-inset' : ''}`}
+          aria-label={unreadCount > 0 ? `알림 (읽지 않은 알림 ${unreadCount}개)` : '알림'}
+          title={unreadCount > 0 ? `읽지 않은 알림 ${unreadCount}개` : '알림'}
         >
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[16px] h-4 px-0.5 bg-red-600 text-white text-[10px] leading-4 font-bold text-center rounded-full">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
           <svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
             <path d="M8 16C9.1 16 10 15.1 10 14H6C6 15.1 6.9 16 8 16ZM14 11V6.5C14 4.01 12.42 1.92 10 1.18V0.5C10 0.22 9.78 0 9.5 0H6.5C6.22 0 6 0.22 6 0.5V1.18C3.58 1.92 2 4.01 2 6.5V11L0 13V14H16V13L14 11Z" fill="black"/>
           </svg>
@@ -159,29 +301,64 @@ const Taskbar: React.FC<TaskbarProps> = ({
         </div>
       </div>
 
+      {/* 새 알림 풍선 도움말 */}
+      {balloonNotification && (
+        <NotificationBalloon
+          notification={balloonNotification}
+          onOpen={handleOpenNotification}
+          onClose={closeBalloon}
+        />
+      )}
+
       {/* 알림 패널 */}
       {showNotificationPanel && (
         <div className="absolute bottom-12 right-2 w-80 bg-winxp-window border-2 border-winxp-border rounded-winxp shadow-winxp-window p-4">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="font-semibold font-winxp">알림</h3>
+            <h3 className="font-semibold font-winxp">
+              알림{unreadCount > 0 && <span className="ml-1 text-sm text-winxp-blue">({unreadCount})</span>}
+            </h3>
             <button 
-              onClick={() => setShowNotificationPanel(false)}
-              className="text-sm text-winxp-blue font-winxp bg-winxp-button-gradient border border-gray-400 rounded-winxp px-2 py-0.5 shadow-winxp-button hover:bg-winxp-button-hover"
+              onClick={handleMarkAllNotificationsAsRead}
+              disabled={unreadCount === 0}
+              className="text-sm text-winxp-blue font-winxp bg-winxp-button-gradient border border-gray-400 rounded-winxp px-2 py-0.5 shadow-winxp-button hover:bg-winxp-button-hover disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              모두 지우기
+              모두 읽음으로 표시
             </button>
           </div>
           
-          <div className="space-y-2">
-            <div className="p-3 bg-white border border-gray-300 rounded-winxp hover:bg-winxp-button-hover transition-colors">
-              <div className="font-medium font-winxp">시스템</div>
-              <p className="text-sm font-winxp">Windows XP 스타일 UI로 업데이트되었습니다.</p>
-            </div>
-            
-            <div className="p-3 bg-white border border-gray-300 rounded-winxp hover:bg-winxp-button-hover transition-colors">
-              <div className="font-medium font-winxp">사용자</div>
-              <p className="text-sm font-winxp">{user.displayName}님, 환영합니다!</p>
-            </div>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {user.isAnonymous ? (
+              <p className="p-3 text-sm font-winxp text-gray-600">로그인하면 댓글, 멘션, 반응 알림을 받을 수 있습니다.</p>
+            ) : notificationError ? (
+              <p className="p-3 text-sm font-winxp text-red-600">{notificationError.message}</p>
+            ) : notifications.length === 0 ? (
+              <p className="p-3 text-sm font-winxp text-gray-600">새 알림이 없습니다.</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full text-left p-3 border border-gray-300 rounded-winxp hover:bg-winxp-button-hover transition-colors flex items-start space-x-2 ${
+                    notification.isRead ? 'bg-gray-50 text-gray-600' : 'bg-white'
+                  }`}
+                >
+                  <span className="flex-shrink-0">{getNotificationIcon(notification)}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className={`font-winxp truncate ${notification.isRead ? '' : 'font-bold'}`}>
+                      {notification.postTitle || '(제목 없음)'}
+                    </div>
+                    <p className="text-sm font-winxp">{getNotificationMessage(notification)}</p>
+                    {notification.preview && (
+                      <p className="text-xs font-winxp text-gray-500 truncate">"{notification.preview}"</p>
+                    )}
+                    <p className="text-xs font-winxp text-gray-400 mt-0.5">{formatRelativeTime(notification.createdAt)}</p>
+                  </div>
+                  {!notification.isRead && (
+                    <span className="w-2 h-2 mt-1.5 bg-winxp-blue rounded-full flex-shrink-0" aria-label="읽지 않음" />
+                  )}
+                </button>
+              ))
+            )}
           </div>
 
           <div className="mt-4 flex justify-between">
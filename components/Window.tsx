@@ -0,0 +1,290 @@
+/**
+ * 창 프레임 컴포넌트
+ * 창 관리자에 등록된 창의 제목 표시줄, 이동, 크기 조절, 최소화/최대화를 처리합니다.
+ */
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import type { AppWindowType, WindowGeometry } from '../src/types';
+import WindowControls from './WindowControls';
+import { useWindowManager, WindowContext, createWindowId, getSnapGeometry, TASKBAR_HEIGHT } from '../src/hooks/useWindowManager';
+import type { SnapPosition } from '../src/hooks/useWindowManager';
+import { useShortcut } from '../src/hooks/useShortcuts';
+
+// 스냅이 동작하는 화면 가장자리 범위 (px)
+const SNAP_THRESHOLD = 8;
+
+/**
+ * 마우스 위치로 스냅 위치를 판별하는 함수
+ * @param clientX 마우스 x 좌표
+ * @param clientY 마우스 y 좌표
+ * @returns 스냅 위치 (가장자리가 아니면 null)
+ */
+const getSnapPosition = (clientX: number, clientY: number): SnapPosition | null => {
+  if (clientY <= SNAP_THRESHOLD) return 'maximize';
+  if (clientX <= SNAP_THRESHOLD) return 'left';
+  if (clientX >= window.innerWidth - SNAP_THRESHOLD) return 'right';
+  return null;
+};
+
+/**
+ * 창 프레임 컴포넌트 속성
+ */
+interface WindowProps {
+  /** 창 관리자에 이미 등록된 창 ID (없으면 마운트 시 스스로 창을 등록) */
+  windowId?: string;
+  /** 스스로 등록할 때 사용할 창 종류 */
+  type?: AppWindowType;
+  /** 제목 표시줄 텍스트 */
+  title: string;
+  /** 작업 표시줄 아이콘 (이모지) */
+  icon?: string;
+  /** 창 닫기 핸들러 */
+  onClose: () => void;
+  /** 제목 표시줄 오른쪽에 표시할 요소 */
+  headerRight?: React.ReactNode;
+  /** 창 내용 */
+  children: React.ReactNode;
+}
+
+/**
+ * 창 프레임 컴포넌트
+ */
+const Window: React.FC<WindowProps> = ({ windowId, type = 'board', title, icon, onClose, headerRight, children }) => {
+  const {
+    windows,
+    activeWindowId,
+    layer,
+    openWindow,
+    closeWindow,
+    focusWindow,
+    minimizeWindow,
+    toggleMaximize,
+    setWindowGeometry,
+    snapWindow,
+    updateWindow,
+    getZIndex,
+  } = useWindowManager();
+
+  // 스스로 등록하는 창의 ID (마운트 동안 고정)
+  const ownIdRef = useRef<string>(windowId ?? createWindowId());
+  const id = windowId ?? ownIdRef.current;
+  const state = windows.find(w => w.id === id);
+  const isActive = activeWindowId === id;
+
+  // 창 ID가 주어지지 않은 경우 마운트 시 창을 등록하고 언마운트 시 해제
+  useEffect(() => {
+    if (windowId) return;
+    const ownId = ownIdRef.current;
+    openWindow({ id: ownId, type, title, icon });
+    return () => closeWindow(ownId);
+  }, []);
+
+  // 작업 표시줄 등 외부에서 창이 닫힌 경우 onClose를 호출해 소유 컴포넌트 상태를 정리
+  const wasRegisteredRef = useRef(false);
+  useEffect(() => {
+    if (state) {
+      wasRegisteredRef.current = true;
+    } else if (wasRegisteredRef.current) {
+      wasRegisteredRef.current = false;
+      onClose();
+    }
+  }, [state, onClose]);
+
+  // 제목/아이콘 변경 시 창 관리자에 반영 (작업 표시줄 표시용)
+  useEffect(() => {
+    if (!state) return;
+    if (state.title !== title || (icon && state.icon !== icon)) {
+      updateWindow(id, { title, icon: icon ?? state.icon });
+    }
+  }, [id, state, title, icon, updateWindow]);
+
+  // 드래그/크기 조절 중인 임시 위치/크기 (마우스를 놓을 때 창 관리자에 반영)
+  const [liveGeometry, setLiveGeometry] = useState<WindowGeometry | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isResizing, setIsResizing] = useState(false);
+  // 드래그 중 스냅될 위치 (미리보기 표시용)
+  const [snapPreview, setSnapPreview] = useState<SnapPosition | null>(null);
+  const [startPosition, setStartPosition] = useState({ x: 0, y: 0, mouseX: 0, mouseY: 0 });
+  const [startResize, setStartResize] = useState({ width: 0, height: 0, mouseX: 0, mouseY: 0 });
+
+  const isMaximized = state?.isMaximized ?? false;
+  const position = liveGeometry?.position ?? state?.position ?? { x: 0, y: 0 };
+  const size = liveGeometry?.size ?? state?.size ?? { width: 0, height: 0 };
+  const minSize = state?.minSize ?? { width: 0, height: 0 };
+
+  // 창 최대화 처리
+  const handleToggleMaximize = useCallback(() => {
+    toggleMaximize(id);
+  }, [id, toggleMaximize]);
+
+  // 창 최소화 처리
+  const handleMinimize = useCallback(() => {
+    minimizeWindow(id);
+  }, [id, minimizeWindow]);
+
+  // Esc 키로 창 닫기 (이 창이 활성화된 경우에만 동작)
+  useShortcut('Esc', onClose, { description: '현재 창 닫기', scope: id });
+
+  // 창 드래그 시작 처리
+  const handleDragStart = useCallback((e: React.MouseEvent<HTMLElement>) => {
+    if (isMaximized || (e.target as HTMLElement).closest('button') || (e.target as HTMLElement).closest('[data-menu-bar]')) {
+      return;
+    }
+    e.preventDefault();
+    setIsDragging(true);
+
+    // 스냅된 창은 원래 크기로 돌아가므로, 마우스가 제목 표시줄의 같은 비율 위치에 오도록 시작 좌표 보정
+    const restoreSize = state?.restoreSize;
+    const startX = restoreSize
+      ? e.clientX - (e.clientX - position.x) * (restoreSize.width / size.width)
+      : position.x;
+    setStartPosition({ x: startX, y: position.y, mouseX: e.clientX, mouseY: e.clientY });
+  }, [isMaximized, position, size, state?.restoreSize]);
+
+  // 창 크기 조절 시작 처리
+  const handleResizeStart = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (isMaximized) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    setIsResizing(true);
+    setStartResize({ width: size.width, height: size.height, mouseX: e.clientX, mouseY: e.clientY });
+  }, [isMaximized, size]);
+
+  // 마우스 이동 및 마우스 업 이벤트 처리
+  useEffect(() => {
+    if (!isDragging && !isResizing) return;
+
+    let latest: WindowGeometry = { position, size };
+    let moved = false;
+    let snap: SnapPosition | null = null;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      moved = true;
+      if (isDragging) {
+        const dx = e.clientX - startPosition.mouseX;
+        const dy = e.clientY - startPosition.mouseY;
+        // 제목 표시줄이 화면 위로 사라지지 않도록 y 좌표는 0 이상으로 제한
+        latest = {
+          position: { x: startPosition.x + dx, y: Math.max(0, startPosition.y + dy) },
+          size: state?.restoreSize ?? size,
+        };
+        snap = getSnapPosition(e.clientX, e.clientY);
+        setSnapPreview(snap);
+      }
+      if (isResizing) {
+        const newWidth = startResize.width + (e.clientX - startResize.mouseX);
+        const newHeight = startResize.height + (e.clientY - startResize.mouseY);
+        latest = { ...latest, size: { width: Math.max(minSize.width, newWidth), height: Math.max(minSize.height, newHeight) } };
+      }
+      setLiveGeometry(latest);
+    };
+    const handleMouseUp = () => {
+      setIsDragging(false);
+      setIsResizing(false);
+      setSnapPreview(null);
+      setLiveGeometry(null);
+      if (!moved) return;
+      if (snap) {
+        snapWindow(id, snap);
+      } else {
+        setWindowGeometry(id, latest);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp, { once: true });
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, isResizing]);
+
+  // 창을 클릭하면 맨 앞으로 가져오기
+  const handleFocus = useCallback(() => {
+    if (!isActive) {
+      focusWindow(id);
+    }
+  }, [id, isActive, focusWindow]);
+
+  if (!state || !layer) {
+    return null;
+  }
+
+  // 스냅 미리보기 영역
+  const snapPreviewGeometry = snapPreview ? getSnapGeometry(snapPreview) : null;
+
+  return createPortal(
+    <WindowContext.Provider value={id}>
+      {snapPreviewGeometry && (
+        <div
+          className="absolute pointer-events-none bg-white/20 border-2 border-white/70 rounded-xl shadow-win11-window transition-all duration-150"
+          style={{
+            top: `${snapPreviewGeometry.position.y}px`,
+            left: `${snapPreviewGeometry.position.x}px`,
+            width: `${snapPreviewGeometry.size.width}px`,
+            height: `${snapPreviewGeometry.size.height}px`,
+            zIndex: getZIndex(id),
+          }}
+        />
+      )}
+      <div
+        onMouseDownCapture={handleFocus}
+        // 창 안의 우클릭이 바탕화면 메뉴로 전달되지 않도록 차단
+        onContextMenu={(e) => e.stopPropagation()}
+        style={{
+          position: 'absolute',
+          top: isMaximized ? '0' : `${position.y}px`,
+          left: isMaximized ? '0' : `${position.x}px`,
+          width: isMaximized ? '100%' : `${size.width}px`,
+          height: isMaximized ? `calc(100% - ${TASKBAR_HEIGHT}px)` : `${size.height}px`,
+          minWidth: `${minSize.width}px`,
+          minHeight: `${minSize.height}px`,
+          zIndex: getZIndex(id),
+          display: state.isMinimized ? 'none' : undefined,
+          transition: isDragging || isResizing ? 'none' : 'width 0.2s ease, height 0.2s ease, top 0.2s ease, left 0.2s ease'
+        }}
+        className={`pointer-events-auto bg-white/80 backdrop-blur-xl flex flex-col overflow-hidden ${
+          isMaximized ? 'rounded-none shadow-none border-none' : 'rounded-xl shadow-win11-window border border-slate-200/80'
+        }`}
+      >
+        <header
+          onMouseDown={handleDragStart}
+          onDoubleClick={handleToggleMaximize}
+          className={`flex-shrink-0 h-14 flex items-center px-4 border-b border-slate-200/80 ${!isMaximized ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        >
+          <WindowControls
+            onClose={onClose}
+            onMinimize={handleMinimize}
+            onMaximize={handleToggleMaximize}
+            isMaximized={isMaximized}
+          />
+          <div className="flex-grow text-center">
+            <h1 className={`font-semibold select-none ${isActive ? 'text-slate-700' : 'text-slate-400'}`}>
+              {title}
+            </h1>
+          </div>
+          <div className="w-16 flex justify-end">
+            {headerRight}
+          </div>
+        </header>
+        {children}
+        <div
+          onMouseDown={handleResizeStart}
+          className={`absolute bottom-0 right-0 w-4 h-4 cursor-se-resize z-20 ${isMaximized ? 'hidden' : ''}`}
+          aria-label="Resize window"
+        >
+          <svg className="w-full h-full text-slate-400 opacity-60" fill="none" viewBox="0 0 16 16" stroke="currentColor">
+            <path d="M 12 4 L 4 12" strokeWidth="1.5" strokeLinecap="round" />
+            <path d="M 12 7 L 7 12" strokeWidth="1.5" strokeLinecap="round" />
+            <path d="M 12 10 L 10 12" strokeWidth="1.5" strokeLinecap="round" />
+          </svg>
+        </div>
+      </div>
+    </WindowContext.Provider>,
+    layer
+  );
+};
+
+export default Window;
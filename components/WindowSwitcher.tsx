@@ -0,0 +1,124 @@
+/**
+ * 창 전환 컴포넌트
+ * Alt+Tab(브라우저가 Alt+Tab을 가로채는 경우 Ctrl+`)으로 열린 창을 순환하는 Windows XP 스타일 전환 화면을 제공합니다.
+ * 수정 키(Alt/Ctrl)를 누른 채 Tab(`)을 누를 때마다 다음 창을 선택하고, 수정 키를 놓으면 선택한 창으로 전환합니다.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import { useWindowManager } from '../src/hooks/useWindowManager';
+import { useShortcut } from '../src/hooks/useShortcuts';
+
+// 전환 화면을 닫고 선택한 창으로 전환하는 수정 키
+const SWITCHER_MODIFIER_KEYS = ['Alt', 'Control', 'Meta'];
+
+/**
+ * 창 전환 컴포넌트
+ */
+const WindowSwitcher: React.FC = () => {
+  const { windows, activeWindowId, focusWindow, restoreWindow, getZIndex } = useWindowManager();
+  // 전환 중인 창 ID 목록 (열릴 때의 최근 사용 순서로 고정)과 선택 위치
+  const [switcher, setSwitcher] = useState<{ windowIds: string[]; index: number } | null>(null);
+
+  // 전환 도중 닫힌 창은 목록에서 제외
+  const switcherWindows = (switcher?.windowIds ?? [])
+    .map(id => windows.find(w => w.id === id))
+    .filter((w): w is NonNullable<typeof w> => !!w);
+  const selectedIndex = switcherWindows.length > 0 ? (switcher?.index ?? 0) % switcherWindows.length : 0;
+  const selectedWindow = switcherWindows[selectedIndex] ?? null;
+
+  // 다음/이전 창 선택 (전환 화면이 닫혀 있으면 열기)
+  const cycle = useCallback((offset: number) => {
+    setSwitcher(prev => {
+      if (prev) {
+        const count = prev.windowIds.length;
+        return { ...prev, index: (prev.index + offset + count) % count };
+      }
+
+      // 맨 위의 창부터 최근 사용 순서로 정렬
+      const windowIds = [...windows]
+        .sort((a, b) => getZIndex(b.id) - getZIndex(a.id))
+        .map(w => w.id);
+      if (windowIds.length === 0) return null;
+
+      // 현재 활성 창은 건너뛰고 그 다음 창부터 선택
+      const count = windowIds.length;
+      const startIndex = windowIds[0] === activeWindowId ? 0 : (offset > 0 ? -1 : 1);
+      return { windowIds, index: (startIndex + offset + count) % count };
+    });
+  }, [windows, activeWindowId, getZIndex]);
+
+  // 선택한 창으로 전환 (최소화된 창은 복원)
+  const switchTo = useCallback((windowId: string) => {
+    const target = windows.find(w => w.id === windowId);
+    if (target?.isMinimized) {
+      restoreWindow(windowId);
+    } else if (target) {
+      focusWindow(windowId);
+    }
+    setSwitcher(null);
+  }, [windows, focusWindow, restoreWindow]);
+
+  const cancel = useCallback(() => {
+    setSwitcher(null);
+  }, []);
+
+  useShortcut(['Alt+Tab', 'Ctrl+`'], () => cycle(1), { description: '다음 창으로 전환', scope: null });
+  useShortcut(['Alt+Shift+Tab', 'Ctrl+Shift+`', 'Ctrl+Shift+~'], () => cycle(-1), { description: '이전 창으로 전환', scope: null });
+  useShortcut('Esc', cancel, { description: '창 전환 취소', scope: null, enabled: switcher !== null });
+
+  // 수정 키를 놓으면 선택한 창으로 전환, 브라우저 창이 포커스를 잃으면 취소
+  useEffect(() => {
+    if (!switcher) return;
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (!SWITCHER_MODIFIER_KEYS.includes(event.key)) return;
+      if (selectedWindow) {
+        switchTo(selectedWindow.id);
+      } else {
+        cancel();
+      }
+    };
+
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', cancel);
+    return () => {
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', cancel);
+    };
+  }, [switcher, selectedWindow, switchTo, cancel]);
+
+  if (!switcher || !selectedWindow) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center pointer-events-none">
+      <div
+        role="dialog"
+        aria-label="창 전환"
+        className="pointer-events-auto p-3 bg-winxp-window border-2 border-winxp-border rounded-winxp-lg shadow-winxp-window font-winxp"
+      >
+        <div className="flex flex-wrap justify-center gap-2 max-w-md">
+          {switcherWindows.map((win, index) => (
+            <button
+              key={win.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => switchTo(win.id)}
+              className={`w-16 h-16 flex items-center justify-center text-3xl rounded-winxp border-2 transition-colors duration-100
+                ${index === selectedIndex ? 'border-winxp-blue bg-winxp-button-hover' : 'border-transparent hover:bg-winxp-button-hover'}
+                ${win.isMinimized ? 'opacity-60' : ''}`}
+              title={win.title}
+              aria-pressed={index === selectedIndex}
+            >
+              {win.icon}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 px-2 py-1 max-w-md text-sm text-center text-black bg-white border border-gray-400 shadow-winxp-inset truncate">
+          {selectedWindow.title}
+          {selectedWindow.isMinimized && <span className="text-gray-500"> (최소화됨)</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WindowSwitcher;
@@ -16,6 +16,8 @@ import AdminPosts from './components/admin/posts';
 import CategoryManagement from './components/admin/categories';
 // 백업/복원 페이지 컴포넌트 임포트
 import BackupRestorePage from './components/admin/backup/BackupRestorePage';
+// 휴지통 관리 컴포넌트 임포트
+import RecycleBinManagement from './components/admin/recycleBin';
 import './index.css';
 
 /**
@@ -88,6 +90,20 @@ const App: React.FC = () => {
     }
   };
 
+  // 로그인 상태에 따라 데스크톱 또는 로그인 화면 표시
+  const desktopElement = isAuthenticated && user ? (
+    // 로그인 상태 - 데스크톱 환경 표시
+    <Desktop 
+      user={user} 
+      onOpenBoard={handleOpenBoard} 
+      onLogout={handleLogout} 
+    />
+  ) : (
+    // 로그아웃 상태 - 로그인 화면 표시
+    // LoginScreen은 이제 내부적으로 useAuth를 사용
+    <LoginScreen />
+  );
+
   console.log('인증 상태:', { 
     user, 
     isAuthenticated, 
@@ -101,24 +117,16 @@ const App: React.FC = () => {
         <Route path="/admin" element={<AdminDashboard />} />
         <Route path="/admin/posts/*" element={<AdminLayout title="게시물 관리"><AdminPosts /></AdminLayout>} />
         <Route path="/admin/categories" element={<AdminLayout title="카테고리 관리"><CategoryManagement /></AdminLayout>} />
+        <Route path="/admin/recycle-bin" element={<AdminLayout title="휴지통 관리"><RecycleBinManagement /></AdminLayout>} />
         {/* 백업/복원 페이지 라우트 */}
         <Route path="/admin/backup" element={<BackupRestorePage />} />
         
         {/* 메인 앱 라우트 */}
-        <Route path="/" element={
-          isAuthenticated && user ? (
-            // 로그인 상태 - 데스크톱 환경 표시
-            <Desktop 
-              user={user} 
-              onOpenBoard={handleOpenBoard} 
-              onLogout={handleLogout} 
-            />
-          ) : (
-            // 로그아웃 상태 - 로그인 화면 표시
-            // LoginScreen은 이제 내부적으로 useAuth를 사용
-            <LoginScreen />
-          )
-        } />
+        <Route path="/" element={desktopElement} />
+        {/* 공유 링크 라우트 - 로그인 전에는 같은 주소에서 로그인 화면을 표시하고, 로그인 후 해당 항목으로 이동 */}
+        <Route path="/post/:id" element={desktopElement} />
+        <Route path="/category/:id" element={desktopElement} />
+        <Route path="/tag/:name" element={desktopElement} />
         
         {/* 기타 경로는 메인으로 리다이렉트 */}
         <Route path="*" element={<Navigate to="/" replace />} />
@@ -69,15 +69,15 @@ const AdminHeader: React.FC<AdminHeaderProps> = ({ title = 'MAC-BOARD 관리자'
   /**
    * 로그아웃 핸들러
    */
-  const handleLogout = (e: React.MouseEvent) => {
+  const handleLogout = async (e: React.MouseEvent) => {
     // 이벤트 전파 방지
     e.preventDefault();
     e.stopPropagation();
     
     console.log('관리자 로그아웃 요청');
     
-    // 로그아웃 실행
-    logout();
+    // 로그아웃 실행 (Firebase 로그아웃이 끝난 뒤 이동)
+    await logout();
     
     // 안전한 페이지 이동
     safeRedirect('/');
@@ -93,12 +93,12 @@ const AdminHeader: React.FC<AdminHeaderProps> = ({ title = 'MAC-BOARD 관리자'
 
         {/* 오른쪽 영역: 관리자 정보, 시간, 로그아웃 */}
         <div className="flex items-center space-x-4">
-          {/* 관리자 ID 표시 */}
+          {/* 관리자 계정 표시 */}
           {admin && (
             <div className="flex items-center space-x-2">
-              <span className="text-sm font-medium">관리자: {admin.id}</span>
+              <span className="text-sm font-medium" title={admin.email}>관리자: {admin.displayName}</span>
               <span className="text-xs text-gray-300">
-                ({new Date(admin.loggedInAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })} 로그인)
+                ({new Date(admin.loggedInAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })} 권한 확인)
               </span>
             </div>
           )}
@@ -8,8 +8,23 @@ import AdminSidebar from './AdminSidebar';
 import AdminHeader from './AdminHeader';
 import AdminLoginScreen from './AdminLoginScreen';
 import { useAdminAuth } from '../../hooks/useAdminAuth';
+import { purgeExpiredRecycleBinItemsAdmin } from '../../services/admin/recycleBin';
+import { backfillPostSortCountersAdmin, refreshTagIndexAdmin } from '../../services/admin/posts';
+import { movePrivateUserFieldsAdmin } from '../../services/admin/users';
 import type { Admin } from '../../types';
 
+// 보관 기간이 지난 휴지통 항목 자동 삭제를 이미 실행했는지 여부 (페이지 이동마다 반복하지 않도록 세션당 한 번만 실행)
+let hasPurgedExpiredRecycleBinItems = false;
+
+// 이전 게시물의 정렬용 집계 필드 채우기를 이미 실행했는지 여부 (세션당 한 번만 실행)
+let hasBackfilledPostSortCounters = false;
+
+// 오래된 태그 인덱스 재생성을 이미 확인했는지 여부 (세션당 한 번만 실행)
+let hasRefreshedTagIndex = false;
+
+// 프로필 문서에 남은 이메일 옮기기를 이미 실행했는지 여부 (세션당 한 번만 실행)
+let hasMovedPrivateUserFields = false;
+
 /**
  * 관리자 레이아웃 컴포넌트 속성
  */
@@ -33,6 +48,70 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, title }) => {
   const { admin, isAdmin, isLoading, error } = useAdminAuth();
   const location = useLocation();
 
+  // 관리자 인증 후 보관 기간이 지난 휴지통 항목 자동 삭제
+  useEffect(() => {
+    if (!isAdmin || hasPurgedExpiredRecycleBinItems) return;
+    hasPurgedExpiredRecycleBinItems = true;
+
+    purgeExpiredRecycleBinItemsAdmin()
+      .then(count => {
+        if (count > 0) {
+          console.log(`보관 기간이 지난 휴지통 항목 ${count}개를 영구 삭제했습니다.`);
+        }
+      })
+      .catch(err => {
+        console.error('휴지통 자동 비우기 오류:', err);
+      });
+  }, [isAdmin]);
+
+  // 관리자 인증 후 정렬용 집계 필드가 없는 이전 게시물에 0을 채움 (조회순/댓글순/인기순 목록에 포함되도록)
+  useEffect(() => {
+    if (!isAdmin || hasBackfilledPostSortCounters) return;
+    hasBackfilledPostSortCounters = true;
+
+    backfillPostSortCountersAdmin()
+      .then(count => {
+        if (count > 0) {
+          console.log(`게시물 ${count}개의 정렬용 집계 필드를 채웠습니다.`);
+        }
+      })
+      .catch(err => {
+        console.error('게시물 집계 필드 채우기 오류:', err);
+      });
+  }, [isAdmin]);
+
+  // 관리자 인증 후 태그 인덱스가 없거나 오래되었으면 게시물 전체에서 다시 만듦
+  useEffect(() => {
+    if (!isAdmin || hasRefreshedTagIndex) return;
+    hasRefreshedTagIndex = true;
+
+    refreshTagIndexAdmin()
+      .then(rebuilt => {
+        if (rebuilt) {
+          console.log('태그 인덱스를 다시 만들었습니다.');
+        }
+      })
+      .catch(err => {
+        console.error('태그 인덱스 재생성 오류:', err);
+      });
+  }, [isAdmin]);
+
+  // 관리자 인증 후 이전 버전에서 프로필 문서에 기록한 이메일을 본인만 읽을 수 있는 계정 정보 문서로 옮김
+  useEffect(() => {
+    if (!isAdmin || hasMovedPrivateUserFields) return;
+    hasMovedPrivateUserFields = true;
+
+    movePrivateUserFieldsAdmin()
+      .then(count => {
+        if (count > 0) {
+          console.log(`사용자 ${count}명의 이메일을 계정 정보 문서로 옮겼습니다.`);
+        }
+      })
+      .catch(err => {
+        console.error('사용자 개인 정보 이동 오류:', err);
+      });
+  }, [isAdmin]);
+
   // 사이드바 토글 핸들러
   const handleSidebarToggle = () => {
     setSidebarCollapsed(!sidebarCollapsed);
@@ -1,9 +1,12 @@
 /**
  * 관리자 로그인 화면 컴포넌트
- * .env 파일의 ADMIN_ID와 ADMIN_PW를 사용하여 관리자 인증을 수행합니다.
+ * 게시판과 같은 Firebase 계정(Google 또는 이메일/비밀번호)으로 로그인하고, 관리자 역할이 있는 계정만 관리자 페이지에 들어갈 수 있습니다.
  */
 import React, { useState, useEffect, useRef } from 'react';
 import { useAdminAuth } from '../../hooks/useAdminAuth';
+import { useAuth } from '../../hooks/useAuth';
+import { NOT_ADMIN_ERROR } from '../../services/admin/auth';
+import { GoogleIcon } from '../../../components/icons';
 import { Admin } from '../../types';
 
 interface AdminLoginScreenProps {
@@ -15,7 +18,7 @@ interface AdminLoginScreenProps {
  */
 const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLogin }) => {
   // 상태 관리
-  const [id, setId] = useState<string>('');
+  const [email, setEmail] = useState<string>('');
   const [password, setPassword] = useState<string>('');
   const [loginError, setLoginError] = useState<string | null>(null);
   const [time, setTime] = useState(new Date());
@@ -25,8 +28,11 @@ const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLogin }) => {
   const loginAttemptedRef = useRef<boolean>(false);
   const isMountedRef = useRef<boolean>(true);
   
-  // 관리자 인증 훅 사용
-  const { login, isLoading, error, admin } = useAdminAuth();
+  // 관리자 인증 훅 사용 (로그인은 게시판과 같은 Firebase 로그인 사용)
+  const { admin, signedInAccount, isLoading: isAdminLoading, error: adminError, logout } = useAdminAuth();
+  const { signInWithGoogle, signInWithEmail, isLoading: isAuthLoading, error: authError } = useAuth();
+  const isLoading = isAdminLoading || isAuthLoading;
+  const error = authError || adminError;
 
   // 컴포넌트 언마운트 시 isMountedRef 업데이트
   useEffect(() => {
@@ -135,37 +141,44 @@ const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLogin }) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!id.trim() || !password.trim()) {
-      setLoginError('아이디와 비밀번호를 모두 입력해주세요.');
+    if (!email.trim() || !password) {
+      setLoginError('이메일과 비밀번호를 모두 입력해주세요.');
       return;
     }
     
     // 로그인 에러 초기화
     setLoginError(null);
-    // 로그인 시도 상태 설정
+    // 로그인 시도 상태 설정 (관리자 역할이 확인되면 로그인 성공 처리 효과에서 이동)
     loginAttemptedRef.current = true;
     
-    try {
-      // 로그인 시도
-      const success = await login(id, password);
-      
-      if (success && isMountedRef.current) {
-        console.log('로그인 성공, 상태 업데이트');
-        setLoginSuccess(true);
-      } else if (isMountedRef.current) {
-        // 로그인 실패 시 에러 메시지 표시
-        setLoginError('아이디 또는 비밀번호가 올바르지 않습니다.');
-        loginAttemptedRef.current = false;
-      }
-    } catch (err: any) {
-      if (isMountedRef.current) {
-        console.error('로그인 처리 중 오류:', err);
-        setLoginError(err.message || '로그인 중 오류가 발생했습니다.');
-        loginAttemptedRef.current = false;
-      }
+    const user = await signInWithEmail(email, password);
+    if (!user && isMountedRef.current) {
+      loginAttemptedRef.current = false;
+    }
+  };
+
+  /**
+   * Google 로그인 핸들러
+   */
+  const handleGoogleLogin = async () => {
+    setLoginError(null);
+    loginAttemptedRef.current = true;
+    
+    const user = await signInWithGoogle();
+    if (!user && isMountedRef.current) {
+      loginAttemptedRef.current = false;
     }
   };
 
+  /**
+   * 다른 계정으로 로그인하기 위해 현재 계정에서 로그아웃하는 핸들러
+   */
+  const handleSwitchAccount = async () => {
+    setLoginError(null);
+    loginAttemptedRef.current = false;
+    await logout();
+  };
+
   return (
     <div className="w-screen h-screen flex flex-col items-center justify-center bg-gray-100">
       {/* 상단 시간 표시 */}
@@ -177,96 +190,128 @@ const AdminLoginScreen: React.FC<AdminLoginScreenProps> = ({ onLogin }) => {
       <div className="bg-white p-8 rounded-lg shadow-lg w-full max-w-md">
         <h2 className="text-2xl font-bold text-center mb-6 text-gray-800">관리자 로그인</h2>
         
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* 아이디 입력 */}
-          <div>
-            <label htmlFor="admin-id" className="block text-sm font-medium text-gray-700 mb-1">
-              관리자 아이디
-            </label>
-            <input
-              id="admin-id"
-              type="text"
-              value={id}
-              onChange={(e) => setId(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="관리자 아이디 입력"
-              disabled={isLoading || loginSuccess}
-              autoComplete="off"
-            />
-          </div>
-          
-          {/* 비밀번호 입력 */}
-          <div>
-            <label htmlFor="admin-password" className="block text-sm font-medium text-gray-700 mb-1">
-              비밀번호
-            </label>
-            <input
-              id="admin-password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="비밀번호 입력"
-              disabled={isLoading || loginSuccess}
-            />
-          </div>
-          
-          {/* 에러 메시지 */}
-          {loginError && (
-            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-              <p>{loginError}</p>
-            </div>
-          )}
-          
-          {/* 로그인 성공 메시지 */}
-          {loginSuccess && admin && (
-            <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
-              <div className="flex items-center mb-2">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-                <p className="font-medium">Admin 상태: 있음</p>
-              </div>
-              <p>로그인 시도: 예</p>
-              <p>로그인 성공: 예</p>
-              <p>모달 표시: 아니오</p>
+        {signedInAccount && !loginSuccess ? (
+          /* 관리자 권한이 없는 계정으로 로그인된 경우 */
+          <div className="space-y-6">
+            <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
+              <p className="font-medium">{NOT_ADMIN_ERROR}</p>
+              <p className="mt-1 text-sm">
+                현재 계정: {signedInAccount.displayName}{signedInAccount.email && ` (${signedInAccount.email})`}
+              </p>
             </div>
-          )}
-          
-          {/* 항상 표시되는 안내 메시지 */}
-          <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
-            <p className="font-bold text-center text-red-600">"로그인 성공후 새로고침을 해주세요"</p>
-          </div>
-          
-          {/* 로그인 버튼 */}
-          <div>
             <button
-              type="submit"
+              type="button"
+              onClick={handleSwitchAccount}
               className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+              disabled={isLoading}
+            >
+              다른 계정으로 로그인
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Google 로그인 */}
+            <button
+              type="button"
+              onClick={handleGoogleLogin}
+              className="w-full flex items-center justify-center border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-medium py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
               disabled={isLoading || loginSuccess}
             >
-              {isLoading ? (
-                <span className="flex items-center justify-center">
-                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  로그인 중...
-                </span>
-              ) : loginSuccess ? (
-                '로그인 성공'
-              ) : (
-                '로그인'
-              )}
+              <GoogleIcon className="w-5 h-5 mr-2" />
+              Google 계정으로 로그인
             </button>
+
+            <div className="flex items-center text-xs text-gray-400">
+              <div className="flex-grow border-t border-gray-200"></div>
+              <span className="px-2">또는</span>
+              <div className="flex-grow border-t border-gray-200"></div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* 이메일 입력 */}
+              <div>
+                <label htmlFor="admin-email" className="block text-sm font-medium text-gray-700 mb-1">
+                  이메일
+                </label>
+                <input
+                  id="admin-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="관리자 이메일 입력"
+                  disabled={isLoading || loginSuccess}
+                  autoComplete="email"
+                />
+              </div>
+              
+              {/* 비밀번호 입력 */}
+              <div>
+                <label htmlFor="admin-password" className="block text-sm font-medium text-gray-700 mb-1">
+                  비밀번호
+                </label>
+                <input
+                  id="admin-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="비밀번호 입력"
+                  disabled={isLoading || loginSuccess}
+                  autoComplete="current-password"
+                />
+              </div>
+              
+              {/* 에러 메시지 */}
+              {loginError && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+                  <p>{loginError}</p>
+                </div>
+              )}
+              
+              {/* 로그인 성공 메시지 */}
+              {loginSuccess && admin && (
+                <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
+                  <div className="flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                    <p className="font-medium">{admin.displayName}님의 관리자 권한이 확인되었습니다.</p>
+                  </div>
+                </div>
+              )}
+              
+              {/* 로그인 버튼 */}
+              <div>
+                <button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+                  disabled={isLoading || loginSuccess}
+                >
+                  {isLoading ? (
+                    <span className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      로그인 중...
+                    </span>
+                  ) : loginSuccess ? (
+                    '로그인 성공'
+                  ) : (
+                    '로그인'
+                  )}
+                </button>
+              </div>
+            </form>
           </div>
-        </form>
+        )}
       </div>
       
       {/* 하단 안내 메시지 */}
       <div className="mt-6 text-center text-sm text-gray-600">
-        <p>관리자 계정으로 로그인하세요.</p>
-        <p className="mt-1">계정 정보는 .env 파일에 설정된 값을 사용합니다.</p>
+        <p>관리자 역할이 부여된 계정으로 로그인하세요.</p>
+        <p className="mt-1">관리자 역할은 Firebase 콘솔에서 admins 컬렉션 문서나 커스텀 클레임으로 부여합니다.</p>
       </div>
     </div>
   );
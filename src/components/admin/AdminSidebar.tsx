@@ -64,6 +64,15 @@ const BackupIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" })
   </svg>
 );
 
+/**
+ * 아이콘 컴포넌트 - 휴지통
+ */
+const RecycleBinIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+  </svg>
+);
+
 /**
  * 아이콘 컴포넌트 - 토글
  */
@@ -121,6 +130,12 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({ collapsed = false, onToggle
       path: '/admin/categories',
       icon: <CategoryIcon />
     },
+    {
+      id: 'recycle-bin',
+      name: '휴지통 관리',
+      path: '/admin/recycle-bin',
+      icon: <RecycleBinIcon />
+    },
     // 태그 관리 메뉴 항목 제거
     {
       id: 'backup',
@@ -135,7 +135,7 @@ const PostDetail: React.FC<PostDetailProps> = ({ isCreateMode = false }) => {
   const handleDeletePost = useCallback(async () => {
     if (!postId) return;
     
-    if (window.confirm('정말로 이 게시물을 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.')) {
+    if (window.confirm('정말로 이 게시물을 삭제하시겠습니까? 삭제한 게시물은 휴지통 관리에서 복원할 수 있습니다.')) {
       try {
         await deletePost(postId);
         alert('게시물이 성공적으로 삭제되었습니다.');
@@ -385,6 +385,10 @@ const PostDetail: React.FC<PostDetailProps> = ({ isCreateMode = false }) => {
                     <dt className="w-32 font-medium text-gray-500">댓글 수:</dt>
                     <dd className="text-gray-900">{postDetail?.comments || 0}</dd>
                   </div>
+                  <div className="flex">
+                    <dt className="w-32 font-medium text-gray-500">조회수:</dt>
+                    <dd className="text-gray-900">{(postDetail?.views || 0).toLocaleString()}</dd>
+                  </div>
                   <div className="flex">
                     <dt className="w-32 font-medium text-gray-500">좋아요 수:</dt>
                     <dd className="text-gray-900">{0}</dd>
@@ -233,6 +233,18 @@ const PostList: React.FC<PostListProps> = ({ onViewDetail }) => {
                   </span>
                 )}
               </th>
+              <th 
+                scope="col" 
+                className="px-3 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase cursor-pointer"
+                onClick={() => handleSortChange('viewCount')}
+              >
+                조회
+                {filters.sortField === 'viewCount' && (
+                  <span className="ml-1">
+                    {filters.sortOrder === 'desc' ? '▼' : '▲'}
+                  </span>
+                )}
+              </th>
               <th scope="col" className="px-3 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
                 태그
               </th>
@@ -244,7 +256,7 @@ const PostList: React.FC<PostListProps> = ({ onViewDetail }) => {
           <tbody className="bg-white divide-y divide-gray-200">
             {loading && posts.length === 0 ? (
               <tr>
-                <td colSpan={8} className="px-3 py-4 text-center text-gray-500">
+                <td colSpan={9} className="px-3 py-4 text-center text-gray-500">
                   <div className="flex items-center justify-center">
                     <svg className="w-5 h-5 mr-3 -ml-1 text-blue-500 animate-spin" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -256,7 +268,7 @@ const PostList: React.FC<PostListProps> = ({ onViewDetail }) => {
               </tr>
             ) : error ? (
               <tr>
-                <td colSpan={8} className="px-3 py-4 text-center text-red-500">
+                <td colSpan={9} className="px-3 py-4 text-center text-red-500">
                   <div className="flex items-center justify-center">
                     <svg className="w-5 h-5 mr-2 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path>
@@ -267,7 +279,7 @@ const PostList: React.FC<PostListProps> = ({ onViewDetail }) => {
               </tr>
             ) : posts.length === 0 ? (
               <tr>
-                <td colSpan={8} className="px-3 py-4 text-center text-gray-500">
+                <td colSpan={9} className="px-3 py-4 text-center text-gray-500">
                   게시물이 없습니다.
                 </td>
               </tr>
@@ -312,6 +324,9 @@ const PostList: React.FC<PostListProps> = ({ onViewDetail }) => {
                   <td className="px-3 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">{post.comments}</div>
                   </td>
+                  <td className="px-3 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{post.views.toLocaleString()}</div>
+                  </td>
                   <td className="px-3 py-4">
                     {renderTags(post.tags)}
                   </td>
@@ -0,0 +1,281 @@
+/**
+ * 휴지통 관리 컴포넌트
+ * 관리자가 삭제된 게시물/댓글을 복원하거나 영구 삭제하고, 자동 삭제 보관 기간을 설정하는 인터페이스를 제공합니다.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  fetchRecycleBinAdmin,
+  restoreRecycleBinItemAdmin,
+  deleteRecycleBinItemAdmin,
+  emptyRecycleBinAdmin,
+  fetchRecycleBinRetentionDays,
+  updateRecycleBinRetentionDays
+} from '../../../services/admin/recycleBin';
+import type { UIRecycleBinItem } from '../../../types';
+
+/**
+ * 휴지통 관리 컴포넌트
+ */
+const RecycleBinManagement: React.FC = () => {
+  // 휴지통 항목 및 상태
+  const [items, setItems] = useState<UIRecycleBinItem[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // 보관 기간 입력값
+  const [retentionDays, setRetentionDays] = useState<string>('');
+
+  /**
+   * 성공 메시지 표시 함수 (3초 후 자동으로 사라짐)
+   */
+  const showSuccess = useCallback((message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }, []);
+
+  /**
+   * 휴지통 항목과 보관 기간 로드 함수
+   */
+  const loadRecycleBin = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [binItems, days] = await Promise.all([
+        fetchRecycleBinAdmin(),
+        fetchRecycleBinRetentionDays()
+      ]);
+      setItems(binItems);
+      setRetentionDays(String(days));
+    } catch (err) {
+      console.error('휴지통 로드 오류:', err);
+      setError(err instanceof Error ? err.message : '휴지통을 불러오는 중 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecycleBin();
+  }, [loadRecycleBin]);
+
+  /**
+   * 항목 복원 핸들러
+   */
+  const handleRestore = async (item: UIRecycleBinItem) => {
+    try {
+      setIsLoading(true);
+      await restoreRecycleBinItemAdmin(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      showSuccess(`'${item.title}' 항목이 복원되었습니다.`);
+    } catch (err) {
+      console.error('휴지통 항목 복원 오류:', err);
+      setError(err instanceof Error ? err.message : '항목을 복원하지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 항목 영구 삭제 핸들러
+   */
+  const handleDelete = async (item: UIRecycleBinItem) => {
+    if (!window.confirm(`'${item.title}' 항목을 영구 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`)) return;
+
+    try {
+      setIsLoading(true);
+      await deleteRecycleBinItemAdmin(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      showSuccess('항목이 영구 삭제되었습니다.');
+    } catch (err) {
+      console.error('휴지통 항목 삭제 오류:', err);
+      setError(err instanceof Error ? err.message : '항목을 삭제하지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 휴지통 비우기 핸들러
+   */
+  const handleEmpty = async () => {
+    if (!window.confirm('휴지통의 모든 항목을 영구 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.')) return;
+
+    try {
+      setIsLoading(true);
+      const count = await emptyRecycleBinAdmin();
+      setItems([]);
+      showSuccess(`${count}개 항목을 영구 삭제했습니다.`);
+    } catch (err) {
+      console.error('휴지통 비우기 오류:', err);
+      setError(err instanceof Error ? err.message : '휴지통을 비우지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 보관 기간 저장 핸들러
+   */
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsLoading(true);
+      await updateRecycleBinRetentionDays(Number(retentionDays));
+      showSuccess('보관 기간이 저장되었습니다.');
+    } catch (err) {
+      console.error('보관 기간 저장 오류:', err);
+      setError(err instanceof Error ? err.message : '보관 기간을 저장하지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 max-w-5xl mx-auto">
+      <h2 className="text-2xl font-bold mb-6 text-gray-800">휴지통 관리</h2>
+
+      {/* 성공 메시지 표시 */}
+      {successMessage && (
+        <div className="mb-4 p-3 bg-green-100 text-green-700 rounded">
+          {successMessage}
+        </div>
+      )}
+
+      {/* 에러 메시지 표시 */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-700 rounded">
+          {error}
+          <button
+            className="ml-2 underline"
+            onClick={() => {
+              setError(null);
+              loadRecycleBin();
+            }}
+          >
+            다시 시도
+          </button>
+        </div>
+      )}
+
+      {/* 보관 기간 설정 */}
+      <form onSubmit={handleSaveRetention} className="mb-8">
+        <h3 className="text-lg font-semibold mb-2 text-gray-800">자동 삭제</h3>
+        <p className="text-sm text-gray-500 mb-3">
+          삭제된 지 보관 기간이 지난 항목은 관리자 페이지에 접속할 때 자동으로 영구 삭제됩니다. 0으로 설정하면 자동으로 삭제하지 않습니다.
+        </p>
+        <div className="flex items-center">
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+            className="w-24 p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={isLoading}
+            aria-label="보관 기간 (일)"
+          />
+          <span className="ml-2 text-gray-700">일</span>
+          <button
+            type="submit"
+            className={`ml-4 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isLoading ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+            disabled={isLoading}
+          >
+            저장
+          </button>
+        </div>
+      </form>
+
+      {/* 휴지통 항목 목록 */}
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">삭제된 항목 ({items.length})</h3>
+        <div className="space-x-2">
+          <button
+            onClick={loadRecycleBin}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50"
+            disabled={isLoading}
+          >
+            새로 고침
+          </button>
+          <button
+            onClick={handleEmpty}
+            className={`px-3 py-1.5 text-sm bg-red-500 hover:bg-red-600 text-white rounded ${
+              isLoading || items.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+            disabled={isLoading || items.length === 0}
+          >
+            휴지통 비우기
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !items.length ? (
+        <div className="flex justify-center items-center p-6 bg-gray-50 border border-gray-200 rounded">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500 mr-3"></div>
+          <p>휴지통 로딩 중...</p>
+        </div>
+      ) : items.length > 0 ? (
+        <div className="bg-gray-50 rounded border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">종류</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">제목</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">작성자 ID</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">삭제한 사람</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">삭제 일시</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">작업</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map(item => (
+                <tr key={item.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                    {item.type === 'post' ? '게시물' : '댓글'}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                    {item.title}
+                    {item.type === 'post' && item.commentCount > 0 && (
+                      <span className="ml-2 text-xs text-gray-500">(댓글 {item.commentCount}개 포함)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{item.ownerId}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {item.deletedByAdmin ? `관리자 (${item.deletedBy})` : '작성자'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(item.deletedAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      className="text-blue-600 hover:text-blue-900"
+                      disabled={isLoading}
+                    >
+                      복원
+                    </button>
+                    <button
+                      onClick={() => handleDelete(item)}
+                      className="text-red-600 hover:text-red-900"
+                      disabled={isLoading}
+                    >
+                      영구 삭제
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="p-6 text-center bg-gray-50 border border-gray-200 rounded">
+          <p className="text-gray-500">휴지통이 비어 있습니다.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecycleBinManagement;
@@ -7,8 +7,6 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_STORAGE_BUCKET: string;
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string;
   readonly VITE_FIREBASE_APP_ID: string;
-  readonly VITE_ADMIN_ID: string;
-  readonly VITE_ADMIN_PW: string;
 }
 
 interface ImportMeta {
@@ -3,17 +3,27 @@
  * 로그인, 로그아웃 등 인증 관련 기능과 상태를 제공합니다.
  */
 import { useState, useEffect, useCallback } from 'react';
-import { onAuthStateChanged } from 'firebase/auth';
+import { onIdTokenChanged } from 'firebase/auth';
 import { auth } from '../services/firebase/config';
 import { 
   signInWithGoogle as signInWithGoogleService, 
   signOut as signOutService,
   signInAnonymously as signInAnonymouslyService,
+  upgradeAnonymousWithGoogle as upgradeAnonymousWithGoogleService,
+  signUpWithEmail as signUpWithEmailService,
+  signInWithEmail as signInWithEmailService,
+  sendPasswordReset as sendPasswordResetService,
+  sendSignInLink as sendSignInLinkService,
+  completeEmailLinkSignIn as completeEmailLinkSignInService,
+  isEmailVerificationPending,
+  MIN_PASSWORD_LENGTH,
   mapFirebaseUserToUser,
   getCurrentUser,
   getAuthState
 } from '../services/firebase/auth';
-import type { User } from '../types';
+import { syncUserOnLogin } from '../services/firebase/users';
+import { resumePendingGuestMerges } from '../services/firebase/accountMerge';
+import type { User, AccountUpgradeResult } from '../types';
 
 // 인증 관련 상수
 // const LOGOUT_FLAG_KEY = 'mac_board_force_logout'; // 이중 상태 관리 문제로 제거
@@ -24,8 +34,20 @@ const AUTH_ERROR_MESSAGES = {
   popup_blocked: '팝업이 차단되었습니다. 브라우저 설정에서 팝업 허용 후 다시 시도해 주세요.',
   timeout: '요청 시간이 초과되었습니다. 다시 시도해 주세요.',
   user_cancelled: '사용자가 로그인을 취소했습니다.',
+  email_in_use: '이미 가입된 이메일입니다. 로그인하거나 비밀번호 재설정을 이용해 주세요.',
+  invalid_email: '이메일 주소 형식이 올바르지 않습니다.',
+  missing_email: '이메일 주소를 입력해 주세요.',
+  weak_password: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상으로 입력해 주세요.`,
+  wrong_credential: '이메일 또는 비밀번호가 올바르지 않습니다.',
+  user_disabled: '사용이 중지된 계정입니다. 관리자에게 문의해 주세요.',
+  too_many_requests: '요청이 너무 많습니다. 잠시 후 다시 시도해 주세요.',
+  invalid_link: '링크가 만료되었거나 이미 사용되었습니다. 다시 요청해 주세요.',
+  not_allowed: '이 로그인 방법은 현재 사용할 수 없습니다. 관리자에게 문의해 주세요.',
 };
 
+// 이번 세션에서 users 문서를 기록한 사용자 ID (여러 컴포넌트가 훅을 사용해도 한 번만 기록)
+const syncedUserIds = new Set<string>();
+
 /**
  * 인증 관련 상태와 기능을 제공하는 훅
  * @returns 인증 상태와 인증 관련 함수들
@@ -33,7 +55,7 @@ const AUTH_ERROR_MESSAGES = {
 export function useAuth() {
   // 초기 상태 설정
   const [user, setUser] = useState<User | null>(null);
-  // 초기 로딩 상태는 true로 설정하여, onAuthStateChanged가 처음 실행될 때까지 로딩 화면을 표시하도록 함
+  // 초기 로딩 상태는 true로 설정하여, onIdTokenChanged가 처음 실행될 때까지 로딩 화면을 표시하도록 함
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -51,6 +73,16 @@ export function useAuth() {
     if (errorCode.includes('popup-blocked')) return AUTH_ERROR_MESSAGES.popup_blocked;
     if (errorCode.includes('timeout')) return AUTH_ERROR_MESSAGES.timeout;
     if (errorCode.includes('cancelled') || errorCode.includes('cancel')) return AUTH_ERROR_MESSAGES.user_cancelled;
+    if (errorCode.includes('email-already-in-use')) return AUTH_ERROR_MESSAGES.email_in_use;
+    if (errorCode.includes('invalid-email')) return AUTH_ERROR_MESSAGES.invalid_email;
+    if (errorCode.includes('missing-email')) return AUTH_ERROR_MESSAGES.missing_email;
+    if (errorCode.includes('weak-password')) return AUTH_ERROR_MESSAGES.weak_password;
+    if (errorCode.includes('wrong-password') || errorCode.includes('user-not-found') ||
+        errorCode.includes('invalid-credential') || errorCode.includes('missing-password')) return AUTH_ERROR_MESSAGES.wrong_credential;
+    if (errorCode.includes('user-disabled')) return AUTH_ERROR_MESSAGES.user_disabled;
+    if (errorCode.includes('too-many-requests')) return AUTH_ERROR_MESSAGES.too_many_requests;
+    if (errorCode.includes('action-code')) return AUTH_ERROR_MESSAGES.invalid_link;
+    if (errorCode.includes('operation-not-allowed')) return AUTH_ERROR_MESSAGES.not_allowed;
     
     return error.message || AUTH_ERROR_MESSAGES.default;
   }, []);
@@ -59,22 +91,46 @@ export function useAuth() {
   useEffect(() => {
     console.log('Auth 상태 감지 설정');
     
-    const unsubscribe = onAuthStateChanged(
+    // 로그인/로그아웃뿐 아니라 프로필 수정 후 토큰 갱신도 감지하기 위해 onIdTokenChanged 사용
+    const unsubscribe = onIdTokenChanged(
       auth,
       (firebaseUser) => {
         console.log('Firebase 인증 상태 변경 감지:', firebaseUser ? '로그인됨' : '로그아웃됨');
         
-        // onAuthStateChanged는 비동기적으로 작동하므로, 여기서 로딩 상태를 직접 제어할 필요가 없음
-        if (firebaseUser) {
+        // onIdTokenChanged는 비동기적으로 작동하므로, 여기서 로딩 상태를 직접 제어할 필요가 없음
+        // 이메일 인증을 마치지 않은 가입 사용자는 로그인하지 않은 것으로 취급
+        if (firebaseUser && !isEmailVerificationPending(firebaseUser)) {
           // 사용자 정보 매핑
           const mappedUser = mapFirebaseUserToUser(firebaseUser);
           setUser(mappedUser);
           console.log('사용자 정보 설정됨:', mappedUser.displayName);
+
+          // 로그인한 사용자의 users 문서 생성/갱신 (실패해도 로그인은 유지)
+          if (!syncedUserIds.has(firebaseUser.uid)) {
+            syncedUserIds.add(firebaseUser.uid);
+            syncUserOnLogin(firebaseUser).catch(err => {
+              console.error('사용자 정보 기록 실패:', err);
+              syncedUserIds.delete(firebaseUser.uid);
+            });
+
+            // 이전에 옮기다 중단된 게스트 데이터가 있으면 이어서 옮김 (실패하면 다음 로그인 때 다시 시도)
+            resumePendingGuestMerges(mappedUser)
+              .then(movedCount => {
+                if (movedCount > 0) {
+                  console.log(`게스트 데이터 ${movedCount}개를 이어서 옮겼습니다.`);
+                }
+              })
+              .catch(err => {
+                console.error('게스트 데이터 병합 재개 실패:', err);
+              });
+          }
         } else {
           console.log('사용자 정보 null로 설정');
           setUser(null);
+          // 다음 로그인 때 마지막 로그인 시간을 다시 기록
+          syncedUserIds.clear();
         }
-        // onAuthStateChanged가 한번 실행되면, 초기 인증 상태 확인이 완료된 것이므로 로딩 상태를 false로 변경
+        // onIdTokenChanged가 한번 실행되면, 초기 인증 상태 확인이 완료된 것이므로 로딩 상태를 false로 변경
         setIsLoading(false);
         setError(null);
       },
@@ -102,8 +158,8 @@ export function useAuth() {
       setIsLoading(true);
       setError(null);
       const user = await signInWithGoogleService();
-      // onAuthStateChanged가 user 상태를 설정하므로, 여기서 별도로 setUser를 호출할 필요가 없음
-      // 로딩 상태는 onAuthStateChanged 콜백에서 관리
+      // onIdTokenChanged가 user 상태를 설정하므로, 여기서 별도로 setUser를 호출할 필요가 없음
+      // 로딩 상태는 onIdTokenChanged 콜백에서 관리
       return user;
     } catch (err: any) {
       console.error('구글 로그인 오류:', err);
@@ -132,8 +188,8 @@ export function useAuth() {
       setIsLoading(true);
       setError(null);
       const user = await signInAnonymouslyService();
-      // onAuthStateChanged가 user 상태를 설정하므로, 여기서 별도로 setUser를 호출할 필요가 없음
-      // 로딩 상태는 onAuthStateChanged 콜백에서 관리
+      // onIdTokenChanged가 user 상태를 설정하므로, 여기서 별도로 setUser를 호출할 필요가 없음
+      // 로딩 상태는 onIdTokenChanged 콜백에서 관리
       return user;
     } catch (err: any) {
       console.error('익명 로그인 오류:', err);
@@ -143,6 +199,104 @@ export function useAuth() {
     }
   };
 
+  /**
+   * 이메일 로그인 함수
+   * @param email 이메일 주소
+   * @param password 비밀번호
+   * @returns Promise<User | null> - 로그인 성공 시 사용자 정보, 실패 시 null
+   */
+  const signInWithEmail = async (email: string, password: string): Promise<User | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      // 로딩 상태는 onIdTokenChanged 콜백에서 관리
+      return await signInWithEmailService(email, password);
+    } catch (err: any) {
+      console.error('이메일 로그인 오류:', err);
+      setError(formatErrorMessage(err));
+      setIsLoading(false);
+      return null;
+    }
+  };
+
+  /**
+   * 이메일 링크 로그인 함수
+   * @param email 로그인 링크를 받은 이메일 주소
+   * @param url 로그인 링크 주소
+   * @returns Promise<User | null> - 로그인 성공 시 사용자 정보, 실패 시 null
+   */
+  const completeEmailLinkSignIn = async (email: string, url: string): Promise<User | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      // 로딩 상태는 onIdTokenChanged 콜백에서 관리
+      return await completeEmailLinkSignInService(email, url);
+    } catch (err: any) {
+      console.error('이메일 링크 로그인 오류:', err);
+      setError(formatErrorMessage(err));
+      setIsLoading(false);
+      return null;
+    }
+  };
+
+  /**
+   * 로그인 없이 인증 메일을 보내는 작업(회원가입, 비밀번호 재설정, 로그인 링크 요청)을 실행하는 함수
+   * @param task 실행할 작업
+   * @param label 오류 로그에 남길 작업 이름
+   * @returns 성공하면 true, 실패하면 false
+   */
+  const runEmailTask = async (task: () => Promise<void>, label: string): Promise<boolean> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await task();
+      return true;
+    } catch (err: any) {
+      console.error(`${label} 오류:`, err);
+      setError(formatErrorMessage(err));
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * 이메일 회원가입 함수
+   * 가입 후 인증 메일이 발송되며, 인증을 마친 뒤 로그인할 수 있습니다.
+   * @returns 성공하면 true, 실패하면 false
+   */
+  const signUpWithEmail = (email: string, password: string, displayName: string): Promise<boolean> =>
+    runEmailTask(() => signUpWithEmailService(email, password, displayName), '이메일 회원가입');
+
+  /**
+   * 비밀번호 재설정 메일 발송 함수
+   * @returns 성공하면 true, 실패하면 false
+   */
+  const sendPasswordReset = (email: string): Promise<boolean> =>
+    runEmailTask(() => sendPasswordResetService(email), '비밀번호 재설정 메일 발송');
+
+  /**
+   * 이메일 로그인 링크 발송 함수
+   * @returns 성공하면 true, 실패하면 false
+   */
+  const sendSignInLink = (email: string): Promise<boolean> =>
+    runEmailTask(() => sendSignInLinkService(email), '로그인 링크 발송');
+
+  /**
+   * 게스트 계정 업그레이드 함수
+   * Google 계정을 연결하며, 이미 가입된 Google 계정이면 게스트 데이터를 그 계정으로 옮깁니다.
+   * 화면 전체의 로딩/오류 상태를 바꾸지 않도록 실패 시 오류를 호출한 쪽으로 전달합니다.
+   * @returns 업그레이드 결과
+   */
+  const upgradeAccount = async (): Promise<AccountUpgradeResult> => {
+    try {
+      return await upgradeAnonymousWithGoogleService();
+    } catch (err) {
+      console.error('계정 업그레이드 오류:', err);
+      throw new Error(formatErrorMessage(err));
+    }
+  };
+
   /**
    * 로그아웃 함수
    */
@@ -152,7 +306,7 @@ export function useAuth() {
       // 로그아웃 시도 시에도 로딩 상태를 true로 설정
       setIsLoading(true);
       await signOutService();
-      // onAuthStateChanged가 user를 null로 설정하지만, 즉각적인 UI 반응을 위해 여기서도 설정
+      // onIdTokenChanged가 user를 null로 설정하지만, 즉각적인 UI 반응을 위해 여기서도 설정
       setUser(null);
       console.log('useAuth: 로그아웃 완료');
     } catch (err) {
@@ -179,6 +333,12 @@ export function useAuth() {
     error,
     signInWithGoogle,
     signInAnonymously,
+    signInWithEmail,
+    signUpWithEmail,
+    sendPasswordReset,
+    sendSignInLink,
+    completeEmailLinkSignIn,
+    upgradeAccount,
     signOut,
     clearError
   };
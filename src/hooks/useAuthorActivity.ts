@@ -0,0 +1,87 @@
+/**
+ * 작성자 활동 관련 커스텀 훅
+ * 작성자 페이지에 표시할 사용자의 게시물과 댓글(댓글이 달린 게시물 제목 포함)을 불러옵니다.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { fetchPostsByAuthor, fetchCommentsByAuthor, fetchPostsByIds } from '../services/firebase/firestore';
+import type { UIPost, UIComment } from '../types';
+
+/**
+ * 작성자 페이지의 댓글 항목 (댓글이 달린 게시물 제목 포함)
+ */
+export interface AuthorCommentItem {
+  comment: UIComment;
+  postTitle: string;
+}
+
+interface UseAuthorActivityReturn {
+  posts: UIPost[];
+  comments: AuthorCommentItem[];
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 작성자 활동을 불러오는 훅
+ * @param authorId 작성자 ID
+ * @returns 작성자의 게시물과 댓글 목록
+ */
+export const useAuthorActivity = (authorId?: string): UseAuthorActivityReturn => {
+  const [posts, setPosts] = useState<UIPost[]>([]);
+  const [comments, setComments] = useState<AuthorCommentItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 작성자의 게시물과 댓글 조회
+  const loadActivity = useCallback(async () => {
+    if (!authorId) {
+      setPosts([]);
+      setComments([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const [authorPosts, authorComments] = await Promise.all([
+        fetchPostsByAuthor(authorId),
+        fetchCommentsByAuthor(authorId)
+      ]);
+
+      // 댓글이 달린 게시물 중 작성자 게시물에 없는 것만 추가로 조회
+      const postTitles = new Map(authorPosts.map(post => [post.id, post.title]));
+      const missingPostIds = Array.from(new Set(authorComments.map(comment => comment.postId)))
+        .filter(postId => !postTitles.has(postId));
+      const commentedPosts = await fetchPostsByIds(missingPostIds);
+      commentedPosts.forEach(post => postTitles.set(post.id, post.title));
+
+      setPosts(authorPosts);
+      setComments(
+        authorComments
+          // 게시물이 삭제된 댓글은 열 수 없으므로 제외
+          .filter(comment => postTitles.has(comment.postId))
+          .map(comment => ({ comment, postTitle: postTitles.get(comment.postId) || '' }))
+      );
+    } catch (err) {
+      console.error('작성자 활동 조회 오류:', err);
+      setError(err instanceof Error ? err : new Error('작성자 활동을 불러오는 중 오류가 발생했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [authorId]);
+
+  // 컴포넌트 마운트 시 또는 authorId 변경 시 조회
+  useEffect(() => {
+    loadActivity();
+  }, [loadActivity]);
+
+  return {
+    posts,
+    comments,
+    loading,
+    error,
+    refresh: loadActivity
+  };
+};
@@ -0,0 +1,27 @@
+/**
+ * 작성자 페이지 열기 커스텀 훅
+ * 게시물과 댓글의 작성자 이름을 클릭했을 때 해당 사용자의 작성자 페이지 창을 엽니다.
+ * 창 관리자(WindowManagerProvider) 내부에서 사용해야 합니다.
+ */
+import { useCallback } from 'react';
+import { useWindowManager } from './useWindowManager';
+
+/**
+ * 작성자 페이지 창을 여는 함수를 제공하는 훅
+ * 같은 작성자의 페이지는 하나의 창만 열립니다.
+ * @returns 작성자 페이지 열기 함수
+ */
+export const useAuthorPage = () => {
+  const { openWindow } = useWindowManager();
+
+  return useCallback((authorId: string, authorName: string) => {
+    if (!authorId) return;
+
+    openWindow({
+      type: 'author',
+      key: `author:${authorId}`,
+      title: `${authorName} - 작성자 정보`,
+      props: { authorId, authorName },
+    });
+  }, [openWindow]);
+};
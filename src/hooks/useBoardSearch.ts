@@ -0,0 +1,166 @@
+/**
+ * 게시판 통합 검색 커스텀 훅
+ * 시작 메뉴 검색 상자에서 게시물, 카테고리, 태그, 작성자를 한 번에 검색합니다.
+ * 게시물과 작성자는 최근 게시물에서, 태그는 태그 인덱스에서 찾으므로 전체 게시물을 읽지 않습니다.
+ */
+import { useState, useEffect, useMemo } from 'react';
+import { fetchPostsPage, fetchCategoriesFromFirestore } from '../services/firebase/firestore';
+import { fetchTagList } from '../services/firebase/tags';
+import { getIconEmoji } from '../utils/icons';
+import type { UIPost } from '../types';
+
+// 그룹별 최대 검색 결과 수
+const MAX_POST_RESULTS = 6;
+const MAX_GROUP_RESULTS = 4;
+
+// 검색 대상으로 불러올 최근 게시물 수
+const SEARCH_POST_LIMIT = 100;
+
+/**
+ * 카테고리 검색 결과
+ */
+export interface CategorySearchResult {
+  id: string;        // 카테고리 ID
+  name: string;      // 카테고리 이름
+  icon: string;      // 카테고리 아이콘 (이모지)
+  postCount: number; // 최근 게시물 중 카테고리의 게시물 수
+}
+
+/**
+ * 작성자 검색 결과
+ */
+export interface AuthorSearchResult {
+  id: string;        // 작성자 ID
+  name: string;      // 작성자 이름
+  postCount: number; // 최근 게시물 중 작성한 게시물 수
+}
+
+/**
+ * 그룹별 검색 결과
+ */
+export interface BoardSearchResults {
+  posts: UIPost[];
+  categories: CategorySearchResult[];
+  tags: string[];
+  authors: AuthorSearchResult[];
+}
+
+const EMPTY_RESULTS: BoardSearchResults = { posts: [], categories: [], tags: [], authors: [] };
+
+/**
+ * 게시판 통합 검색 훅
+ * 검색어가 처음 입력될 때 최근 게시물, 카테고리, 태그 목록을 불러오고, 이후에는 불러온 데이터에서 검색합니다.
+ * @param searchQuery 검색어
+ * @param enabled 검색 활성화 여부 (false가 되면 불러온 데이터를 비워 다음 검색 때 새로 불러옴)
+ * @returns 그룹별 검색 결과 및 로딩/에러 상태
+ */
+export const useBoardSearch = (searchQuery: string, enabled: boolean) => {
+  const [posts, setPosts] = useState<UIPost[] | null>(null);
+  const [categories, setCategories] = useState<{ id: string; name: string; icon?: string }[]>([]);
+  const [tagList, setTagList] = useState<string[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const normalizedQuery = searchQuery.trim().toLowerCase();
+  const shouldLoad = enabled && normalizedQuery.length > 0 && posts === null;
+
+  // 검색이 비활성화되면 불러온 데이터 초기화
+  useEffect(() => {
+    if (!enabled) {
+      setPosts(null);
+      setError(null);
+    }
+  }, [enabled]);
+
+  // 첫 검색어 입력 시 검색 대상 데이터 로드
+  useEffect(() => {
+    if (!shouldLoad) return;
+
+    let cancelled = false;
+    const loadSearchData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [postsPage, categoriesData, tagsData] = await Promise.all([
+          fetchPostsPage({ pageSize: SEARCH_POST_LIMIT }),
+          fetchCategoriesFromFirestore(),
+          fetchTagList()
+        ]);
+        if (cancelled) return;
+        setPosts(postsPage.posts);
+        setCategories(categoriesData.filter(cat => cat.id !== 'all'));
+        setTagList(tagsData);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('검색 데이터 로드 오류:', err);
+        setPosts([]);
+        setError(err instanceof Error ? err : new Error('검색 데이터를 불러오는 중 오류가 발생했습니다.'));
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadSearchData();
+    return () => {
+      cancelled = true;
+    };
+  }, [shouldLoad]);
+
+  // 검색어로 그룹별 결과 필터링
+  const results = useMemo<BoardSearchResults>(() => {
+    if (!normalizedQuery || !posts) {
+      return EMPTY_RESULTS;
+    }
+
+    const matches = (value: string | undefined) => !!value && value.toLowerCase().includes(normalizedQuery);
+
+    const matchedPosts = posts
+      .filter(post => matches(post.title) || matches(post.content))
+      // 제목이 일치하는 게시물을 먼저 표시
+      .sort((a, b) => Number(matches(b.title)) - Number(matches(a.title)))
+      .slice(0, MAX_POST_RESULTS);
+
+    const postCountByCategory = new Map<string, number>();
+    const authors = new Map<string, AuthorSearchResult>();
+    posts.forEach(post => {
+      postCountByCategory.set(post.category, (postCountByCategory.get(post.category) || 0) + 1);
+      if (matches(post.author.name)) {
+        const key = post.authorId || post.author.name;
+        const author = authors.get(key);
+        authors.set(key, {
+          id: post.authorId,
+          name: post.author.name,
+          postCount: (author?.postCount || 0) + 1,
+        });
+      }
+    });
+
+    return {
+      posts: matchedPosts,
+      categories: categories
+        .filter(cat => matches(cat.name) || matches(cat.id))
+        .slice(0, MAX_GROUP_RESULTS)
+        .map(cat => ({
+          id: cat.id,
+          name: cat.name,
+          icon: cat.icon ? getIconEmoji(cat.icon) : '📁',
+          postCount: postCountByCategory.get(cat.id) || 0,
+        })),
+      // 태그 인덱스 목록은 이미 가나다순으로 정렬되어 있음
+      tags: tagList
+        .filter(tag => matches(tag))
+        .slice(0, MAX_GROUP_RESULTS),
+      authors: Array.from(authors.values())
+        .sort((a, b) => b.postCount - a.postCount)
+        .slice(0, MAX_GROUP_RESULTS),
+    };
+  }, [normalizedQuery, posts, categories, tagList]);
+
+  return {
+    results,
+    loading: loading || shouldLoad,
+    error,
+  };
+};
@@ -2,12 +2,14 @@
  * 북마크 관련 커스텀 훅
  * 북마크 추가, 삭제, 조회 기능을 제공합니다.
  */
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   addBookmark,
   removeBookmark,
   isBookmarked as checkIsBookmarked,
-  fetchBookmarkedPosts
+  fetchBookmarkedPosts,
+  fetchPostsByIds,
+  subscribeToBookmarkedPostIds
 } from '../services/firebase/firestore';
 import type { UIPost } from '../types';
 
@@ -18,7 +20,17 @@ interface BookmarkState {
   error: Error | null;
 }
 
-export const useBookmarks = (userId?: string) => {
+/**
+ * 북마크 훅
+ * 실시간 구독을 사용하면 다른 창이나 기기에서 추가·삭제한 북마크도 바로 반영됩니다.
+ * @param userId 사용자 ID
+ * @param options 실시간 구독 여부
+ */
+export const useBookmarks = (userId?: string, options?: { realtime?: boolean }) => {
+  const realtime = options?.realtime ?? false;
+  // 이전 구독 알림의 느린 응답이 최신 목록을 덮어쓰지 않도록 하는 요청 번호
+  const snapshotRequestIdRef = useRef(0);
+
   // 상태 초기화
   const [state, setState] = useState<BookmarkState>({
     bookmarkedPosts: [],
@@ -127,8 +139,10 @@ export const useBookmarks = (userId?: string) => {
         }));
       }
       
-      // 북마크 목록 새로고침
-      await loadBookmarkedPosts();
+      // 북마크 목록 새로고침 (실시간 구독 중에는 자동 반영)
+      if (!realtime) {
+        await loadBookmarkedPosts();
+      }
       return true;
     } catch (error) {
       console.error('북마크 토글 오류:', error);
@@ -138,7 +152,7 @@ export const useBookmarks = (userId?: string) => {
       }));
       return false;
     }
-  }, [userId, state.bookmarkStatuses, loadBookmarkedPosts]);
+  }, [userId, realtime, state.bookmarkStatuses, loadBookmarkedPosts]);
 
   /**
    * 특정 게시물의 북마크 상태 반환 함수
@@ -157,6 +171,36 @@ export const useBookmarks = (userId?: string) => {
 
   // 컴포넌트 마운트 시 또는 userId 변경 시 북마크 목록 조회
   useEffect(() => {
+    if (userId && realtime) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      // 북마크가 바뀔 때마다 게시물 정보를 다시 조회 (창이 닫히면 구독 해제)
+      const unsubscribe = subscribeToBookmarkedPostIds(userId, async postIds => {
+        const requestId = ++snapshotRequestIdRef.current;
+        const posts = await fetchPostsByIds(postIds);
+        if (requestId !== snapshotRequestIdRef.current) return;
+
+        const statuses: Record<string, boolean> = {};
+        posts.forEach(post => {
+          statuses[post.id] = true;
+        });
+
+        setState({
+          bookmarkedPosts: posts,
+          bookmarkStatuses: statuses,
+          loading: false,
+          error: null
+        });
+      }, () => {
+        // 구독할 수 없으면 한 번 조회한 목록으로 대체
+        loadBookmarkedPosts();
+      });
+
+      return () => {
+        snapshotRequestIdRef.current++;
+        unsubscribe();
+      };
+    }
+
     if (userId) {
       loadBookmarkedPosts();
     } else {
@@ -168,7 +212,7 @@ export const useBookmarks = (userId?: string) => {
         error: null
       });
     }
-  }, [userId, loadBookmarkedPosts]);
+  }, [userId, realtime, loadBookmarkedPosts]);
 
   return {
     bookmarkedPosts: state.bookmarkedPosts,
@@ -1,28 +1,31 @@
 import { useState, useEffect, useCallback } from 'react';
 import { UIComment } from '../types';
-import { fetchCommentsByPostId, createComment, updateComment, deleteComment } from '../services/firebase/firestore';
+import { fetchCommentsByPostId, subscribeToComments, createComment, updateComment, deleteComment } from '../services/firebase/firestore';
 import { useAuth } from './useAuth';
 
 interface UseCommentsProps {
   postId: string | null;
+  realtime?: boolean; // 댓글 변경 사항을 실시간으로 구독할지 여부
 }
 
 interface UseCommentsReturn {
   comments: UIComment[];
   loading: boolean;
   error: Error | null;
-  addComment: (content: string) => Promise<void>;
-  editComment: (commentId: string, content: string) => Promise<void>;
+  addComment: (content: string, parentId?: string | null, mentions?: string[]) => Promise<void>;
+  editComment: (commentId: string, content: string, mentions?: string[]) => Promise<void>;
   removeComment: (commentId: string) => Promise<void>;
   refreshComments: () => Promise<void>;
 }
 
 /**
  * 댓글 관련 기능을 제공하는 훅
+ * 실시간 구독을 사용하면 다른 사용자가 작성·수정·삭제한 댓글도 바로 반영됩니다.
  * @param postId 게시물 ID
+ * @param realtime 실시간 구독 여부
  * @returns 댓글 목록 및 관련 기능
  */
-export const useComments = ({ postId }: UseCommentsProps): UseCommentsReturn => {
+export const useComments = ({ postId, realtime = false }: UseCommentsProps): UseCommentsReturn => {
   const [comments, setComments] = useState<UIComment[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
@@ -49,13 +52,29 @@ export const useComments = ({ postId }: UseCommentsProps): UseCommentsReturn =>
     }
   }, [postId]);
   
-  // 컴포넌트 마운트 시 댓글 목록 조회
+  // 컴포넌트 마운트 시 댓글 목록 조회 (실시간 구독 시에는 구독으로 대체)
   useEffect(() => {
-    fetchComments();
-  }, [fetchComments]);
+    if (!realtime || !postId) {
+      fetchComments();
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    // 게시물이 바뀌거나 창이 닫히면 구독 해제
+    const unsubscribe = subscribeToComments(postId, updatedComments => {
+      setComments(updatedComments);
+      setLoading(false);
+    }, () => {
+      // 구독할 수 없으면 한 번 조회한 목록으로 대체
+      fetchComments();
+    });
+
+    return unsubscribe;
+  }, [realtime, postId, fetchComments]);
   
-  // 새 댓글 추가
-  const addComment = useCallback(async (content: string) => {
+  // 새 댓글 추가 (parentId를 지정하면 해당 댓글의 답글로 추가, mentions는 @멘션한 사용자 ID)
+  const addComment = useCallback(async (content: string, parentId: string | null = null, mentions: string[] = []) => {
     if (!user || !postId) {
       throw new Error('로그인이 필요하거나 게시물이 선택되지 않았습니다.');
     }
@@ -68,33 +87,39 @@ export const useComments = ({ postId }: UseCommentsProps): UseCommentsReturn =>
           name: user.displayName || '익명 사용자',
           photoURL: user.photoURL
         },
-        authorId: user.uid
+        authorId: user.uid,
+        parentId,
+        mentions
       });
       
-      // 댓글 목록 새로고침
-      await fetchComments();
+      // 댓글 목록 새로고침 (실시간 구독 중에는 자동 반영)
+      if (!realtime) {
+        await fetchComments();
+      }
     } catch (err) {
       console.error('댓글 추가 오류:', err);
       throw err;
     }
-  }, [user, postId, fetchComments]);
+  }, [user, postId, realtime, fetchComments]);
   
   // 댓글 수정
-  const editComment = useCallback(async (commentId: string, content: string) => {
+  const editComment = useCallback(async (commentId: string, content: string, mentions: string[] = []) => {
     if (!user) {
       throw new Error('로그인이 필요합니다.');
     }
     
     try {
-      await updateComment(commentId, content, user.uid);
+      await updateComment(commentId, content, user.uid, mentions);
       
-      // 댓글 목록 새로고침
-      await fetchComments();
+      // 댓글 목록 새로고침 (실시간 구독 중에는 자동 반영)
+      if (!realtime) {
+        await fetchComments();
+      }
     } catch (err) {
       console.error('댓글 수정 오류:', err);
       throw err;
     }
-  }, [user, fetchComments]);
+  }, [user, realtime, fetchComments]);
   
   // 댓글 삭제
   const removeComment = useCallback(async (commentId: string) => {
@@ -105,13 +130,15 @@ export const useComments = ({ postId }: UseCommentsProps): UseCommentsReturn =>
     try {
       await deleteComment(commentId, postId, user.uid);
       
-      // 댓글 목록 새로고침
-      await fetchComments();
+      // 댓글 목록 새로고침 (실시간 구독 중에는 자동 반영)
+      if (!realtime) {
+        await fetchComments();
+      }
     } catch (err) {
       console.error('댓글 삭제 오류:', err);
       throw err;
     }
-  }, [user, postId, fetchComments]);
+  }, [user, postId, realtime, fetchComments]);
   
   return {
     comments,
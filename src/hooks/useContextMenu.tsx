@@ -0,0 +1,66 @@
+/**
+ * 컨텍스트 메뉴 컨텍스트 및 커스텀 훅
+ * MenuItem 트리를 받아 마우스 우클릭 위치에 컨텍스트 메뉴를 표시합니다.
+ */
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import type { MenuItem } from '../types';
+import ContextMenu from '../../components/ContextMenu';
+
+/**
+ * 컨텍스트 메뉴 컨텍스트 값
+ */
+export interface ContextMenuContextValue {
+  /** 마우스 이벤트 위치에 컨텍스트 메뉴 표시 (브라우저 기본 메뉴는 표시하지 않음) */
+  showContextMenu: (event: React.MouseEvent | MouseEvent, items: MenuItem[]) => void;
+  /** 컨텍스트 메뉴 닫기 */
+  hideContextMenu: () => void;
+}
+
+const ContextMenuContext = createContext<ContextMenuContextValue | null>(null);
+
+/**
+ * 컨텍스트 메뉴 Provider 컴포넌트
+ * 한 번에 하나의 컨텍스트 메뉴만 표시됩니다.
+ */
+export const ContextMenuProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [menu, setMenu] = useState<{ x: number; y: number; items: MenuItem[] } | null>(null);
+
+  const showContextMenu = useCallback((event: React.MouseEvent | MouseEvent, items: MenuItem[]) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    // 표시할 항목이 없으면 메뉴를 열지 않음
+    if (items.length === 0) {
+      setMenu(null);
+      return;
+    }
+    setMenu({ x: event.clientX, y: event.clientY, items });
+  }, []);
+
+  const hideContextMenu = useCallback(() => {
+    setMenu(null);
+  }, []);
+
+  const value = useMemo(() => ({ showContextMenu, hideContextMenu }), [showContextMenu, hideContextMenu]);
+
+  return (
+    <ContextMenuContext.Provider value={value}>
+      {children}
+      {menu && (
+        <ContextMenu x={menu.x} y={menu.y} items={menu.items} onClose={hideContextMenu} />
+      )}
+    </ContextMenuContext.Provider>
+  );
+};
+
+/**
+ * 컨텍스트 메뉴 기능을 제공하는 훅
+ * @returns 컨텍스트 메뉴 표시/닫기 함수
+ */
+export const useContextMenu = (): ContextMenuContextValue => {
+  const context = useContext(ContextMenuContext);
+  if (!context) {
+    throw new Error('useContextMenu는 ContextMenuProvider 내부에서 사용해야 합니다.');
+  }
+  return context;
+};
@@ -0,0 +1,59 @@
+/**
+ * 팔로우 관련 커스텀 훅
+ * 사용자가 팔로우한 카테고리, 태그, 작성자를 실시간으로 구독하고, 팔로우를 바꾸는 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { subscribeToFollows, setFollow } from '../services/firebase/follows';
+import { EMPTY_FOLLOWS, FOLLOW_FIELDS } from '../utils/follows';
+import type { FollowSettings, FollowTargetType } from '../types';
+
+/**
+ * 팔로우 훅
+ * @param userId 사용자 ID (게스트는 전달하지 않음)
+ * @returns 팔로우 설정 및 팔로우 변경 함수
+ */
+export const useFollows = (userId?: string) => {
+  const [follows, setFollows] = useState<FollowSettings>(EMPTY_FOLLOWS);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 사용자가 바뀌거나 창이 닫히면 구독 해제
+  useEffect(() => {
+    setFollows(EMPTY_FOLLOWS);
+    if (!userId) return;
+
+    setError(null);
+    return subscribeToFollows(userId, setFollows, setError);
+  }, [userId]);
+
+  /**
+   * 대상을 팔로우하고 있는지 확인하는 함수
+   * @param targetType 팔로우 대상 종류
+   * @param targetId 카테고리 ID, 태그 또는 작성자 ID
+   */
+  const isFollowing = useCallback((targetType: FollowTargetType, targetId: string) => {
+    return follows[FOLLOW_FIELDS[targetType]].includes(targetId);
+  }, [follows]);
+
+  /**
+   * 대상 팔로우를 켜거나 끄는 함수
+   * @param targetType 팔로우 대상 종류
+   * @param targetId 카테고리 ID, 태그 또는 작성자 ID
+   * @returns 팔로우하게 되었으면 true, 취소했으면 false
+   */
+  const toggleFollow = useCallback(async (targetType: FollowTargetType, targetId: string) => {
+    if (!userId) {
+      throw new Error('게스트는 팔로우할 수 없습니다. 로그인 후 이용해주세요.');
+    }
+
+    const follow = !follows[FOLLOW_FIELDS[targetType]].includes(targetId);
+    await setFollow(userId, targetType, targetId, follow);
+    return follow;
+  }, [userId, follows]);
+
+  return {
+    follows,
+    error,
+    isFollowing,
+    toggleFollow
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * 알림 관련 커스텀 훅
+ * 사용자의 최근 알림을 실시간으로 구독하고, 알림을 읽음으로 표시하는 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  subscribeToNotifications,
+  markNotificationAsRead,
+  markAllNotificationsAsRead
+} from '../services/firebase/notifications';
+import type { UINotification } from '../types';
+
+/**
+ * 알림 훅
+ * @param userId 사용자 ID (게스트는 전달하지 않음)
+ * @returns 알림 목록, 읽지 않은 알림 수 및 읽음 표시 함수
+ */
+export const useNotifications = (userId?: string) => {
+  const [notifications, setNotifications] = useState<UINotification[]>([]);
+  // 첫 구독 결과를 받았는지 여부 (이후 도착한 알림만 새 알림으로 안내하기 위함)
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 사용자가 바뀌거나 로그아웃하면 구독 해제
+  useEffect(() => {
+    setNotifications([]);
+    setLoaded(false);
+    if (!userId) return;
+
+    setError(null);
+    return subscribeToNotifications(
+      userId,
+      nextNotifications => {
+        setNotifications(nextNotifications);
+        setLoaded(true);
+      },
+      setError
+    );
+  }, [userId]);
+
+  const unreadCount = useMemo(
+    () => notifications.filter(notification => !notification.isRead).length,
+    [notifications]
+  );
+
+  /**
+   * 알림 하나를 읽음으로 표시하는 함수
+   * @param notificationId 알림 ID
+   */
+  const markAsRead = useCallback(async (notificationId: string) => {
+    // 구독 결과를 기다리지 않고 바로 반영
+    setNotifications(prev => prev.map(notification =>
+      notification.id === notificationId ? { ...notification, isRead: true } : notification
+    ));
+    await markNotificationAsRead(notificationId);
+  }, []);
+
+  /**
+   * 모든 알림을 읽음으로 표시하는 함수
+   */
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+
+    setNotifications(prev => prev.map(notification => ({ ...notification, isRead: true })));
+    await markAllNotificationsAsRead(userId);
+  }, [userId]);
+
+  return {
+    notifications,
+    unreadCount,
+    loaded,
+    error,
+    markAsRead,
+    markAllAsRead
+  };
+};
@@ -2,22 +2,51 @@
  * 게시물 목록을 관리하는 커스텀 훅
  * @returns 게시물 관련 상태 및 함수들
  */
-import { useState, useEffect, useCallback } from 'react';
-import { fetchPosts, fetchPostsByCategory, fetchPostsByTag, UIPost, fetchCategoriesFromFirestore } from '../services/firebase/firestore';
-import { Category } from '../types';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import {
+  fetchPostsPage,
+  subscribeToLatestPosts,
+  fetchFollowingFeed,
+  subscribeToFollowingFeed,
+  filterAndSortPosts,
+  UIPost,
+  fetchCategoriesFromFirestore
+} from '../services/firebase/firestore';
+import { fetchTagList } from '../services/firebase/tags';
+import { FOLLOWING_CATEGORY_ID } from '../utils/follows';
+import { Category, PostSortOption, PostPeriodFilter, FollowSettings } from '../types';
 import { FolderIcon, MessagesSquareIcon, TagIcon } from '../../components/icons';
 import { getIconEmoji } from '../utils/icons';
 
 /**
  * 게시물 목록을 관리하는 커스텀 훅
- * @param options 필터링 옵션 (카테고리, 태그)
+ * 게시물은 페이지 단위로 불러오며, loadMore로 다음 페이지를 이어서 불러옵니다.
+ * 실시간 구독을 사용하면 불러온 게시물의 변경 사항은 바로 반영하고,
+ * 새 게시물은 목록 순서를 바꾸지 않도록 개수만 알려준 뒤 showNewPosts로 불러옵니다.
+ * 카테고리가 팔로잉 피드(FOLLOWING_CATEGORY_ID)이면 팔로우한 카테고리, 태그, 작성자의 최근 게시물을
+ * 한 번에 불러오며 다음 페이지는 없습니다.
+ * @param options 필터링 옵션 (카테고리, 태그, 정렬 기준, 기간 필터, 실시간 구독 여부, 팔로잉 피드용 팔로우 설정)
  * @returns 게시물 관련 상태 및 함수들
  */
-export const usePosts = (options?: { category?: string; tag?: string }) => {
+export const usePosts = (options?: {
+  category?: string;
+  tag?: string;
+  sort?: PostSortOption;
+  period?: PostPeriodFilter;
+  realtime?: boolean;
+  follows?: FollowSettings;
+}) => {
   // 게시물 목록 상태
   const [posts, setPosts] = useState<UIPost[]>([]);
   // 로딩 상태
   const [loading, setLoading] = useState<boolean>(true);
+  // 다음 페이지 로딩 상태
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  // 다음 페이지 존재 여부
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  // 다음 페이지 로드 에러 상태 (이미 불러온 목록은 유지하고 목록 끝에서 다시 시도)
+  const [loadMoreError, setLoadMoreError] = useState<Error | null>(null);
   // 에러 상태
   const [error, setError] = useState<Error | null>(null);
   // 카테고리 목록 상태
@@ -26,6 +55,28 @@ export const usePosts = (options?: { category?: string; tag?: string }) => {
   const [categoriesLoading, setCategoriesLoading] = useState<boolean>(true);
   // 태그 목록 상태
   const [allTags, setAllTags] = useState<string[]>([]);
+  // 목록을 불러온 뒤 새로 작성된 게시물 수 (실시간 구독 시)
+  const [newPostCount, setNewPostCount] = useState<number>(0);
+  // 구독 콜백에서 최신 목록과 로딩 상태를 참조하기 위한 ref
+  const postsRef = useRef(posts);
+  postsRef.current = posts;
+  const loadingRef = useRef(loading);
+  loadingRef.current = loading;
+  // 첫 페이지를 불러온 시간 (이후에 작성된 게시물만 새 게시물로 셈)
+  const loadedAtRef = useRef(Date.now());
+  // 다음 페이지 조회 시작 위치
+  const lastVisibleRef = useRef<QueryDocumentSnapshot<DocumentData> | undefined>(undefined);
+  // 필터 변경 전에 보낸 요청의 응답을 무시하기 위한 요청 번호
+  const requestIdRef = useRef(0);
+
+  const category = options?.category;
+  const tag = options?.tag;
+  const sort = options?.sort;
+  const period = options?.period ?? 'all';
+  const realtime = options?.realtime ?? false;
+  // 팔로잉 피드일 때만 팔로우 설정을 사용하며, 내용이 바뀔 때만 다시 불러오도록 문자열로 비교
+  const followsKey = category === FOLLOWING_CATEGORY_ID && options?.follows ? JSON.stringify(options.follows) : '';
+  const follows = useMemo<FollowSettings | null>(() => (followsKey ? JSON.parse(followsKey) : null), [followsKey]);
 
   // 1. 컴포넌트 마운트 시 최초 한 번만 실행: 카테고리와 전체 태그 로드
   useEffect(() => {
@@ -55,15 +106,10 @@ export const usePosts = (options?: { category?: string; tag?: string }) => {
         setCategories(uiCategories);
         console.log("카테고리 로드 완료");
 
-        // 전체 태그 데이터 로드 (모든 게시물에서 추출)
-        const allPostsForTags = await fetchPosts();
-        const tags = allPostsForTags.flatMap(post => post.tags || []);
-        const uniqueTags = [...new Set(tags)];
-        
-        // 한글 로케일 기준으로 가나다순 정렬
-        const sortedTags = uniqueTags.sort((a, b) => a.localeCompare(b, 'ko'));
-        setAllTags(sortedTags);
-        console.log("전체 태그 로드 완료:", sortedTags);
+        // 전체 태그 데이터 로드 (태그 인덱스 문서에서 가나다순으로 조회)
+        const tags = await fetchTagList();
+        setAllTags(tags);
+        console.log("전체 태그 로드 완료:", tags);
 
       } catch (err) {
         console.error('초기 데이터 로드 오류:', err);
@@ -76,79 +122,153 @@ export const usePosts = (options?: { category?: string; tag?: string }) => {
     loadInitialData();
   }, []); // 의존성 배열이 비어있으므로, 최초 렌더링 시에만 실행됩니다.
 
-  // 2. 옵션(카테고리, 태그) 변경 시 게시물 목록만 필터링하여 로드
-  useEffect(() => {
-    const loadFilteredPosts = async () => {
-      // 초기 데이터(태그, 카테고리)가 아직 로드 중이면 게시물 로드를 시도하지 않음
-      if (categoriesLoading) {
-        console.log("초기 데이터 로딩 중... 게시물 로드를 기다립니다.");
+  // 현재 필터 옵션으로 첫 페이지를 불러오는 함수
+  const loadFirstPage = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+    setLoadMoreError(null);
+    try {
+      console.log("게시물 로드 중...", { category, tag, sort, period });
+      if (category === FOLLOWING_CATEGORY_ID) {
+        // 팔로잉 피드는 불러온 최근 게시물에 정렬/기간 필터 적용
+        const feedPosts = follows ? await fetchFollowingFeed(follows) : [];
+        if (requestId !== requestIdRef.current) return;
+
+        lastVisibleRef.current = undefined;
+        setHasMore(false);
+        setPosts(filterAndSortPosts(feedPosts, { sort, period }));
+        loadedAtRef.current = Date.now();
+        setNewPostCount(0);
         return;
       }
 
-      setLoading(true);
-      setError(null);
-      try {
-        let postsData: UIPost[];
-        const category = options?.category;
-        const tag = options?.tag;
-
-        if (tag) {
-          console.log(`'${tag}' 태그로 게시물 필터링 중...`);
-          postsData = await fetchPostsByTag(tag);
-        } else if (category && category !== 'all') {
-          console.log(`'${category}' 카테고리로 게시물 필터링 중...`);
-          postsData = await fetchPostsByCategory(category);
-        } else {
-          console.log("모든 게시물 로드 중...");
-          postsData = await fetchPosts();
-        }
-        setPosts(postsData);
-        console.log("게시물 로드 완료:", postsData.length, "개");
-      } catch (err) {
-        console.error('게시물 필터링/로드 오류:', err);
-        setError(err instanceof Error ? err : new Error('게시물 로드 중 오류가 발생했습니다.'));
-      } finally {
+      const { posts: postsData, pagination } = await fetchPostsPage({ category, tag, sort, period });
+      if (requestId !== requestIdRef.current) return;
+
+      lastVisibleRef.current = pagination.lastVisible;
+      setHasMore(pagination.hasMore);
+      setPosts(postsData);
+      loadedAtRef.current = Date.now();
+      setNewPostCount(0);
+      console.log("게시물 로드 완료:", postsData.length, "개");
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('게시물 필터링/로드 오류:', err);
+      setError(err instanceof Error ? err : new Error('게시물 로드 중 오류가 발생했습니다.'));
+    } finally {
+      if (requestId === requestIdRef.current) {
         setLoading(false);
       }
+    }
+  }, [category, tag, sort, period, follows]);
+
+  // 2. 옵션(카테고리, 태그, 정렬, 기간) 변경 시 첫 페이지부터 다시 로드
+  useEffect(() => {
+    // 초기 데이터(태그, 카테고리)가 아직 로드 중이면 게시물 로드를 시도하지 않음
+    if (categoriesLoading) {
+      console.log("초기 데이터 로딩 중... 게시물 로드를 기다립니다.");
+      return;
+    }
+
+    loadFirstPage();
+  }, [loadFirstPage, categoriesLoading]); // 필터/정렬 또는 초기 로딩 완료 시 실행
+
+  // 3. 실시간 구독: 불러온 게시물은 제자리에서 갱신하고 새 게시물은 개수만 표시
+  useEffect(() => {
+    if (!realtime || categoriesLoading) return;
+
+    const handleLatestPosts = (latestPosts: UIPost[]) => {
+      if (loadingRef.current) return;
+
+      const loadedPosts = postsRef.current;
+      const loadedIds = new Set(loadedPosts.map(post => post.id));
+      // 최신 게시물 구독은 정렬·기간 필터와 관계없이 최근 게시물을 보내므로,
+      // 목록을 불러온 뒤 작성되었고 현재 기간 필터에 포함되는 게시물만 새 게시물로 셈
+      const createdAfterLoad = latestPosts.filter(post =>
+        !loadedIds.has(post.id) && Date.parse(post.date) > loadedAtRef.current
+      );
+      setNewPostCount(filterAndSortPosts(createdAfterLoad, { period }).length);
+
+      const latestById = new Map(latestPosts.map(post => [post.id, post]));
+      if (loadedPosts.some(post => latestById.has(post.id))) {
+        setPosts(prev => prev.map(post => latestById.get(post.id) ?? post));
+      }
     };
 
-    loadFilteredPosts();
-  }, [options?.category, options?.tag, categoriesLoading]); // 카테고리/태그 또는 초기 로딩 완료 시 실행
+    // 창이 닫히거나 필터가 바뀌면 구독 해제
+    if (category === FOLLOWING_CATEGORY_ID) {
+      return follows ? subscribeToFollowingFeed(follows, handleLatestPosts) : undefined;
+    }
+    return subscribeToLatestPosts({ category, tag }, handleLatestPosts);
+  }, [realtime, category, tag, period, follows, categoriesLoading]);
+
+  /**
+   * 다음 페이지를 불러와 목록 뒤에 이어 붙이는 함수
+   * 이미 불러오는 중이거나 더 불러올 게시물이 없으면 아무것도 하지 않습니다.
+   */
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore || !lastVisibleRef.current) return;
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const { posts: postsData, pagination } = await fetchPostsPage({
+        category,
+        tag,
+        sort,
+        period,
+        lastVisible: lastVisibleRef.current
+      });
+      if (requestId !== requestIdRef.current) return;
+
+      lastVisibleRef.current = pagination.lastVisible;
+      setHasMore(pagination.hasMore);
+      // 페이지 사이에 게시물이 추가/수정된 경우 중복 항목 제외
+      setPosts(prev => {
+        const loadedIds = new Set(prev.map(post => post.id));
+        return [...prev, ...postsData.filter(post => !loadedIds.has(post.id))];
+      });
+    } catch (err) {
+      // 이미 불러온 목록은 그대로 두고, 다시 시도할 수 있도록 hasMore를 유지
+      console.error('다음 페이지 로드 오류:', err);
+      if (requestId === requestIdRef.current) {
+        setLoadMoreError(err instanceof Error ? err : new Error('게시물을 더 불러오지 못했습니다.'));
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  }, [loading, loadingMore, hasMore, category, tag, sort, period]);
 
   // 데이터 새로고침 함수
   const refresh = useCallback(async () => {
-    // 현재 필터 옵션을 기준으로 게시물만 새로고침
-    setLoading(true);
-    setError(null);
+    // 현재 필터 옵션을 기준으로 첫 페이지와 태그 목록을 새로고침
     try {
-      let postsData: UIPost[];
-      const category = options?.category;
-      const tag = options?.tag;
-
-      if (tag) {
-        postsData = await fetchPostsByTag(tag);
-      } else if (category && category !== 'all') {
-        postsData = await fetchPostsByCategory(category);
-      } else {
-        postsData = await fetchPosts();
-      }
-      setPosts(postsData);
+      setAllTags(await fetchTagList());
     } catch (err) {
-      console.error('새로고침 중 오류:', err);
-      setError(err instanceof Error ? err : new Error('데이터를 새로고침하는 중 오류가 발생했습니다.'));
-    } finally {
-      setLoading(false);
+      console.error('태그 목록 새로고침 중 오류:', err);
     }
-  }, [options?.category, options?.tag]);
+    await loadFirstPage();
+  }, [loadFirstPage]);
 
 
   return {
     posts,
     loading,
+    loadingMore,
+    hasMore,
+    loadMoreError,
     error,
     categories,
     categoriesLoading,
     allTags,
+    newPostCount,
+    loadMore,
+    showNewPosts: loadFirstPage, // 새 게시물을 포함하여 첫 페이지부터 다시 로드
     refresh,
   };
-}; 
\ No newline at end of file
+};
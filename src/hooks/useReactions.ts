@@ -0,0 +1,66 @@
+/**
+ * 반응 관련 커스텀 훅
+ * 게시물과 그 댓글에 남긴 반응을 실시간으로 구독하고, 반응을 남기거나 취소하는 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { subscribeToPostReactions, toggleReaction } from '../services/firebase/reactions';
+import { summarizeReactions } from '../utils/reactions';
+import { useAuth } from './useAuth';
+import type { ReactionSummary, ReactionTargetType, ReactionType, UIReaction } from '../types';
+
+/**
+ * 게시물 반응 훅
+ * @param postId 게시물 ID
+ * @returns 반응 집계 조회 및 반응 토글 함수
+ */
+export const useReactions = (postId: string | null) => {
+  const [reactions, setReactions] = useState<UIReaction[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  const { user } = useAuth();
+
+  // 게시물이 바뀌거나 창이 닫히면 구독 해제
+  useEffect(() => {
+    setReactions([]);
+    if (!postId) return;
+
+    setError(null);
+    return subscribeToPostReactions(postId, setReactions, setError);
+  }, [postId]);
+
+  /**
+   * 대상의 반응 집계를 가져오는 함수
+   * @param targetId 게시물 또는 댓글 ID
+   */
+  const getSummaries = useCallback((targetId: string): ReactionSummary[] => {
+    return summarizeReactions(reactions, targetId, user?.uid);
+  }, [reactions, user?.uid]);
+
+  /**
+   * 반응을 남기거나 취소하는 함수 (게스트는 사용할 수 없음)
+   * @param targetType 대상 종류
+   * @param targetId 게시물 또는 댓글 ID
+   * @param type 반응 종류
+   */
+  const toggle = useCallback(async (targetType: ReactionTargetType, targetId: string, type: ReactionType) => {
+    if (!user || user.isAnonymous || !postId) {
+      throw new Error('게스트는 반응을 남길 수 없습니다. 로그인 후 이용해주세요.');
+    }
+
+    await toggleReaction({
+      postId,
+      targetType,
+      targetId,
+      type,
+      userId: user.uid,
+      userName: user.displayName || '익명 사용자'
+    });
+  }, [user, postId]);
+
+  return {
+    reactions,
+    error,
+    canReact: !!user && !user.isAnonymous,
+    getSummaries,
+    toggle
+  };
+};
@@ -0,0 +1,138 @@
+/**
+ * 게시물 읽음 상태 관련 커스텀 훅
+ * 사용자별 읽지 않은 게시물, 새 댓글 여부 및 읽음 표시 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchReadStatus, markPostsAsRead, UNREAD_TRACKING_DAYS } from '../services/firebase/readStatus';
+import type { UIPost, UIPostReadEntry } from '../types';
+
+/**
+ * 읽음 상태를 추적하기 시작하는 시각을 계산하는 함수
+ * @returns UNREAD_TRACKING_DAYS일 전 시각 (밀리초)
+ */
+const getTrackingStart = () => Date.now() - UNREAD_TRACKING_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * 게시물 읽음 상태 훅
+ * 게스트(userId 없음)는 읽음 상태를 기록하지 않으며 모든 게시물을 읽은 것으로 취급합니다.
+ * 최근 UNREAD_TRACKING_DAYS일 동안 작성된 게시물만 추적하며, 읽지 않은 게시물 수는 게시물을 따로 조회하지 않고
+ * 호출하는 쪽에서 이미 불러온 게시물로 계산합니다.
+ * @param userId 현재 로그인한 사용자 ID (게스트는 전달하지 않음)
+ * @returns 읽음 상태 조회 및 표시 함수
+ */
+export const useReadStatus = (userId?: string) => {
+  const [readPosts, setReadPosts] = useState<Record<string, UIPostReadEntry>>({});
+  const [trackingStart, setTrackingStart] = useState<number>(getTrackingStart);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  // 비동기 처리 중에도 최신 기록을 참조하기 위한 ref
+  const readPostsRef = useRef(readPosts);
+  readPostsRef.current = readPosts;
+
+  // 읽음 기록 조회
+  const loadReadStatus = useCallback(async () => {
+    if (!userId) {
+      setReadPosts({});
+      setLoaded(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const start = getTrackingStart();
+      const status = await fetchReadStatus(userId);
+      setReadPosts(status);
+      setTrackingStart(start);
+    } catch (err) {
+      console.error('읽음 기록 조회 오류:', err);
+      setError(err instanceof Error ? err : new Error('읽음 기록을 불러오는 중 오류가 발생했습니다.'));
+    } finally {
+      setLoaded(true);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadReadStatus();
+  }, [loadReadStatus]);
+
+  /**
+   * 게시물의 읽음 기록을 가져오는 함수
+   * @param postId 게시물 ID
+   */
+  const getReadEntry = useCallback((postId: string): UIPostReadEntry | null => {
+    return readPosts[postId] ?? null;
+  }, [readPosts]);
+
+  /**
+   * 읽지 않은 게시물인지 확인하는 함수
+   * 읽음 기록을 불러오기 전에는 읽은 것으로 취급하여 깜박임을 방지하고,
+   * 추적 기간보다 오래된 게시물도 읽은 것으로 취급합니다.
+   * @param post 게시물
+   */
+  const isUnread = useCallback((post: UIPost) => {
+    if (!userId || !loaded) return false;
+    if (Date.parse(post.date) < trackingStart) return false;
+    return !readPosts[post.id];
+  }, [userId, loaded, trackingStart, readPosts]);
+
+  /**
+   * 마지막으로 읽은 뒤 추가된 댓글 수를 계산하는 함수
+   * 읽지 않은 게시물은 새 댓글로 따로 표시하지 않으므로 0을 반환합니다.
+   * @param post 게시물
+   */
+  const getNewCommentCount = useCallback((post: UIPost) => {
+    const entry = readPosts[post.id];
+    if (!userId || !entry) return 0;
+    return Math.max(post.comments - entry.commentCount, 0);
+  }, [userId, readPosts]);
+
+  /**
+   * 게시물들을 읽음으로 표시하는 함수
+   * 이미 읽었고 새 댓글도 없는 게시물은 다시 기록하지 않습니다.
+   * @param posts 읽음으로 표시할 게시물 목록
+   */
+  const markAsRead = useCallback(async (posts: UIPost[]) => {
+    if (!userId) return;
+
+    const targets = posts.filter(post => {
+      const entry = readPostsRef.current[post.id];
+      return !entry || entry.commentCount !== post.comments;
+    });
+    if (targets.length === 0) return;
+
+    try {
+      const entries = await markPostsAsRead(userId, targets);
+      setReadPosts(prev => ({ ...prev, ...entries }));
+    } catch (err) {
+      console.error('읽음 표시 오류:', err);
+      setError(err instanceof Error ? err : new Error('읽음으로 표시하지 못했습니다.'));
+      throw err;
+    }
+  }, [userId]);
+
+  /**
+   * 카테고리별 읽지 않은 게시물 수를 계산하는 함수
+   * @param posts 불러온 게시물 목록
+   * @returns 카테고리 ID를 키로 하는 읽지 않은 게시물 수 ('all'은 전체 합계)
+   */
+  const getUnreadCounts = useCallback((posts: UIPost[]) => {
+    const counts: Record<string, number> = { all: 0 };
+    posts.forEach(post => {
+      if (!isUnread(post)) return;
+      counts.all += 1;
+      counts[post.category] = (counts[post.category] || 0) + 1;
+    });
+    return counts;
+  }, [isUnread]);
+
+  return {
+    loaded,
+    error,
+    getReadEntry,
+    isUnread,
+    getNewCommentCount,
+    markAsRead,
+    getUnreadCounts,
+    refresh: loadReadStatus
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * 최근 문서 관련 커스텀 훅
+ * 사용자가 최근에 연 게시물 목록 조회 및 기록 지우기 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { fetchRecentDocuments, clearRecentDocuments } from '../services/firebase/recentDocuments';
+import type { UIRecentDocument } from '../types';
+
+interface UseRecentDocumentsReturn {
+  documents: UIRecentDocument[];
+  loading: boolean;
+  error: Error | null;
+  clearHistory: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 최근 문서 기능을 제공하는 훅
+ * @param userId 현재 로그인한 사용자 ID (게스트는 전달하지 않음)
+ * @param enabled 조회 활성화 여부 (true가 될 때마다 최신 기록을 다시 불러옴)
+ * @returns 최근 문서 목록 및 관련 기능
+ */
+export const useRecentDocuments = (userId: string | undefined, enabled: boolean): UseRecentDocumentsReturn => {
+  const [documents, setDocuments] = useState<UIRecentDocument[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 최근 문서 조회
+  const loadDocuments = useCallback(async () => {
+    if (!userId) {
+      setDocuments([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const fetchedDocuments = await fetchRecentDocuments(userId);
+      setDocuments(fetchedDocuments);
+    } catch (err) {
+      console.error('최근 문서 조회 오류:', err);
+      setError(err instanceof Error ? err : new Error('최근 문서를 불러오는 중 오류가 발생했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  // 활성화될 때마다 다른 기기에서 추가된 기록까지 반영하도록 다시 조회
+  useEffect(() => {
+    if (enabled) {
+      loadDocuments();
+    }
+  }, [enabled, loadDocuments]);
+
+  // 기록 지우기
+  const clearHistory = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      await clearRecentDocuments(userId);
+      setDocuments([]);
+    } catch (err) {
+      console.error('최근 문서 기록 삭제 오류:', err);
+      setError(err instanceof Error ? err : new Error('최근 문서 기록을 지우지 못했습니다.'));
+    }
+  }, [userId]);
+
+  return {
+    documents,
+    loading,
+    error,
+    clearHistory,
+    refresh: loadDocuments
+  };
+};
@@ -0,0 +1,70 @@
+/**
+ * 휴지통 관련 커스텀 훅
+ * 로그인한 사용자가 삭제한(작성한) 게시물과 댓글을 조회하고 복원하는 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { fetchRecycleBinItems, restoreRecycleBinItem } from '../services/firebase/recycleBin';
+import type { UIRecycleBinItem } from '../types';
+
+interface UseRecycleBinReturn {
+  items: UIRecycleBinItem[];
+  loading: boolean;
+  error: Error | null;
+  restoreItem: (itemId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 휴지통 기능을 제공하는 훅
+ * @param userId 현재 로그인한 사용자 ID (본인이 작성한 항목만 조회)
+ * @returns 휴지통 항목 목록 및 관련 기능
+ */
+export const useRecycleBin = (userId?: string): UseRecycleBinReturn => {
+  const [items, setItems] = useState<UIRecycleBinItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 휴지통 항목 조회
+  const loadItems = useCallback(async () => {
+    if (!userId) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const fetchedItems = await fetchRecycleBinItems(userId);
+      setItems(fetchedItems);
+    } catch (err) {
+      console.error('휴지통 조회 오류:', err);
+      setError(err instanceof Error ? err : new Error('휴지통을 불러오는 중 오류가 발생했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  // 컴포넌트 마운트 시 또는 userId 변경 시 휴지통 조회
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  // 휴지통 항목 복원
+  const restoreItem = useCallback(async (itemId: string) => {
+    if (!userId) {
+      throw new Error('로그인이 필요합니다.');
+    }
+
+    await restoreRecycleBinItem(itemId, userId);
+    setItems(prev => prev.filter(item => item.id !== itemId));
+  }, [userId]);
+
+  return {
+    items,
+    loading,
+    error,
+    restoreItem,
+    refresh: loadItems
+  };
+};
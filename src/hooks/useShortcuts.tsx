@@ -0,0 +1,173 @@
+/**
+ * 키보드 단축키 레지스트리 컨텍스트 및 커스텀 훅
+ * 단축키는 창 단위로 등록되며, 포커스된(활성) 창의 단축키와 전역 단축키만 실행됩니다.
+ * 같은 키가 여러 곳에 등록된 경우 가장 최근에 등록된 단축키가 우선합니다.
+ * (예: 창 위에 열린 확인 대화상자의 Esc가 창 닫기 Esc보다 우선)
+ */
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useWindowManager, WindowContext } from './useWindowManager';
+import {
+  normalizeShortcut,
+  eventToShortcut,
+  hasCommandModifier,
+  isEditableTarget,
+} from '../utils/shortcuts';
+
+/**
+ * 단축키 실행 함수
+ */
+export type ShortcutHandler = (event: KeyboardEvent) => void;
+
+/**
+ * 등록된 단축키 정보 (도움말 표시용)
+ */
+export interface RegisteredShortcut {
+  id: number;                    // 등록 ID
+  keys: string[];                // 정규화된 단축키 목록 (예: ['J', 'Down'])
+  description: string;           // 단축키 설명
+  scope: string | null;          // 단축키가 속한 창 ID (null이면 전역)
+}
+
+/**
+ * 단축키 등록 옵션
+ */
+export interface ShortcutOptions {
+  /** 단축키 설명 (메뉴 및 도움말에 표시) */
+  description: string;
+  /** 단축키가 속한 창 ID (생략하면 현재 창, 창 밖에서는 전역 / null이면 전역) */
+  scope?: string | null;
+  /** 단축키 활성화 여부 (false면 등록하지 않음) */
+  enabled?: boolean;
+}
+
+interface ShortcutEntry extends RegisteredShortcut {
+  handlerRef: React.MutableRefObject<ShortcutHandler>;
+}
+
+type RegisterShortcut = (entry: Omit<ShortcutEntry, 'id'>) => () => void;
+
+const ShortcutRegistryContext = createContext<RegisterShortcut | null>(null);
+const ShortcutListContext = createContext<RegisteredShortcut[]>([]);
+
+/**
+ * 단축키 레지스트리 Provider 컴포넌트
+ * 창 관리자(WindowManagerProvider) 내부에서 사용해야 합니다.
+ */
+export const ShortcutProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { activeWindowId } = useWindowManager();
+  // 등록 순서를 유지하는 단축키 목록 (Map은 삽입 순서를 보존)
+  const entriesRef = useRef(new Map<number, ShortcutEntry>());
+  const nextIdRef = useRef(1);
+  const [shortcuts, setShortcuts] = useState<RegisteredShortcut[]>([]);
+
+  // 키 입력 처리 시 최신 활성 창을 참조하기 위한 ref
+  const activeWindowIdRef = useRef(activeWindowId);
+  activeWindowIdRef.current = activeWindowId;
+
+  // 도움말 표시용 목록 갱신
+  const syncShortcuts = useCallback(() => {
+    setShortcuts(
+      Array.from(entriesRef.current.values()).map(({ id, keys, description, scope }) => ({ id, keys, description, scope }))
+    );
+  }, []);
+
+  const register = useCallback<RegisterShortcut>((entry) => {
+    const id = nextIdRef.current++;
+    entriesRef.current.set(id, { ...entry, id });
+    syncShortcuts();
+
+    return () => {
+      entriesRef.current.delete(id);
+      syncShortcuts();
+    };
+  }, [syncShortcuts]);
+
+  // 키 입력 처리
+  // 컨텍스트 메뉴 등 document에서 먼저 처리되어 기본 동작이 취소된 입력은 무시하기 위해 window에 등록
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+
+      const shortcut = eventToShortcut(event);
+      if (!shortcut) return;
+
+      // 입력 중에는 Ctrl/Alt 조합 단축키만 실행
+      if (isEditableTarget(event.target) && !hasCommandModifier(shortcut)) return;
+      // 버튼/링크에서 누른 Enter는 해당 요소의 기본 동작에 맡김
+      if (shortcut === 'Enter' && event.target instanceof HTMLElement && event.target.closest('button, a')) return;
+
+      const activeScope = activeWindowIdRef.current;
+      const matches = Array.from(entriesRef.current.values()).filter(entry =>
+        entry.keys.includes(shortcut) && (entry.scope === null || entry.scope === activeScope)
+      );
+      const entry = matches[matches.length - 1];
+      if (!entry) return;
+
+      event.preventDefault();
+      entry.handlerRef.current(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  return (
+    <ShortcutRegistryContext.Provider value={register}>
+      <ShortcutListContext.Provider value={shortcuts}>
+        {children}
+      </ShortcutListContext.Provider>
+    </ShortcutRegistryContext.Provider>
+  );
+};
+
+/**
+ * 키보드 단축키를 등록하는 훅
+ * ShortcutProvider 밖(관리자 페이지 등)에서는 아무 동작도 하지 않습니다.
+ * @param keys 단축키 또는 단축키 목록 (예: 'Ctrl+N', ['J', 'Down'])
+ * @param handler 단축키 실행 함수
+ * @param options 등록 옵션
+ */
+export const useShortcut = (keys: string | string[], handler: ShortcutHandler, options: ShortcutOptions) => {
+  const register = useContext(ShortcutRegistryContext);
+  const currentWindowId = useContext(WindowContext);
+  const { description, enabled = true } = options;
+  const scope = options.scope !== undefined ? options.scope : currentWindowId;
+
+  // 매 렌더링마다 바뀌는 핸들러로 재등록하지 않도록 ref로 보관
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  // 배열이 새로 만들어져도 같은 단축키면 재등록하지 않도록 문자열로 비교
+  const keySignature = (Array.isArray(keys) ? keys : [keys]).map(normalizeShortcut).join('\n');
+
+  useEffect(() => {
+    if (!register || !enabled) return;
+    return register({ keys: keySignature.split('\n'), description, scope, handlerRef });
+  }, [register, keySignature, description, scope, enabled]);
+};
+
+/**
+ * 창 내용 안에서 단축키를 선언적으로 등록하는 컴포넌트
+ * 창 프레임(Window) 바깥에서 렌더링되는 컴포넌트가 해당 창 범위의 단축키를 등록할 때 사용합니다.
+ */
+export const ShortcutBinding: React.FC<{
+  keys: string | string[];
+  description: string;
+  onTrigger: ShortcutHandler;
+  enabled?: boolean;
+}> = ({ keys, description, onTrigger, enabled }) => {
+  useShortcut(keys, onTrigger, { description, enabled });
+  return null;
+};
+
+/**
+ * 현재 등록된 단축키 목록을 제공하는 훅 (도움말 표시용)
+ * @returns 등록 순서대로 정렬된 단축키 목록
+ */
+export const useShortcutList = (): RegisteredShortcut[] => {
+  return useContext(ShortcutListContext);
+};
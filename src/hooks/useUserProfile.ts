@@ -0,0 +1,60 @@
+/**
+ * 사용자 프로필 관련 커스텀 훅
+ * users 컬렉션의 사용자 프로필을 실시간으로 구독하고, 본인 프로필을 수정하는 기능을 제공합니다.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { subscribeToUserProfile, updateUserProfile } from '../services/firebase/users';
+import type { UIUserProfile } from '../types';
+
+/**
+ * 사용자 프로필 훅
+ * @param uid 조회할 사용자 ID
+ * @returns 사용자 프로필 및 프로필 수정 함수
+ */
+export const useUserProfile = (uid?: string) => {
+  const [profile, setProfile] = useState<UIUserProfile | null>(null);
+  const [loading, setLoading] = useState<boolean>(!!uid);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 사용자가 바뀌거나 창이 닫히면 구독 해제
+  useEffect(() => {
+    setProfile(null);
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    return subscribeToUserProfile(
+      uid,
+      nextProfile => {
+        setProfile(nextProfile);
+        setLoading(false);
+      },
+      err => {
+        setError(err);
+        setLoading(false);
+      }
+    );
+  }, [uid]);
+
+  /**
+   * 프로필을 수정하는 함수 (본인 프로필만 가능)
+   * @param changes 수정할 표시 이름, 자기소개, 프로필 이미지 주소
+   */
+  const saveProfile = useCallback(async (changes: { displayName: string; bio: string; photoURL: string }) => {
+    if (!uid) {
+      throw new Error('로그인이 필요합니다.');
+    }
+
+    await updateUserProfile(uid, changes);
+  }, [uid]);
+
+  return {
+    profile,
+    loading,
+    error,
+    saveProfile
+  };
+};
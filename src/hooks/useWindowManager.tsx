@@ -0,0 +1,573 @@
+/**
+ * 창 관리자 컨텍스트 및 커스텀 훅
+ * 데스크톱에 열린 여러 창의 z-order, 포커스, 최소화/최대화/복원 상태를 관리합니다.
+ */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import type { AppWindowType, PersistedWindow, SavedWindowGeometry, WindowGeometry, WindowState } from '../types';
+import { loadDesktopSession, saveDesktopSession } from '../utils/desktopSession';
+
+// 작업 표시줄 높이 (Taskbar의 h-10)
+export const TASKBAR_HEIGHT = 40;
+// 창 레이어의 기본 z-index (이 값부터 z-order 순서대로 증가)
+const WINDOW_BASE_Z_INDEX = 10;
+// 새 창을 열 때 적용할 계단식 오프셋
+const CASCADE_OFFSET = 24;
+// 계단식 오프셋이 반복되는 주기
+const CASCADE_STEPS = 8;
+// 복원된 창이 화면 밖으로 벗어나지 않도록 남겨둘 최소 가시 영역 (px)
+const MIN_VISIBLE_AREA = 80;
+// 세션에 저장하지 않는 창 종류 (작성 중인 내용은 복원하지 않음)
+const TRANSIENT_WINDOW_TYPES: AppWindowType[] = ['newPost'];
+
+/**
+ * 창 스냅 위치 (화면 왼쪽 절반, 오른쪽 절반, 최대화)
+ */
+export type SnapPosition = 'left' | 'right' | 'maximize';
+
+/**
+ * 창 종류별 기본 설정
+ */
+export const WINDOW_DEFAULTS: Record<AppWindowType, {
+  title: string;
+  icon: string;
+  size: { width: number; height: number };
+  minSize: { width: number; height: number };
+}> = {
+  board: { title: '게시판', icon: '📝', size: { width: 1178, height: 845 }, minSize: { width: 720, height: 500 } },
+  settings: { title: '설정', icon: '⚙️', size: { width: 512, height: 560 }, minSize: { width: 400, height: 360 } },
+  newPost: { title: '새 게시물 작성', icon: '✏️', size: { width: 672, height: 720 }, minSize: { width: 480, height: 420 } },
+  recycleBin: { title: '휴지통', icon: '🗑️', size: { width: 720, height: 480 }, minSize: { width: 480, height: 320 } },
+  profile: { title: '프로필', icon: '👤', size: { width: 480, height: 560 }, minSize: { width: 400, height: 440 } },
+  author: { title: '작성자', icon: '🧑', size: { width: 640, height: 600 }, minSize: { width: 440, height: 400 } },
+};
+
+/**
+ * 창 열기 옵션
+ */
+export interface OpenWindowOptions {
+  /** 창 종류 */
+  type: AppWindowType;
+  /** 창 ID (지정하지 않으면 자동 생성) */
+  id?: string;
+  /** 재사용 키 - 같은 키의 창이 이미 열려 있으면 새로 열지 않고 해당 창을 복원 */
+  key?: string;
+  /** 제목 (기본값: 창 종류별 기본 제목) */
+  title?: string;
+  /** 아이콘 (기본값: 창 종류별 기본 아이콘) */
+  icon?: string;
+  /** 창 크기 (기본값: 창 종류별 기본 크기) */
+  size?: { width: number; height: number };
+  /** 창 위치/크기와 최대화 여부 (기본값: 같은 키로 마지막에 저장된 배치 또는 화면 중앙) */
+  geometry?: SavedWindowGeometry;
+  /** 창 컴포넌트에 전달할 추가 속성 */
+  props?: Record<string, unknown>;
+}
+
+interface WindowManagerState {
+  /** 열린 순서대로 정렬된 창 목록 */
+  windows: WindowState[];
+  /** z-order (마지막 요소가 가장 위) */
+  zOrder: string[];
+  /** 창 키별 마지막 배치 (닫힌 창을 다시 열 때 사용) */
+  geometries: Record<string, SavedWindowGeometry>;
+}
+
+type WindowAction =
+  | { type: 'OPEN'; window: WindowState }
+  | { type: 'CLOSE'; id: string }
+  | { type: 'FOCUS'; id: string }
+  | { type: 'MINIMIZE'; id: string }
+  | { type: 'RESTORE'; id: string }
+  | { type: 'TOGGLE_MAXIMIZE'; id: string }
+  | { type: 'SET_GEOMETRY'; id: string; geometry: Partial<WindowGeometry> }
+  | { type: 'SNAP'; id: string; snap: SnapPosition; geometry: WindowGeometry }
+  | { type: 'ARRANGE'; geometries: Record<string, WindowGeometry> }
+  | { type: 'UPDATE'; id: string; changes: Partial<Pick<WindowState, 'title' | 'icon' | 'props'>> };
+
+/**
+ * 지정한 창을 z-order의 맨 위로 올리는 함수
+ */
+const bringToFront = (zOrder: string[], id: string): string[] => [...zOrder.filter(zId => zId !== id), id];
+
+/**
+ * 특정 창의 상태만 변경하는 함수
+ */
+const patchWindow = (windows: WindowState[], id: string, changes: Partial<WindowState>): WindowState[] =>
+  windows.map(w => (w.id === id ? { ...w, ...changes } : w));
+
+/**
+ * 창 관리자 리듀서
+ */
+const windowReducer = (state: WindowManagerState, action: WindowAction): WindowManagerState => {
+  switch (action.type) {
+    case 'OPEN':
+      if (state.windows.some(w => w.id === action.window.id)) {
+        return state;
+      }
+      return {
+        ...state,
+        windows: [...state.windows, action.window],
+        zOrder: [...state.zOrder, action.window.id],
+      };
+    case 'CLOSE': {
+      const target = state.windows.find(w => w.id === action.id);
+      if (!target) return state;
+      return {
+        windows: state.windows.filter(w => w.id !== action.id),
+        zOrder: state.zOrder.filter(id => id !== action.id),
+        // 키가 있는 창은 다시 열 때 같은 자리에 나타나도록 마지막 배치를 기억
+        geometries: target.key
+          ? { ...state.geometries, [target.key]: { position: target.position, size: target.size, isMaximized: target.isMaximized } }
+          : state.geometries,
+      };
+    }
+    case 'FOCUS':
+      if (state.zOrder[state.zOrder.length - 1] === action.id) {
+        return state;
+      }
+      return { ...state, zOrder: bringToFront(state.zOrder, action.id) };
+    case 'MINIMIZE':
+      return {
+        ...state,
+        windows: patchWindow(state.windows, action.id, { isMinimized: true }),
+        // 최소화된 창은 z-order 맨 아래로 보내 다음 창이 활성화되도록 함
+        zOrder: [action.id, ...state.zOrder.filter(id => id !== action.id)],
+      };
+    case 'RESTORE':
+      return {
+        ...state,
+        windows: patchWindow(state.windows, action.id, { isMinimized: false }),
+        zOrder: bringToFront(state.zOrder, action.id),
+      };
+    case 'TOGGLE_MAXIMIZE': {
+      const target = state.windows.find(w => w.id === action.id);
+      if (!target) return state;
+      return {
+        ...state,
+        windows: patchWindow(state.windows, action.id, { isMaximized: !target.isMaximized, isMinimized: false }),
+        zOrder: bringToFront(state.zOrder, action.id),
+      };
+    }
+    case 'SET_GEOMETRY': {
+      const target = state.windows.find(w => w.id === action.id);
+      if (!target) return state;
+      return {
+        ...state,
+        windows: patchWindow(state.windows, action.id, {
+          position: action.geometry.position ?? target.position,
+          size: action.geometry.size ?? target.size,
+          restoreSize: null,
+        }),
+      };
+    }
+    case 'SNAP': {
+      const target = state.windows.find(w => w.id === action.id);
+      if (!target) return state;
+      const changes: Partial<WindowState> = action.snap === 'maximize'
+        ? { isMaximized: true, isMinimized: false, size: target.restoreSize ?? target.size, restoreSize: null }
+        : {
+            ...action.geometry,
+            isMaximized: false,
+            isMinimized: false,
+            // 이미 스냅된 창을 다시 스냅해도 처음 크기를 기억
+            restoreSize: target.restoreSize ?? target.size,
+          };
+      return {
+        ...state,
+        windows: patchWindow(state.windows, action.id, changes),
+        zOrder: bringToFront(state.zOrder, action.id),
+      };
+    }
+    case 'ARRANGE':
+      return {
+        ...state,
+        windows: state.windows.map(w => (action.geometries[w.id]
+          ? { ...w, ...action.geometries[w.id], isMaximized: false, restoreSize: null }
+          : w)),
+      };
+    case 'UPDATE': {
+      const target = state.windows.find(w => w.id === action.id);
+      if (!target) return state;
+      return {
+        ...state,
+        windows: patchWindow(state.windows, action.id, {
+          ...action.changes,
+          // 속성은 기존 값에 병합
+          props: action.changes.props ? { ...target.props, ...action.changes.props } : target.props,
+        }),
+      };
+    }
+    default:
+      return state;
+  }
+};
+
+let windowIdCounter = 0;
+
+/**
+ * 고유한 창 ID를 생성하는 함수
+ * @returns 창 ID
+ */
+export const createWindowId = (): string => {
+  windowIdCounter += 1;
+  return `window-${Date.now().toString(36)}-${windowIdCounter}`;
+};
+
+/**
+ * 새 창의 초기 위치와 크기를 계산하는 함수
+ * 화면 중앙에 배치하되, 이미 열린 창 수에 따라 계단식으로 어긋나게 배치합니다.
+ * @param size 원하는 창 크기
+ * @param openCount 현재 열린 창 수
+ * @returns 초기 위치와 크기
+ */
+const getInitialGeometry = (size: { width: number; height: number }, openCount: number): WindowGeometry => {
+  const availableHeight = window.innerHeight - TASKBAR_HEIGHT;
+  const width = Math.min(size.width, window.innerWidth);
+  const height = Math.min(size.height, availableHeight);
+  const offset = (openCount % CASCADE_STEPS) * CASCADE_OFFSET;
+
+  return {
+    position: {
+      x: Math.max(0, Math.min((window.innerWidth - width) / 2 + offset, window.innerWidth - width)),
+      y: Math.max(0, Math.min((availableHeight - height) / 2 + offset, availableHeight - height)),
+    },
+    size: { width, height },
+  };
+};
+
+/**
+ * 스냅 위치에 해당하는 창 위치/크기를 계산하는 함수
+ * @param snap 스냅 위치
+ * @returns 작업 표시줄을 제외한 화면 영역 기준의 위치/크기
+ */
+export const getSnapGeometry = (snap: SnapPosition): WindowGeometry => {
+  const availableHeight = window.innerHeight - TASKBAR_HEIGHT;
+  const halfWidth = Math.floor(window.innerWidth / 2);
+
+  switch (snap) {
+    case 'left':
+      return { position: { x: 0, y: 0 }, size: { width: halfWidth, height: availableHeight } };
+    case 'right':
+      return { position: { x: window.innerWidth - halfWidth, y: 0 }, size: { width: halfWidth, height: availableHeight } };
+    default:
+      return { position: { x: 0, y: 0 }, size: { width: window.innerWidth, height: availableHeight } };
+  }
+};
+
+/**
+ * 저장된 창 위치를 현재 화면 크기에 맞게 보정하는 함수
+ * 화면 크기가 바뀌어도 제목 표시줄을 잡을 수 있도록 일부 영역이 화면 안에 남게 합니다.
+ * @param geometry 저장된 위치/크기
+ * @returns 보정된 위치/크기
+ */
+const clampGeometry = (geometry: WindowGeometry): WindowGeometry => {
+  const availableHeight = window.innerHeight - TASKBAR_HEIGHT;
+  const width = Math.min(geometry.size.width, window.innerWidth);
+  const height = Math.min(geometry.size.height, availableHeight);
+
+  return {
+    position: {
+      x: Math.min(Math.max(geometry.position.x, MIN_VISIBLE_AREA - width), window.innerWidth - MIN_VISIBLE_AREA),
+      y: Math.min(Math.max(geometry.position.y, 0), availableHeight - MIN_VISIBLE_AREA),
+    },
+    size: { width, height },
+  };
+};
+
+/**
+ * 저장된 세션 정보로 창 상태를 생성하는 함수
+ * @param persisted 저장된 창 정보
+ * @returns 창 상태
+ */
+const createWindowFromSession = (persisted: PersistedWindow): WindowState => {
+  const defaults = WINDOW_DEFAULTS[persisted.type];
+  return {
+    id: createWindowId(),
+    type: persisted.type,
+    key: persisted.key,
+    title: persisted.title || defaults.title,
+    icon: persisted.icon || defaults.icon,
+    minSize: defaults.minSize,
+    isMinimized: persisted.isMinimized === true,
+    isMaximized: persisted.isMaximized === true,
+    props: persisted.props,
+    ...clampGeometry(persisted),
+  };
+};
+
+/**
+ * 사용자 세션으로 창 관리자의 초기 상태를 생성하는 함수
+ * @param userId 사용자 ID (없으면 빈 상태)
+ * @returns 초기 상태
+ */
+const initWindowState = (userId?: string): WindowManagerState => {
+  const session = userId ? loadDesktopSession(userId) : null;
+  if (!session) {
+    return { windows: [], zOrder: [], geometries: {} };
+  }
+
+  const windows = session.windows
+    .filter(w => w && WINDOW_DEFAULTS[w.type] && !TRANSIENT_WINDOW_TYPES.includes(w.type))
+    .map(createWindowFromSession);
+
+  return {
+    windows,
+    zOrder: windows.map(w => w.id),
+    geometries: session.geometries,
+  };
+};
+
+/**
+ * 창 관리자 컨텍스트 값
+ */
+export interface WindowManagerContextValue {
+  /** 열린 순서대로 정렬된 창 목록 */
+  windows: WindowState[];
+  /** 현재 포커스된 창 ID (최소화되지 않은 가장 위의 창) */
+  activeWindowId: string | null;
+  /** 창이 렌더링될 레이어 요소 */
+  layer: HTMLElement | null;
+  /** 창 열기 - 생성되거나 재사용된 창 ID 반환 */
+  openWindow: (options: OpenWindowOptions) => string;
+  /** 창 닫기 */
+  closeWindow: (id: string) => void;
+  /** 창 포커스 (맨 앞으로 가져오기) */
+  focusWindow: (id: string) => void;
+  /** 창 최소화 */
+  minimizeWindow: (id: string) => void;
+  /** 최소화된 창 복원 및 포커스 */
+  restoreWindow: (id: string) => void;
+  /** 최대화/이전 크기로 전환 */
+  toggleMaximize: (id: string) => void;
+  /** 창 위치/크기 변경 */
+  setWindowGeometry: (id: string, geometry: Partial<WindowGeometry>) => void;
+  /** 창을 화면 가장자리에 스냅 */
+  snapWindow: (id: string, snap: SnapPosition) => void;
+  /** 열린 창을 바둑판식으로 배열 */
+  tileWindows: () => void;
+  /** 열린 창을 계단식으로 배열 */
+  cascadeWindows: () => void;
+  /** 창 제목/아이콘/속성 변경 */
+  updateWindow: (id: string, changes: Partial<Pick<WindowState, 'title' | 'icon' | 'props'>>) => void;
+  /** 창의 z-index 조회 */
+  getZIndex: (id: string) => number;
+}
+
+const WindowManagerContext = createContext<WindowManagerContextValue | null>(null);
+
+/**
+ * 개별 창 컨텍스트
+ * Window 컴포넌트 내부에서 자신이 속한 창 ID를 제공합니다.
+ */
+export const WindowContext = createContext<string | null>(null);
+
+/**
+ * 창 관리자 Provider 컴포넌트
+ * 자식 요소와 함께 창이 렌더링될 레이어를 제공합니다.
+ */
+export const WindowManagerProvider: React.FC<{
+  /** 세션을 저장/복원할 사용자 ID (없으면 저장하지 않음) */
+  userId?: string;
+  children: React.ReactNode;
+}> = ({ userId, children }) => {
+  const [state, dispatch] = useReducer(windowReducer, userId, initWindowState);
+  const [layer, setLayer] = useState<HTMLDivElement | null>(null);
+
+  // openWindow에서 최신 상태를 조회하기 위한 참조
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // 창 상태가 바뀔 때마다 사용자 세션 저장
+  useEffect(() => {
+    if (!userId) return;
+
+    const windows: PersistedWindow[] = state.zOrder
+      .map(id => state.windows.find(w => w.id === id))
+      .filter((w): w is WindowState => !!w && !TRANSIENT_WINDOW_TYPES.includes(w.type))
+      .map(w => ({
+        type: w.type,
+        key: w.key,
+        title: w.title,
+        icon: w.icon,
+        position: w.position,
+        size: w.size,
+        isMaximized: w.isMaximized,
+        isMinimized: w.isMinimized,
+        props: w.props,
+      }));
+
+    saveDesktopSession(userId, { windows, geometries: state.geometries });
+  }, [userId, state]);
+
+  const openWindow = useCallback((options: OpenWindowOptions): string => {
+    const current = stateRef.current;
+
+    // 같은 키의 창이 이미 열려 있으면 해당 창을 복원
+    if (options.key) {
+      const existing = current.windows.find(w => w.key === options.key);
+      if (existing) {
+        if (options.props) {
+          dispatch({ type: 'UPDATE', id: existing.id, changes: { props: options.props } });
+        }
+        dispatch({ type: 'RESTORE', id: existing.id });
+        return existing.id;
+      }
+    }
+
+    const defaults = WINDOW_DEFAULTS[options.type];
+    const id = options.id ?? createWindowId();
+    // 지정된 배치 > 같은 키로 저장된 배치 > 화면 중앙 순으로 적용
+    const saved = options.geometry ?? (options.key ? current.geometries[options.key] : undefined);
+    const geometry = saved
+      ? clampGeometry(saved)
+      : getInitialGeometry(options.size ?? defaults.size, current.windows.length);
+
+    dispatch({
+      type: 'OPEN',
+      window: {
+        id,
+        type: options.type,
+        key: options.key,
+        title: options.title ?? defaults.title,
+        icon: options.icon ?? defaults.icon,
+        minSize: defaults.minSize,
+        isMinimized: false,
+        isMaximized: saved?.isMaximized === true,
+        props: options.props,
+        ...geometry,
+      },
+    });
+    return id;
+  }, []);
+
+  const closeWindow = useCallback((id: string) => dispatch({ type: 'CLOSE', id }), []);
+  const focusWindow = useCallback((id: string) => dispatch({ type: 'FOCUS', id }), []);
+  const minimizeWindow = useCallback((id: string) => dispatch({ type: 'MINIMIZE', id }), []);
+  const restoreWindow = useCallback((id: string) => dispatch({ type: 'RESTORE', id }), []);
+  const toggleMaximize = useCallback((id: string) => dispatch({ type: 'TOGGLE_MAXIMIZE', id }), []);
+  const setWindowGeometry = useCallback((id: string, geometry: Partial<WindowGeometry>) => {
+    dispatch({ type: 'SET_GEOMETRY', id, geometry });
+  }, []);
+  const snapWindow = useCallback((id: string, snap: SnapPosition) => {
+    dispatch({ type: 'SNAP', id, snap, geometry: getSnapGeometry(snap) });
+  }, []);
+
+  // 최소화되지 않은 창을 z-order 순서대로 반환 (가장 아래 창이 먼저)
+  const getVisibleWindows = useCallback(() => {
+    const current = stateRef.current;
+    return current.zOrder
+      .map(id => current.windows.find(w => w.id === id))
+      .filter((w): w is WindowState => !!w && !w.isMinimized);
+  }, []);
+
+  const tileWindows = useCallback(() => {
+    const visible = getVisibleWindows();
+    if (visible.length === 0) return;
+
+    // 창 수에 맞춰 열과 행 수를 정하고 화면을 균등하게 분할
+    const columns = Math.ceil(Math.sqrt(visible.length));
+    const rows = Math.ceil(visible.length / columns);
+    const cellWidth = Math.floor(window.innerWidth / columns);
+    const cellHeight = Math.floor((window.innerHeight - TASKBAR_HEIGHT) / rows);
+
+    const geometries: Record<string, WindowGeometry> = {};
+    visible.forEach((w, index) => {
+      geometries[w.id] = {
+        position: { x: (index % columns) * cellWidth, y: Math.floor(index / columns) * cellHeight },
+        size: { width: cellWidth, height: cellHeight },
+      };
+    });
+    dispatch({ type: 'ARRANGE', geometries });
+  }, [getVisibleWindows]);
+
+  const cascadeWindows = useCallback(() => {
+    const visible = getVisibleWindows();
+    if (visible.length === 0) return;
+
+    const geometries: Record<string, WindowGeometry> = {};
+    visible.forEach((w, index) => {
+      const offset = (index % CASCADE_STEPS) * CASCADE_OFFSET;
+      geometries[w.id] = clampGeometry({
+        position: { x: CASCADE_OFFSET + offset, y: offset },
+        size: WINDOW_DEFAULTS[w.type].size,
+      });
+    });
+    dispatch({ type: 'ARRANGE', geometries });
+  }, [getVisibleWindows]);
+
+  const updateWindow = useCallback((id: string, changes: Partial<Pick<WindowState, 'title' | 'icon' | 'props'>>) => {
+    dispatch({ type: 'UPDATE', id, changes });
+  }, []);
+
+  const getZIndex = useCallback((id: string) => {
+    return WINDOW_BASE_Z_INDEX + Math.max(0, state.zOrder.indexOf(id));
+  }, [state.zOrder]);
+
+  // 최소화되지 않은 가장 위의 창이 활성 창
+  const activeWindowId = useMemo(() => {
+    for (let i = state.zOrder.length - 1; i >= 0; i--) {
+      const target = state.windows.find(w => w.id === state.zOrder[i]);
+      if (target && !target.isMinimized) {
+        return target.id;
+      }
+    }
+    return null;
+  }, [state.windows, state.zOrder]);
+
+  const value = useMemo<WindowManagerContextValue>(() => ({
+    windows: state.windows,
+    activeWindowId,
+    layer,
+    openWindow,
+    closeWindow,
+    focusWindow,
+    minimizeWindow,
+    restoreWindow,
+    toggleMaximize,
+    setWindowGeometry,
+    snapWindow,
+    tileWindows,
+    cascadeWindows,
+    updateWindow,
+    getZIndex,
+  }), [state.windows, activeWindowId, layer, openWindow, closeWindow, focusWindow, minimizeWindow, restoreWindow, toggleMaximize, setWindowGeometry, snapWindow, tileWindows, cascadeWindows, updateWindow, getZIndex]);
+
+  return (
+    <WindowManagerContext.Provider value={value}>
+      {children}
+      {/* 창 레이어 - 작업 표시줄(z-50) 아래에 모든 창을 배치 */}
+      <div ref={setLayer} className="fixed inset-0 z-40 pointer-events-none" />
+    </WindowManagerContext.Provider>
+  );
+};
+
+/**
+ * 창 관리자 기능을 제공하는 훅
+ * @returns 창 목록과 창 제어 함수들
+ */
+export const useWindowManager = (): WindowManagerContextValue => {
+  const context = useContext(WindowManagerContext);
+  if (!context) {
+    throw new Error('useWindowManager는 WindowManagerProvider 내부에서 사용해야 합니다.');
+  }
+  return context;
+};
+
+/**
+ * 현재 컴포넌트가 속한 창의 정보를 제공하는 훅
+ * @returns 창 ID, 창 상태, 활성 여부 (창 밖에서는 null)
+ */
+export const useCurrentWindow = () => {
+  const windowId = useContext(WindowContext);
+  const manager = useContext(WindowManagerContext);
+
+  if (!windowId || !manager) {
+    return null;
+  }
+
+  return {
+    windowId,
+    window: manager.windows.find(w => w.id === windowId) ?? null,
+    isActive: manager.activeWindowId === windowId,
+  };
+};
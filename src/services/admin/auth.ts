@@ -1,222 +1,114 @@
 /**
  * 관리자 인증 관련 함수
- * 환경변수를 사용한 관리자 로그인, 로그아웃 및 인증 상태 관리 기능을 제공합니다.
+ * 로그인한 Firebase 사용자의 관리자 역할(커스텀 클레임 또는 admins 문서)을 확인하고, 관리자 로그아웃 기능을 제공합니다.
+ * 관리자 역할은 클라이언트에서 부여할 수 없으며, Firestore 보안 규칙(firestore.rules)에서도 같은 기준으로 권한을 검사합니다.
  */
+import { doc, getDoc } from 'firebase/firestore';
+import { User as FirebaseUser } from 'firebase/auth';
+import { auth, db } from '../firebase/config';
+import { signOut } from '../firebase/auth';
 import { Admin } from '../../types';
 
-// 관리자 인증 관련 상수 정의
-const ADMIN_AUTH_KEY = 'mac_board_admin_auth';
-const SESSION_DURATION = 2 * 60 * 60 * 1000; // 2시간 (밀리초)
+// 관리자 역할 문서 컬렉션 (문서 ID는 사용자 ID, Firebase 콘솔이나 Admin SDK로만 추가)
+const ADMINS_COLLECTION = 'admins';
+
+// 관리자 역할 값
+const ADMIN_ROLE = 'admin';
+
+// 관리자 역할 확인 결과를 다시 사용하는 시간 (5분)
+const ROLE_CACHE_DURATION = 5 * 60 * 1000;
+
+// 관리자 권한이 없는 계정으로 로그인했을 때의 에러 메시지
+export const NOT_ADMIN_ERROR = '관리자 권한이 없는 계정입니다. 관리자 계정으로 로그인해 주세요.';
+
+// 마지막으로 확인한 관리자 역할 (사용자 ID별로 보관하여 관리자 서비스 호출마다 문서를 읽지 않도록 함)
+let roleCache: { uid: string; admin: Admin | null; checkedAt: number } | null = null;
 
 /**
- * 안전한 로컬 스토리지 접근 함수
- * DOM 접근 관련 에러를 방지합니다.
+ * Firebase 사용자의 관리자 역할을 확인하는 함수
+ * ID 토큰의 `admin` 커스텀 클레임이 true이거나, `admins/{uid}` 문서의 role이 'admin'이면 관리자입니다.
+ * 커스텀 클레임 변경은 ID 토큰이 갱신된 뒤(최대 1시간 또는 다시 로그인)에 반영됩니다.
+ * @param firebaseUser 확인할 Firebase 사용자
+ * @param forceRefresh 저장된 확인 결과를 무시하고 다시 확인할지 여부
+ * @returns 관리자이면 Admin 객체, 아니면 null
  */
-const safeLocalStorage = {
-  getItem: (key: string): string | null => {
-    try {
-      return localStorage.getItem(key);
-    } catch (error) {
-      console.error('로컬 스토리지 접근 오류:', error);
-      return null;
-    }
-  },
-  setItem: (key: string, value: string): boolean => {
-    try {
-      localStorage.setItem(key, value);
-      return true;
-    } catch (error) {
-      console.error('로컬 스토리지 저장 오류:', error);
-      return false;
-    }
-  },
-  removeItem: (key: string): boolean => {
-    try {
-      localStorage.removeItem(key);
-      return true;
-    } catch (error) {
-      console.error('로컬 스토리지 삭제 오류:', error);
-      return false;
-    }
+export const fetchAdminRole = async (firebaseUser: FirebaseUser, forceRefresh = false): Promise<Admin | null> => {
+  if (
+    !forceRefresh &&
+    roleCache &&
+    roleCache.uid === firebaseUser.uid &&
+    Date.now() - roleCache.checkedAt < ROLE_CACHE_DURATION
+  ) {
+    return roleCache.admin;
   }
-};
 
-/**
- * 관리자 로그인 함수
- * 환경변수와 비교하여 관리자 인증을 수행합니다.
- * @param id 입력된 관리자 ID
- * @param password 입력된 관리자 비밀번호
- * @returns 인증 성공 시 Admin 객체, 실패 시 null
- */
-export const adminLogin = (id: string, password: string): Admin | null => {
   try {
-    // DOM 접근 전에 필요한 값들을 먼저 준비
-    const adminId = import.meta.env.VITE_ADMIN_ID;
-    const adminPw = import.meta.env.VITE_ADMIN_PW;
+    let isAdmin = false;
 
-    // 환경변수가 설정되지 않은 경우
-    if (!adminId || !adminPw) {
-      console.error('관리자 인증 오류: 환경변수가 설정되지 않았습니다.');
-      return null;
-    }
+    if (!firebaseUser.isAnonymous) {
+      const tokenResult = await firebaseUser.getIdTokenResult();
+      isAdmin = tokenResult.claims.admin === true;
 
-    // 인증 정보 비교
-    if (id === adminId && password === adminPw) {
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + SESSION_DURATION);
-      
-      // 관리자 정보 생성
-      const admin: Admin = {
-        id: id,
-        isAdmin: true,
-        loggedInAt: now,
-        expiresAt: expiresAt
-      };
-      
-      // 세션 저장 (안전하게)
-      const saved = saveAdminSession(admin);
-      if (!saved) {
-        console.error('관리자 세션 저장 실패');
-        return admin; // 세션 저장은 실패했지만 인증은 성공했으므로 admin 객체 반환
+      if (!isAdmin) {
+        const adminDoc = await getDoc(doc(db, ADMINS_COLLECTION, firebaseUser.uid));
+        isAdmin = adminDoc.exists() && adminDoc.data().role === ADMIN_ROLE;
       }
-      
-      console.log('관리자 로그인 성공:', admin);
-      return admin;
     }
-    
-    console.log('관리자 로그인 실패: 인증 정보 불일치');
-    return null;
-  } catch (error) {
-    console.error('관리자 로그인 처리 중 오류:', error);
-    return null;
-  }
-};
 
-/**
- * 관리자 로그아웃 함수
- * 저장된 관리자 세션을 삭제합니다.
- */
-export const adminLogout = (): void => {
-  try {
-    safeLocalStorage.removeItem(ADMIN_AUTH_KEY);
-    console.log('관리자 로그아웃 완료');
-  } catch (error) {
-    console.error('관리자 로그아웃 오류:', error);
-  }
-};
+    const admin: Admin | null = isAdmin
+      ? {
+          id: firebaseUser.uid,
+          email: firebaseUser.email || '',
+          displayName: firebaseUser.displayName || '관리자',
+          isAdmin: true,
+          loggedInAt: new Date()
+        }
+      : null;
 
-/**
- * 관리자 세션 저장 함수
- * 로컬 스토리지에 관리자 세션 정보를 저장합니다.
- * @param admin 관리자 정보
- * @returns 저장 성공 여부
- */
-const saveAdminSession = (admin: Admin): boolean => {
-  try {
-    // Date 객체를 ISO 문자열로 변환하여 저장
-    const adminData = {
-      ...admin,
-      loggedInAt: admin.loggedInAt.toISOString(),
-      expiresAt: admin.expiresAt.toISOString()
-    };
-    
-    // 안전하게 로컬 스토리지에 저장
-    const saved = safeLocalStorage.setItem(ADMIN_AUTH_KEY, JSON.stringify(adminData));
-    if (saved) {
-      console.log('관리자 세션 저장됨');
-      return true;
-    } else {
-      console.error('관리자 세션 저장 실패');
-      return false;
-    }
+    roleCache = { uid: firebaseUser.uid, admin, checkedAt: Date.now() };
+    return admin;
   } catch (error) {
-    console.error('관리자 세션 저장 오류:', error);
-    return false;
+    console.error('관리자 역할 확인 오류:', error);
+    throw new Error('관리자 권한을 확인하지 못했습니다. 잠시 후 다시 시도해 주세요.');
   }
 };
 
 /**
- * 관리자 세션 조회 함수
- * 로컬 스토리지에서 관리자 세션 정보를 조회합니다.
- * @returns 유효한 관리자 세션이 있으면 Admin 객체, 없으면 null
+ * 관리자 로그아웃 함수
+ * 관리자 권한은 Firebase 로그인에 연결되어 있으므로 Firebase에서 로그아웃합니다.
  */
-export const getAdminSession = (): Admin | null => {
-  try {
-    // 안전하게 로컬 스토리지에서 조회
-    const storedSession = safeLocalStorage.getItem(ADMIN_AUTH_KEY);
-    
-    if (!storedSession) {
-      return null;
-    }
-    
-    const adminData = JSON.parse(storedSession);
-    
-    // Date 객체로 변환 (JSON.parse는 Date를 문자열로 처리함)
-    const admin: Admin = {
-      ...adminData,
-      loggedInAt: new Date(adminData.loggedInAt),
-      expiresAt: new Date(adminData.expiresAt)
-    };
-    
-    // 세션 만료 확인
-    if (admin.expiresAt < new Date()) {
-      console.log('관리자 세션 만료됨');
-      safeLocalStorage.removeItem(ADMIN_AUTH_KEY);
-      return null;
-    }
-    
-    return admin;
-  } catch (error) {
-    console.error('관리자 세션 조회 오류:', error);
-    safeLocalStorage.removeItem(ADMIN_AUTH_KEY);
-    return null;
-  }
+export const adminLogout = async (): Promise<void> => {
+  roleCache = null;
+  await signOut();
 };
 
 /**
- * 관리자 세션 갱신 함수
- * 현재 세션의 만료 시간을 연장합니다.
- * @returns 갱신된 Admin 객체, 실패 시 null
+ * 현재 관리자 정보 조회 함수
+ * 마지막으로 확인한 관리자 역할을 반환하며, 네트워크 요청을 하지 않습니다.
+ * @returns 현재 로그인한 사용자가 관리자로 확인되었으면 Admin 객체, 아니면 null
  */
-export const refreshAdminSession = (): Admin | null => {
-  try {
-    const currentSession = getAdminSession();
-    
-    if (!currentSession) {
-      return null;
-    }
-    
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + SESSION_DURATION);
-    
-    const refreshedAdmin: Admin = {
-      ...currentSession,
-      expiresAt: expiresAt
-    };
-    
-    const saved = saveAdminSession(refreshedAdmin);
-    if (!saved) {
-      console.error('관리자 세션 갱신 실패');
-      return currentSession; // 갱신은 실패했지만 기존 세션은 유효하므로 반환
-    }
-    
-    return refreshedAdmin;
-  } catch (error) {
-    console.error('관리자 세션 갱신 오류:', error);
+export const getAdminSession = (): Admin | null => {
+  const currentUser = auth.currentUser;
+  if (!currentUser || !roleCache || roleCache.uid !== currentUser.uid) {
     return null;
   }
+  return roleCache.admin;
 };
 
 /**
  * 관리자 인증 여부 확인 함수
- * 현재 유효한 관리자 세션이 있는지 확인합니다.
+ * 현재 로그인한 Firebase 사용자의 관리자 역할을 확인합니다.
  * @returns 관리자 인증 여부
  */
-export const isAdminAuthenticated = (): boolean => {
+export const isAdminAuthenticated = async (): Promise<boolean> => {
   try {
-    return getAdminSession() !== null;
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      return false;
+    }
+    return (await fetchAdminRole(currentUser)) !== null;
   } catch (error) {
     console.error('관리자 인증 확인 오류:', error);
     return false;
   }
-}; 
\ No newline at end of file
+};
@@ -17,6 +17,9 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from '../firebase/config';
+import { rebuildTagIndex } from '../firebase/tags';
+import { backfillPostSortCountersAdmin } from './posts';
+import { movePrivateUserFieldsAdmin } from './users';
 import { isAdminAuthenticated } from './auth';
 
 // Firestore 컬렉션 이름
@@ -25,6 +28,7 @@ const COMMENTS_COLLECTION = 'comments';
 const SETTINGS_COLLECTION = 'settings';
 const USERS_COLLECTION = 'users';
 const BOOKMARKS_COLLECTION = 'bookmarks';
+const REACTIONS_COLLECTION = 'reactions';
 
 // 관리자 권한 검증 에러 메시지
 const ADMIN_AUTH_ERROR = '관리자 권한이 필요합니다.';
@@ -40,8 +44,8 @@ const handleError = (error: unknown, message: string) => {
  * 관리자 권한 검증 함수
  * @throws {Error} 관리자가 아닌 경우 에러 발생
  */
-const verifyAdminAuth = () => {
-  if (!isAdminAuthenticated()) {
+const verifyAdminAuth = async () => {
+  if (!(await isAdminAuthenticated())) {
     throw new Error(ADMIN_AUTH_ERROR);
   }
 };
@@ -204,11 +208,11 @@ export const backupData = async (options: {
   includeUsers?: boolean;
 } = {}): Promise<string> => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
   
   try {
     const { 
-      collections = [POSTS_COLLECTION, COMMENTS_COLLECTION, SETTINGS_COLLECTION, BOOKMARKS_COLLECTION],
+      collections = [POSTS_COLLECTION, COMMENTS_COLLECTION, SETTINGS_COLLECTION, BOOKMARKS_COLLECTION, REACTIONS_COLLECTION],
       includeUsers = false
     } = options;
     
@@ -268,13 +272,13 @@ export const restoreData = async (
   warnings?: string[];
 }> => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
   
   const warnings: string[] = [];
   
   try {
     const { 
-      collections = [POSTS_COLLECTION, COMMENTS_COLLECTION, SETTINGS_COLLECTION, BOOKMARKS_COLLECTION],
+      collections = [POSTS_COLLECTION, COMMENTS_COLLECTION, SETTINGS_COLLECTION, BOOKMARKS_COLLECTION, REACTIONS_COLLECTION],
       overwrite = false,
       deleteBeforeRestore = false
     } = options;
@@ -382,6 +386,33 @@ export const restoreData = async (
       console.log(`${collectionName} 컬렉션 복원 완료: ${restoredCount}개 성공, ${failedCount}개 실패`);
     }
     
+    // 게시물이 복원되었으면 태그 인덱스를 새로 만들고, 정렬용 집계 필드가 없는 게시물에 0을 채움
+    if ((restoredCounts[POSTS_COLLECTION] || 0) > 0) {
+      try {
+        await rebuildTagIndex();
+      } catch (tagError) {
+        console.error('태그 인덱스 재생성 오류:', tagError);
+        warnings.push('태그 목록을 새로 만들지 못했습니다. 태그 목록은 24시간이 지난 뒤 관리자 페이지에 접속하면 자동으로 갱신됩니다.');
+      }
+
+      try {
+        await backfillPostSortCountersAdmin(true);
+      } catch (counterError) {
+        console.error('게시물 집계 필드 채우기 오류:', counterError);
+        warnings.push('일부 게시물의 조회수/댓글 수/반응 수 필드를 채우지 못해 정렬된 목록에서 빠질 수 있습니다.');
+      }
+    }
+    
+    // 이전 버전 백업에서 복원한 사용자 문서의 이메일을 계정 정보 문서로 옮김
+    if ((restoredCounts[USERS_COLLECTION] || 0) > 0) {
+      try {
+        await movePrivateUserFieldsAdmin(true);
+      } catch (userError) {
+        console.error('사용자 개인 정보 이동 오류:', userError);
+        warnings.push('복원한 사용자 문서의 이메일을 계정 정보로 옮기지 못했습니다. 해당 사용자가 다시 로그인하면 정리됩니다.');
+      }
+    }
+
     // 실패한 문서가 있는 경우 경고 추가
     const totalFailed = Object.values(failedCounts).reduce((sum, count) => sum + count, 0);
     if (totalFailed > 0) {
@@ -443,6 +474,22 @@ const processCollectionSpecificData = (collectionName: string, data: any): any =
       }
       break;
       
+    case REACTIONS_COLLECTION:
+      // 반응의 날짜 필드 명시적 처리
+      if (processedData.createdAt && typeof processedData.createdAt === 'string') {
+        processedData.createdAt = Timestamp.fromDate(new Date(processedData.createdAt));
+      }
+      break;
+      
+    case USERS_COLLECTION:
+      // 사용자 프로필의 날짜 필드 명시적 처리
+      ['createdAt', 'updatedAt', 'lastLoginAt'].forEach(field => {
+        if (processedData[field] && typeof processedData[field] === 'string') {
+          processedData[field] = Timestamp.fromDate(new Date(processedData[field]));
+        }
+      });
+      break;
+      
     case SETTINGS_COLLECTION:
       // 설정의 날짜 필드 명시적 처리
       if (processedData.updatedAt && typeof processedData.updatedAt === 'string') {
@@ -80,8 +80,8 @@ export interface CategoryItem {
  * 관리자 권한 검증 함수
  * @throws {Error} 관리자가 아닌 경우 에러 발생
  */
-const verifyAdminAuth = () => {
-  if (!isAdminAuthenticated()) {
+const verifyAdminAuth = async () => {
+  if (!(await isAdminAuthenticated())) {
     throw new Error(ADMIN_AUTH_ERROR);
   }
 };
@@ -137,7 +137,7 @@ export const fetchCategories = async (): Promise<CategoryItem[]> => {
  */
 export const addCategory = async (category: Omit<CategoryItem, 'id'>): Promise<string> => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
   
   let attempts = 0;
   
@@ -279,7 +279,7 @@ export const updateCategory = async (
   icon?: string
 ): Promise<boolean> => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
   
   let attempts = 0;
   
@@ -372,7 +372,7 @@ export const updateCategory = async (
  */
 export const deleteCategory = async (categoryId: string): Promise<boolean> => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
   
   let attempts = 0;
   
@@ -465,7 +465,7 @@ export const deleteCategory = async (categoryId: string): Promise<boolean> => {
  */
 export const reorderCategories = async (sortedCategories: CategoryItem[]): Promise<boolean> => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
   
   let attempts = 0;
   
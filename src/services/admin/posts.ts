@@ -17,19 +17,29 @@ import {
   Timestamp,
   DocumentData,
   QueryDocumentSnapshot,
-  writeBatch,
-  runTransaction,
   serverTimestamp,
   addDoc,
+  setDoc,
+  writeBatch,
 } from 'firebase/firestore';
 import { db } from '../firebase/config';
-import { isAdminAuthenticated } from './auth';
+import { isAdminAuthenticated, getAdminSession } from './auth';
 import { convertToUIPost } from '../firebase/firestore';
+import { movePostToRecycleBin } from '../firebase/recycleBin';
+import { updateTagCounts, rebuildStaleTagIndex } from '../firebase/tags';
 import type { Post, UIPost } from '../../types/index';
 
 // Firestore 컬렉션 이름
 const POSTS_COLLECTION = 'posts';
 const COMMENTS_COLLECTION = 'comments';
+const SETTINGS_COLLECTION = 'settings';
+const GLOBAL_SETTINGS_ID = 'global-settings';
+
+// 정렬에 쓰이는 집계 필드 (Firestore 정렬 쿼리는 필드가 없는 문서를 결과에서 제외)
+const SORT_COUNTER_FIELDS = ['viewCount', 'commentCount', 'reactionCount'] as const;
+
+// 한 번의 배치로 처리할 수 있는 최대 문서 수 (Firestore 제한)
+const BATCH_LIMIT = 500;
 
 // 페이지당 기본 게시물 수
 const DEFAULT_PAGE_SIZE = 20;
@@ -41,8 +51,8 @@ const ADMIN_AUTH_ERROR = '관리자 권한이 필요합니다.';
  * 관리자 권한 검증 함수
  * @throws {Error} 관리자가 아닌 경우 에러 발생
  */
-const verifyAdminAuth = () => {
-  if (!isAdminAuthenticated()) {
+const verifyAdminAuth = async () => {
+  if (!(await isAdminAuthenticated())) {
     throw new Error(ADMIN_AUTH_ERROR);
   }
 };
@@ -108,7 +118,7 @@ export const fetchAllPostsAdmin = async (options: {
   searchTerm?: string;
 } = {}) => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
 
   try {
     const {
@@ -198,7 +208,7 @@ export const fetchAllPostsAdmin = async (options: {
  */
 export const fetchPostDetailAdmin = async (postId: string) => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
 
   try {
     const postRef = doc(db, POSTS_COLLECTION, postId);
@@ -222,7 +232,7 @@ export const fetchPostDetailAdmin = async (postId: string) => {
     return {
       ...convertToUIPost(post),
       rawData: postData,
-      commentCount: commentsSnap.docs.length,
+      commentCount: commentsSnap.docs.filter(commentDoc => commentDoc.data().isDeleted !== true).length,
       editHistory: postData.editHistory || []
     };
   } catch (error) {
@@ -246,7 +256,7 @@ export const updatePostAdmin = async (
   reason?: string
 ) => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
 
   try {
     const postRef = doc(db, POSTS_COLLECTION, postId);
@@ -276,6 +286,9 @@ export const updatePostAdmin = async (
 
     // 게시물 업데이트
     await updateDoc(postRef, updateData);
+    if (Array.isArray(updateData.tags)) {
+      await updateTagCounts(postSnap.data().tags || [], updateData.tags);
+    }
 
     // 업데이트된 게시물 조회
     const updatedPostSnap = await getDoc(postRef);
@@ -290,37 +303,20 @@ export const updatePostAdmin = async (
 
 /**
  * 관리자용 게시물 삭제 함수
+ * 게시물과 관련 댓글은 휴지통으로 이동합니다.
  * @param postId 게시물 ID
  */
 export const deletePostAdmin = async (postId: string) => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
 
   try {
-    const postRef = doc(db, POSTS_COLLECTION, postId);
-    const postSnap = await getDoc(postRef);
+    const adminId = getAdminSession()?.id || 'admin';
+    const moved = await movePostToRecycleBin(postId, adminId, true);
 
-    if (!postSnap.exists()) {
+    if (!moved) {
       throw new Error(`ID가 ${postId}인 게시물을 찾을 수 없습니다.`);
     }
-
-    // 트랜잭션으로 게시물과 관련 댓글 삭제
-    await runTransaction(db, async (transaction) => {
-      // 게시물 삭제
-      transaction.delete(postRef);
-
-      // 관련 댓글 조회
-      const commentsQuery = query(
-        collection(db, COMMENTS_COLLECTION),
-        where('postId', '==', postId)
-      );
-      const commentsSnap = await getDocs(commentsQuery);
-
-      // 관련 댓글 삭제
-      commentsSnap.docs.forEach((commentDoc) => {
-        transaction.delete(commentDoc.ref);
-      });
-    });
   } catch (error) {
     console.error(`게시물 삭제 오류 (ID: ${postId}):`, error);
     throw new Error(`게시물 삭제 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
@@ -329,52 +325,30 @@ export const deletePostAdmin = async (postId: string) => {
 
 /**
  * 관리자용 게시물 일괄 삭제 함수
+ * 게시물과 관련 댓글은 휴지통으로 이동합니다.
  * @param postIds 삭제할 게시물 ID 배열
  * @returns 삭제된 게시물 수
  */
 export const bulkDeletePostsAdmin = async (postIds: string[]) => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
 
   if (!postIds.length) {
     return { deletedCount: 0 };
   }
 
   try {
-    const batch = writeBatch(db);
+    const adminId = getAdminSession()?.id || 'admin';
     let deletedCount = 0;
 
-    // 게시물 일괄 삭제
+    // 게시물별로 관련 댓글과 함께 휴지통으로 이동 (존재하지 않는 게시물은 건너뜀)
     for (const postId of postIds) {
-      const postRef = doc(db, POSTS_COLLECTION, postId);
-      const postSnap = await getDoc(postRef);
-
-      if (postSnap.exists()) {
-        batch.delete(postRef);
+      const moved = await movePostToRecycleBin(postId, adminId, true);
+      if (moved) {
         deletedCount++;
       }
     }
 
-    // 배치 커밋
-    await batch.commit();
-
-    // 관련 댓글 삭제 (별도 배치로 처리)
-    for (const postId of postIds) {
-      const commentsQuery = query(
-        collection(db, COMMENTS_COLLECTION),
-        where('postId', '==', postId)
-      );
-      const commentsSnap = await getDocs(commentsQuery);
-      
-      if (commentsSnap.docs.length > 0) {
-        const commentBatch = writeBatch(db);
-        commentsSnap.docs.forEach((commentDoc) => {
-          commentBatch.delete(commentDoc.ref);
-        });
-        await commentBatch.commit();
-      }
-    }
-
     return { deletedCount };
   } catch (error) {
     console.error('게시물 일괄 삭제 오류:', error);
@@ -388,7 +362,7 @@ export const bulkDeletePostsAdmin = async (postIds: string[]) => {
  */
 export const fetchPostStatsAdmin = async () => {
   // 관리자 권한 검증
-  verifyAdminAuth();
+  await verifyAdminAuth();
 
   try {
     // 모든 게시물 조회
@@ -451,9 +425,8 @@ export const createPostAdmin = async (
   postInput: Partial<Post> | Partial<UIPost>,
   adminId: string
 ): Promise<UIPost> => {
-  if (!isAdminAuthenticated()) {
-    throw new Error('관리자 권한이 필요합니다.');
-  }
+  // 관리자 권한 검증
+  await verifyAdminAuth();
 
   try {
     // 현재 시간 생성
@@ -475,11 +448,13 @@ export const createPostAdmin = async (
       createdAt: now,
       updatedAt: now,
       commentCount: 0,
-      viewCount: 0
+      viewCount: 0,
+      reactionCount: 0
     };
     
     // Firestore에 새 게시물 추가
     const docRef = await addDoc(postsRef, newPostData);
+    await updateTagCounts([], newPostData.tags);
     
     // 생성된 게시물 ID로 문서 다시 조회
     const postSnap = await getDoc(docRef);
@@ -513,4 +488,63 @@ export const createPostAdmin = async (
     console.error('게시물 생성 오류:', error);
     throw error instanceof Error ? error : new Error('게시물 생성 중 오류가 발생했습니다.');
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * 정렬용 집계 필드가 없는 이전 게시물에 0을 채우는 함수
+ * 조회순, 댓글순, 인기순 목록은 Firestore에서 해당 필드로 정렬하므로 필드가 없는 게시물은 목록에서 빠집니다.
+ * 한 번 채운 뒤에는 전역 설정 문서의 기록을 보고 건너뛰며, 백업 복원 후에는 force로 다시 실행합니다.
+ * @param force 이미 채운 기록이 있어도 다시 실행할지 여부
+ * @returns 필드를 채운 게시물 수
+ */
+export const backfillPostSortCountersAdmin = async (force = false): Promise<number> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  try {
+    const settingsRef = doc(db, SETTINGS_COLLECTION, GLOBAL_SETTINGS_ID);
+    if (!force) {
+      const settingsSnap = await getDoc(settingsRef);
+      if (settingsSnap.exists() && settingsSnap.data().sortCountersBackfilledAt) {
+        return 0;
+      }
+    }
+
+    const postsSnap = await getDocs(collection(db, POSTS_COLLECTION));
+    const targets = postsSnap.docs.filter(postDoc =>
+      SORT_COUNTER_FIELDS.some(field => typeof postDoc.data()[field] !== 'number')
+    );
+
+    for (let i = 0; i < targets.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      targets.slice(i, i + BATCH_LIMIT).forEach(postDoc => {
+        const changes: Record<string, number> = {};
+        SORT_COUNTER_FIELDS.forEach(field => {
+          if (typeof postDoc.data()[field] !== 'number') {
+            changes[field] = 0;
+          }
+        });
+        batch.update(postDoc.ref, changes);
+      });
+      await batch.commit();
+    }
+
+    await setDoc(settingsRef, { sortCountersBackfilledAt: Timestamp.now() }, { merge: true });
+    return targets.length;
+  } catch (error) {
+    console.error('게시물 집계 필드 채우기 오류:', error);
+    throw new Error(`게시물 집계 필드를 채우는 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+  }
+};
+
+/**
+ * 태그 인덱스가 없거나 24시간이 지났으면 게시물 전체에서 다시 만드는 함수
+ * 관리자 페이지에 접속할 때 자동으로 실행되어 누락된 태그 수 변경을 보정합니다.
+ * @returns 인덱스를 다시 만들었는지 여부
+ */
+export const refreshTagIndexAdmin = async (): Promise<boolean> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  return rebuildStaleTagIndex();
+};
@@ -0,0 +1,129 @@
+/**
+ * 관리자 전용 휴지통 관리 함수
+ * 전체 휴지통 조회, 복원, 영구 삭제, 휴지통 비우기 및 보관 기간 설정 기능을 제공합니다.
+ */
+import {
+  doc,
+  setDoc,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { isAdminAuthenticated } from './auth';
+import {
+  fetchRecycleBinItems,
+  restoreRecycleBinItem,
+  deleteRecycleBinItem,
+  purgeRecycleBinItems,
+  fetchRecycleBinRetentionDays as fetchRecycleBinRetentionDaysService
+} from '../firebase/recycleBin';
+import type { UIRecycleBinItem } from '../../types/index';
+
+// Firestore 설정 문서 정보
+const SETTINGS_COLLECTION = 'settings';
+const GLOBAL_SETTINGS_ID = 'global-settings';
+
+// 관리자 권한 검증 에러 메시지
+const ADMIN_AUTH_ERROR = '관리자 권한이 필요합니다.';
+
+/**
+ * 관리자 권한 검증 함수
+ * @throws {Error} 관리자가 아닌 경우 에러 발생
+ */
+const verifyAdminAuth = async () => {
+  if (!(await isAdminAuthenticated())) {
+    throw new Error(ADMIN_AUTH_ERROR);
+  }
+};
+
+/**
+ * 관리자용 전체 휴지통 항목 조회 함수
+ * @returns 최근 삭제 순으로 정렬된 휴지통 항목 목록
+ */
+export const fetchRecycleBinAdmin = async (): Promise<UIRecycleBinItem[]> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  return fetchRecycleBinItems();
+};
+
+/**
+ * 관리자용 휴지통 항목 복원 함수 (작성자와 관계없이 복원)
+ * @param itemId 휴지통 항목 ID
+ */
+export const restoreRecycleBinItemAdmin = async (itemId: string): Promise<void> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  await restoreRecycleBinItem(itemId);
+};
+
+/**
+ * 관리자용 휴지통 항목 영구 삭제 함수
+ * @param itemId 휴지통 항목 ID
+ */
+export const deleteRecycleBinItemAdmin = async (itemId: string): Promise<void> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  await deleteRecycleBinItem(itemId);
+};
+
+/**
+ * 관리자용 휴지통 비우기 함수
+ * @returns 영구 삭제된 항목 수
+ */
+export const emptyRecycleBinAdmin = async (): Promise<number> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  return purgeRecycleBinItems();
+};
+
+/**
+ * 휴지통 보관 기간 조회 함수
+ * @returns 보관 기간 (일, 0이면 자동 삭제하지 않음)
+ */
+export const fetchRecycleBinRetentionDays = async (): Promise<number> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  return fetchRecycleBinRetentionDaysService();
+};
+
+/**
+ * 휴지통 보관 기간 변경 함수
+ * @param days 보관 기간 (일, 0이면 자동 삭제하지 않음)
+ */
+export const updateRecycleBinRetentionDays = async (days: number): Promise<void> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('보관 기간은 0 이상의 정수여야 합니다.');
+  }
+
+  try {
+    await setDoc(
+      doc(db, SETTINGS_COLLECTION, GLOBAL_SETTINGS_ID),
+      { recycleBinRetentionDays: days, updatedAt: Timestamp.now() },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('휴지통 보관 기간 변경 오류:', error);
+    throw new Error('휴지통 보관 기간을 변경하지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
+
+/**
+ * 보관 기간이 지난 휴지통 항목을 영구 삭제하는 함수
+ * 관리자 페이지에 접속할 때 자동으로 실행됩니다.
+ * @returns 영구 삭제된 항목 수
+ */
+export const purgeExpiredRecycleBinItemsAdmin = async (): Promise<number> => {
+  const days = await fetchRecycleBinRetentionDays();
+  if (days === 0) {
+    return 0;
+  }
+
+  return purgeRecycleBinItems(days);
+};
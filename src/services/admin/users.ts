@@ -0,0 +1,92 @@
+/**
+ * 관리자 전용 사용자 관리 함수
+ * 이전 버전에서 프로필 문서에 기록한 개인 정보를 본인만 읽을 수 있는 계정 정보 문서로 옮깁니다.
+ */
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  writeBatch,
+  deleteField,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { isAdminAuthenticated } from './auth';
+import { getPrivateAccountRef } from '../firebase/users';
+
+// 컬렉션 이름 상수
+const USERS_COLLECTION = 'users';
+const SETTINGS_COLLECTION = 'settings';
+const GLOBAL_SETTINGS_ID = 'global-settings';
+
+// 계정 정보 문서로 옮길 개인 정보 필드
+const PRIVATE_USER_FIELDS = ['email', 'mergeIntoEmail'] as const;
+
+// 한 번의 배치로 옮길 사용자 수 (사용자마다 계정 정보 기록과 프로필 수정 두 번 쓰기, Firestore 제한 500)
+const USER_BATCH_SIZE = 250;
+
+// 관리자 권한 검증 에러 메시지
+const ADMIN_AUTH_ERROR = '관리자 권한이 필요합니다.';
+
+/**
+ * 관리자 권한 검증 함수
+ * @throws {Error} 관리자가 아닌 경우 에러 발생
+ */
+const verifyAdminAuth = async () => {
+  if (!(await isAdminAuthenticated())) {
+    throw new Error(ADMIN_AUTH_ERROR);
+  }
+};
+
+/**
+ * 프로필 문서에 남아 있는 이메일을 계정 정보 문서로 옮기는 함수
+ * 프로필 문서는 로그인한 사용자 누구나 읽을 수 있으므로 이전에 기록된 이메일을 지웁니다.
+ * 한 번 옮긴 뒤에는 전역 설정 문서의 기록을 보고 건너뛰며, 백업 복원 후에는 force로 다시 실행합니다.
+ * @param force 이미 옮긴 기록이 있어도 다시 실행할지 여부
+ * @returns 개인 정보를 옮긴 사용자 수
+ */
+export const movePrivateUserFieldsAdmin = async (force = false): Promise<number> => {
+  // 관리자 권한 검증
+  await verifyAdminAuth();
+
+  try {
+    const settingsRef = doc(db, SETTINGS_COLLECTION, GLOBAL_SETTINGS_ID);
+    if (!force) {
+      const settingsSnap = await getDoc(settingsRef);
+      if (settingsSnap.exists() && settingsSnap.data().privateUserFieldsMovedAt) {
+        return 0;
+      }
+    }
+
+    const usersSnap = await getDocs(collection(db, USERS_COLLECTION));
+    const targets = usersSnap.docs.filter(userDoc =>
+      PRIVATE_USER_FIELDS.some(field => field in userDoc.data())
+    );
+
+    for (let i = 0; i < targets.length; i += USER_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      targets.slice(i, i + USER_BATCH_SIZE).forEach(userDoc => {
+        const privateData: Record<string, unknown> = { updatedAt: Timestamp.now() };
+        const removedFields: Record<string, ReturnType<typeof deleteField>> = {};
+        PRIVATE_USER_FIELDS.forEach(field => {
+          if (field in userDoc.data()) {
+            privateData[field] = userDoc.data()[field];
+            removedFields[field] = deleteField();
+          }
+        });
+
+        batch.set(getPrivateAccountRef(userDoc.id), privateData, { merge: true });
+        batch.update(userDoc.ref, removedFields);
+      });
+      await batch.commit();
+    }
+
+    await setDoc(settingsRef, { privateUserFieldsMovedAt: Timestamp.now() }, { merge: true });
+    return targets.length;
+  } catch (error) {
+    console.error('사용자 개인 정보 이동 오류:', error);
+    throw new Error(`사용자 개인 정보를 옮기는 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+  }
+};
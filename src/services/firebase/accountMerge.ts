@@ -0,0 +1,372 @@
+/**
+ * 게스트 데이터 병합 관련 함수
+ * 게스트(익명) 계정을 이미 있는 Google 계정으로 업그레이드할 때, 게스트가 만든 게시물, 댓글, 반응, 북마크,
+ * 팔로우, 휴지통 항목, 알림, 읽음 상태, 최근 문서, 조회 기록을 Google 계정으로 옮기고 게스트 사용자 문서를 삭제합니다.
+ * 각 단계는 다시 실행해도 결과가 같으므로, 중간에 실패하면 다음 로그인 때 남은 데이터부터 이어서 옮깁니다.
+ */
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  runTransaction,
+  writeBatch,
+  increment,
+  arrayUnion,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from './config';
+import { VIEW_COUNT_WINDOW_MS } from './firestore';
+import { MAX_RECENT_DOCUMENTS, parseRecentDocuments } from './recentDocuments';
+import { getPrivateAccountRef } from './users';
+import type { User, PostReadEntry } from '../../types/index';
+
+// 컬렉션 이름 상수
+const POSTS_COLLECTION = 'posts';
+const COMMENTS_COLLECTION = 'comments';
+const REACTIONS_COLLECTION = 'reactions';
+const BOOKMARKS_COLLECTION = 'bookmarks';
+const FOLLOWS_COLLECTION = 'follows';
+const RECYCLE_BIN_COLLECTION = 'recycleBin';
+const NOTIFICATIONS_COLLECTION = 'notifications';
+const READ_STATUS_COLLECTION = 'readStatus';
+const RECENT_DOCUMENTS_COLLECTION = 'recentDocuments';
+const POST_VIEWS_COLLECTION = 'postViews';
+const USERS_COLLECTION = 'users';
+
+// 한 번의 일괄 쓰기에 담을 최대 문서 수 (Firestore 제한 500)
+const BATCH_SIZE = 400;
+
+// 진행 중인 병합 (같은 게스트 계정의 병합이 동시에 두 번 실행되지 않도록 게스트 ID별로 보관)
+const runningMerges = new Map<string, Promise<number>>();
+
+/**
+ * 문서들을 일괄로 수정하는 함수
+ * @param docs 수정할 문서 목록
+ * @param getChanges 문서별 변경 내용 (null이면 문서 삭제)
+ * @returns 처리한 문서 수
+ */
+const updateInBatches = async (
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  getChanges: (docSnap: QueryDocumentSnapshot<DocumentData>) => DocumentData | null
+): Promise<number> => {
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    docs.slice(i, i + BATCH_SIZE).forEach(docSnap => {
+      const changes = getChanges(docSnap);
+      if (changes) {
+        batch.update(docSnap.ref, changes);
+      } else {
+        batch.delete(docSnap.ref);
+      }
+    });
+    await batch.commit();
+  }
+  return docs.length;
+};
+
+/**
+ * 필드 값이 일치하는 문서를 모두 가져오는 함수
+ * @param collectionName 컬렉션 이름
+ * @param field 필드 이름
+ * @param value 필드 값
+ * @returns 문서 목록
+ */
+const fetchDocsByField = async (collectionName: string, field: string, value: string) => {
+  const querySnapshot = await getDocs(query(collection(db, collectionName), where(field, '==', value)));
+  return querySnapshot.docs;
+};
+
+/**
+ * 게스트의 반응을 대상 계정으로 옮기는 함수
+ * 반응 ID에 사용자 ID가 들어가므로 새 ID로 다시 만들고, 대상 계정이 이미 같은 반응을 남겼으면
+ * 게스트 반응만 지우고 게시물의 반응 수를 줄입니다.
+ * @param guestId 게스트 사용자 ID
+ * @param target 대상 사용자
+ * @returns 옮긴 반응 수
+ */
+const moveReactions = async (guestId: string, target: User): Promise<number> => {
+  const reactionDocs = await fetchDocsByField(REACTIONS_COLLECTION, 'userId', guestId);
+
+  for (const reactionDoc of reactionDocs) {
+    const data = reactionDoc.data();
+    const targetRef = doc(db, REACTIONS_COLLECTION, `${data.targetId}_${data.type}_${target.uid}`);
+
+    await runTransaction(db, async (transaction) => {
+      // 이전 시도에서 이미 옮긴 반응이면 반응 수를 다시 줄이지 않음
+      const reactionSnap = await transaction.get(reactionDoc.ref);
+      if (!reactionSnap.exists()) return;
+
+      const targetSnap = await transaction.get(targetRef);
+
+      if (targetSnap.exists()) {
+        if (data.targetType !== 'comment' && data.postId) {
+          transaction.update(doc(db, POSTS_COLLECTION, data.postId), {
+            reactionCount: increment(-1),
+            reactionChangeId: reactionDoc.id
+          });
+        }
+      } else {
+        transaction.set(targetRef, { ...data, userId: target.uid, userName: target.displayName });
+      }
+      transaction.delete(reactionDoc.ref);
+    });
+  }
+
+  return reactionDocs.length;
+};
+
+/**
+ * 게스트의 북마크를 대상 계정으로 옮기는 함수 (대상 계정이 이미 북마크한 게시물은 게스트 북마크만 삭제)
+ * @param guestId 게스트 사용자 ID
+ * @param targetId 대상 사용자 ID
+ * @returns 옮긴 북마크 수
+ */
+const moveBookmarks = async (guestId: string, targetId: string): Promise<number> => {
+  const [guestBookmarks, targetBookmarks] = await Promise.all([
+    fetchDocsByField(BOOKMARKS_COLLECTION, 'userId', guestId),
+    fetchDocsByField(BOOKMARKS_COLLECTION, 'userId', targetId),
+  ]);
+  const bookmarkedPostIds = new Set(targetBookmarks.map(bookmarkDoc => bookmarkDoc.data().postId));
+
+  return updateInBatches(guestBookmarks, bookmarkDoc =>
+    bookmarkedPostIds.has(bookmarkDoc.data().postId) ? null : { userId: targetId }
+  );
+};
+
+/**
+ * 게스트의 팔로우 설정을 대상 계정의 팔로우 설정에 합치는 함수
+ * @param guestId 게스트 사용자 ID
+ * @param targetId 대상 사용자 ID
+ * @returns 합친 팔로우 항목 수
+ */
+const mergeFollows = async (guestId: string, targetId: string): Promise<number> => {
+  const guestRef = doc(db, FOLLOWS_COLLECTION, guestId);
+  const guestSnap = await getDoc(guestRef);
+  if (!guestSnap.exists()) return 0;
+
+  const data = guestSnap.data();
+  const categories: string[] = Array.isArray(data.categories) ? data.categories : [];
+  const tags: string[] = Array.isArray(data.tags) ? data.tags : [];
+  // 자기 자신은 팔로우할 수 없으므로 대상 계정은 제외
+  const authors: string[] = (Array.isArray(data.authors) ? data.authors : []).filter((id: string) => id !== targetId);
+
+  await setDoc(doc(db, FOLLOWS_COLLECTION, targetId), {
+    userId: targetId,
+    categories: arrayUnion(...categories),
+    tags: arrayUnion(...tags),
+    authors: arrayUnion(...authors),
+    updatedAt: Timestamp.now()
+  }, { merge: true });
+  await deleteDoc(guestRef);
+
+  return categories.length + tags.length + authors.length;
+};
+
+/**
+ * 게스트의 읽음 상태를 대상 계정의 읽음 상태에 합치는 함수 (같은 게시물은 더 최근에 읽은 기록을 유지)
+ * @param guestId 게스트 사용자 ID
+ * @param targetId 대상 사용자 ID
+ * @returns 합친 읽음 기록 수
+ */
+const mergeReadStatus = async (guestId: string, targetId: string): Promise<number> => {
+  const guestRef = doc(db, READ_STATUS_COLLECTION, guestId);
+  const targetRef = doc(db, READ_STATUS_COLLECTION, targetId);
+
+  return runTransaction(db, async (transaction) => {
+    const guestSnap = await transaction.get(guestRef);
+    if (!guestSnap.exists()) return 0;
+
+    const targetSnap = await transaction.get(targetRef);
+    const guestPosts: Record<string, PostReadEntry> = guestSnap.data().posts || {};
+    const mergedPosts: Record<string, PostReadEntry> = targetSnap.exists() ? { ...(targetSnap.data().posts || {}) } : {};
+
+    Object.entries(guestPosts).forEach(([postId, entry]) => {
+      const current = mergedPosts[postId];
+      if (entry?.readAt && (!current?.readAt || current.readAt.toMillis() < entry.readAt.toMillis())) {
+        mergedPosts[postId] = entry;
+      }
+    });
+
+    transaction.set(targetRef, { userId: targetId, posts: mergedPosts, updatedAt: Timestamp.now() });
+    transaction.delete(guestRef);
+    return Object.keys(guestPosts).length;
+  });
+};
+
+/**
+ * 게스트의 최근 문서를 대상 계정의 최근 문서에 합치는 함수 (최근에 연 순서로 최대 개수까지 유지)
+ * @param guestId 게스트 사용자 ID
+ * @param targetId 대상 사용자 ID
+ * @returns 합친 최근 문서 수
+ */
+const mergeRecentDocuments = async (guestId: string, targetId: string): Promise<number> => {
+  const guestRef = doc(db, RECENT_DOCUMENTS_COLLECTION, guestId);
+  const targetRef = doc(db, RECENT_DOCUMENTS_COLLECTION, targetId);
+
+  return runTransaction(db, async (transaction) => {
+    const guestSnap = await transaction.get(guestRef);
+    if (!guestSnap.exists()) return 0;
+
+    const targetSnap = await transaction.get(targetRef);
+    const guestItems = parseRecentDocuments(guestSnap.data().items);
+    const targetItems = targetSnap.exists() ? parseRecentDocuments(targetSnap.data().items) : [];
+
+    // 같은 게시물은 가장 최근에 연 기록 하나만 남김
+    const items = [...guestItems, ...targetItems]
+      .sort((a, b) => b.viewedAt.toMillis() - a.viewedAt.toMillis())
+      .filter((item, index, sorted) => sorted.findIndex(other => other.postId === item.postId) === index)
+      .slice(0, MAX_RECENT_DOCUMENTS);
+
+    transaction.set(targetRef, { userId: targetId, items, updatedAt: Timestamp.now() });
+    transaction.delete(guestRef);
+    return guestItems.length;
+  });
+};
+
+/**
+ * 게스트의 게시물 조회 기록을 대상 계정으로 옮기는 함수
+ * 조회 기록 ID에 사용자 ID가 들어가므로 새 ID로 다시 만들며, 조회수 중복 집계 기간이 지난 기록과
+ * 대상 계정에 이미 있는 기록은 게스트 기록만 삭제합니다.
+ * @param guestId 게스트 사용자 ID
+ * @param targetId 대상 사용자 ID
+ * @returns 옮긴 조회 기록 수
+ */
+const movePostViews = async (guestId: string, targetId: string): Promise<number> => {
+  const viewDocs = await fetchDocsByField(POST_VIEWS_COLLECTION, 'userId', guestId);
+
+  for (const viewDoc of viewDocs) {
+    const { postId, viewedAt } = viewDoc.data();
+    const isRecent = viewedAt instanceof Timestamp && Date.now() - viewedAt.toMillis() < VIEW_COUNT_WINDOW_MS;
+    const targetRef = doc(db, POST_VIEWS_COLLECTION, `${postId}_${targetId}`);
+
+    await runTransaction(db, async (transaction) => {
+      const targetSnap = isRecent ? await transaction.get(targetRef) : null;
+
+      if (targetSnap && !targetSnap.exists()) {
+        transaction.set(targetRef, { postId, userId: targetId, viewedAt: serverTimestamp() });
+      }
+      transaction.delete(viewDoc.ref);
+    });
+  }
+
+  return viewDocs.length;
+};
+
+/**
+ * 게스트 계정의 데이터를 대상 계정으로 옮기는 함수
+ * 대상 계정으로 로그인한 뒤 호출하며, 옮긴 뒤 게스트 사용자 문서를 삭제합니다.
+ * 게스트 사용자 문서의 병합 요청(mergeIntoEmail)은 모든 단계를 마친 뒤에 지워지므로,
+ * 중간에 실패하면 다음 로그인 때 resumePendingGuestMerges가 남은 단계를 이어서 실행합니다.
+ * @param guestId 게스트 사용자 ID
+ * @param target 대상 사용자 (Google 계정)
+ * @returns 옮긴 데이터 수
+ */
+export const mergeGuestData = (guestId: string, target: User): Promise<number> => {
+  const running = runningMerges.get(guestId);
+  if (running) {
+    return running;
+  }
+
+  const merge = runGuestMerge(guestId, target).finally(() => {
+    runningMerges.delete(guestId);
+  });
+  runningMerges.set(guestId, merge);
+  return merge;
+};
+
+/**
+ * 게스트 데이터 병합의 각 단계를 순서대로 실행하는 함수
+ * @param guestId 게스트 사용자 ID
+ * @param target 대상 사용자 (Google 계정)
+ * @returns 옮긴 데이터 수
+ */
+const runGuestMerge = async (guestId: string, target: User): Promise<number> => {
+  try {
+    if (!guestId || !target.uid || guestId === target.uid) {
+      throw new Error('옮길 계정 정보가 올바르지 않습니다.');
+    }
+
+    // 병합을 시작한 계정을 기록 (병합 요청은 모든 단계를 마칠 때까지 유지)
+    await setDoc(doc(db, USERS_COLLECTION, guestId), {
+      mergeStatus: 'merging',
+      mergeTargetId: target.uid,
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+
+    const authorChanges = { authorId: target.uid, 'author.name': target.displayName };
+    let movedCount = 0;
+
+    // 게시물과 댓글의 작성자 변경
+    movedCount += await updateInBatches(await fetchDocsByField(POSTS_COLLECTION, 'authorId', guestId), () => authorChanges);
+    movedCount += await updateInBatches(await fetchDocsByField(COMMENTS_COLLECTION, 'authorId', guestId), () => authorChanges);
+
+    // 반응, 북마크, 팔로우 병합
+    movedCount += await moveReactions(guestId, target);
+    movedCount += await moveBookmarks(guestId, target.uid);
+    movedCount += await mergeFollows(guestId, target.uid);
+
+    // 휴지통 항목은 복원 시 원래 작성자로 돌아가므로 보관된 작성자 ID도 변경
+    movedCount += await updateInBatches(
+      await fetchDocsByField(RECYCLE_BIN_COLLECTION, 'ownerId', guestId),
+      () => ({ ownerId: target.uid, 'data.authorId': target.uid })
+    );
+    movedCount += await updateInBatches(
+      await fetchDocsByField(NOTIFICATIONS_COLLECTION, 'recipientId', guestId),
+      () => ({ recipientId: target.uid })
+    );
+
+    // 읽음 상태, 최근 문서, 조회 기록 병합
+    movedCount += await mergeReadStatus(guestId, target.uid);
+    movedCount += await mergeRecentDocuments(guestId, target.uid);
+    movedCount += await movePostViews(guestId, target.uid);
+
+    // 모든 단계를 마친 뒤 병합 요청이 기록된 게스트 계정 정보와 사용자 문서를 함께 삭제
+    // (보안 규칙이 두 문서가 모두 남아 있을 때만 병합을 허용하므로 한 번에 삭제)
+    const cleanupBatch = writeBatch(db);
+    cleanupBatch.delete(getPrivateAccountRef(guestId));
+    cleanupBatch.delete(doc(db, USERS_COLLECTION, guestId));
+    await cleanupBatch.commit();
+
+    return movedCount;
+  } catch (error) {
+    console.error('게스트 데이터 병합 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '게스트 데이터를 옮기지 못했습니다.');
+  }
+};
+
+/**
+ * 로그인한 계정으로 옮기다 중단된 게스트 데이터 병합을 이어서 실행하는 함수
+ * 이 계정이 계정 업그레이드에서 직접 시작한 병합(mergeStatus가 'merging'이고 mergeTargetId가 이 계정)만 다시 실행합니다.
+ * 다른 게스트가 mergeIntoEmail에 이 계정의 이메일을 적었다는 이유만으로 데이터를 옮겨 받지 않도록 합니다.
+ * @param user 로그인한 사용자
+ * @returns 옮긴 데이터 수
+ */
+export const resumePendingGuestMerges = async (user: User): Promise<number> => {
+  try {
+    if (user.isAnonymous || !user.email) {
+      return 0;
+    }
+
+    const pendingDocs = await fetchDocsByField(USERS_COLLECTION, 'mergeTargetId', user.uid);
+    let movedCount = 0;
+
+    for (const pendingDoc of pendingDocs) {
+      if (pendingDoc.id !== user.uid && pendingDoc.data().mergeStatus === 'merging') {
+        movedCount += await mergeGuestData(pendingDoc.id, user);
+      }
+    }
+
+    return movedCount;
+  } catch (error) {
+    console.error('게스트 데이터 병합 재개 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '남은 게스트 데이터를 옮기지 못했습니다.');
+  }
+};
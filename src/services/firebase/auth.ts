@@ -8,14 +8,33 @@ import {
   signInAnonymously as signInAnonymouslyFirebase,
   signOut as signOutFirebase,
   onAuthStateChanged,
+  linkWithPopup,
+  signInWithCredential,
+  updateProfile,
+  deleteUser,
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  ActionCodeSettings,
   User as FirebaseUser
 } from 'firebase/auth';
 import { auth } from './config';
-import type { User } from '../../types/index';
+import { syncUserAfterUpgrade, requestGuestMerge } from './users';
+import { mergeGuestData } from './accountMerge';
+import type { User, AccountUpgradeResult } from '../../types/index';
 
 // 인증 관련 상수 정의
 const AUTH_STATE_KEY = 'mac_board_auth_state';
 const LOGOUT_FLAG_KEY = 'mac_board_force_logout';
+// 이메일 링크 로그인을 요청한 이메일 주소 (링크를 연 같은 브라우저에서 다시 입력하지 않도록 저장)
+const EMAIL_FOR_SIGN_IN_KEY = 'winxp_board_email_for_sign_in';
+
+// 비밀번호 최소 길이 (Firebase 기본 정책)
+export const MIN_PASSWORD_LENGTH = 6;
 
 /**
  * 로컬 스토리지에 로그인 상태 저장
@@ -164,6 +183,265 @@ export const signInAnonymously = async (): Promise<User | null> => {
   }
 };
 
+/**
+ * 게스트 계정을 Google 계정으로 업그레이드하는 함수
+ * 현재 익명 사용자에 Google 계정을 연결해 같은 사용자 ID로 데이터를 유지합니다.
+ * 이미 사용 중인 Google 계정이면 그 계정으로 로그인한 뒤 게스트가 만든 데이터를 옮기고 게스트 계정을 삭제합니다.
+ * @returns 업그레이드 결과
+ */
+export const upgradeAnonymousWithGoogle = async (): Promise<AccountUpgradeResult> => {
+  const guestUser = auth.currentUser;
+  if (!guestUser || !guestUser.isAnonymous) {
+    throw new Error('게스트로 로그인한 경우에만 계정을 업그레이드할 수 있습니다.');
+  }
+
+  const provider = new GoogleAuthProvider();
+
+  try {
+    const result = await linkWithPopup(guestUser, provider);
+
+    // 연결한 Google 계정의 이름과 프로필 이미지를 사용자 프로필에 반영
+    const googleProfile = result.user.providerData.find(profile => profile.providerId === GoogleAuthProvider.PROVIDER_ID);
+    if (!result.user.displayName && googleProfile) {
+      await updateProfile(result.user, {
+        displayName: googleProfile.displayName,
+        photoURL: googleProfile.photoURL
+      });
+    }
+    await syncUserAfterUpgrade(result.user);
+    // 토큰을 갱신해 인증 상태 구독(onIdTokenChanged)에 업그레이드된 사용자가 전달되도록 함
+    await result.user.getIdToken(true);
+
+    const user = mapFirebaseUserToUser(result.user);
+    saveAuthState(true, user);
+    return { user, merged: false, movedCount: 0 };
+  } catch (error: any) {
+    if (error.code !== 'auth/credential-already-in-use') {
+      console.error('계정 업그레이드 오류:', error);
+
+      if (error.code === 'auth/popup-closed-by-user') {
+        throw new Error('로그인 창이 닫혔습니다. 다시 시도해주세요.');
+      } else if (error.code === 'auth/popup-blocked') {
+        throw new Error('팝업이 차단되었습니다. 브라우저 설정에서 팝업 허용 후 다시 시도해주세요.');
+      } else if (error.code === 'auth/cancelled-popup-request') {
+        throw new Error('로그인 요청이 취소되었습니다.');
+      } else if (error.code === 'auth/network-request-failed') {
+        throw new Error('네트워크 연결을 확인하고 다시 시도해주세요.');
+      } else if (error.code === 'auth/provider-already-linked') {
+        throw new Error('이미 Google 계정이 연결되어 있습니다.');
+      } else if (error.code === 'auth/email-already-in-use') {
+        throw new Error('이 이메일로 가입된 다른 계정이 있습니다. 해당 계정으로 로그인해주세요.');
+      } else {
+        throw new Error('계정 업그레이드 중 오류가 발생했습니다. 다시 시도해주세요.');
+      }
+    }
+
+    // 이미 가입된 Google 계정이면 그 계정으로 로그인한 뒤 게스트 데이터를 옮김
+    const credential = GoogleAuthProvider.credentialFromError(error);
+    const targetEmail: string | undefined = error.customData?.email;
+    if (!credential || !targetEmail) {
+      throw new Error('Google 계정 정보를 확인하지 못했습니다. 다시 시도해주세요.');
+    }
+
+    // 보안 규칙이 Google 계정에 게스트 데이터를 옮길 권한을 주도록 게스트 상태에서 병합 요청을 기록
+    try {
+      await requestGuestMerge(guestUser.uid, targetEmail);
+    } catch (ticketError) {
+      console.error('게스트 병합 요청 오류:', ticketError);
+      throw new Error('게스트 데이터 이전을 준비하지 못했습니다. 다시 시도해주세요.');
+    }
+
+    const result = await signInWithCredential(auth, credential);
+    const user = mapFirebaseUserToUser(result.user);
+    saveAuthState(true, user);
+
+    let movedCount: number;
+    try {
+      movedCount = await mergeGuestData(guestUser.uid, user);
+    } catch (mergeError) {
+      console.error('게스트 데이터 병합 오류:', mergeError);
+      throw new Error('Google 계정으로 로그인했지만 게스트 데이터를 모두 옮기지 못했습니다. 다음에 로그인하면 남은 데이터를 이어서 옮깁니다.');
+    }
+
+    // 데이터를 옮긴 게스트 계정 삭제 (실패해도 업그레이드는 완료)
+    try {
+      await deleteUser(guestUser);
+    } catch (deleteError) {
+      console.warn('게스트 계정 삭제 실패:', deleteError);
+    }
+
+    return { user, merged: true, movedCount };
+  }
+};
+
+/**
+ * 인증 메일의 링크를 누른 뒤 돌아올 주소 설정
+ * @param handleCodeInApp 링크를 앱에서 직접 처리할지 여부 (이메일 링크 로그인)
+ * @returns 작업 코드 설정
+ */
+const getActionCodeSettings = (handleCodeInApp: boolean): ActionCodeSettings => ({
+  url: `${window.location.origin}/`,
+  handleCodeInApp
+});
+
+/**
+ * 이메일 인증을 마치지 않은 비밀번호 가입 사용자인지 확인하는 함수
+ * 인증 전에는 로그인하지 않은 것으로 취급합니다. (Google·이메일 링크 로그인 사용자는 이미 인증된 상태)
+ * @param firebaseUser Firebase 사용자 객체
+ * @returns 이메일 인증 대기 중이면 true
+ */
+export const isEmailVerificationPending = (firebaseUser: FirebaseUser): boolean => {
+  return !firebaseUser.isAnonymous &&
+    !firebaseUser.emailVerified &&
+    firebaseUser.providerData.length > 0 &&
+    firebaseUser.providerData.every(profile => profile.providerId === 'password');
+};
+
+/**
+ * 이메일과 비밀번호로 가입하는 함수
+ * 가입 후 인증 메일을 보내고, 인증을 마칠 때까지 로그인하지 않도록 바로 로그아웃합니다.
+ * Firebase 오류는 오류 코드를 유지한 채 전달하므로 호출한 쪽에서 메시지로 바꿔야 합니다.
+ * @param email 이메일 주소
+ * @param password 비밀번호
+ * @param displayName 표시 이름
+ * @returns 가입 완료 Promise
+ */
+export const signUpWithEmail = async (email: string, password: string, displayName: string): Promise<void> => {
+  try {
+    const result = await createUserWithEmailAndPassword(auth, email.trim(), password);
+
+    await updateProfile(result.user, { displayName: displayName.trim() || null });
+    await sendEmailVerification(result.user, getActionCodeSettings(false));
+    await signOutFirebase(auth);
+  } catch (error) {
+    console.error('이메일 회원가입 오류:', error);
+    // 가입은 됐지만 이후 단계가 실패한 경우에도 인증 전 사용자로 로그인된 상태가 남지 않도록 함
+    if (auth.currentUser && isEmailVerificationPending(auth.currentUser)) {
+      await signOutFirebase(auth).catch(() => undefined);
+    }
+    throw error;
+  }
+};
+
+/**
+ * 이메일과 비밀번호로 로그인하는 함수
+ * 이메일 인증을 마치지 않았으면 인증 메일을 다시 보내고 로그아웃합니다.
+ * @param email 이메일 주소
+ * @param password 비밀번호
+ * @returns 로그인된 사용자 정보
+ */
+export const signInWithEmail = async (email: string, password: string): Promise<User | null> => {
+  let result;
+  try {
+    // 로그아웃 플래그 제거
+    localStorage.removeItem(LOGOUT_FLAG_KEY);
+
+    result = await signInWithEmailAndPassword(auth, email.trim(), password);
+  } catch (error) {
+    console.error('이메일 로그인 오류:', error);
+    throw error;
+  }
+
+  if (isEmailVerificationPending(result.user)) {
+    // 인증 메일 재발송은 요청 제한에 걸릴 수 있으므로 실패해도 안내만 함
+    const resent = await sendEmailVerification(result.user, getActionCodeSettings(false))
+      .then(() => true)
+      .catch(err => {
+        console.warn('인증 메일 재발송 실패:', err);
+        return false;
+      });
+    await signOutFirebase(auth);
+
+    throw new Error(resent
+      ? '이메일 인증이 완료되지 않았습니다. 인증 메일을 다시 보냈으니 메일의 링크를 눌러 인증한 뒤 로그인해 주세요.'
+      : '이메일 인증이 완료되지 않았습니다. 받은 인증 메일의 링크를 눌러 인증한 뒤 로그인해 주세요.');
+  }
+
+  const user = mapFirebaseUserToUser(result.user);
+
+  // 로컬 스토리지에 로그인 상태 저장
+  saveAuthState(true, user);
+
+  return user;
+};
+
+/**
+ * 비밀번호 재설정 메일을 보내는 함수
+ * @param email 이메일 주소
+ * @returns 발송 완료 Promise
+ */
+export const sendPasswordReset = async (email: string): Promise<void> => {
+  try {
+    await sendPasswordResetEmail(auth, email.trim(), getActionCodeSettings(false));
+  } catch (error) {
+    console.error('비밀번호 재설정 메일 발송 오류:', error);
+    throw error;
+  }
+};
+
+/**
+ * 로그인 링크를 이메일로 보내는 함수
+ * 링크를 같은 브라우저에서 열면 이메일을 다시 묻지 않도록 주소를 저장합니다.
+ * @param email 이메일 주소
+ * @returns 발송 완료 Promise
+ */
+export const sendSignInLink = async (email: string): Promise<void> => {
+  try {
+    await sendSignInLinkToEmail(auth, email.trim(), getActionCodeSettings(true));
+    localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email.trim());
+  } catch (error) {
+    console.error('로그인 링크 발송 오류:', error);
+    throw error;
+  }
+};
+
+/**
+ * 주소가 이메일 로그인 링크인지 확인하는 함수
+ * @param url 확인할 주소
+ * @returns 이메일 로그인 링크이면 true
+ */
+export const isEmailSignInLink = (url: string): boolean => {
+  return isSignInWithEmailLink(auth, url);
+};
+
+/**
+ * 로그인 링크를 요청할 때 저장한 이메일 주소를 가져오는 함수
+ * @returns 저장된 이메일 주소 (다른 브라우저에서 링크를 열었으면 null)
+ */
+export const getStoredSignInEmail = (): string | null => {
+  return localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY);
+};
+
+/**
+ * 이메일 로그인 링크로 로그인하는 함수
+ * @param email 로그인 링크를 받은 이메일 주소
+ * @param url 로그인 링크 주소
+ * @returns 로그인된 사용자 정보
+ */
+export const completeEmailLinkSignIn = async (email: string, url: string): Promise<User | null> => {
+  try {
+    if (!isSignInWithEmailLink(auth, url)) {
+      throw new Error('올바른 로그인 링크가 아닙니다. 링크를 다시 요청해 주세요.');
+    }
+
+    // 로그아웃 플래그 제거
+    localStorage.removeItem(LOGOUT_FLAG_KEY);
+
+    const result = await signInWithEmailLink(auth, email.trim(), url);
+    localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+
+    const user = mapFirebaseUserToUser(result.user);
+
+    // 로컬 스토리지에 로그인 상태 저장
+    saveAuthState(true, user);
+
+    return user;
+  } catch (error) {
+    console.error('이메일 링크 로그인 오류:', error);
+    throw error;
+  }
+};
+
 /**
  * 브라우저 스토리지를 정리하는 함수
  */
@@ -17,23 +17,57 @@ import {
   Timestamp,
   DocumentData,
   QueryDocumentSnapshot,
+  QueryConstraint,
+  startAfter,
   runTransaction,
   increment,
-  setDoc
+  serverTimestamp,
+  setDoc,
+  onSnapshot,
+  Query,
+  Unsubscribe
 } from 'firebase/firestore';
 import { db } from './config';
-import type { Post, UIPost, Comment, UIComment } from '../../types/index';
+import { movePostToRecycleBin, moveCommentToRecycleBin } from './recycleBin';
+import { updateTagCounts } from './tags';
+import { notifyCommentCreated, notifyFollowersOfNewPost } from './notifications';
+import type { Post, UIPost, Comment, UIComment, PostSortOption, PostPeriodFilter, FollowSettings } from '../../types/index';
 
 // 컬렉션 및 문서 ID 상수
 const POSTS_COLLECTION = 'posts';
 const COMMENTS_COLLECTION = 'comments';
 const BOOKMARKS_COLLECTION = 'bookmarks';
+const POST_VIEWS_COLLECTION = 'postViews';
 const SETTINGS_COLLECTION = 'settings';
 const GLOBAL_SETTINGS_ID = 'global-settings';
 
 // 에러 발생 시 최대 재시도 횟수
 const MAX_RETRY_COUNT = 3;
 
+// 답글을 달 수 있는 최대 깊이 (최상위 댓글은 0, 더 깊은 답글은 같은 깊이의 답글로 등록)
+export const MAX_COMMENT_DEPTH = 2;
+
+// 게시판 목록 한 페이지의 기본 게시물 수
+const DEFAULT_PAGE_SIZE = 20;
+
+// 팔로잉 피드에 표시할 최대 게시물 수
+const FOLLOWING_FEED_SIZE = 50;
+
+// in / array-contains-any 조건 하나에 넣을 수 있는 최대 값 수
+const MAX_IN_QUERY_VALUES = 30;
+
+// 같은 사용자의 조회를 한 번으로 셀 시간 범위 (24시간)
+export const VIEW_COUNT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// 정렬 기준별 Firestore 정렬 필드와 방향
+const POST_SORT_FIELDS: Record<PostSortOption, { field: 'createdAt' | 'viewCount' | 'commentCount' | 'reactionCount'; direction: 'asc' | 'desc' }> = {
+  newest: { field: 'createdAt', direction: 'desc' },
+  oldest: { field: 'createdAt', direction: 'asc' },
+  views: { field: 'viewCount', direction: 'desc' },
+  comments: { field: 'commentCount', direction: 'desc' },
+  popular: { field: 'reactionCount', direction: 'desc' },
+};
+
 /**
  * 지수 백오프 지연 함수
  * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
@@ -66,6 +100,7 @@ const mapDocToPost = (doc: QueryDocumentSnapshot<DocumentData>): Post => {
     updatedAt: data.updatedAt || Timestamp.now(),
     commentCount: data.commentCount || 0,
     viewCount: data.viewCount || 0,
+    reactionCount: data.reactionCount || 0,
     isNew: data.createdAt ? 
       (Timestamp.now().toMillis() - data.createdAt.toMillis()) < 24 * 60 * 60 * 1000 
       : false,
@@ -87,6 +122,8 @@ export const convertToUIPost = (post: Post): UIPost => {
     authorId: post.authorId,
     date: post.createdAt.toDate().toISOString(),
     comments: post.commentCount,
+    views: post.viewCount || 0,
+    reactions: post.reactionCount || 0,
     isNew: post.isNew || false,
     tags: post.tags || [],
   };
@@ -106,6 +143,11 @@ const mapDocToComment = (doc: QueryDocumentSnapshot<DocumentData>): Comment => {
     content: data.content || '',
     author: data.author || { name: '알 수 없음' },
     authorId: data.authorId || '',
+    parentId: data.parentId || null,
+    rootId: data.rootId || null,
+    depth: typeof data.depth === 'number' ? data.depth : 0,
+    isDeleted: data.isDeleted === true,
+    mentions: Array.isArray(data.mentions) ? data.mentions : [],
     createdAt: data.createdAt || Timestamp.now(),
     updatedAt: data.updatedAt || Timestamp.now(),
   };
@@ -123,6 +165,11 @@ export const convertToUIComment = (comment: Comment): UIComment => {
     content: comment.content,
     author: comment.author || { name: '알 수 없음' },
     authorId: comment.authorId,
+    parentId: comment.parentId,
+    rootId: comment.rootId,
+    depth: comment.depth,
+    isDeleted: comment.isDeleted,
+    mentions: comment.mentions,
     date: comment.createdAt.toDate().toISOString(),
   };
 };
@@ -257,6 +304,337 @@ export const fetchPostsByTag = async (tag: string): Promise<UIPost[]> => {
   throw new Error(`${tag} 태그 게시물을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.`);
 };
 
+/**
+ * 특정 사용자가 작성한 게시물을 가져오는 함수 (작성자 페이지용)
+ * @param authorId 작성자 ID
+ * @returns 작성일 내림차순 게시물 목록
+ */
+export const fetchPostsByAuthor = async (authorId: string): Promise<UIPost[]> => {
+  let attempts = 0;
+  
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+      
+      const q = query(
+        collection(db, POSTS_COLLECTION),
+        where('authorId', '==', authorId),
+        orderBy('createdAt', 'desc')
+      );
+      
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(mapDocToPost).map(convertToUIPost);
+    } catch (error: any) {
+      console.error(`작성자 게시물 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+      
+      // Firebase 인덱스 오류 처리
+      if (error.code === 'failed-precondition' || error.message?.includes('requires an index')) {
+        const indexUrl = error.message?.match(/https:\/\/console\.firebase\.google\.com[^\s"]*/)?.[0];
+        const indexMessage = indexUrl 
+          ? `Firebase 복합 인덱스가 필요합니다. 다음 링크에서 인덱스를 생성해주세요: ${indexUrl}`
+          : 'Firebase 복합 인덱스가 필요합니다. Firebase 콘솔에서 인덱스를 생성해주세요.';
+        
+        console.error(indexMessage);
+        throw new Error(`작성자 게시물 조회를 위한 ${indexMessage}`);
+      }
+      
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('작성자의 게시물을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+      
+      await delay(attempts);
+    }
+  }
+  
+  throw new Error('작성자의 게시물을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 기간 필터의 시작 시각을 계산하는 함수 (로컬 시간 기준)
+ * @param period 기간 필터
+ * @returns 시작 시각 (전체 기간이면 null)
+ */
+const getPeriodStart = (period: PostPeriodFilter): Date | null => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (period) {
+    case 'today':
+      return today;
+    case 'week': {
+      // 이번 주 월요일 0시
+      const daysSinceMonday = (today.getDay() + 6) % 7;
+      today.setDate(today.getDate() - daysSinceMonday);
+      return today;
+    }
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    default:
+      return null;
+  }
+};
+
+/**
+ * 게시물 목록을 정렬 기준에 따라 정렬하는 함수
+ * 값이 같으면 최신 게시물을 먼저 표시합니다.
+ * @param posts 게시물 목록
+ * @param sort 정렬 기준
+ * @returns 정렬된 새 게시물 목록
+ */
+const sortPosts = (posts: UIPost[], sort: PostSortOption): UIPost[] => {
+  const { field, direction } = POST_SORT_FIELDS[sort];
+  const getValue = (post: UIPost) =>
+    field === 'createdAt' ? Date.parse(post.date)
+      : field === 'viewCount' ? post.views
+      : field === 'reactionCount' ? post.reactions
+      : post.comments;
+
+  return [...posts].sort((a, b) => {
+    const diff = direction === 'asc' ? getValue(a) - getValue(b) : getValue(b) - getValue(a);
+    return diff !== 0 ? diff : Date.parse(b.date) - Date.parse(a.date);
+  });
+};
+
+/**
+ * 이미 불러온 게시물 목록에 기간 필터와 정렬 기준을 적용하는 함수
+ * 북마크 목록처럼 Firestore 쿼리로 필터링할 수 없는 목록에 사용합니다.
+ * @param posts 게시물 목록
+ * @param options 정렬 기준 및 기간 필터
+ * @returns 필터링 및 정렬된 새 게시물 목록
+ */
+export const filterAndSortPosts = (
+  posts: UIPost[],
+  { sort = 'newest', period = 'all' }: { sort?: PostSortOption; period?: PostPeriodFilter }
+): UIPost[] => {
+  const periodStart = getPeriodStart(period);
+  const filtered = periodStart
+    ? posts.filter(post => Date.parse(post.date) >= periodStart.getTime())
+    : posts;
+  return sortPosts(filtered, sort);
+};
+
+/**
+ * 카테고리/태그, 기간 필터와 정렬 기준을 적용하여 게시물을 한 페이지씩 가져오는 함수
+ * 필터와 정렬은 Firestore 쿼리로 처리하고 startAfter 커서로 다음 페이지를 이어서 조회합니다.
+ * 기간 필터와 조회순/댓글순/인기순 정렬을 함께 쓰면 작성일 범위 조건과 정렬 필드의 복합 인덱스가 필요합니다.
+ * 정렬 필드가 없는 이전 게시물은 관리자 페이지 접속 시 0으로 채워집니다 (backfillPostSortCountersAdmin).
+ * @param options 조회 옵션 (태그가 있으면 카테고리보다 우선, lastVisible은 이전 페이지의 마지막 문서)
+ * @returns 게시물 목록과 페이지네이션 정보
+ */
+export const fetchPostsPage = async (options: {
+  category?: string;
+  tag?: string;
+  sort?: PostSortOption;
+  period?: PostPeriodFilter;
+  pageSize?: number;
+  lastVisible?: QueryDocumentSnapshot<DocumentData>;
+} = {}): Promise<{
+  posts: UIPost[];
+  pagination: { lastVisible: QueryDocumentSnapshot<DocumentData> | undefined; hasMore: boolean };
+}> => {
+  const { category, tag, sort = 'newest', period = 'all', pageSize = DEFAULT_PAGE_SIZE, lastVisible } = options;
+  const sortField = POST_SORT_FIELDS[sort];
+  const periodStart = getPeriodStart(period);
+  let attempts = 0;
+
+  // 조회 쿼리 생성
+  const buildQuery = () => {
+    const constraints: QueryConstraint[] = [];
+    if (tag) {
+      constraints.push(where('tags', 'array-contains', tag));
+    } else if (category && category !== 'all') {
+      constraints.push(where('category', '==', category));
+    }
+    if (periodStart) {
+      constraints.push(where('createdAt', '>=', Timestamp.fromDate(periodStart)));
+    }
+    constraints.push(orderBy(sortField.field, sortField.direction));
+    if (lastVisible) {
+      constraints.push(startAfter(lastVisible));
+    }
+    constraints.push(limit(pageSize));
+    return query(collection(db, POSTS_COLLECTION), ...constraints);
+  };
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const querySnapshot = await getDocs(buildQuery());
+      const posts = querySnapshot.docs.map(mapDocToPost).map(convertToUIPost);
+
+      return {
+        posts,
+        pagination: {
+          lastVisible: querySnapshot.docs[querySnapshot.docs.length - 1],
+          hasMore: querySnapshot.docs.length === pageSize
+        }
+      };
+    } catch (error: any) {
+      console.error(`게시물 목록 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      // Firebase 인덱스 오류 처리
+      if (error.code === 'failed-precondition' || error.message?.includes('requires an index')) {
+        const indexUrl = error.message?.match(/https:\/\/console\.firebase\.google\.com[^\s"]*/)?.[0];
+        const indexMessage = indexUrl
+          ? `Firebase 복합 인덱스가 필요합니다. 다음 링크에서 인덱스를 생성해주세요: ${indexUrl}`
+          : 'Firebase 복합 인덱스가 필요합니다. Firebase 콘솔에서 인덱스를 생성해주세요.';
+
+        console.error(indexMessage);
+        throw new Error(`게시물 목록 조회를 위한 ${indexMessage}`);
+      }
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('게시물 목록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('게시물 목록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 최신 게시물 목록을 실시간으로 구독하는 함수
+ * 필터에 맞는 게시물을 작성일 내림차순으로 pageSize개까지 구독하며,
+ * 게시물이 작성·수정될 때마다 최신 목록을 전달합니다.
+ * @param options 구독 옵션 (카테고리, 태그, 구독할 게시물 수)
+ * @param onChange 최신 게시물 목록을 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToLatestPosts = (
+  options: { category?: string; tag?: string; pageSize?: number },
+  onChange: (posts: UIPost[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const { category, tag, pageSize = DEFAULT_PAGE_SIZE } = options;
+  const constraints: QueryConstraint[] = [];
+  if (tag) {
+    constraints.push(where('tags', 'array-contains', tag));
+  } else if (category && category !== 'all') {
+    constraints.push(where('category', '==', category));
+  }
+  constraints.push(orderBy('createdAt', 'desc'), limit(pageSize));
+
+  return onSnapshot(
+    query(collection(db, POSTS_COLLECTION), ...constraints),
+    querySnapshot => {
+      onChange(querySnapshot.docs.map(mapDocToPost).map(convertToUIPost));
+    },
+    error => {
+      console.error('게시물 실시간 구독 오류:', error);
+      onError?.(new Error('새 게시물을 실시간으로 확인하지 못했습니다.'));
+    }
+  );
+};
+
+/**
+ * 팔로잉 피드 조회 쿼리를 만드는 함수
+ * 카테고리, 태그, 작성자별로 최신 게시물을 조회하며, 값이 많으면 여러 쿼리로 나눕니다.
+ * @param follows 팔로우 설정
+ * @returns 작성일 내림차순 쿼리 목록 (팔로우한 항목이 없으면 빈 배열)
+ */
+const buildFollowingFeedQueries = (follows: FollowSettings): Query<DocumentData>[] => {
+  const queries: Query<DocumentData>[] = [];
+  const addQueries = (field: string, operator: 'in' | 'array-contains-any', values: string[]) => {
+    for (let i = 0; i < values.length; i += MAX_IN_QUERY_VALUES) {
+      queries.push(query(
+        collection(db, POSTS_COLLECTION),
+        where(field, operator, values.slice(i, i + MAX_IN_QUERY_VALUES)),
+        orderBy('createdAt', 'desc'),
+        limit(FOLLOWING_FEED_SIZE)
+      ));
+    }
+  };
+
+  addQueries('category', 'in', follows.categories);
+  addQueries('tags', 'array-contains-any', follows.tags);
+  addQueries('authorId', 'in', follows.authors);
+  return queries;
+};
+
+/**
+ * 쿼리별 결과를 하나의 팔로잉 피드로 합치는 함수 (중복 제거 후 최신순)
+ * @param postGroups 쿼리별 게시물 목록
+ * @returns 최대 FOLLOWING_FEED_SIZE 개의 게시물 목록
+ */
+const mergeFollowingFeed = (postGroups: UIPost[][]): UIPost[] => {
+  const postsById = new Map<string, UIPost>();
+  postGroups.forEach(posts => posts.forEach(post => postsById.set(post.id, post)));
+  return sortPosts(Array.from(postsById.values()), 'newest').slice(0, FOLLOWING_FEED_SIZE);
+};
+
+/**
+ * 팔로우한 카테고리, 태그, 작성자의 게시물을 하나의 피드로 가져오는 함수
+ * 실패 시 최대 MAX_RETRY_COUNT 회까지 재시도합니다.
+ * @param follows 팔로우 설정
+ * @returns 최신순으로 정렬된 최근 게시물 목록 (최대 FOLLOWING_FEED_SIZE 개)
+ */
+export const fetchFollowingFeed = async (follows: FollowSettings): Promise<UIPost[]> => {
+  const queries = buildFollowingFeedQueries(follows);
+  if (queries.length === 0) {
+    return [];
+  }
+
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const snapshots = await Promise.all(queries.map(q => getDocs(q)));
+      return mergeFollowingFeed(
+        snapshots.map(querySnapshot => querySnapshot.docs.map(mapDocToPost).map(convertToUIPost))
+      );
+    } catch (error) {
+      console.error(`팔로잉 피드 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('팔로잉 피드를 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('팔로잉 피드를 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 팔로잉 피드를 실시간으로 구독하는 함수
+ * 피드를 이루는 모든 쿼리의 첫 결과를 받은 뒤부터 합친 목록을 전달합니다.
+ * @param follows 팔로우 설정
+ * @param onChange 최신순 피드를 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToFollowingFeed = (
+  follows: FollowSettings,
+  onChange: (posts: UIPost[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const queries = buildFollowingFeedQueries(follows);
+  const results: (UIPost[] | undefined)[] = queries.map(() => undefined);
+
+  const unsubscribes = queries.map((q, index) => onSnapshot(
+    q,
+    querySnapshot => {
+      results[index] = querySnapshot.docs.map(mapDocToPost).map(convertToUIPost);
+      if (results.every(posts => posts !== undefined)) {
+        onChange(mergeFollowingFeed(results as UIPost[][]));
+      }
+    },
+    error => {
+      console.error('팔로잉 피드 실시간 구독 오류:', error);
+      onError?.(new Error('팔로잉 피드를 실시간으로 확인하지 못했습니다.'));
+    }
+  ));
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
 /**
  * 게시물 상세 정보를 가져오는 함수
  */
@@ -291,8 +669,53 @@ export const fetchPostById = async (postId: string): Promise<UIPost | null> => {
   throw new Error(`게시물 상세 정보를 가져오지 못했습니다. 잠시 후 다시 시도해주세요.`);
 };
 
+/**
+ * 게시물 조회를 기록하고 조회수를 증가시키는 함수
+ * 같은 사용자가 VIEW_COUNT_WINDOW_MS 안에 다시 연 경우에는 조회수를 올리지 않습니다.
+ * @param postId 게시물 ID
+ * @param userId 조회한 사용자 ID (게스트 포함)
+ * @returns 조회수가 증가했는지 여부
+ */
+export const recordPostView = async (postId: string, userId: string): Promise<boolean> => {
+  try {
+    if (!postId || !userId) {
+      throw new Error('게시물 ID와 사용자 ID는 필수입니다.');
+    }
+
+    const postRef = doc(db, POSTS_COLLECTION, postId);
+    // 사용자별 마지막 조회 기록 (문서 ID: 게시물ID_사용자ID)
+    const viewRef = doc(db, POST_VIEWS_COLLECTION, `${postId}_${userId}`);
+
+    return await runTransaction(db, async (transaction) => {
+      const viewSnap = await transaction.get(viewRef);
+      const now = Timestamp.now();
+
+      if (viewSnap.exists()) {
+        const lastViewedAt = viewSnap.data().viewedAt as Timestamp | undefined;
+        if (lastViewedAt && now.toMillis() - lastViewedAt.toMillis() < VIEW_COUNT_WINDOW_MS) {
+          return false;
+        }
+      }
+
+      const postSnap = await transaction.get(postRef);
+      if (!postSnap.exists()) {
+        return false;
+      }
+
+      // 보안 규칙이 조회 기록과 함께 조회수를 1만 올리는지 확인하도록 조회 시간은 서버 시간으로 기록
+      transaction.set(viewRef, { postId, userId, viewedAt: serverTimestamp() });
+      transaction.update(postRef, { viewCount: increment(1) });
+      return true;
+    });
+  } catch (error) {
+    console.error('게시물 조회 기록 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '게시물 조회를 기록하지 못했습니다.');
+  }
+};
+
 /**
  * 새 게시물을 생성하는 함수
+ * 게시물의 카테고리, 태그 또는 작성자를 팔로우한 사용자에게 새 게시물 알림을 보냅니다.
  */
 export const createPost = async (postData: Partial<Post>): Promise<string> => {
   try {
@@ -313,6 +736,17 @@ export const createPost = async (postData: Partial<Post>): Promise<string> => {
       updatedAt: Timestamp.now(),
       commentCount: 0,
       viewCount: 0,
+      reactionCount: 0,
+    });
+    
+    await updateTagCounts([], tags);
+    await notifyFollowersOfNewPost({
+      postId: docRef.id,
+      title,
+      category,
+      tags,
+      authorId,
+      authorName: author.name
     });
     
     return docRef.id;
@@ -335,17 +769,19 @@ export const updatePost = async (postId: string | number, postData: Partial<Post
     const postIdString = typeof postId === 'number' ? postId.toString() : postId;
     const docRef = doc(db, POSTS_COLLECTION, postIdString);
     
-    // 작성자 권한 확인 (userId가 제공된 경우에만)
-    if (userId) {
+    // 작성자 권한 확인 (userId가 제공된 경우) 및 태그 인덱스 갱신을 위한 기존 태그 조회
+    let previousTags: string[] | null = null;
+    if (userId || 'tags' in postData) {
       const docSnap = await getDoc(docRef);
       if (!docSnap.exists()) {
         throw new Error('게시물을 찾을 수 없습니다.');
       }
       
       const postAuthorId = docSnap.data().authorId;
-      if (postAuthorId !== userId) {
+      if (userId && postAuthorId !== userId) {
         throw new Error('자신이 작성한 게시물만 수정할 수 있습니다.');
       }
+      previousTags = docSnap.data().tags || [];
     }
     
     const updateData: Record<string, any> = { ...postData };
@@ -369,6 +805,10 @@ export const updatePost = async (postId: string | number, postData: Partial<Post
     delete updateData.id;
     
     await updateDoc(docRef, updateData);
+    
+    if (previousTags && Array.isArray(updateData.tags)) {
+      await updateTagCounts(previousTags, updateData.tags);
+    }
   } catch (error) {
     console.error('게시물 수정 오류:', error);
     throw new Error(error instanceof Error ? error.message : '게시물을 수정하지 못했습니다. 잠시 후 다시 시도해주세요.');
@@ -377,6 +817,7 @@ export const updatePost = async (postId: string | number, postData: Partial<Post
 
 /**
  * 게시물을 삭제하는 함수
+ * 게시물과 댓글은 휴지통으로 이동하며, 작성자가 휴지통에서 복원할 수 있습니다.
  * @param postId 삭제할 게시물 ID
  * @param userId 현재 로그인한 사용자 ID
  * @returns 삭제 완료 Promise
@@ -400,7 +841,10 @@ export const deletePost = async (postId: string | number, userId?: string): Prom
       }
     }
     
-    await deleteDoc(docRef);
+    const moved = await movePostToRecycleBin(postIdString, userId ?? '');
+    if (!moved) {
+      throw new Error('게시물을 찾을 수 없습니다.');
+    }
   } catch (error) {
     console.error('게시물 삭제 오류:', error);
     throw new Error(error instanceof Error ? error.message : '게시물을 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.');
@@ -496,8 +940,91 @@ export const fetchCommentsByPostId = async (postId: string): Promise<UIComment[]
   throw new Error(`댓글을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.`);
 };
 
+/**
+ * 특정 사용자가 작성한 댓글을 가져오는 함수 (작성자 페이지용)
+ * 자리 표시로 남은 삭제된 댓글은 제외합니다.
+ * @param authorId 작성자 ID
+ * @returns 작성일 내림차순 댓글 목록
+ */
+export const fetchCommentsByAuthor = async (authorId: string): Promise<UIComment[]> => {
+  let attempts = 0;
+  
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+      
+      const q = query(
+        collection(db, COMMENTS_COLLECTION),
+        where('authorId', '==', authorId),
+        orderBy('createdAt', 'desc')
+      );
+      
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs
+        .map(mapDocToComment)
+        .filter(comment => !comment.isDeleted)
+        .map(convertToUIComment);
+    } catch (error: any) {
+      console.error(`작성자 댓글 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+      
+      // Firebase 인덱스 오류 처리
+      if (error.code === 'failed-precondition' || error.message?.includes('requires an index')) {
+        const indexUrl = error.message?.match(/https:\/\/console\.firebase\.google\.com[^\s"]*/)?.[0];
+        const indexMessage = indexUrl 
+          ? `Firebase 복합 인덱스가 필요합니다. 다음 링크에서 인덱스를 생성해주세요: ${indexUrl}`
+          : 'Firebase 복합 인덱스가 필요합니다. Firebase 콘솔에서 인덱스를 생성해주세요.';
+        
+        console.error(indexMessage);
+        throw new Error(`작성자 댓글 조회를 위한 ${indexMessage}`);
+      }
+      
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('작성자의 댓글을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+      
+      await delay(attempts);
+    }
+  }
+  
+  throw new Error('작성자의 댓글을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 게시물의 댓글 목록을 실시간으로 구독하는 함수
+ * 댓글이 작성·수정·삭제될 때마다 작성일 오름차순의 전체 댓글 목록을 전달합니다.
+ * @param postId 게시물 ID
+ * @param onChange 댓글 목록을 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToComments = (
+  postId: string,
+  onChange: (comments: UIComment[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, COMMENTS_COLLECTION),
+    where('postId', '==', postId),
+    orderBy('createdAt', 'asc')
+  );
+
+  return onSnapshot(
+    q,
+    querySnapshot => {
+      onChange(querySnapshot.docs.map(mapDocToComment).map(convertToUIComment));
+    },
+    error => {
+      console.error('댓글 실시간 구독 오류:', error);
+      onError?.(new Error('댓글을 실시간으로 불러오지 못했습니다.'));
+    }
+  );
+};
+
 /**
  * 새 댓글을 생성하는 함수
+ * parentId를 지정하면 해당 댓글의 답글로 등록되며, 답글도 게시물의 댓글 수에 포함됩니다.
+ * 내용은 마크다운으로 저장되며, mentions에는 @멘션한 사용자 ID를 전달합니다.
+ * 등록 후 게시물 작성자, 부모 댓글 작성자, 멘션한 사용자에게 알림을 보냅니다.
  * @param commentData 댓글 데이터
  * @returns 생성된 댓글 ID
  */
@@ -506,17 +1033,52 @@ export const createComment = async (commentData: {
   content: string; 
   author: { name: string; photoURL?: string }; 
   authorId: string;
+  parentId?: string | null;
+  mentions?: string[];
 }): Promise<string> => {
   try {
-    const { postId, content, author, authorId } = commentData;
+    const { postId, content, author, authorId, parentId = null, mentions = [] } = commentData;
     
     if (!postId || !content || !author || !authorId) {
       throw new Error('필수 필드가 누락되었습니다.');
     }
     
     // 트랜잭션을 사용하여 댓글 추가 및 게시물의 댓글 수 증가를 원자적으로 처리
-    return await runTransaction(db, async (transaction) => {
-      // 1. 새 댓글 문서 생성
+    const postRef = doc(db, POSTS_COLLECTION, postId);
+    const created = await runTransaction(db, async (transaction) => {
+      const postSnap = await transaction.get(postRef);
+      if (!postSnap.exists()) {
+        throw new Error('게시물을 찾을 수 없습니다.');
+      }
+
+      // 1. 답글이면 부모 댓글 확인 (최대 깊이를 넘으면 부모와 같은 깊이의 답글로 등록)
+      let threadParentId: string | null = null;
+      let rootId: string | null = null;
+      let parentAuthorId: string | null = null;
+      let depth = 0;
+      if (parentId) {
+        const parentSnap = await transaction.get(doc(db, COMMENTS_COLLECTION, parentId));
+        if (!parentSnap.exists() || parentSnap.data().postId !== postId) {
+          throw new Error('답글을 달 댓글을 찾을 수 없습니다.');
+        }
+        if (parentSnap.data().isDeleted === true) {
+          throw new Error('삭제된 댓글에는 답글을 달 수 없습니다.');
+        }
+
+        parentAuthorId = parentSnap.data().authorId || null;
+        // 최상위 댓글의 답글이면 부모가, 아니면 부모의 스레드 최상위 댓글이 최상위 댓글
+        rootId = parentSnap.data().rootId || parentId;
+        const parentDepth: number = typeof parentSnap.data().depth === 'number' ? parentSnap.data().depth : 0;
+        if (parentDepth < MAX_COMMENT_DEPTH) {
+          threadParentId = parentId;
+          depth = parentDepth + 1;
+        } else {
+          threadParentId = parentSnap.data().parentId || null;
+          depth = parentDepth;
+        }
+      }
+
+      // 2. 새 댓글 문서 생성
       const commentRef = doc(collection(db, COMMENTS_COLLECTION));
       
       transaction.set(commentRef, {
@@ -524,19 +1086,40 @@ export const createComment = async (commentData: {
         content,
         author,
         authorId,
+        parentId: threadParentId,
+        rootId,
+        depth,
+        mentions,
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
       });
       
-      // 2. 게시물의 댓글 수 증가
-      const postRef = doc(db, POSTS_COLLECTION, postId);
+      // 3. 게시물의 댓글 수 증가 (답글 포함, 보안 규칙이 확인할 수 있도록 변경한 댓글 ID도 기록)
       transaction.update(postRef, {
         commentCount: increment(1),
+        commentChangeId: commentRef.id,
         updatedAt: Timestamp.now()
       });
       
-      return commentRef.id;
+      return {
+        commentId: commentRef.id,
+        postTitle: postSnap.data().title || '',
+        postAuthorId: postSnap.data().authorId || '',
+        parentAuthorId
+      };
+    });
+
+    // 4. 게시물/부모 댓글 작성자와 멘션한 사용자에게 알림
+    await notifyCommentCreated({
+      ...created,
+      postId,
+      content,
+      mentions,
+      actorId: authorId,
+      actorName: author.name
     });
+
+    return created.commentId;
   } catch (error) {
     console.error('댓글 생성 오류:', error);
     throw new Error(error instanceof Error ? error.message : '댓글을 생성하지 못했습니다. 잠시 후 다시 시도해주세요.');
@@ -548,9 +1131,10 @@ export const createComment = async (commentData: {
  * @param commentId 수정할 댓글 ID
  * @param content 새 댓글 내용
  * @param userId 현재 로그인한 사용자 ID
+ * @param mentions 수정한 내용에서 @멘션한 사용자 ID 목록
  * @returns 수정 완료 Promise
  */
-export const updateComment = async (commentId: string, content: string, userId: string): Promise<void> => {
+export const updateComment = async (commentId: string, content: string, userId: string, mentions: string[] = []): Promise<void> => {
   try {
     const commentRef = doc(db, COMMENTS_COLLECTION, commentId);
     
@@ -565,6 +1149,10 @@ export const updateComment = async (commentId: string, content: string, userId:
       throw new Error('자신이 작성한 댓글만 수정할 수 있습니다.');
     }
     
+    if (commentSnap.data().isDeleted === true) {
+      throw new Error('삭제된 댓글은 수정할 수 없습니다.');
+    }
+    
     // 댓글 내용이 비어있는지 확인
     if (!content.trim()) {
       throw new Error('댓글 내용을 입력해주세요.');
@@ -572,6 +1160,7 @@ export const updateComment = async (commentId: string, content: string, userId:
     
     await updateDoc(commentRef, {
       content,
+      mentions,
       updatedAt: Timestamp.now()
     });
   } catch (error) {
@@ -582,6 +1171,7 @@ export const updateComment = async (commentId: string, content: string, userId:
 
 /**
  * 댓글을 삭제하는 함수
+ * 댓글은 휴지통으로 이동하며, 작성자가 휴지통에서 복원할 수 있습니다.
  * @param commentId 삭제할 댓글 ID
  * @param postId 게시물 ID
  * @param userId 현재 로그인한 사용자 ID
@@ -602,18 +1192,16 @@ export const deleteComment = async (commentId: string, postId: string, userId: s
       throw new Error('자신이 작성한 댓글만 삭제할 수 있습니다.');
     }
     
-    // 트랜잭션을 사용하여 댓글 삭제 및 게시물의 댓글 수 감소를 원자적으로 처리
-    await runTransaction(db, async (transaction) => {
-      // 1. 댓글 삭제
-      transaction.delete(commentRef);
-      
-      // 2. 게시물의 댓글 수 감소
-      const postRef = doc(db, POSTS_COLLECTION, postId);
-      transaction.update(postRef, {
-        commentCount: increment(-1),
-        updatedAt: Timestamp.now()
-      });
-    });
+    if (commentSnap.data().postId !== postId) {
+      throw new Error('해당 게시물의 댓글이 아닙니다.');
+    }
+    
+    if (commentSnap.data().isDeleted === true) {
+      throw new Error('이미 삭제된 댓글입니다.');
+    }
+    
+    // 휴지통 이동 및 게시물의 댓글 수 감소 (트랜잭션으로 처리, 답글이 있으면 자리 표시만 남김)
+    await moveCommentToRecycleBin(commentId, userId);
   } catch (error) {
     console.error('댓글 삭제 오류:', error);
     throw new Error(error instanceof Error ? error.message : '댓글을 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.');
@@ -713,6 +1301,33 @@ export const isBookmarked = async (userId: string, postId: string): Promise<bool
   }
 };
 
+/**
+ * 게시물 ID 목록에 해당하는 게시물들을 가져오는 함수
+ * 삭제되었거나 조회에 실패한 게시물은 제외하며, 전달한 ID 순서를 유지합니다.
+ * @param postIds 게시물 ID 목록
+ * @returns 게시물 목록
+ */
+export const fetchPostsByIds = async (postIds: string[]): Promise<UIPost[]> => {
+  const postsPromises = postIds.map(async (postId) => {
+    try {
+      const postDoc = await getDoc(doc(db, POSTS_COLLECTION, postId));
+      if (postDoc.exists()) {
+        const post = mapDocToPost(postDoc as QueryDocumentSnapshot<DocumentData>);
+        return convertToUIPost(post);
+      }
+      return null;
+    } catch (error) {
+      console.error(`게시물 ID ${postId} 조회 오류:`, error);
+      return null;
+    }
+  });
+
+  const posts = await Promise.all(postsPromises);
+
+  // null 값 필터링
+  return posts.filter((post): post is UIPost => post !== null);
+};
+
 /**
  * 사용자가 북마크한 게시물 목록을 가져오는 함수
  * @param userId 사용자 ID
@@ -751,24 +1366,7 @@ export const fetchBookmarkedPosts = async (userId: string): Promise<UIPost[]> =>
       }
       
       // 4. 각 게시물 정보 조회
-      const postsPromises = postIds.map(async (postId) => {
-        try {
-          const postDoc = await getDoc(doc(db, POSTS_COLLECTION, postId));
-          if (postDoc.exists()) {
-            const post = mapDocToPost(postDoc as QueryDocumentSnapshot<DocumentData>);
-            return convertToUIPost(post);
-          }
-          return null;
-        } catch (error) {
-          console.error(`게시물 ID ${postId} 조회 오류:`, error);
-          return null;
-        }
-      });
-      
-      const posts = await Promise.all(postsPromises);
-      
-      // null 값 필터링
-      return posts.filter((post): post is UIPost => post !== null);
+      return await fetchPostsByIds(postIds);
     } catch (error: any) {
       console.error(`북마크 게시물 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
       
@@ -847,6 +1445,37 @@ export const fetchPostsByDateRange = async (startDate: string, endDate: string):
   throw new Error(`기간 내 게시물을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.`);
 };
 
+/**
+ * 사용자의 북마크 목록을 실시간으로 구독하는 함수
+ * 북마크가 추가·삭제될 때마다 최근 북마크 순의 게시물 ID 목록을 전달합니다.
+ * @param userId 사용자 ID
+ * @param onChange 북마크한 게시물 ID 목록을 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToBookmarkedPostIds = (
+  userId: string,
+  onChange: (postIds: string[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, BOOKMARKS_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc')
+  );
+
+  return onSnapshot(
+    q,
+    querySnapshot => {
+      onChange(querySnapshot.docs.map(bookmarkDoc => bookmarkDoc.data().postId as string));
+    },
+    error => {
+      console.error('북마크 실시간 구독 오류:', error);
+      onError?.(new Error('북마크를 실시간으로 불러오지 못했습니다.'));
+    }
+  );
+};
+
 /**
  * 특정 기간 내에 수정된 게시물을 조회하는 함수
  * @param startDate 시작 날짜 (ISO 문자열)
@@ -0,0 +1,158 @@
+/**
+ * 팔로우 관련 함수
+ * 사용자별로 팔로우한 카테고리, 태그, 작성자를 Firestore에 저장하고, 새 게시물 알림을 받을 사용자를 찾습니다.
+ */
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  onSnapshot,
+  arrayUnion,
+  arrayRemove,
+  Timestamp,
+  DocumentData,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db } from './config';
+import { FOLLOW_FIELDS, isInFollowingFeed } from '../../utils/follows';
+import type { FollowSettings, FollowTargetType } from '../../types/index';
+
+// 컬렉션 이름 상수 (문서 ID는 사용자 ID)
+const FOLLOWS_COLLECTION = 'follows';
+
+// 에러 발생 시 최대 재시도 횟수
+const MAX_RETRY_COUNT = 3;
+
+/**
+ * 지수 백오프 지연 함수
+ * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
+ */
+const delay = (attempts: number) => {
+  return new Promise(resolve => {
+    const waitTime = Math.pow(2, attempts - 1) * 1000;
+    setTimeout(resolve, waitTime);
+  });
+};
+
+/**
+ * Firestore 문서 데이터를 팔로우 설정으로 변환하는 함수
+ * @param data 문서 데이터
+ * @returns FollowSettings 객체
+ */
+const mapDataToFollows = (data: DocumentData): FollowSettings => ({
+  categories: Array.isArray(data.categories) ? data.categories : [],
+  tags: Array.isArray(data.tags) ? data.tags : [],
+  authors: Array.isArray(data.authors) ? data.authors : [],
+});
+
+/**
+ * 사용자의 팔로우 설정을 실시간으로 구독하는 함수
+ * @param userId 사용자 ID
+ * @param onChange 팔로우 설정을 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToFollows = (
+  userId: string,
+  onChange: (follows: FollowSettings) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    doc(db, FOLLOWS_COLLECTION, userId),
+    docSnap => {
+      onChange(mapDataToFollows(docSnap.exists() ? docSnap.data() : {}));
+    },
+    error => {
+      console.error('팔로우 실시간 구독 오류:', error);
+      onError?.(new Error('팔로우 목록을 불러오지 못했습니다.'));
+    }
+  );
+};
+
+/**
+ * 카테고리, 태그 또는 작성자를 팔로우하거나 팔로우를 취소하는 함수
+ * @param userId 사용자 ID
+ * @param targetType 팔로우 대상 종류
+ * @param targetId 카테고리 ID, 태그 또는 작성자 ID
+ * @param follow 팔로우하면 true, 취소하면 false
+ * @returns 변경 완료 Promise
+ */
+export const setFollow = async (
+  userId: string,
+  targetType: FollowTargetType,
+  targetId: string,
+  follow: boolean
+): Promise<void> => {
+  try {
+    if (!userId || !targetId) {
+      throw new Error('필수 필드가 누락되었습니다.');
+    }
+    if (targetType === 'author' && targetId === userId) {
+      throw new Error('자기 자신은 팔로우할 수 없습니다.');
+    }
+
+    await setDoc(doc(db, FOLLOWS_COLLECTION, userId), {
+      userId,
+      [FOLLOW_FIELDS[targetType]]: follow ? arrayUnion(targetId) : arrayRemove(targetId),
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+  } catch (error) {
+    console.error('팔로우 변경 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '팔로우 설정을 변경하지 못했습니다.');
+  }
+};
+
+/**
+ * 게시물이 팔로잉 피드에 들어가는 사용자 ID 목록을 가져오는 함수
+ * 카테고리, 태그, 작성자별로 팔로워를 조회한 뒤 팔로잉 피드와 같은 기준으로 확인합니다.
+ * 실패 시 최대 MAX_RETRY_COUNT 회까지 재시도합니다.
+ * @param post 게시물 (카테고리, 태그, 작성자 ID)
+ * @returns 팔로워 사용자 ID 목록 (작성자 본인 제외)
+ */
+export const fetchPostFollowerIds = async (post: {
+  category: string;
+  tags: string[];
+  authorId: string;
+}): Promise<string[]> => {
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const followsCollection = collection(db, FOLLOWS_COLLECTION);
+      const queries = [
+        query(followsCollection, where('categories', 'array-contains', post.category)),
+        query(followsCollection, where('authors', 'array-contains', post.authorId)),
+      ];
+      // array-contains-any는 한 번에 최대 30개 값까지 비교 가능
+      for (let i = 0; i < post.tags.length; i += 30) {
+        queries.push(query(followsCollection, where('tags', 'array-contains-any', post.tags.slice(i, i + 30))));
+      }
+
+      const snapshots = await Promise.all(queries.map(q => getDocs(q)));
+      const followerIds = new Set<string>();
+      snapshots.forEach(querySnapshot => {
+        querySnapshot.docs.forEach(docSnap => {
+          if (docSnap.id !== post.authorId && isInFollowingFeed(post, mapDataToFollows(docSnap.data()))) {
+            followerIds.add(docSnap.id);
+          }
+        });
+      });
+      return Array.from(followerIds);
+    } catch (error) {
+      console.error(`팔로워 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('팔로워 목록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('팔로워 목록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
@@ -0,0 +1,296 @@
+/**
+ * 알림 관련 함수
+ * 댓글, 답글, @멘션, 반응, 팔로잉 피드의 새 게시물을 받는 사용자별 알림으로 기록합니다.
+ * 알림 기록은 본 작업(댓글 작성 등)이 끝난 뒤 수행하며, 실패해도 본 작업을 되돌리지 않습니다.
+ */
+import {
+  collection,
+  doc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db } from './config';
+import { fetchPostFollowerIds } from './follows';
+import type { Notification, UINotification, NotificationType, ReactionType } from '../../types/index';
+
+// 컬렉션 이름 상수
+const NOTIFICATIONS_COLLECTION = 'notifications';
+
+// 알림 센터에 표시할 최근 알림 수
+const NOTIFICATION_LIMIT = 50;
+
+// 미리보기 문구 최대 길이
+const PREVIEW_LENGTH = 80;
+
+// 한 번의 일괄 쓰기에 담을 최대 문서 수 (Firestore 제한 500)
+const BATCH_SIZE = 400;
+
+// 알림 종류 목록 (저장된 값 검증용)
+const NOTIFICATION_TYPES: NotificationType[] = ['comment', 'reply', 'mention', 'reaction', 'followedPost'];
+
+// 새로 기록할 알림 (ID, 읽음 여부, 생성 시간 제외)
+type NotificationInput = Omit<Notification, 'id' | 'isRead' | 'createdAt'>;
+
+/**
+ * Firestore 문서를 알림 객체로 변환하는 함수
+ * @param doc Firestore 문서 스냅샷
+ * @returns Notification 객체
+ */
+const mapDocToNotification = (doc: QueryDocumentSnapshot<DocumentData>): Notification => {
+  const data = doc.data();
+
+  return {
+    id: doc.id,
+    recipientId: data.recipientId || '',
+    type: NOTIFICATION_TYPES.includes(data.type) ? data.type : 'comment',
+    postId: data.postId || '',
+    postTitle: data.postTitle || '',
+    commentId: data.commentId || null,
+    actorId: data.actorId || '',
+    actorName: data.actorName || '알 수 없음',
+    preview: data.preview || '',
+    reactionType: data.reactionType || null,
+    isRead: data.isRead === true,
+    createdAt: data.createdAt || Timestamp.now(),
+  };
+};
+
+/**
+ * 알림 객체를 UI용 객체로 변환하는 함수
+ * @param notification 알림
+ * @returns UINotification 객체
+ */
+export const convertToUINotification = (notification: Notification): UINotification => {
+  return {
+    ...notification,
+    createdAt: notification.createdAt.toDate().toISOString(),
+  };
+};
+
+/**
+ * 미리보기 문구를 만드는 함수 (줄바꿈을 공백으로 바꾸고 길이 제한)
+ * @param text 원본 내용
+ * @returns 미리보기 문구
+ */
+const toPreview = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > PREVIEW_LENGTH ? `${singleLine.slice(0, PREVIEW_LENGTH)}…` : singleLine;
+};
+
+/**
+ * 알림들을 일괄로 기록하는 함수
+ * 자기 자신에게 보내는 알림은 제외합니다.
+ * @param notifications 기록할 알림 목록 (ID를 지정하면 같은 알림을 덮어씀)
+ */
+const writeNotifications = async (notifications: (NotificationInput & { id?: string })[]): Promise<void> => {
+  const targets = notifications.filter(n => n.recipientId && n.recipientId !== n.actorId);
+
+  for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    targets.slice(i, i + BATCH_SIZE).forEach(({ id, ...notification }) => {
+      const notificationRef = id
+        ? doc(db, NOTIFICATIONS_COLLECTION, id)
+        : doc(collection(db, NOTIFICATIONS_COLLECTION));
+      batch.set(notificationRef, {
+        ...notification,
+        isRead: false,
+        createdAt: Timestamp.now()
+      });
+    });
+    await batch.commit();
+  }
+};
+
+/**
+ * 새 댓글에 대한 알림을 기록하는 함수
+ * 게시물 작성자에게는 댓글 알림, 부모 댓글 작성자에게는 답글 알림, 멘션한 사용자에게는 멘션 알림을 보내며
+ * 한 사용자가 여러 조건에 해당하면 멘션 > 답글 > 댓글 순으로 하나만 보냅니다.
+ * @param data 댓글 정보
+ */
+export const notifyCommentCreated = async (data: {
+  postId: string;
+  postTitle: string;
+  postAuthorId: string;
+  commentId: string;
+  parentAuthorId: string | null;
+  content: string;
+  mentions: string[];
+  actorId: string;
+  actorName: string;
+}): Promise<void> => {
+  try {
+    const recipients = new Map<string, NotificationType>();
+    recipients.set(data.postAuthorId, 'comment');
+    if (data.parentAuthorId) {
+      recipients.set(data.parentAuthorId, 'reply');
+    }
+    data.mentions.forEach(userId => recipients.set(userId, 'mention'));
+
+    await writeNotifications(
+      Array.from(recipients.entries()).map(([recipientId, type]) => ({
+        recipientId,
+        type,
+        postId: data.postId,
+        postTitle: data.postTitle,
+        commentId: data.commentId,
+        actorId: data.actorId,
+        actorName: data.actorName,
+        preview: toPreview(data.content),
+        reactionType: null,
+      }))
+    );
+  } catch (error) {
+    console.error('댓글 알림 기록 오류:', error);
+  }
+};
+
+/**
+ * 반응에 대한 알림을 기록하는 함수
+ * 알림 ID를 반응 ID로 정해 같은 반응을 취소했다 다시 남겨도 알림이 쌓이지 않도록 합니다.
+ * @param data 반응 정보
+ */
+export const notifyReaction = async (data: {
+  reactionId: string;
+  recipientId: string;
+  postId: string;
+  postTitle: string;
+  commentId: string | null;
+  reactionType: ReactionType;
+  actorId: string;
+  actorName: string;
+}): Promise<void> => {
+  try {
+    await writeNotifications([{
+      id: `reaction_${data.reactionId}`,
+      recipientId: data.recipientId,
+      type: 'reaction',
+      postId: data.postId,
+      postTitle: data.postTitle,
+      commentId: data.commentId,
+      actorId: data.actorId,
+      actorName: data.actorName,
+      preview: '',
+      reactionType: data.reactionType,
+    }]);
+  } catch (error) {
+    console.error('반응 알림 기록 오류:', error);
+  }
+};
+
+/**
+ * 새 게시물을 팔로잉 피드에 이 게시물이 들어가는 사용자에게 알리는 함수
+ * (게시물의 카테고리, 태그 또는 작성자를 팔로우한 사용자)
+ * @param data 게시물 정보
+ */
+export const notifyFollowersOfNewPost = async (data: {
+  postId: string;
+  title: string;
+  category: string;
+  tags: string[];
+  authorId: string;
+  authorName: string;
+}): Promise<void> => {
+  try {
+    const followerIds = await fetchPostFollowerIds(data);
+
+    await writeNotifications(
+      followerIds.map(recipientId => ({
+        recipientId,
+        type: 'followedPost' as const,
+        postId: data.postId,
+        postTitle: data.title,
+        commentId: null,
+        actorId: data.authorId,
+        actorName: data.authorName,
+        preview: '',
+        reactionType: null,
+      }))
+    );
+  } catch (error) {
+    console.error('새 게시물 알림 기록 오류:', error);
+  }
+};
+
+/**
+ * 사용자의 최근 알림을 실시간으로 구독하는 함수
+ * @param userId 사용자 ID
+ * @param onChange 최신순 알림 목록을 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notifications: UINotification[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, NOTIFICATIONS_COLLECTION),
+    where('recipientId', '==', userId),
+    orderBy('createdAt', 'desc'),
+    limit(NOTIFICATION_LIMIT)
+  );
+
+  return onSnapshot(
+    q,
+    querySnapshot => {
+      onChange(querySnapshot.docs.map(mapDocToNotification).map(convertToUINotification));
+    },
+    error => {
+      console.error('알림 실시간 구독 오류:', error);
+      onError?.(new Error('알림을 불러오지 못했습니다.'));
+    }
+  );
+};
+
+/**
+ * 알림을 읽음으로 표시하는 함수
+ * @param notificationId 알림 ID
+ * @returns 변경 완료 Promise
+ */
+export const markNotificationAsRead = async (notificationId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, NOTIFICATIONS_COLLECTION, notificationId), { isRead: true });
+  } catch (error) {
+    console.error('알림 읽음 표시 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '알림을 읽음으로 표시하지 못했습니다.');
+  }
+};
+
+/**
+ * 사용자의 읽지 않은 알림을 모두 읽음으로 표시하는 함수
+ * @param userId 사용자 ID
+ * @returns 읽음으로 표시한 알림 수
+ */
+export const markAllNotificationsAsRead = async (userId: string): Promise<number> => {
+  try {
+    const q = query(
+      collection(db, NOTIFICATIONS_COLLECTION),
+      where('recipientId', '==', userId),
+      where('isRead', '==', false)
+    );
+    const querySnapshot = await getDocs(q);
+
+    for (let i = 0; i < querySnapshot.docs.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      querySnapshot.docs.slice(i, i + BATCH_SIZE).forEach(docSnap => {
+        batch.update(docSnap.ref, { isRead: true });
+      });
+      await batch.commit();
+    }
+
+    return querySnapshot.size;
+  } catch (error) {
+    console.error('알림 모두 읽음 표시 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '알림을 읽음으로 표시하지 못했습니다.');
+  }
+};
@@ -0,0 +1,173 @@
+/**
+ * 게시물/댓글 반응 관련 함수
+ * 반응 문서 ID를 `${대상 ID}_${반응 종류}_${사용자 ID}`로 정해 사용자가 같은 반응을 한 번만 남길 수 있도록 합니다.
+ */
+import {
+  collection,
+  doc,
+  query,
+  where,
+  onSnapshot,
+  runTransaction,
+  increment,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db } from './config';
+import { notifyReaction } from './notifications';
+import type { Reaction, UIReaction, ReactionType, ReactionTargetType } from '../../types/index';
+
+// 컬렉션 이름 상수
+const REACTIONS_COLLECTION = 'reactions';
+const POSTS_COLLECTION = 'posts';
+const COMMENTS_COLLECTION = 'comments';
+
+// 허용하는 반응 종류 (저장된 값 검증용)
+const REACTION_TYPES: ReactionType[] = ['like', 'thanks', 'funny', 'wow', 'sad'];
+
+/**
+ * Firestore 문서를 반응 객체로 변환하는 함수
+ * @param doc Firestore 문서 스냅샷
+ * @returns Reaction 객체
+ */
+const mapDocToReaction = (doc: QueryDocumentSnapshot<DocumentData>): Reaction => {
+  const data = doc.data();
+
+  return {
+    id: doc.id,
+    postId: data.postId || '',
+    targetType: data.targetType === 'comment' ? 'comment' : 'post',
+    targetId: data.targetId || '',
+    type: REACTION_TYPES.includes(data.type) ? data.type : 'like',
+    userId: data.userId || '',
+    userName: data.userName || '알 수 없음',
+    createdAt: data.createdAt || Timestamp.now(),
+  };
+};
+
+/**
+ * 반응 객체를 UI용 객체로 변환하는 함수
+ * @param reaction 반응
+ * @returns UIReaction 객체
+ */
+export const convertToUIReaction = (reaction: Reaction): UIReaction => {
+  return {
+    ...reaction,
+    createdAt: reaction.createdAt.toDate().toISOString(),
+  };
+};
+
+/**
+ * 반응을 남기거나 취소하는 함수
+ * 이미 같은 반응을 남겼다면 취소하고, 아니면 새로 남깁니다.
+ * 게시물 반응은 인기순 정렬을 위해 게시물의 반응 수(reactionCount)도 함께 갱신합니다.
+ * 반응을 남기면 대상 게시물/댓글의 작성자에게 알림을 보냅니다.
+ * @param reactionData 반응 정보
+ * @returns 반응을 남겼으면 true, 취소했으면 false
+ */
+export const toggleReaction = async (reactionData: {
+  postId: string;
+  targetType: ReactionTargetType;
+  targetId: string;
+  type: ReactionType;
+  userId: string;
+  userName: string;
+}): Promise<boolean> => {
+  try {
+    const { postId, targetType, targetId, type, userId, userName } = reactionData;
+
+    if (!postId || !targetId || !userId || !REACTION_TYPES.includes(type)) {
+      throw new Error('필수 필드가 누락되었습니다.');
+    }
+
+    const reactionId = `${targetId}_${type}_${userId}`;
+    const reactionRef = doc(db, REACTIONS_COLLECTION, reactionId);
+    const postRef = doc(db, POSTS_COLLECTION, postId);
+
+    // 트랜잭션을 사용하여 반응 기록과 게시물의 반응 수 변경을 원자적으로 처리
+    const result = await runTransaction(db, async (transaction) => {
+      const reactionSnap = await transaction.get(reactionRef);
+      const postSnap = await transaction.get(postRef);
+      if (!postSnap.exists()) {
+        throw new Error('게시물을 찾을 수 없습니다.');
+      }
+
+      // 알림을 받을 대상 작성자
+      let targetAuthorId: string = postSnap.data().authorId || '';
+      if (targetType === 'comment') {
+        const commentSnap = await transaction.get(doc(db, COMMENTS_COLLECTION, targetId));
+        if (!commentSnap.exists()) {
+          throw new Error('댓글을 찾을 수 없습니다.');
+        }
+        targetAuthorId = commentSnap.data().authorId || '';
+      }
+
+      if (reactionSnap.exists()) {
+        transaction.delete(reactionRef);
+        if (targetType === 'post') {
+          transaction.update(postRef, { reactionCount: increment(-1), reactionChangeId: reactionId });
+        }
+        return { added: false, targetAuthorId, postTitle: postSnap.data().title || '' };
+      }
+
+      transaction.set(reactionRef, {
+        postId,
+        targetType,
+        targetId,
+        type,
+        userId,
+        userName,
+        createdAt: Timestamp.now()
+      });
+      if (targetType === 'post') {
+        transaction.update(postRef, { reactionCount: increment(1), reactionChangeId: reactionId });
+      }
+      return { added: true, targetAuthorId, postTitle: postSnap.data().title || '' };
+    });
+
+    if (result.added) {
+      await notifyReaction({
+        reactionId,
+        recipientId: result.targetAuthorId,
+        postId,
+        postTitle: result.postTitle,
+        commentId: targetType === 'comment' ? targetId : null,
+        reactionType: type,
+        actorId: userId,
+        actorName: userName
+      });
+    }
+    return result.added;
+  } catch (error) {
+    console.error('반응 처리 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '반응을 남기지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
+
+/**
+ * 게시물과 그 댓글에 남긴 반응을 실시간으로 구독하는 함수
+ * @param postId 게시물 ID
+ * @param onChange 반응 목록을 받을 콜백 함수
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToPostReactions = (
+  postId: string,
+  onChange: (reactions: UIReaction[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(collection(db, REACTIONS_COLLECTION), where('postId', '==', postId));
+
+  return onSnapshot(
+    q,
+    querySnapshot => {
+      onChange(querySnapshot.docs.map(mapDocToReaction).map(convertToUIReaction));
+    },
+    error => {
+      console.error('반응 실시간 구독 오류:', error);
+      onError?.(new Error('반응을 불러오지 못했습니다.'));
+    }
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * 게시물 읽음 상태 관련 함수
+ * 사용자별로 읽은 게시물과 읽을 당시의 댓글 수를 Firestore에 저장합니다.
+ */
+import {
+  doc,
+  getDoc,
+  runTransaction,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './config';
+import type { PostReadEntry, UIPostReadEntry } from '../../types/index';
+
+// 컬렉션 이름 상수 (문서 ID는 사용자 ID)
+const READ_STATUS_COLLECTION = 'readStatus';
+
+// 읽음 상태를 추적하는 기간 (일) - 이보다 오래된 게시물은 읽은 것으로 취급
+export const UNREAD_TRACKING_DAYS = 30;
+
+// 읽음 기록을 보관하는 기간 (밀리초) - 이보다 오래전에 읽은 게시물은 추적 기간도 지났으므로 기록을 지움
+const READ_ENTRY_RETENTION_MS = UNREAD_TRACKING_DAYS * 24 * 60 * 60 * 1000;
+
+// 에러 발생 시 최대 재시도 횟수
+const MAX_RETRY_COUNT = 3;
+
+/**
+ * 지수 백오프 지연 함수
+ * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
+ */
+const delay = (attempts: number) => {
+  return new Promise(resolve => {
+    const waitTime = Math.pow(2, attempts - 1) * 1000;
+    setTimeout(resolve, waitTime);
+  });
+};
+
+/**
+ * 읽음 기록을 UI용 객체로 변환하는 함수
+ * @param entry 읽음 기록
+ * @returns UIPostReadEntry 객체
+ */
+export const convertToUIPostReadEntry = (entry: PostReadEntry): UIPostReadEntry => {
+  return {
+    readAt: entry.readAt.toDate().toISOString(),
+    commentCount: entry.commentCount,
+  };
+};
+
+/**
+ * 사용자의 게시물 읽음 기록을 가져오는 함수
+ * 실패 시 최대 MAX_RETRY_COUNT 회까지 재시도합니다.
+ * @param userId 사용자 ID
+ * @returns 게시물 ID를 키로 하는 읽음 기록
+ */
+export const fetchReadStatus = async (userId: string): Promise<Record<string, UIPostReadEntry>> => {
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const docSnap = await getDoc(doc(db, READ_STATUS_COLLECTION, userId));
+      if (!docSnap.exists()) {
+        return {};
+      }
+
+      const posts = docSnap.data().posts || {};
+      const readStatus: Record<string, UIPostReadEntry> = {};
+      Object.entries(posts).forEach(([postId, entry]) => {
+        const { readAt, commentCount } = (entry || {}) as Partial<PostReadEntry>;
+        readStatus[postId] = convertToUIPostReadEntry({
+          readAt: readAt || Timestamp.now(),
+          commentCount: commentCount || 0,
+        });
+      });
+      return readStatus;
+    } catch (error) {
+      console.error(`읽음 기록 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('읽음 기록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('읽음 기록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 게시물들을 읽음으로 표시하는 함수
+ * 기존 기록과 병합되므로 다른 게시물의 읽음 기록은 유지되며,
+ * 문서 크기 제한을 넘지 않도록 UNREAD_TRACKING_DAYS일보다 오래전에 읽은 기록은 함께 지웁니다.
+ * @param userId 사용자 ID
+ * @param posts 읽음으로 표시할 게시물 (ID와 현재 댓글 수)
+ * @returns 저장된 게시물별 읽음 기록
+ */
+export const markPostsAsRead = async (
+  userId: string,
+  posts: { id: string; comments: number }[]
+): Promise<Record<string, UIPostReadEntry>> => {
+  try {
+    if (!userId) {
+      throw new Error('사용자 ID는 필수입니다.');
+    }
+    if (posts.length === 0) {
+      return {};
+    }
+
+    const now = Timestamp.now();
+    const entries: Record<string, PostReadEntry> = {};
+    posts.forEach(post => {
+      entries[post.id] = { readAt: now, commentCount: post.comments || 0 };
+    });
+
+    const readStatusRef = doc(db, READ_STATUS_COLLECTION, userId);
+    await runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(readStatusRef);
+      const storedPosts: Record<string, Partial<PostReadEntry>> = docSnap.exists() ? docSnap.data().posts || {} : {};
+
+      const keptPosts: Record<string, Partial<PostReadEntry>> = {};
+      Object.entries(storedPosts).forEach(([postId, entry]) => {
+        if (entry?.readAt && now.toMillis() - entry.readAt.toMillis() < READ_ENTRY_RETENTION_MS) {
+          keptPosts[postId] = entry;
+        }
+      });
+
+      transaction.set(readStatusRef, {
+        userId,
+        posts: { ...keptPosts, ...entries },
+        updatedAt: now
+      });
+    });
+
+    const readStatus: Record<string, UIPostReadEntry> = {};
+    Object.entries(entries).forEach(([postId, entry]) => {
+      readStatus[postId] = convertToUIPostReadEntry(entry);
+    });
+    return readStatus;
+  } catch (error) {
+    console.error('읽음 표시 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '읽음으로 표시하지 못했습니다.');
+  }
+};
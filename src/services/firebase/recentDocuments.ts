@@ -0,0 +1,149 @@
+/**
+ * 최근 문서 관련 함수
+ * 사용자가 최근에 연 게시물 기록을 Firestore에 저장하여 여러 기기에서 동기화합니다.
+ */
+import {
+  doc,
+  getDoc,
+  deleteDoc,
+  runTransaction,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './config';
+import type { RecentDocument, UIRecentDocument } from '../../types/index';
+
+// 컬렉션 이름 상수 (문서 ID는 사용자 ID)
+const RECENT_DOCUMENTS_COLLECTION = 'recentDocuments';
+
+// 사용자별로 보관하는 최근 문서 최대 개수
+export const MAX_RECENT_DOCUMENTS = 15;
+
+// 에러 발생 시 최대 재시도 횟수
+const MAX_RETRY_COUNT = 3;
+
+/**
+ * 지수 백오프 지연 함수
+ * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
+ */
+const delay = (attempts: number) => {
+  return new Promise(resolve => {
+    const waitTime = Math.pow(2, attempts - 1) * 1000;
+    setTimeout(resolve, waitTime);
+  });
+};
+
+/**
+ * Firestore에 저장된 항목 배열을 최근 문서 목록으로 변환하는 함수
+ * @param items Firestore 문서의 items 필드
+ * @returns 유효한 최근 문서 목록
+ */
+export const parseRecentDocuments = (items: unknown): RecentDocument[] => {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  return items
+    .filter(item => item && typeof item.postId === 'string')
+    .map(item => ({
+      postId: item.postId,
+      title: item.title || '제목 없음',
+      viewedAt: item.viewedAt || Timestamp.now(),
+    }));
+};
+
+/**
+ * 최근 문서를 UI용 객체로 변환하는 함수
+ * @param document 최근 문서
+ * @returns UIRecentDocument 객체
+ */
+export const convertToUIRecentDocument = (document: RecentDocument): UIRecentDocument => {
+  return {
+    ...document,
+    viewedAt: document.viewedAt.toDate().toISOString(),
+  };
+};
+
+/**
+ * 사용자의 최근 문서 목록을 가져오는 함수
+ * 실패 시 최대 MAX_RETRY_COUNT 회까지 재시도합니다.
+ * @param userId 사용자 ID
+ * @returns 최근에 연 순서로 정렬된 최근 문서 목록
+ */
+export const fetchRecentDocuments = async (userId: string): Promise<UIRecentDocument[]> => {
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const docSnap = await getDoc(doc(db, RECENT_DOCUMENTS_COLLECTION, userId));
+      if (!docSnap.exists()) {
+        return [];
+      }
+
+      return parseRecentDocuments(docSnap.data().items)
+        .sort((a, b) => b.viewedAt.toMillis() - a.viewedAt.toMillis())
+        .map(convertToUIRecentDocument);
+    } catch (error) {
+      console.error(`최근 문서 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('최근 문서를 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('최근 문서를 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 게시물을 최근 문서에 기록하는 함수
+ * 이미 기록된 게시물은 맨 앞으로 옮기고, 최대 개수를 넘는 오래된 기록은 제거합니다.
+ * @param userId 사용자 ID
+ * @param post 연 게시물 (ID와 제목)
+ */
+export const recordRecentDocument = async (userId: string, post: { id: string; title: string }): Promise<void> => {
+  try {
+    if (!userId || !post.id) {
+      throw new Error('사용자 ID와 게시물 ID는 필수입니다.');
+    }
+
+    const recentRef = doc(db, RECENT_DOCUMENTS_COLLECTION, userId);
+
+    // 다른 기기에서 동시에 기록하더라도 목록이 유실되지 않도록 트랜잭션으로 처리
+    await runTransaction(db, async (transaction) => {
+      const recentSnap = await transaction.get(recentRef);
+      const items = recentSnap.exists() ? parseRecentDocuments(recentSnap.data().items) : [];
+      const now = Timestamp.now();
+
+      const updatedItems = [
+        { postId: post.id, title: post.title, viewedAt: now },
+        ...items.filter(item => item.postId !== post.id),
+      ].slice(0, MAX_RECENT_DOCUMENTS);
+
+      transaction.set(recentRef, {
+        userId,
+        items: updatedItems,
+        updatedAt: now
+      });
+    });
+  } catch (error) {
+    console.error('최근 문서 기록 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '최근 문서를 기록하지 못했습니다.');
+  }
+};
+
+/**
+ * 사용자의 최근 문서 기록을 모두 지우는 함수
+ * @param userId 사용자 ID
+ */
+export const clearRecentDocuments = async (userId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, RECENT_DOCUMENTS_COLLECTION, userId));
+  } catch (error) {
+    console.error('최근 문서 기록 삭제 오류:', error);
+    throw new Error('최근 문서 기록을 지우지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
@@ -0,0 +1,510 @@
+/**
+ * 휴지통 관련 함수
+ * 삭제된 게시물과 댓글을 휴지통 컬렉션으로 옮기고, 복원 및 영구 삭제 기능을 제공합니다.
+ * 보관 기간이 지난 항목은 영구 삭제되기 전이라도 목록에 표시하지 않고 복원할 수 없습니다.
+ */
+import {
+  collection,
+  doc,
+  getDocs,
+  getDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  QueryDocumentSnapshot,
+  runTransaction,
+  writeBatch,
+  increment,
+  setDoc,
+  updateDoc
+} from 'firebase/firestore';
+import { db } from './config';
+import { updateTagCounts } from './tags';
+import type { RecycleBinItem, UIRecycleBinItem } from '../../types/index';
+
+// 컬렉션 이름 상수
+const POSTS_COLLECTION = 'posts';
+const COMMENTS_COLLECTION = 'comments';
+const RECYCLE_BIN_COLLECTION = 'recycleBin';
+// 게시물과 함께 삭제된 댓글을 보관하는 휴지통 항목의 하위 컬렉션
+const ARCHIVED_COMMENTS_COLLECTION = 'comments';
+const SETTINGS_COLLECTION = 'settings';
+const GLOBAL_SETTINGS_ID = 'global-settings';
+
+// 휴지통 기본 보관 기간 (일, 0이면 자동 삭제하지 않음)
+export const DEFAULT_RECYCLE_BIN_RETENTION_DAYS = 30;
+
+// 하루 (밀리초)
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 에러 발생 시 최대 재시도 횟수
+const MAX_RETRY_COUNT = 3;
+
+// 휴지통 목록에 표시할 댓글 내용 최대 길이
+const COMMENT_TITLE_LENGTH = 40;
+
+// 한 번의 배치로 처리할 수 있는 최대 문서 수 (Firestore 제한)
+const BATCH_LIMIT = 500;
+
+// 댓글을 옮길 때 한 번의 배치로 처리할 댓글 수 (댓글마다 생성과 삭제 두 번 쓰기)
+const COMMENT_BATCH_SIZE = BATCH_LIMIT / 2;
+
+/**
+ * 지수 백오프 지연 함수
+ * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
+ */
+const delay = (attempts: number) => {
+  return new Promise(resolve => {
+    const waitTime = Math.pow(2, attempts - 1) * 1000;
+    setTimeout(resolve, waitTime);
+  });
+};
+
+/**
+ * Firestore 문서를 휴지통 항목 객체로 변환하는 함수
+ * @param doc Firestore 문서 스냅샷
+ * @returns RecycleBinItem 객체
+ */
+const mapDocToRecycleBinItem = (doc: QueryDocumentSnapshot<DocumentData>): RecycleBinItem => {
+  const data = doc.data();
+
+  return {
+    id: doc.id,
+    type: data.type === 'comment' ? 'comment' : 'post',
+    originalId: data.originalId || '',
+    ownerId: data.ownerId || '',
+    title: data.title || '제목 없음',
+    postId: data.postId,
+    commentCount: typeof data.commentCount === 'number' ? data.commentCount : 0,
+    deletedBy: data.deletedBy || '',
+    deletedByAdmin: data.deletedByAdmin === true,
+    deletedAt: data.deletedAt || Timestamp.now(),
+  };
+};
+
+/**
+ * 휴지통 항목을 UI용 객체로 변환하는 함수
+ * @param item 휴지통 항목
+ * @returns UIRecycleBinItem 객체
+ */
+export const convertToUIRecycleBinItem = (item: RecycleBinItem): UIRecycleBinItem => {
+  return {
+    ...item,
+    deletedAt: item.deletedAt.toDate().toISOString(),
+  };
+};
+
+/**
+ * 휴지통 보관 기간을 가져오는 함수
+ * 전역 설정 문서에 값이 없거나 올바르지 않으면 기본 보관 기간을 사용합니다.
+ * @returns 보관 기간 (일, 0이면 자동 삭제하지 않음)
+ */
+export const fetchRecycleBinRetentionDays = async (): Promise<number> => {
+  try {
+    const settingsSnap = await getDoc(doc(db, SETTINGS_COLLECTION, GLOBAL_SETTINGS_ID));
+    const days = settingsSnap.exists() ? settingsSnap.data().recycleBinRetentionDays : undefined;
+    return typeof days === 'number' && days >= 0 ? days : DEFAULT_RECYCLE_BIN_RETENTION_DAYS;
+  } catch (error) {
+    console.error('휴지통 보관 기간 조회 오류:', error);
+    throw new Error('휴지통 보관 기간을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
+
+/**
+ * 휴지통 항목의 보관 기간이 지났는지 확인하는 함수
+ * 자동 영구 삭제는 관리자 페이지 접속 시에만 실행되므로, 그 전에도 만료된 항목을 걸러내는 데 사용합니다.
+ * @param deletedAt 삭제 시간
+ * @param retentionDays 보관 기간 (일, 0이면 만료되지 않음)
+ * @returns 보관 기간이 지났는지 여부
+ */
+const isExpired = (deletedAt: Timestamp, retentionDays: number): boolean => {
+  return retentionDays > 0 && deletedAt.toMillis() <= Date.now() - retentionDays * DAY_MS;
+};
+
+/**
+ * 댓글 내용을 휴지통 목록용 제목으로 줄이는 함수
+ * @param content 댓글 내용
+ * @returns 요약된 제목
+ */
+const summarizeComment = (content: string): string => {
+  const singleLine = (content || '').replace(/\s+/g, ' ').trim();
+  return singleLine.length > COMMENT_TITLE_LENGTH
+    ? `${singleLine.slice(0, COMMENT_TITLE_LENGTH)}…`
+    : singleLine || '(내용 없음)';
+};
+
+/**
+ * 게시물 휴지통 항목 ID를 만드는 함수
+ * 댓글이 많은 게시물은 여러 번에 나누어 옮기므로, 중간에 실패해도 다시 시도하면 같은 항목에 이어서 보관되도록 게시물 ID로 정합니다.
+ * @param postId 게시물 ID
+ * @returns 휴지통 항목 ID
+ */
+const getPostRecycleBinId = (postId: string): string => `post_${postId}`;
+
+/**
+ * 댓글 휴지통 항목 ID를 만드는 함수
+ * 보안 규칙이 자리 표시로 남은 댓글의 복원을 휴지통 항목과 대조할 수 있도록 댓글 ID로 정합니다.
+ * @param commentId 댓글 ID
+ * @returns 휴지통 항목 ID
+ */
+const getCommentRecycleBinId = (commentId: string): string => `comment_${commentId}`;
+
+/**
+ * 휴지통 항목에 보관된 댓글을 모두 삭제하는 함수
+ * @param binRef 휴지통 항목 문서 참조
+ */
+const deleteArchivedComments = async (binRef: DocumentReference<DocumentData>): Promise<void> => {
+  const archivedSnap = await getDocs(collection(binRef, ARCHIVED_COMMENTS_COLLECTION));
+
+  for (let i = 0; i < archivedSnap.docs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    archivedSnap.docs.slice(i, i + BATCH_LIMIT).forEach(archivedDoc => {
+      batch.delete(archivedDoc.ref);
+    });
+    await batch.commit();
+  }
+};
+
+/**
+ * 게시물을 관련 댓글과 함께 휴지통으로 이동하는 함수
+ * 댓글은 문서 크기 제한을 넘지 않도록 휴지통 항목의 하위 컬렉션에 댓글마다 따로 보관하며,
+ * 배치 제한을 넘지 않도록 나누어 옮긴 뒤 마지막에 게시물을 삭제합니다.
+ * 권한 확인은 호출하는 쪽에서 수행해야 합니다.
+ * @param postId 게시물 ID
+ * @param deletedBy 삭제한 사용자 ID (비어 있으면 작성자가 삭제한 것으로 기록)
+ * @param deletedByAdmin 관리자 삭제 여부
+ * @returns 게시물이 존재하여 이동되었는지 여부
+ */
+export const movePostToRecycleBin = async (postId: string, deletedBy: string, deletedByAdmin = false): Promise<boolean> => {
+  const postRef = doc(db, POSTS_COLLECTION, postId);
+  const postSnap = await getDoc(postRef);
+
+  if (!postSnap.exists()) {
+    return false;
+  }
+
+  const postData = postSnap.data();
+  const binRef = doc(db, RECYCLE_BIN_COLLECTION, getPostRecycleBinId(postId));
+  const [binSnap, commentsSnap] = await Promise.all([
+    getDoc(binRef),
+    getDocs(query(collection(db, COMMENTS_COLLECTION), where('postId', '==', postId)))
+  ]);
+
+  // 1. 휴지통 항목 생성 (이전 시도에서 만든 항목이 있으면 처음 보관한 내용과 댓글 수를 유지하고 삭제 시간만 갱신)
+  if (binSnap.exists()) {
+    await updateDoc(binRef, { deletedAt: Timestamp.now() });
+  } else {
+    await setDoc(binRef, {
+      type: 'post',
+      originalId: postId,
+      ownerId: postData.authorId || '',
+      title: postData.title || '제목 없음',
+      deletedBy: deletedBy || postData.authorId || '',
+      deletedByAdmin,
+      deletedAt: Timestamp.now(),
+      data: postData,
+      commentCount: commentsSnap.size,
+    });
+  }
+
+  // 2. 댓글 보관 및 삭제
+  for (let i = 0; i < commentsSnap.docs.length; i += COMMENT_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    commentsSnap.docs.slice(i, i + COMMENT_BATCH_SIZE).forEach(commentDoc => {
+      batch.set(doc(binRef, ARCHIVED_COMMENTS_COLLECTION, commentDoc.id), { data: commentDoc.data() });
+      batch.delete(commentDoc.ref);
+    });
+    await batch.commit();
+  }
+
+  // 3. 게시물 삭제
+  await deleteDoc(postRef);
+
+  await updateTagCounts(postData.tags || [], []);
+  return true;
+};
+
+/**
+ * 댓글을 휴지통으로 이동하는 함수
+ * 답글이 달린 댓글은 스레드 구조를 유지하도록 문서를 지우는 대신 삭제된 댓글 자리 표시로 바꿉니다.
+ * 권한 확인은 호출하는 쪽에서 수행해야 합니다.
+ * @param commentId 댓글 ID
+ * @param deletedBy 삭제한 사용자 ID
+ * @param deletedByAdmin 관리자 삭제 여부
+ */
+export const moveCommentToRecycleBin = async (commentId: string, deletedBy: string, deletedByAdmin = false): Promise<void> => {
+  const commentRef = doc(db, COMMENTS_COLLECTION, commentId);
+
+  // 답글 존재 여부 확인 (트랜잭션 안에서는 쿼리를 실행할 수 없으므로 미리 조회)
+  const repliesSnap = await getDocs(query(
+    collection(db, COMMENTS_COLLECTION),
+    where('parentId', '==', commentId),
+    limit(1)
+  ));
+  const hasReplies = !repliesSnap.empty;
+
+  // 트랜잭션을 사용하여 댓글 이동 및 게시물의 댓글 수 감소를 원자적으로 처리
+  await runTransaction(db, async (transaction) => {
+    const commentSnap = await transaction.get(commentRef);
+    if (!commentSnap.exists()) {
+      throw new Error('댓글을 찾을 수 없습니다.');
+    }
+
+    const commentData = commentSnap.data();
+    const postRef = doc(db, POSTS_COLLECTION, commentData.postId);
+    const postSnap = await transaction.get(postRef);
+
+    // 1. 휴지통 항목 생성
+    const binRef = doc(db, RECYCLE_BIN_COLLECTION, getCommentRecycleBinId(commentId));
+    transaction.set(binRef, {
+      type: 'comment',
+      originalId: commentId,
+      ownerId: commentData.authorId || '',
+      title: summarizeComment(commentData.content),
+      postId: commentData.postId,
+      deletedBy,
+      deletedByAdmin,
+      deletedAt: Timestamp.now(),
+      data: commentData,
+    });
+
+    // 2. 댓글 삭제 (답글이 있으면 작성자 정보와 내용만 지운 자리 표시로 변경)
+    if (hasReplies) {
+      transaction.update(commentRef, {
+        content: '',
+        author: { name: '' },
+        authorId: '',
+        mentions: [],
+        isDeleted: true,
+        updatedAt: Timestamp.now()
+      });
+    } else {
+      transaction.delete(commentRef);
+    }
+
+    // 3. 게시물의 댓글 수 감소 (보안 규칙이 확인할 수 있도록 삭제한 댓글 ID도 기록)
+    if (postSnap.exists()) {
+      transaction.update(postRef, {
+        commentCount: increment(-1),
+        commentChangeId: commentId,
+        updatedAt: Timestamp.now()
+      });
+    }
+  });
+};
+
+/**
+ * 휴지통 항목 목록을 가져오는 함수
+ * 실패 시 최대 MAX_RETRY_COUNT 회까지 재시도합니다.
+ * @param ownerId 작성자 ID (지정하면 해당 사용자의 항목만 조회)
+ * @returns 최근 삭제 순으로 정렬된 휴지통 항목 목록 (보관 기간이 지난 항목 제외)
+ */
+export const fetchRecycleBinItems = async (ownerId?: string): Promise<UIRecycleBinItem[]> => {
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      // 사용자별 조회는 복합 인덱스 없이 동작하도록 클라이언트에서 정렬
+      const q = ownerId
+        ? query(collection(db, RECYCLE_BIN_COLLECTION), where('ownerId', '==', ownerId))
+        : query(collection(db, RECYCLE_BIN_COLLECTION), orderBy('deletedAt', 'desc'));
+
+      const [querySnapshot, retentionDays] = await Promise.all([
+        getDocs(q),
+        fetchRecycleBinRetentionDays()
+      ]);
+      const items = querySnapshot.docs
+        .map(mapDocToRecycleBinItem)
+        .filter(item => !isExpired(item.deletedAt, retentionDays));
+
+      if (ownerId) {
+        items.sort((a, b) => b.deletedAt.toMillis() - a.deletedAt.toMillis());
+      }
+
+      return items.map(convertToUIRecycleBinItem);
+    } catch (error) {
+      console.error(`휴지통 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('휴지통 항목을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('휴지통 항목을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 휴지통 항목을 복원할 수 있는지 확인하는 함수
+ * @param item 휴지통 항목 문서 데이터
+ * @param retentionDays 휴지통 보관 기간 (일)
+ * @param userId 현재 로그인한 사용자 ID (관리자 복원이면 생략)
+ * @throws {Error} 복원할 수 없는 경우 에러 발생
+ */
+const assertRestorable = (item: DocumentData, retentionDays: number, userId?: string) => {
+  if (item.deletedAt instanceof Timestamp && isExpired(item.deletedAt, retentionDays)) {
+    throw new Error('보관 기간이 지나 복원할 수 없는 항목입니다.');
+  }
+  if (userId && item.ownerId !== userId) {
+    throw new Error('자신이 작성한 항목만 복원할 수 있습니다.');
+  }
+  if (userId && item.deletedByAdmin === true) {
+    throw new Error('관리자가 삭제한 항목은 복원할 수 없습니다.');
+  }
+};
+
+/**
+ * 게시물 휴지통 항목에 보관된 댓글을 복원하는 함수
+ * 복원한 댓글은 보관 문서에서 지우므로, 중간에 실패해도 다시 시도하면 남은 댓글부터 이어서 복원합니다.
+ * @param binRef 휴지통 항목 문서 참조
+ */
+const restoreArchivedComments = async (binRef: DocumentReference<DocumentData>): Promise<void> => {
+  const archivedSnap = await getDocs(collection(binRef, ARCHIVED_COMMENTS_COLLECTION));
+
+  for (let i = 0; i < archivedSnap.docs.length; i += COMMENT_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    archivedSnap.docs.slice(i, i + COMMENT_BATCH_SIZE).forEach(archivedDoc => {
+      batch.set(doc(db, COMMENTS_COLLECTION, archivedDoc.id), archivedDoc.data().data);
+      batch.delete(archivedDoc.ref);
+    });
+    await batch.commit();
+  }
+};
+
+/**
+ * 휴지통 항목을 원래 위치로 복원하는 함수
+ * 게시물은 보관된 댓글을 먼저 복원한 뒤 게시물을 복원합니다.
+ * @param itemId 휴지통 항목 ID
+ * @param userId 현재 로그인한 사용자 ID (제공된 경우 작성자 본인인지, 관리자가 삭제한 항목이 아닌지 확인하며 관리자 복원에서는 생략)
+ */
+export const restoreRecycleBinItem = async (itemId: string, userId?: string): Promise<void> => {
+  try {
+    const binRef = doc(db, RECYCLE_BIN_COLLECTION, itemId);
+    // 복원된 게시물의 태그 (태그 인덱스 갱신용)
+    let restoredTags: string[] = [];
+
+    const [binSnap, retentionDays] = await Promise.all([
+      getDoc(binRef),
+      fetchRecycleBinRetentionDays()
+    ]);
+    if (!binSnap.exists()) {
+      throw new Error('휴지통 항목을 찾을 수 없습니다.');
+    }
+    assertRestorable(binSnap.data(), retentionDays, userId);
+
+    if (binSnap.data().type !== 'comment') {
+      const existingPostSnap = await getDoc(doc(db, POSTS_COLLECTION, binSnap.data().originalId));
+      if (existingPostSnap.exists()) {
+        throw new Error('같은 ID의 게시물이 이미 존재하여 복원할 수 없습니다.');
+      }
+      await restoreArchivedComments(binRef);
+    }
+
+    await runTransaction(db, async (transaction) => {
+      const binSnap = await transaction.get(binRef);
+      if (!binSnap.exists()) {
+        throw new Error('휴지통 항목을 찾을 수 없습니다.');
+      }
+
+      const item = binSnap.data();
+      assertRestorable(item, retentionDays, userId);
+
+      if (item.type === 'comment') {
+        // 댓글은 게시물이 남아 있어야 복원 가능
+        const postRef = doc(db, POSTS_COLLECTION, item.postId);
+        const postSnap = await transaction.get(postRef);
+        if (!postSnap.exists()) {
+          throw new Error('게시물이 삭제되어 댓글을 복원할 수 없습니다. 게시물을 먼저 복원해주세요.');
+        }
+
+        // 자리 표시로 남아 있던 댓글은 원래 내용으로 덮어씀
+        transaction.set(doc(db, COMMENTS_COLLECTION, item.originalId), item.data);
+        transaction.update(postRef, {
+          commentCount: increment(1),
+          commentChangeId: item.originalId,
+          updatedAt: Timestamp.now()
+        });
+      } else {
+        const postRef = doc(db, POSTS_COLLECTION, item.originalId);
+        const postSnap = await transaction.get(postRef);
+        if (postSnap.exists()) {
+          throw new Error('같은 ID의 게시물이 이미 존재하여 복원할 수 없습니다.');
+        }
+
+        transaction.set(postRef, item.data);
+        restoredTags = item.data?.tags || [];
+      }
+
+      transaction.delete(binRef);
+    });
+
+    await updateTagCounts([], restoredTags);
+  } catch (error) {
+    console.error('휴지통 항목 복원 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '항목을 복원하지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
+
+/**
+ * 휴지통 항목을 영구 삭제하는 함수
+ * 게시물 항목은 함께 보관된 댓글도 삭제합니다.
+ * @param itemId 휴지통 항목 ID
+ */
+export const deleteRecycleBinItem = async (itemId: string): Promise<void> => {
+  try {
+    const binRef = doc(db, RECYCLE_BIN_COLLECTION, itemId);
+    await deleteArchivedComments(binRef);
+    await deleteDoc(binRef);
+  } catch (error) {
+    console.error('휴지통 항목 영구 삭제 오류:', error);
+    throw new Error('항목을 영구 삭제하지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
+
+/**
+ * 휴지통 항목을 일괄 영구 삭제하는 함수
+ * @param olderThanDays 지정하면 삭제된 지 해당 일수가 지난 항목만 삭제 (생략하면 전체 삭제)
+ * @returns 영구 삭제된 항목 수
+ */
+export const purgeRecycleBinItems = async (olderThanDays?: number): Promise<number> => {
+  try {
+    const q = olderThanDays !== undefined
+      ? query(
+          collection(db, RECYCLE_BIN_COLLECTION),
+          where('deletedAt', '<=', Timestamp.fromMillis(Date.now() - olderThanDays * DAY_MS))
+        )
+      : query(collection(db, RECYCLE_BIN_COLLECTION));
+
+    const querySnapshot = await getDocs(q);
+
+    // 게시물 항목에 함께 보관된 댓글 삭제
+    for (const binDoc of querySnapshot.docs) {
+      if (binDoc.data().type === 'post') {
+        await deleteArchivedComments(binDoc.ref);
+      }
+    }
+
+    // 배치 제한을 넘지 않도록 나누어 삭제
+    for (let i = 0; i < querySnapshot.docs.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      querySnapshot.docs.slice(i, i + BATCH_LIMIT).forEach(binDoc => {
+        batch.delete(binDoc.ref);
+      });
+      await batch.commit();
+    }
+
+    return querySnapshot.docs.length;
+  } catch (error) {
+    console.error('휴지통 비우기 오류:', error);
+    throw new Error('휴지통을 비우지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
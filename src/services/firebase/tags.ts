@@ -0,0 +1,155 @@
+/**
+ * 태그 목록 관련 함수
+ * 게시물 전체를 읽지 않고 태그 목록을 얻을 수 있도록 태그별 게시물 수를 설정 문서 하나에 보관합니다.
+ * 일반 사용자는 태그 하나의 게시물 수를 1씩만 바꿀 수 있으며, 인덱스 재생성은 관리자만 할 수 있습니다.
+ */
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  increment,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './config';
+
+// 컬렉션 및 문서 ID 상수
+const POSTS_COLLECTION = 'posts';
+const SETTINGS_COLLECTION = 'settings';
+const TAG_INDEX_ID = 'tag-index';
+
+// 태그 인덱스를 게시물 전체에서 다시 계산하는 주기 (증분 갱신 누락 보정용, 24시간)
+const TAG_INDEX_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// 에러 발생 시 최대 재시도 횟수
+const MAX_RETRY_COUNT = 3;
+
+/**
+ * 지수 백오프 지연 함수
+ * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
+ */
+const delay = (attempts: number) => {
+  return new Promise(resolve => {
+    const waitTime = Math.pow(2, attempts - 1) * 1000;
+    setTimeout(resolve, waitTime);
+  });
+};
+
+/**
+ * 태그별 게시물 수에서 태그 목록을 만드는 함수
+ * @param counts 태그별 게시물 수
+ * @returns 게시물이 있는 태그 목록 (가나다순)
+ */
+const toSortedTagList = (counts: Record<string, unknown>): string[] => {
+  return Object.entries(counts)
+    .filter(([tag, count]) => tag && typeof count === 'number' && count > 0)
+    .map(([tag]) => tag)
+    .sort((a, b) => a.localeCompare(b, 'ko'));
+};
+
+/**
+ * 게시물 전체를 읽어 태그 인덱스를 다시 만드는 함수
+ * 인덱스가 없거나 오래된 경우, 백업 복원처럼 게시물이 한꺼번에 바뀐 경우에 사용하며 관리자 권한이 필요합니다.
+ * @returns 태그 목록 (가나다순)
+ */
+export const rebuildTagIndex = async (): Promise<string[]> => {
+  try {
+    const postsSnap = await getDocs(collection(db, POSTS_COLLECTION));
+    const counts: Record<string, number> = {};
+    postsSnap.docs.forEach(postDoc => {
+      const tags: unknown = postDoc.data().tags;
+      if (!Array.isArray(tags)) return;
+      new Set(tags.filter((tag): tag is string => typeof tag === 'string' && tag.length > 0)).forEach(tag => {
+        counts[tag] = (counts[tag] || 0) + 1;
+      });
+    });
+
+    await setDoc(doc(db, SETTINGS_COLLECTION, TAG_INDEX_ID), {
+      counts,
+      rebuiltAt: Timestamp.now()
+    });
+
+    return toSortedTagList(counts);
+  } catch (error) {
+    console.error('태그 인덱스 재생성 오류:', error);
+    throw new Error('태그 목록을 만들지 못했습니다. 잠시 후 다시 시도해주세요.');
+  }
+};
+
+/**
+ * 태그 인덱스가 없거나 오래된 경우에만 다시 만드는 함수
+ * 관리자 페이지에 접속할 때 실행됩니다.
+ * @returns 인덱스를 다시 만들었는지 여부
+ */
+export const rebuildStaleTagIndex = async (): Promise<boolean> => {
+  const indexSnap = await getDoc(doc(db, SETTINGS_COLLECTION, TAG_INDEX_ID));
+  const rebuiltAt = indexSnap.exists() ? indexSnap.data().rebuiltAt as Timestamp | undefined : undefined;
+
+  if (rebuiltAt && Timestamp.now().toMillis() - rebuiltAt.toMillis() <= TAG_INDEX_MAX_AGE_MS) {
+    return false;
+  }
+
+  await rebuildTagIndex();
+  return true;
+};
+
+/**
+ * 태그 목록을 가져오는 함수
+ * 태그 인덱스 문서 하나만 읽습니다. (인덱스 재생성은 관리자 페이지에서 실행)
+ * @returns 태그 목록 (가나다순)
+ */
+export const fetchTagList = async (): Promise<string[]> => {
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const indexSnap = await getDoc(doc(db, SETTINGS_COLLECTION, TAG_INDEX_ID));
+      return toSortedTagList(indexSnap.exists() ? indexSnap.data().counts || {} : {});
+    } catch (error) {
+      console.error(`태그 목록 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('태그 목록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('태그 목록을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 게시물의 태그 변경을 태그 인덱스에 반영하는 함수
+ * 보안 규칙이 태그 하나의 게시물 수를 1씩만 바꾸도록 허용하므로 태그마다 따로 기록합니다.
+ * 게시물 저장은 이미 끝난 뒤 호출되므로 실패해도 에러를 던지지 않으며,
+ * 누락된 변경은 관리자 페이지의 주기적인 인덱스 재생성으로 보정됩니다.
+ * @param previousTags 변경 전 태그 (새 게시물이면 빈 배열)
+ * @param nextTags 변경 후 태그 (삭제된 게시물이면 빈 배열)
+ */
+export const updateTagCounts = async (previousTags: string[] = [], nextTags: string[] = []): Promise<void> => {
+  const previous = new Set(previousTags.filter(Boolean));
+  const next = new Set(nextTags.filter(Boolean));
+  const changes: [string, number][] = [];
+
+  next.forEach(tag => {
+    if (!previous.has(tag)) changes.push([tag, 1]);
+  });
+  previous.forEach(tag => {
+    if (!next.has(tag)) changes.push([tag, -1]);
+  });
+
+  for (const [tag, delta] of changes) {
+    try {
+      await setDoc(doc(db, SETTINGS_COLLECTION, TAG_INDEX_ID), {
+        counts: { [tag]: increment(delta) },
+        changedTag: tag
+      }, { merge: true });
+    } catch (error) {
+      console.error(`태그 인덱스 갱신 오류 (${tag}):`, error);
+    }
+  }
+};
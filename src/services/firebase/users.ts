@@ -0,0 +1,304 @@
+/**
+ * 사용자 프로필 관련 함수
+ * 로그인할 때 users 컬렉션에 사용자 문서를 만들거나 갱신하고, 프로필(표시 이름, 소개, 프로필 이미지)을 조회·수정합니다.
+ * 프로필 문서는 로그인한 사용자 누구나 읽을 수 있으므로 이메일은 본인만 읽을 수 있는 하위 문서에 따로 보관합니다.
+ */
+import {
+  doc,
+  getDoc,
+  setDoc,
+  onSnapshot,
+  writeBatch,
+  deleteField,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  Unsubscribe
+} from 'firebase/firestore';
+import { updateProfile, User as FirebaseUser } from 'firebase/auth';
+import { db, auth } from './config';
+import type { UserProfile, UIUserProfile } from '../../types/index';
+
+// 컬렉션 이름 상수 (문서 ID는 사용자 ID)
+const USERS_COLLECTION = 'users';
+// 본인만 읽을 수 있는 계정 정보 하위 문서 (users/{uid}/private/account)
+const PRIVATE_COLLECTION = 'private';
+const ACCOUNT_DOC_ID = 'account';
+
+// 에러 발생 시 최대 재시도 횟수
+const MAX_RETRY_COUNT = 3;
+
+// 표시 이름 최대 길이
+export const MAX_DISPLAY_NAME_LENGTH = 30;
+
+// 자기소개 최대 길이
+export const MAX_BIO_LENGTH = 200;
+
+/**
+ * 지수 백오프 지연 함수
+ * 재시도 사이에 점점 늘어나는 지연 시간을 적용합니다.
+ */
+const delay = (attempts: number) => {
+  return new Promise(resolve => {
+    const waitTime = Math.pow(2, attempts - 1) * 1000;
+    setTimeout(resolve, waitTime);
+  });
+};
+
+/**
+ * 사용자의 계정 정보 하위 문서 참조를 만드는 함수
+ * 이메일, 게스트 데이터를 옮겨 받을 계정의 이메일(mergeIntoEmail)처럼 다른 사용자에게 보이면 안 되는 정보를 보관합니다.
+ * @param uid 사용자 ID
+ * @returns 계정 정보 문서 참조
+ */
+export const getPrivateAccountRef = (uid: string): DocumentReference<DocumentData> =>
+  doc(db, USERS_COLLECTION, uid, PRIVATE_COLLECTION, ACCOUNT_DOC_ID);
+
+/**
+ * Firestore 문서 데이터를 사용자 프로필로 변환하는 함수
+ * @param uid 사용자 ID
+ * @param data 문서 데이터
+ * @returns UserProfile 객체
+ */
+const mapDataToUserProfile = (uid: string, data: DocumentData): UserProfile => ({
+  uid,
+  displayName: data.displayName || '사용자',
+  photoURL: data.photoURL || '',
+  bio: data.bio || '',
+  isAnonymous: data.isAnonymous === true,
+  createdAt: data.createdAt || Timestamp.now(),
+  updatedAt: data.updatedAt || Timestamp.now(),
+  lastLoginAt: data.lastLoginAt || Timestamp.now(),
+});
+
+/**
+ * 사용자 프로필을 UI용 객체로 변환하는 함수
+ * @param profile 사용자 프로필
+ * @returns UIUserProfile 객체
+ */
+export const convertToUIUserProfile = (profile: UserProfile): UIUserProfile => ({
+  ...profile,
+  createdAt: profile.createdAt.toDate().toISOString(),
+  updatedAt: profile.updatedAt.toDate().toISOString(),
+  lastLoginAt: profile.lastLoginAt.toDate().toISOString(),
+});
+
+/**
+ * 로그인한 사용자의 users 문서를 만들거나 갱신하는 함수
+ * 처음 로그인하면 인증 정보로 문서를 만들고, 이후에는 사용자가 수정한 프로필을 덮어쓰지 않도록
+ * 익명 여부, 마지막 로그인 시간만 갱신합니다. 이메일은 계정 정보 하위 문서에 기록합니다.
+ * @param firebaseUser 로그인한 Firebase 사용자
+ * @returns 기록 완료 Promise
+ */
+export const syncUserOnLogin = async (firebaseUser: FirebaseUser): Promise<void> => {
+  try {
+    const userRef = doc(db, USERS_COLLECTION, firebaseUser.uid);
+    const userDoc = await getDoc(userRef);
+    const now = Timestamp.now();
+
+    const batch = writeBatch(db);
+    if (!userDoc.exists()) {
+      batch.set(userRef, {
+        uid: firebaseUser.uid,
+        displayName: firebaseUser.displayName || (firebaseUser.isAnonymous ? '게스트' : '사용자'),
+        photoURL: firebaseUser.photoURL || '',
+        bio: '',
+        isAnonymous: firebaseUser.isAnonymous,
+        createdAt: now,
+        updatedAt: now,
+        lastLoginAt: now
+      });
+    } else {
+      // 이전에 프로필 문서에 기록한 이메일은 지움
+      batch.set(userRef, {
+        email: deleteField(),
+        isAnonymous: firebaseUser.isAnonymous,
+        lastLoginAt: now
+      }, { merge: true });
+    }
+    batch.set(getPrivateAccountRef(firebaseUser.uid), {
+      email: firebaseUser.email || '',
+      updatedAt: now
+    }, { merge: true });
+    await batch.commit();
+  } catch (error) {
+    console.error('사용자 정보 기록 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '사용자 정보를 기록하지 못했습니다.');
+  }
+};
+
+/**
+ * 게스트 계정에 Google 계정을 연결한 뒤 users 문서를 갱신하는 함수
+ * 게스트로 만든 문서의 표시 이름('게스트')과 프로필 이미지를 Google 계정 정보로 바꿉니다.
+ * @param firebaseUser Google 계정이 연결된 Firebase 사용자
+ * @returns 기록 완료 Promise
+ */
+export const syncUserAfterUpgrade = async (firebaseUser: FirebaseUser): Promise<void> => {
+  try {
+    const now = Timestamp.now();
+    const batch = writeBatch(db);
+    batch.set(doc(db, USERS_COLLECTION, firebaseUser.uid), {
+      uid: firebaseUser.uid,
+      displayName: firebaseUser.displayName || '사용자',
+      email: deleteField(),
+      photoURL: firebaseUser.photoURL || '',
+      isAnonymous: false,
+      updatedAt: now,
+      lastLoginAt: now
+    }, { merge: true });
+    batch.set(getPrivateAccountRef(firebaseUser.uid), {
+      email: firebaseUser.email || '',
+      updatedAt: now
+    }, { merge: true });
+    await batch.commit();
+  } catch (error) {
+    console.error('업그레이드 사용자 정보 기록 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '사용자 정보를 기록하지 못했습니다.');
+  }
+};
+
+/**
+ * 게스트 데이터를 옮겨 받을 계정의 이메일을 게스트의 계정 정보 문서에 기록하는 함수
+ * 이미 가입된 Google 계정으로 업그레이드할 때 게스트로 로그인한 상태에서 호출하며,
+ * 보안 규칙은 이 이메일로 로그인한 사용자에게만 게스트 데이터를 옮길 권한을 줍니다.
+ * 병합 상태(mergeStatus)는 병합이 끝날 때까지 남도록 users 문서에 기록합니다.
+ * @param guestId 게스트 사용자 ID
+ * @param email 데이터를 옮겨 받을 계정의 이메일
+ * @returns 기록 완료 Promise
+ */
+export const requestGuestMerge = async (guestId: string, email: string): Promise<void> => {
+  try {
+    const now = Timestamp.now();
+    const batch = writeBatch(db);
+    batch.set(getPrivateAccountRef(guestId), { mergeIntoEmail: email, updatedAt: now }, { merge: true });
+    batch.set(doc(db, USERS_COLLECTION, guestId), { mergeStatus: 'pending', updatedAt: now }, { merge: true });
+    await batch.commit();
+  } catch (error) {
+    console.error('게스트 병합 요청 기록 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '게스트 데이터 이전을 준비하지 못했습니다.');
+  }
+};
+
+/**
+ * 사용자 프로필을 가져오는 함수
+ * 실패 시 최대 MAX_RETRY_COUNT 회까지 재시도합니다.
+ * @param uid 사용자 ID
+ * @returns 사용자 프로필 (문서가 없으면 null)
+ */
+export const fetchUserProfile = async (uid: string): Promise<UIUserProfile | null> => {
+  let attempts = 0;
+
+  while (attempts < MAX_RETRY_COUNT) {
+    try {
+      attempts++;
+
+      const userDoc = await getDoc(doc(db, USERS_COLLECTION, uid));
+      if (!userDoc.exists()) {
+        return null;
+      }
+      return convertToUIUserProfile(mapDataToUserProfile(uid, userDoc.data()));
+    } catch (error) {
+      console.error(`사용자 프로필 조회 오류 (시도 ${attempts}/${MAX_RETRY_COUNT}):`, error);
+
+      if (attempts >= MAX_RETRY_COUNT) {
+        throw new Error('사용자 프로필을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+      }
+
+      await delay(attempts);
+    }
+  }
+
+  throw new Error('사용자 프로필을 가져오지 못했습니다. 잠시 후 다시 시도해주세요.');
+};
+
+/**
+ * 사용자 프로필을 실시간으로 구독하는 함수
+ * @param uid 사용자 ID
+ * @param onChange 사용자 프로필을 받을 콜백 함수 (문서가 없으면 null)
+ * @param onError 구독 오류 시 호출되는 콜백 함수
+ * @returns 구독 해제 함수
+ */
+export const subscribeToUserProfile = (
+  uid: string,
+  onChange: (profile: UIUserProfile | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    doc(db, USERS_COLLECTION, uid),
+    docSnap => {
+      onChange(docSnap.exists() ? convertToUIUserProfile(mapDataToUserProfile(uid, docSnap.data())) : null);
+    },
+    error => {
+      console.error('사용자 프로필 실시간 구독 오류:', error);
+      onError?.(new Error('사용자 프로필을 불러오지 못했습니다.'));
+    }
+  );
+};
+
+/**
+ * 프로필 입력값을 검증하는 함수
+ * @param changes 수정할 프로필
+ * @returns 오류 메시지 (올바르면 null)
+ */
+export const validateProfileInput = (changes: { displayName: string; bio: string; photoURL: string }): string | null => {
+  const displayName = changes.displayName.trim();
+  if (!displayName) {
+    return '표시 이름을 입력해주세요.';
+  }
+  if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    return `표시 이름은 ${MAX_DISPLAY_NAME_LENGTH}자 이내로 입력해주세요.`;
+  }
+  if (changes.bio.trim().length > MAX_BIO_LENGTH) {
+    return `자기소개는 ${MAX_BIO_LENGTH}자 이내로 입력해주세요.`;
+  }
+  const photoURL = changes.photoURL.trim();
+  if (photoURL && !/^https?:\/\/\S+$/i.test(photoURL)) {
+    return '프로필 이미지 주소는 http:// 또는 https://로 시작해야 합니다.';
+  }
+  return null;
+};
+
+/**
+ * 현재 로그인한 사용자의 프로필을 수정하는 함수
+ * users 문서와 Firebase 인증 프로필을 함께 갱신하며, 이후 작성하는 게시물과 댓글에 새 이름이 사용됩니다.
+ * @param uid 사용자 ID
+ * @param changes 수정할 표시 이름, 자기소개, 프로필 이미지 주소
+ * @returns 수정 완료 Promise
+ */
+export const updateUserProfile = async (
+  uid: string,
+  changes: { displayName: string; bio: string; photoURL: string }
+): Promise<void> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser || currentUser.uid !== uid) {
+      throw new Error('본인의 프로필만 수정할 수 있습니다.');
+    }
+    if (currentUser.isAnonymous) {
+      throw new Error('게스트는 프로필을 수정할 수 없습니다. 로그인 후 이용해주세요.');
+    }
+
+    const validationError = validateProfileInput(changes);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const displayName = changes.displayName.trim();
+    const photoURL = changes.photoURL.trim();
+
+    await setDoc(doc(db, USERS_COLLECTION, uid), {
+      uid,
+      displayName,
+      bio: changes.bio.trim(),
+      photoURL,
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+
+    await updateProfile(currentUser, { displayName, photoURL: photoURL || null });
+    // 토큰을 갱신해 인증 상태 구독(onIdTokenChanged)에 바뀐 프로필이 전달되도록 함
+    await currentUser.getIdToken(true);
+  } catch (error) {
+    console.error('사용자 프로필 수정 오류:', error);
+    throw new Error(error instanceof Error ? error.message : '프로필을 수정하지 못했습니다.');
+  }
+};
@@ -15,8 +15,9 @@ export interface Post {
   updatedAt: Timestamp;   // 수정 시간 (Firebase Timestamp)
   commentCount: number;   // 댓글 수
   viewCount: number;      // 조회수
+  reactionCount?: number; // 게시물에 남긴 반응 수 (인기순 정렬용, 댓글 반응 제외)
   // UI 용도로 사용되는 필드
-  isNew?: boolean;        // 새 게시물 여부 (24시간 내 작성)
+  isNew?: boolean;        // 새 게시물 여부 (24시간 내 작성, 사용자별 읽음 여부는 readStatus 컬렉션 참고)
 }
 
 // UI에서 표시할 때 사용하는 포스트 타입
@@ -31,6 +32,8 @@ export interface UIPost {
   content: string;
   date: string;
   comments: number;
+  views: number;
+  reactions: number;
   isNew: boolean;
   tags: string[];
 }
@@ -45,6 +48,11 @@ export interface Comment {
     photoURL?: string;    // 작성자 프로필 이미지
   };
   authorId: string;       // 작성자 고유 ID
+  parentId: string | null; // 답글을 단 부모 댓글 ID (최상위 댓글은 null)
+  rootId: string | null;  // 답글이 속한 스레드의 최상위 댓글 ID (최상위 댓글은 null, 부모 댓글이 사라져도 스레드 위치 유지용)
+  depth: number;          // 답글 깊이 (최상위 댓글은 0)
+  isDeleted: boolean;     // 답글이 남아 있어 자리만 남기고 삭제된 댓글인지 여부
+  mentions: string[];     // 댓글에서 @멘션한 사용자 ID 목록
   createdAt: Timestamp;   // 생성 시간
   updatedAt: Timestamp;   // 수정 시간
 }
@@ -59,10 +67,176 @@ export interface UIComment {
     photoURL?: string;
   };
   authorId: string;
+  parentId: string | null;
+  rootId: string | null;
+  depth: number;
+  isDeleted: boolean;
+  mentions: string[];
   date: string;
   isEditing?: boolean;    // 편집 중인지 여부 (UI 상태용)
 }
 
+// 댓글 멘션 자동 완성 후보
+export interface MentionCandidate {
+  userId: string;         // 사용자 ID
+  name: string;           // 표시 이름 (멘션 핸들은 공백을 밑줄로 바꾼 이름)
+}
+
+// 답글을 포함한 댓글 스레드 (댓글 트리의 노드)
+export interface UICommentThread {
+  comment: UIComment;         // 댓글 (부모가 사라진 답글의 경우 삭제된 댓글 자리 표시)
+  replies: UICommentThread[]; // 작성순으로 정렬된 답글 목록
+  replyCount: number;         // 삭제되지 않은 하위 답글 수 (모든 깊이 포함)
+}
+
+// 반응 종류 (좋아요, 감사해요, 웃겨요, 놀라워요, 슬퍼요)
+export type ReactionType = 'like' | 'thanks' | 'funny' | 'wow' | 'sad';
+
+// 반응 대상 종류
+export type ReactionTargetType = 'post' | 'comment';
+
+// 게시물/댓글 반응 (사용자별, 반응 종류별로 하나)
+export interface Reaction {
+  id: string;                    // 반응 ID (`${targetId}_${type}_${userId}`)
+  postId: string;                // 반응이 속한 게시물 ID (댓글 반응 포함)
+  targetType: ReactionTargetType; // 반응 대상 종류
+  targetId: string;              // 반응 대상 ID (게시물 또는 댓글 ID)
+  type: ReactionType;            // 반응 종류
+  userId: string;                // 반응한 사용자 ID
+  userName: string;              // 반응한 사용자 이름
+  createdAt: Timestamp;          // 반응 시간
+}
+
+// UI에서 표시할 때 사용하는 반응 타입
+export interface UIReaction extends Omit<Reaction, 'createdAt'> {
+  createdAt: string;
+}
+
+// 반응 종류별 집계
+export interface ReactionSummary {
+  type: ReactionType;     // 반응 종류
+  count: number;          // 반응 수
+  userNames: string[];    // 반응한 사용자 이름 목록
+  reactedByMe: boolean;   // 현재 사용자가 반응했는지 여부
+}
+
+// 알림 종류 (내 게시물의 댓글, 내 댓글의 답글, @멘션, 반응, 팔로잉 피드의 새 게시물)
+export type NotificationType = 'comment' | 'reply' | 'mention' | 'reaction' | 'followedPost';
+
+// 사용자별 알림
+export interface Notification {
+  id: string;                  // 알림 ID
+  recipientId: string;         // 알림을 받는 사용자 ID
+  type: NotificationType;      // 알림 종류
+  postId: string;              // 알림 대상 게시물 ID (클릭 시 열림)
+  postTitle: string;           // 알림 대상 게시물 제목
+  commentId: string | null;    // 관련 댓글 ID (댓글/답글/멘션, 댓글 반응)
+  actorId: string;             // 알림을 발생시킨 사용자 ID
+  actorName: string;           // 알림을 발생시킨 사용자 이름
+  preview: string;             // 댓글 내용 등 미리보기 문구
+  reactionType: ReactionType | null; // 반응 알림의 반응 종류
+  isRead: boolean;             // 읽음 여부
+  createdAt: Timestamp;        // 알림 생성 시간
+}
+
+// UI에서 표시할 때 사용하는 알림 타입
+export interface UINotification extends Omit<Notification, 'createdAt'> {
+  createdAt: string;
+}
+
+// 팔로우 대상 종류
+export type FollowTargetType = 'category' | 'tag' | 'author';
+
+// 사용자별 팔로우 설정 (문서 ID는 사용자 ID) - 팔로잉 피드와 새 게시물 알림의 기준
+export interface FollowSettings {
+  categories: string[];        // 팔로우한 카테고리 ID 목록
+  tags: string[];              // 팔로우한 태그 목록
+  authors: string[];           // 팔로우한 작성자 ID 목록
+}
+
+// 사용자 프로필 타입 (users 컬렉션)
+export interface UserProfile {
+  uid: string;                 // 사용자 고유 ID (Firebase Auth와 연동)
+  displayName: string;         // 표시 이름
+  photoURL: string;            // 프로필 이미지 URL (없으면 빈 문자열)
+  bio: string;                 // 자기소개
+  isAnonymous: boolean;        // 익명 사용자 여부
+  createdAt: Timestamp;        // 처음 로그인한 시간
+  updatedAt: Timestamp;        // 프로필 수정 시간
+  lastLoginAt: Timestamp;      // 마지막 로그인 시간
+}
+
+// UI에서 표시할 때 사용하는 사용자 프로필 타입
+export interface UIUserProfile extends Omit<UserProfile, 'createdAt' | 'updatedAt' | 'lastLoginAt'> {
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string;
+}
+
+// 게스트 계정 업그레이드 결과
+export interface AccountUpgradeResult {
+  user: User;                  // 업그레이드 후 로그인된 사용자
+  merged: boolean;             // 이미 있던 Google 계정으로 게스트 데이터를 옮겼는지 여부 (false면 같은 계정에 Google 연결)
+  movedCount: number;          // 옮긴 게스트 데이터 수 (게시물, 댓글, 반응 등)
+}
+
+// 휴지통 항목 종류
+export type RecycleBinItemType = 'post' | 'comment';
+
+// 휴지통 관련 타입 (삭제된 게시물/댓글)
+export interface RecycleBinItem {
+  id: string;                  // 휴지통 항목 ID
+  type: RecycleBinItemType;    // 삭제된 항목 종류
+  originalId: string;          // 원래 문서 ID (복원 시 같은 ID로 복원)
+  ownerId: string;             // 원래 작성자 ID (복원 권한 확인용)
+  title: string;               // 표시용 제목 (댓글은 내용 일부)
+  postId?: string;             // 댓글이 속한 게시물 ID
+  commentCount: number;        // 게시물과 함께 보관된 댓글 수
+  deletedBy: string;           // 삭제한 사용자 ID (관리자 삭제 시 관리자 ID)
+  deletedByAdmin: boolean;     // 관리자에 의해 삭제되었는지 여부
+  deletedAt: Timestamp;        // 삭제 시간
+}
+
+// UI에서 표시할 때 사용하는 휴지통 항목 타입
+export interface UIRecycleBinItem {
+  id: string;
+  type: RecycleBinItemType;
+  originalId: string;
+  ownerId: string;
+  title: string;
+  postId?: string;
+  commentCount: number;
+  deletedBy: string;
+  deletedByAdmin: boolean;
+  deletedAt: string;
+}
+
+// 최근 문서 관련 타입 (사용자가 최근에 연 게시물)
+export interface RecentDocument {
+  postId: string;              // 게시물 ID
+  title: string;               // 열었을 때의 게시물 제목
+  viewedAt: Timestamp;         // 마지막으로 연 시간
+}
+
+// UI에서 표시할 때 사용하는 최근 문서 타입
+export interface UIRecentDocument {
+  postId: string;
+  title: string;
+  viewedAt: string;
+}
+
+// 게시물 읽음 기록 타입 (사용자별)
+export interface PostReadEntry {
+  readAt: Timestamp;           // 마지막으로 읽은 시간
+  commentCount: number;        // 읽을 당시의 댓글 수 (새 댓글 판단용)
+}
+
+// UI에서 사용하는 게시물 읽음 기록 타입
+export interface UIPostReadEntry {
+  readAt: string;
+  commentCount: number;
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -75,6 +249,7 @@ export type MenuItem =
       action?: () => void;
       disabled?: boolean;
       items?: MenuItem[];
+      shortcut?: string;  // 메뉴에 표시할 단축키 (예: 'Ctrl+N')
       isSeparator?: false;
     }
   | {
@@ -87,6 +262,123 @@ export interface Menu {
   items: MenuItem[];
 }
 
+/**
+ * 데스크톱 창 종류
+ * 창 관리자가 생성하는 앱 창의 유형입니다.
+ */
+export type AppWindowType = 'board' | 'settings' | 'newPost' | 'recycleBin' | 'profile' | 'author';
+
+/**
+ * 창 위치 및 크기 정보
+ */
+export interface WindowGeometry {
+  position: { x: number; y: number };  // 창 좌상단 좌표 (px)
+  size: { width: number; height: number }; // 창 크기 (px)
+}
+
+/**
+ * 창 관리자가 추적하는 개별 창 상태
+ */
+export interface WindowState extends WindowGeometry {
+  id: string;                   // 창 고유 ID
+  type: AppWindowType;          // 창 종류
+  key?: string;                 // 같은 키의 창은 하나만 열림 (재사용)
+  title: string;                // 제목 표시줄 텍스트
+  icon: string;                 // 작업 표시줄 등에 표시할 아이콘 (이모지)
+  minSize: { width: number; height: number }; // 최소 크기
+  isMinimized: boolean;         // 최소화 여부
+  isMaximized: boolean;         // 최대화 여부 (최대화 중에도 이전 위치/크기는 유지)
+  restoreSize?: { width: number; height: number } | null; // 좌우 스냅 이전 크기 (끌어내면 복원)
+  props?: Record<string, unknown>; // 창 컴포넌트에 전달할 추가 속성
+}
+
+/**
+ * 저장된 창 배치 정보
+ * 같은 키의 창을 다시 열 때 마지막 위치/크기를 복원하는 데 사용합니다.
+ */
+export interface SavedWindowGeometry extends WindowGeometry {
+  isMaximized: boolean;         // 최대화 여부
+}
+
+/**
+ * 세션에 저장되는 창 정보
+ */
+export interface PersistedWindow extends SavedWindowGeometry {
+  type: AppWindowType;          // 창 종류
+  key?: string;                 // 재사용 키
+  title: string;                // 제목
+  icon: string;                 // 아이콘
+  isMinimized: boolean;         // 최소화 여부
+  props?: Record<string, unknown>; // 창 컴포넌트 속성 (게시판 선택 상태 등)
+}
+
+/**
+ * 사용자별 데스크톱 세션
+ * 새로고침 또는 재로그인 시 열린 창과 선택 상태를 복원합니다.
+ */
+export interface DesktopSession {
+  windows: PersistedWindow[];   // 열린 창 목록 (z-order 순서, 마지막이 가장 위)
+  geometries: Record<string, SavedWindowGeometry>; // 창 키별 마지막 배치
+}
+
+/**
+ * 게시판 창의 선택 상태
+ * 창 속성(props)에 저장되어 세션 복원에 사용됩니다.
+ */
+export interface BoardSession {
+  selectedCategory?: string;    // 선택된 카테고리 ID
+  selectedTag?: string | null;  // 선택된 태그
+  selectedPostId?: string | null; // 선택된 게시물 ID
+  showBookmarks?: boolean;      // 북마크 모드 여부
+}
+
+/**
+ * 게시판 목록 정렬 기준
+ */
+export type PostSortOption =
+  | 'newest'    // 최신순 (작성일 내림차순)
+  | 'oldest'    // 오래된순 (작성일 오름차순)
+  | 'views'     // 조회순 (조회수 내림차순)
+  | 'comments'  // 댓글순 (댓글 수 내림차순)
+  | 'popular';  // 인기순 (반응 수 내림차순)
+
+/**
+ * 게시판 목록 기간 필터 (작성일 기준)
+ */
+export type PostPeriodFilter = 'all' | 'today' | 'week' | 'month';
+
+/**
+ * 사용자별로 기억하는 게시판 목록 보기 설정
+ */
+export interface PostListPreferences {
+  sort: PostSortOption;         // 정렬 기준
+  period: PostPeriodFilter;     // 기간 필터
+}
+
+/**
+ * 공유 링크(딥 링크)가 가리키는 게시판 항목
+ * /post/:id, /category/:id, /tag/:name 경로에서 해석됩니다.
+ */
+export type DeepLinkTarget =
+  | { type: 'post'; postId: string }        // 게시물
+  | { type: 'category'; categoryId: string } // 카테고리
+  | { type: 'tag'; tag: string };           // 태그
+
+/**
+ * 게시판 창에서 이동할 수 있는 항목 (공유 링크 대상 + 검색어)
+ */
+export type BoardNavigationTarget =
+  | DeepLinkTarget
+  | { type: 'search'; query: string };      // 검색어로 게시물 필터링
+
+/**
+ * 게시판 창에 전달되는 이동 요청
+ */
+export interface BoardNavigation {
+  target: BoardNavigationTarget; // 이동할 항목
+  requestId: number;            // 요청 ID (같은 항목으로 다시 이동할 때도 구분)
+}
+
 export interface User {
   uid: string;
   displayName: string;
@@ -97,11 +389,12 @@ export interface User {
 
 /**
  * 관리자 정보 인터페이스
- * 관리자 인증 시스템에서 사용됩니다.
+ * 로그인한 사용자의 관리자 역할(커스텀 클레임 또는 admins 문서)을 확인한 결과입니다.
  */
 export interface Admin {
-  id: string;             // 관리자 ID
+  id: string;             // 관리자 사용자 ID (Firebase Auth uid)
+  email: string;          // 관리자 이메일
+  displayName: string;    // 관리자 표시 이름
   isAdmin: boolean;       // 관리자 권한 여부
-  loggedInAt: Date;       // 로그인 시간
-  expiresAt: Date;        // 세션 만료 시간
+  loggedInAt: Date;       // 관리자 역할을 확인한 시간
 } 
\ No newline at end of file
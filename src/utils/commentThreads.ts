@@ -0,0 +1,82 @@
+/**
+ * 댓글 스레드 유틸리티
+ * 작성순 댓글 목록을 부모 댓글 기준의 트리로 묶어 답글 스레드를 만듭니다.
+ */
+import type { UIComment, UICommentThread } from '../types';
+
+/**
+ * 부모 댓글이 사라진 답글을 위해 삭제된 댓글 자리 표시를 만드는 함수
+ * 사라진 부모가 답글이었으면 답글에 기록된 스레드 최상위 댓글 아래에 둡니다.
+ * @param id 사라진 부모 댓글 ID
+ * @param reply 부모를 찾지 못한 답글
+ * @returns 삭제된 댓글 자리 표시
+ */
+const createDeletedPlaceholder = (id: string, reply: UIComment): UIComment => {
+  const depth = Math.max(reply.depth - 1, 0);
+  const parentId = depth > 0 && reply.rootId && reply.rootId !== id ? reply.rootId : null;
+
+  return {
+    id,
+    postId: reply.postId,
+    content: '',
+    author: { name: '' },
+    authorId: '',
+    parentId,
+    rootId: parentId,
+    depth,
+    isDeleted: true,
+    mentions: [],
+    date: reply.date,
+  };
+};
+
+/**
+ * 댓글 목록을 답글 스레드로 묶는 함수
+ * 답글이 모두 사라진 삭제된 댓글 자리 표시는 목록에서 제외합니다.
+ * @param comments 작성일 오름차순으로 정렬된 댓글 목록
+ * @returns 최상위 댓글 스레드 목록
+ */
+export const buildCommentThreads = (comments: UIComment[]): UICommentThread[] => {
+  const commentIds = new Set(comments.map(comment => comment.id));
+  const repliesByParent = new Map<string, UIComment[]>();
+  const roots: UIComment[] = [];
+
+  const addComment = (comment: UIComment) => {
+    if (!comment.parentId) {
+      roots.push(comment);
+      return;
+    }
+
+    // 부모 댓글 문서가 없으면 자리 표시를 만들어 스레드 모양을 유지
+    if (!commentIds.has(comment.parentId)) {
+      commentIds.add(comment.parentId);
+      addComment(createDeletedPlaceholder(comment.parentId, comment));
+    }
+
+    const siblings = repliesByParent.get(comment.parentId) || [];
+    siblings.push(comment);
+    repliesByParent.set(comment.parentId, siblings);
+  };
+
+  comments.forEach(addComment);
+
+  const buildThread = (comment: UIComment): UICommentThread | null => {
+    const replies = (repliesByParent.get(comment.id) || [])
+      .map(buildThread)
+      .filter((thread): thread is UICommentThread => thread !== null);
+    const replyCount = replies.reduce(
+      (count, reply) => count + reply.replyCount + (reply.comment.isDeleted ? 0 : 1),
+      0
+    );
+
+    if (comment.isDeleted && replyCount === 0) {
+      return null;
+    }
+    return { comment, replies, replyCount };
+  };
+
+  return roots
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(buildThread)
+    .filter((thread): thread is UICommentThread => thread !== null);
+};
@@ -0,0 +1,52 @@
+/**
+ * 데스크톱 세션 저장 유틸리티
+ * 사용자별로 열린 창의 위치/크기와 게시판 선택 상태를 로컬 스토리지에 저장하고 복원합니다.
+ */
+import type { DesktopSession } from '../types';
+
+// 로컬 스토리지 키 접두사 (사용자 ID와 결합)
+const SESSION_KEY_PREFIX = 'winxp_board_session_';
+
+/**
+ * 사용자별 세션 저장 키를 생성하는 함수
+ * @param userId 사용자 ID
+ * @returns 로컬 스토리지 키
+ */
+const getSessionKey = (userId: string): string => `${SESSION_KEY_PREFIX}${userId}`;
+
+/**
+ * 저장된 데스크톱 세션을 불러오는 함수
+ * @param userId 사용자 ID
+ * @returns 저장된 세션 (없거나 손상된 경우 null)
+ */
+export const loadDesktopSession = (userId: string): DesktopSession | null => {
+  try {
+    const stored = localStorage.getItem(getSessionKey(userId));
+    if (!stored) {
+      return null;
+    }
+
+    const parsed = JSON.parse(stored) as Partial<DesktopSession>;
+    return {
+      windows: Array.isArray(parsed.windows) ? parsed.windows : [],
+      geometries: parsed.geometries && typeof parsed.geometries === 'object' ? parsed.geometries : {},
+    };
+  } catch (error) {
+    console.error('데스크톱 세션 불러오기 오류:', error);
+    return null;
+  }
+};
+
+/**
+ * 데스크톱 세션을 저장하는 함수
+ * @param userId 사용자 ID
+ * @param session 저장할 세션
+ */
+export const saveDesktopSession = (userId: string, session: DesktopSession): void => {
+  try {
+    localStorage.setItem(getSessionKey(userId), JSON.stringify(session));
+  } catch (error) {
+    // 저장 공간 부족 등으로 실패해도 앱 동작에는 영향을 주지 않음
+    console.error('데스크톱 세션 저장 오류:', error);
+  }
+};
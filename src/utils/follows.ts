@@ -0,0 +1,47 @@
+/**
+ * 팔로잉 피드 유틸리티
+ * 팔로우한 카테고리, 태그, 작성자를 하나의 피드로 묶을 때 사용하는 상수와 함수를 제공합니다.
+ */
+import type { FollowSettings, FollowTargetType, UIPost } from '../types';
+
+/**
+ * 사이드바에 표시하는 팔로잉 피드의 가상 카테고리 ID
+ */
+export const FOLLOWING_CATEGORY_ID = 'following';
+
+/**
+ * 팔로우한 항목이 없는 기본 설정
+ */
+export const EMPTY_FOLLOWS: FollowSettings = { categories: [], tags: [], authors: [] };
+
+/**
+ * 팔로우 대상 종류별 설정 필드
+ */
+export const FOLLOW_FIELDS: Record<FollowTargetType, keyof FollowSettings> = {
+  category: 'categories',
+  tag: 'tags',
+  author: 'authors',
+};
+
+/**
+ * 팔로우한 항목이 하나라도 있는지 확인하는 함수
+ * @param follows 팔로우 설정
+ */
+export const hasFollows = (follows: FollowSettings): boolean => {
+  return follows.categories.length > 0 || follows.tags.length > 0 || follows.authors.length > 0;
+};
+
+/**
+ * 게시물이 팔로잉 피드에 속하는지 확인하는 함수
+ * 팔로우한 카테고리, 태그, 작성자 중 하나라도 해당하면 피드에 포함됩니다.
+ * @param post 게시물 (카테고리, 태그, 작성자 ID)
+ * @param follows 팔로우 설정
+ */
+export const isInFollowingFeed = (
+  post: Pick<UIPost, 'category' | 'tags' | 'authorId'>,
+  follows: FollowSettings
+): boolean => {
+  return follows.categories.includes(post.category)
+    || follows.authors.includes(post.authorId)
+    || (post.tags || []).some(tag => follows.tags.includes(tag));
+};
@@ -0,0 +1,80 @@
+/**
+ * 공유 링크 유틸리티
+ * 게시물 등 게시판 항목으로 바로 이동하는 URL을 생성하고 클립보드에 복사합니다.
+ */
+import { matchPath } from 'react-router-dom';
+import type { DeepLinkTarget } from '../types';
+
+/**
+ * 게시물 공유 URL을 생성하는 함수
+ * @param postId 게시물 ID
+ * @returns 게시물로 바로 이동하는 전체 URL
+ */
+export const getPostUrl = (postId: string): string => {
+  return `${window.location.origin}/post/${encodeURIComponent(postId)}`;
+};
+
+/**
+ * URL 경로 조각을 디코딩하는 함수 (잘못된 인코딩은 원본 그대로 반환)
+ * @param value 인코딩된 경로 조각
+ * @returns 디코딩된 문자열
+ */
+const decodePathSegment = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    console.warn('경로 디코딩 실패:', value, error);
+    return value;
+  }
+};
+
+/**
+ * 경로에서 딥 링크 대상을 해석하는 함수
+ * @param pathname 현재 경로 (예: '/post/abc123')
+ * @returns 딥 링크 대상 (딥 링크 경로가 아니면 null)
+ */
+export const parseDeepLink = (pathname: string): DeepLinkTarget | null => {
+  const postMatch = matchPath('/post/:id', pathname);
+  if (postMatch?.params.id) {
+    return { type: 'post', postId: decodePathSegment(postMatch.params.id) };
+  }
+
+  const categoryMatch = matchPath('/category/:id', pathname);
+  if (categoryMatch?.params.id) {
+    return { type: 'category', categoryId: decodePathSegment(categoryMatch.params.id) };
+  }
+
+  const tagMatch = matchPath('/tag/:name', pathname);
+  if (tagMatch?.params.name) {
+    return { type: 'tag', tag: decodePathSegment(tagMatch.params.name) };
+  }
+
+  return null;
+};
+
+/**
+ * 텍스트를 클립보드에 복사하는 함수
+ * Clipboard API를 사용할 수 없는 환경에서는 임시 textarea를 이용해 복사합니다.
+ * @param text 복사할 텍스트
+ */
+export const copyTextToClipboard = async (text: string): Promise<void> => {
+  if (navigator.clipboard && window.isSecureContext) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+
+  try {
+    if (!document.execCommand('copy')) {
+      throw new Error('클립보드 복사에 실패했습니다.');
+    }
+  } finally {
+    document.body.removeChild(textarea);
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * 멘션 유틸리티
+ * 댓글의 `@사용자이름` 멘션을 찾고, 입력 중인 멘션을 자동 완성하는 데 필요한 함수를 제공합니다.
+ */
+import type { MentionCandidate } from '../types';
+
+// 멘션 패턴 (이메일 주소처럼 앞에 글자가 붙은 @는 제외)
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_-]+)/gu;
+
+// 커서 바로 앞에서 입력 중인 멘션 패턴
+const ACTIVE_MENTION_PATTERN = /(^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_-]*)$/u;
+
+/**
+ * 사용자 이름을 멘션에 쓰는 핸들로 변환하는 함수
+ * 공백이 있는 이름은 밑줄로 이어 붙입니다. (예: '홍 길동' → '홍_길동')
+ * @param name 사용자 이름
+ * @returns 멘션 핸들
+ */
+export const toMentionHandle = (name: string): string => {
+  return name.trim().replace(/\s+/g, '_');
+};
+
+/**
+ * 텍스트를 일반 텍스트와 멘션 조각으로 나누는 함수
+ * @param text 나눌 텍스트
+ * @returns 순서대로 나열한 조각 목록 (멘션 조각은 @ 없이 핸들만 포함)
+ */
+export const splitMentions = (text: string): { text: string; mention?: string }[] => {
+  const parts: { text: string; mention?: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, start) });
+    }
+    parts.push({ text: `@${match[2]}`, mention: match[2] });
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+/**
+ * 댓글 내용에서 멘션한 사용자를 찾는 함수
+ * @param content 댓글 내용
+ * @param candidates 멘션할 수 있는 사용자 목록
+ * @returns 멘션된 사용자 ID 목록 (중복 제외)
+ */
+export const findMentionedUserIds = (content: string, candidates: MentionCandidate[]): string[] => {
+  const handles = new Set(
+    splitMentions(content)
+      .filter(part => part.mention)
+      .map(part => part.mention!.toLowerCase())
+  );
+
+  return [...new Set(
+    candidates
+      .filter(candidate => handles.has(toMentionHandle(candidate.name).toLowerCase()))
+      .map(candidate => candidate.userId)
+  )];
+};
+
+/**
+ * 커서 위치에서 입력 중인 멘션을 찾는 함수
+ * @param text 입력 중인 텍스트
+ * @param caret 커서 위치
+ * @returns 입력 중인 멘션의 시작 위치(@ 위치)와 검색어 (입력 중이 아니면 null)
+ */
+export const getActiveMention = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = ACTIVE_MENTION_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return {
+    start: (match.index ?? 0) + match[1].length,
+    query: match[2],
+  };
+};
@@ -0,0 +1,55 @@
+/**
+ * 알림 표시 유틸리티
+ * 알림 종류별 아이콘과 안내 문구를 만드는 함수를 제공합니다.
+ */
+import type { UINotification } from '../types';
+import { REACTION_OPTIONS } from './reactions';
+
+/**
+ * 알림 아이콘을 가져오는 함수
+ * @param notification 알림
+ * @returns 알림 종류를 나타내는 이모지
+ */
+export const getNotificationIcon = (notification: UINotification): string => {
+  switch (notification.type) {
+    case 'comment':
+      return '💬';
+    case 'reply':
+      return '↩️';
+    case 'mention':
+      return '📣';
+    case 'reaction':
+      return REACTION_OPTIONS.find(option => option.type === notification.reactionType)?.emoji || '👍';
+    case 'followedPost':
+      return '📰';
+    default:
+      return '🔔';
+  }
+};
+
+/**
+ * 알림 안내 문구를 만드는 함수
+ * @param notification 알림
+ * @returns 누가 무엇을 했는지 설명하는 문구
+ */
+export const getNotificationMessage = (notification: UINotification): string => {
+  const actor = `${notification.actorName}님이`;
+
+  switch (notification.type) {
+    case 'comment':
+      return `${actor} 내 게시물에 댓글을 남겼습니다.`;
+    case 'reply':
+      return `${actor} 내 댓글에 답글을 남겼습니다.`;
+    case 'mention':
+      return `${actor} 댓글에서 나를 언급했습니다.`;
+    case 'reaction': {
+      const label = REACTION_OPTIONS.find(option => option.type === notification.reactionType)?.label || '반응';
+      const target = notification.commentId ? '댓글' : '게시물';
+      return `${actor} 내 ${target}에 '${label}' 반응을 남겼습니다.`;
+    }
+    case 'followedPost':
+      return `팔로잉 피드에 ${notification.actorName}님의 새 게시물이 올라왔습니다.`;
+    default:
+      return '새 알림이 있습니다.';
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * 게시판 목록 보기 설정 저장 유틸리티
+ * 사용자별로 마지막으로 선택한 정렬 기준과 기간 필터를 로컬 스토리지에 저장하고 복원합니다.
+ */
+import type { PostListPreferences, PostSortOption, PostPeriodFilter } from '../types';
+
+// 로컬 스토리지 키 접두사 (사용자 ID와 결합)
+const PREFERENCES_KEY_PREFIX = 'winxp_board_post_list_';
+
+// 선택 가능한 정렬 기준과 기간 필터 (저장된 값 검증용)
+const SORT_OPTIONS: PostSortOption[] = ['newest', 'oldest', 'views', 'comments', 'popular'];
+const PERIOD_FILTERS: PostPeriodFilter[] = ['all', 'today', 'week', 'month'];
+
+/**
+ * 기본 목록 보기 설정 (최신순, 전체 기간)
+ */
+export const DEFAULT_POST_LIST_PREFERENCES: PostListPreferences = {
+  sort: 'newest',
+  period: 'all',
+};
+
+/**
+ * 사용자별 설정 저장 키를 생성하는 함수
+ * @param userId 사용자 ID
+ * @returns 로컬 스토리지 키
+ */
+const getPreferencesKey = (userId: string): string => `${PREFERENCES_KEY_PREFIX}${userId}`;
+
+/**
+ * 저장된 목록 보기 설정을 불러오는 함수
+ * @param userId 사용자 ID
+ * @returns 저장된 설정 (없거나 손상된 경우 기본 설정)
+ */
+export const loadPostListPreferences = (userId: string): PostListPreferences => {
+  try {
+    const stored = localStorage.getItem(getPreferencesKey(userId));
+    if (!stored) {
+      return DEFAULT_POST_LIST_PREFERENCES;
+    }
+
+    const parsed = JSON.parse(stored) as Partial<PostListPreferences>;
+    return {
+      sort: parsed.sort && SORT_OPTIONS.includes(parsed.sort) ? parsed.sort : DEFAULT_POST_LIST_PREFERENCES.sort,
+      period: parsed.period && PERIOD_FILTERS.includes(parsed.period) ? parsed.period : DEFAULT_POST_LIST_PREFERENCES.period,
+    };
+  } catch (error) {
+    console.error('게시판 목록 설정 불러오기 오류:', error);
+    return DEFAULT_POST_LIST_PREFERENCES;
+  }
+};
+
+/**
+ * 목록 보기 설정을 저장하는 함수
+ * @param userId 사용자 ID
+ * @param preferences 저장할 설정
+ */
+export const savePostListPreferences = (userId: string, preferences: PostListPreferences): void => {
+  try {
+    localStorage.setItem(getPreferencesKey(userId), JSON.stringify(preferences));
+  } catch (error) {
+    // 저장 공간 부족 등으로 실패해도 앱 동작에는 영향을 주지 않음
+    console.error('게시판 목록 설정 저장 오류:', error);
+  }
+};
@@ -0,0 +1,41 @@
+/**
+ * 반응 표시 유틸리티
+ * 반응 종류별 이모지와 이름, 대상별 반응 집계 함수를 제공합니다.
+ */
+import type { ReactionType, ReactionSummary, UIReaction } from '../types';
+
+/**
+ * 선택할 수 있는 반응 목록 (표시 순서)
+ */
+export const REACTION_OPTIONS: { type: ReactionType; emoji: string; label: string }[] = [
+  { type: 'like', emoji: '👍', label: '좋아요' },
+  { type: 'thanks', emoji: '🙏', label: '감사해요' },
+  { type: 'funny', emoji: '😂', label: '웃겨요' },
+  { type: 'wow', emoji: '😮', label: '놀라워요' },
+  { type: 'sad', emoji: '😢', label: '슬퍼요' },
+];
+
+/**
+ * 대상(게시물 또는 댓글)에 남긴 반응을 종류별로 집계하는 함수
+ * @param reactions 반응 목록
+ * @param targetId 대상 ID
+ * @param userId 현재 사용자 ID (반응 여부 표시용)
+ * @returns 반응이 있는 종류만 표시 순서대로 나열한 집계 목록
+ */
+export const summarizeReactions = (reactions: UIReaction[], targetId: string, userId?: string): ReactionSummary[] => {
+  const targetReactions = reactions
+    .filter(reaction => reaction.targetId === targetId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return REACTION_OPTIONS
+    .map(({ type }) => {
+      const typeReactions = targetReactions.filter(reaction => reaction.type === type);
+      return {
+        type,
+        count: typeReactions.length,
+        userNames: typeReactions.map(reaction => reaction.userName),
+        reactedByMe: !!userId && typeReactions.some(reaction => reaction.userId === userId),
+      };
+    })
+    .filter(summary => summary.count > 0);
+};
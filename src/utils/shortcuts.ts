@@ -0,0 +1,135 @@
+/**
+ * 키보드 단축키 유틸리티
+ * 단축키 문자열('Ctrl+N', 'Esc' 등)과 키보드 이벤트를 같은 형식으로 변환합니다.
+ */
+
+// 키 이름 별칭 (소문자 키 이름 → 단축키 표기)
+const KEY_ALIASES: Record<string, string> = {
+  escape: 'Esc',
+  esc: 'Esc',
+  arrowup: 'Up',
+  arrowdown: 'Down',
+  arrowleft: 'Left',
+  arrowright: 'Right',
+  ' ': 'Space',
+};
+
+// 화면 표시용 키 이름
+const KEY_LABELS: Record<string, string> = {
+  Up: '↑',
+  Down: '↓',
+  Left: '←',
+  Right: '→',
+};
+
+// 수정 키 표기 순서
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift'];
+
+// 단독으로는 단축키가 될 수 없는 수정 키
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+/**
+ * 키 이름을 단축키 표기로 변환하는 함수
+ * @param key 키 이름
+ * @returns 정규화된 키 이름 (예: 'n' → 'N', 'ArrowUp' → 'Up')
+ */
+const normalizeKey = (key: string): string => {
+  const alias = KEY_ALIASES[key.toLowerCase()];
+  if (alias) return alias;
+  if (key.length === 1) return key.toUpperCase();
+  return key.charAt(0).toUpperCase() + key.slice(1);
+};
+
+/**
+ * 수정 키와 키 이름으로 단축키 문자열을 만드는 함수
+ * @param modifiers 눌린 수정 키 목록
+ * @param key 키 이름
+ * @returns 단축키 문자열
+ */
+const buildShortcut = (modifiers: string[], key: string): string => {
+  const orderedModifiers = MODIFIER_ORDER.filter(modifier => modifiers.includes(modifier));
+  return [...orderedModifiers, key].join('+');
+};
+
+/**
+ * 단축키 문자열을 정규화하는 함수
+ * 대소문자와 수정 키 순서가 달라도 같은 단축키로 비교할 수 있습니다.
+ * @param shortcut 단축키 문자열 (예: 'ctrl+n', 'Shift+Ctrl+F')
+ * @returns 정규화된 단축키 문자열 (예: 'Ctrl+N', 'Ctrl+Shift+F')
+ */
+export const normalizeShortcut = (shortcut: string): string => {
+  const modifiers: string[] = [];
+  let key = '';
+
+  shortcut.split('+').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const lower = part.toLowerCase();
+    if (lower === 'ctrl' || lower === 'control' || lower === 'cmd' || lower === 'meta') {
+      modifiers.push('Ctrl');
+    } else if (lower === 'alt') {
+      modifiers.push('Alt');
+    } else if (lower === 'shift') {
+      modifiers.push('Shift');
+    } else {
+      key = normalizeKey(part);
+    }
+  });
+
+  return buildShortcut(modifiers, key);
+};
+
+/**
+ * 키보드 이벤트를 단축키 문자열로 변환하는 함수
+ * macOS의 Cmd 키는 Ctrl 키와 같이 취급합니다.
+ * @param event 키보드 이벤트
+ * @returns 단축키 문자열 (수정 키만 눌린 경우 null)
+ */
+export const eventToShortcut = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey || event.metaKey) modifiers.push('Ctrl');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+
+  // Alt 조합 시 특수 문자가 입력되는 자판을 위해 문자/숫자 키는 물리 키 코드를 사용
+  let key = event.key;
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else if (/^Digit[0-9]$/.test(event.code)) {
+    key = event.code.slice(5);
+  }
+
+  return buildShortcut(modifiers, normalizeKey(key));
+};
+
+/**
+ * 단축키를 화면 표시용 문자열로 변환하는 함수
+ * @param shortcut 단축키 문자열
+ * @returns 표시용 문자열 (예: 'Down' → '↓')
+ */
+export const formatShortcut = (shortcut: string): string => {
+  const parts = normalizeShortcut(shortcut).split('+');
+  const key = parts.pop() ?? '';
+  return [...parts, KEY_LABELS[key] ?? key].join('+');
+};
+
+/**
+ * 단축키가 Ctrl 또는 Alt 조합인지 확인하는 함수
+ * @param shortcut 정규화된 단축키 문자열
+ * @returns 조합 단축키 여부
+ */
+export const hasCommandModifier = (shortcut: string): boolean => {
+  return shortcut.startsWith('Ctrl+') || shortcut.startsWith('Alt+');
+};
+
+/**
+ * 이벤트 대상이 텍스트 입력 요소인지 확인하는 함수
+ * 입력 중에는 조합 키가 아닌 단축키(j, k, Enter 등)를 실행하지 않기 위해 사용합니다.
+ * @param target 이벤트 대상
+ * @returns 텍스트 입력 요소 여부
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tagName = target.tagName;
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT' || target.isContentEditable;
+};
@@ -27,6 +27,7 @@ export type MenuItem =
       action?: () => void;
       disabled?: boolean;
       items?: MenuItem[];
+      shortcut?: string;
       isSeparator?: false;
     }
   | {